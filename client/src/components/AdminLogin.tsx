@@ -4,9 +4,14 @@ import { useToast } from "@/hooks/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import StaffTwoFactorSettings from "@/components/StaffTwoFactorSettings";
 import { 
-  Shield, LogOut, Clock, Users, Plus, Edit, Trash2, Eye, Ban, Key
+  Shield, LogOut, Clock, Users, Plus, Edit, Trash2, Eye, Ban, Key, Smartphone, Download, ShieldCheck
 } from "lucide-react";
+import {
+  STAFF_ROLES, STAFF_ROLE_LABELS, STAFF_PERMISSIONS, STAFF_PERMISSION_LABELS, ALL_STAFF_PERMISSIONS,
+  type StaffRole, type StaffPermission
+} from "@shared/authSchema";
 
 interface AdminLoginProps {
   onViewChange: (view: string) => void;
@@ -17,49 +22,75 @@ export default function AdminLogin({ onViewChange }: AdminLoginProps) {
   const [auth, setAuth] = useState({ username: "", password: "" });
   const [staffLogs, setStaffLogs] = useState<any[]>([]);
   const [selectedStaffMember, setSelectedStaffMember] = useState<number | null>(null);
+  const [logFilter, setLogFilter] = useState({ action: "", targetType: "", from: "", to: "" });
+  const [logFilterOptions, setLogFilterOptions] = useState<{ actions: string[]; targetTypes: string[] }>({ actions: [], targetTypes: [] });
   const [staffMembers, setStaffMembers] = useState<any[]>([]);
   const [allStaff, setAllStaff] = useState<any[]>([]);
   const [isAddingStaff, setIsAddingStaff] = useState(false);
   const [editingStaff, setEditingStaff] = useState<any>(null);
-  const [newStaff, setNewStaff] = useState({ username: "", password: "" });
+  const [newStaff, setNewStaff] = useState<{ username: string; password: string; role: StaffRole }>({ username: "", password: "", role: "counter_staff" });
+  const [currentStaff, setCurrentStaff] = useState<{ id: number; username: string; role: StaffRole; permissions: StaffPermission[] } | null>(null);
+  const [rolePermissions, setRolePermissions] = useState<Record<StaffRole, StaffPermission[]> | null>(null);
+  const [roleTwoFactorRequired, setRoleTwoFactorRequired] = useState<Record<StaffRole, boolean> | null>(null);
+  const [awaitingTwoFactor, setAwaitingTwoFactor] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
   const { toast } = useToast();
 
+  const hasPermission = (permission: StaffPermission) =>
+    currentStaff?.permissions.includes(permission) ?? false;
+
+  const loadRoles = async () => {
+    const rolesResponse = await fetch('/api/staff/roles');
+    if (rolesResponse.ok) {
+      const data = await rolesResponse.json();
+      setRolePermissions(data.rolePermissions);
+      setRoleTwoFactorRequired(data.twoFactorRequired);
+    }
+  };
+
+  const loadStaffMembers = async () => {
+    const staffResponse = await fetch('/api/staff/members');
+    if (staffResponse.ok) {
+      const members = await staffResponse.json();
+      setStaffMembers(members);
+      setAllStaff(members);
+    }
+  };
+
   const handleAuthentication = async () => {
     try {
-      const response = await fetch('/api/staff/logs/view', {
+      // Open a staff session first - every /api/staff route requires one
+      const loginResponse = await fetch('/api/staff/login', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(auth)
       });
-      
-      if (response.ok) {
-        const logs = await response.json();
-        setStaffLogs(logs);
-        setAuthenticated(true);
-        
-        // Fetch staff members for filtering
-        try {
-          const staffResponse = await fetch('/api/staff/members');
-          if (staffResponse.ok) {
-            const members = await staffResponse.json();
-            setStaffMembers(members);
-            setAllStaff(members);
-          }
-        } catch (err) {
-          console.error('Failed to fetch staff members:', err);
-        }
-        
-        toast({
-          title: "Access Granted",
-          description: "Admin panel loaded successfully."
-        });
-      } else {
+
+      if (!loginResponse.ok) {
         toast({
           title: "Access Denied",
           description: "Invalid admin credentials.",
           variant: "destructive"
         });
+        return;
+      }
+
+      const result = await loginResponse.json();
+      if (result.twoFactorRequired) {
+        setTwoFactorCode("");
+        setAwaitingTwoFactor(true);
+        return;
+      }
+      if (result.twoFactorEnrollmentRequired) {
+        toast({
+          title: "Two-Factor Setup Required",
+          description: "Your role requires two-factor authentication. Sign in through Staff Login once to set it up.",
+          variant: "destructive"
+        });
+        return;
       }
+
+      await openAdminPanel(result);
     } catch (error) {
       toast({
         title: "Error",
@@ -69,15 +100,104 @@ export default function AdminLogin({ onViewChange }: AdminLoginProps) {
     }
   };
 
+  const handleTwoFactorVerification = async () => {
+    try {
+      const response = await fetch('/api/staff/login/2fa', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: twoFactorCode })
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        setTwoFactorCode("");
+        if (response.status === 401 && error.attemptsRemaining === undefined) {
+          // Challenge expired - start again from the password
+          setAwaitingTwoFactor(false);
+        }
+        toast({
+          title: "Access Denied",
+          description: error.message || "Invalid authentication code.",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      setAwaitingTwoFactor(false);
+      await openAdminPanel(await response.json());
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to verify code. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const openAdminPanel = async (staff: any) => {
+    const permissions: StaffPermission[] = staff.permissions || [];
+    const canViewLogs = permissions.includes(STAFF_PERMISSIONS.VIEW_AUDIT_LOG);
+    const canManageStaff = permissions.includes(STAFF_PERMISSIONS.MANAGE_STAFF);
+
+    if (!canViewLogs && !canManageStaff) {
+      await fetch('/api/staff/logout', { method: 'POST' });
+      toast({
+        title: "Access Denied",
+        description: "Your role does not have access to the admin panel.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setCurrentStaff({ id: staff.id, username: staff.username, role: staff.role, permissions });
+    setAuthenticated(true);
+
+    if (canViewLogs) {
+      const response = await fetch('/api/staff/logs/view', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      });
+      if (response.ok) {
+        setStaffLogs(await response.json());
+      }
+      const filtersResponse = await fetch('/api/staff/logs/filters');
+      if (filtersResponse.ok) {
+        setLogFilterOptions(await filtersResponse.json());
+      }
+    }
+
+    // Fetch staff members for filtering and management
+    try {
+      await loadStaffMembers();
+      if (canManageStaff) {
+        await loadRoles();
+      }
+    } catch (err) {
+      console.error('Failed to fetch staff members:', err);
+    }
+
+    toast({
+      title: "Access Granted",
+      description: `Signed in as ${staff.username} (${STAFF_ROLE_LABELS[staff.role as StaffRole] || staff.role}).`
+    });
+  };
+
+  // Date inputs give whole days; the range covers both days in full
+  const buildLogQuery = () => ({
+    staffId: selectedStaffMember ?? "",
+    action: logFilter.action,
+    targetType: logFilter.targetType,
+    from: logFilter.from ? new Date(`${logFilter.from}T00:00:00`).toISOString() : "",
+    to: logFilter.to ? new Date(`${logFilter.to}T23:59:59.999`).toISOString() : ""
+  });
+
   const refreshLogs = async () => {
     try {
       const response = await fetch('/api/staff/logs/view', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          ...auth, 
-          staffId: selectedStaffMember 
-        })
+        body: JSON.stringify(buildLogQuery())
       });
       
       if (response.ok) {
@@ -85,9 +205,7 @@ export default function AdminLogin({ onViewChange }: AdminLoginProps) {
         setStaffLogs(logs);
         toast({
           title: "Logs Updated",
-          description: selectedStaffMember ? 
-            `Showing logs for staff ID ${selectedStaffMember}` : 
-            "Showing all staff logs"
+          description: `Showing ${logs.length} matching log entries`
         });
       }
     } catch (error) {
@@ -99,6 +217,73 @@ export default function AdminLogin({ onViewChange }: AdminLoginProps) {
     }
   };
 
+  const exportLogs = async () => {
+    try {
+      const params = new URLSearchParams(
+        Object.entries(buildLogQuery()).filter(([, value]) => value !== "").map(([key, value]) => [key, String(value)])
+      );
+      const response = await fetch(`/api/staff/logs/export?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error('Export failed');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `staff-logs-${new Date().toISOString().split('T')[0]}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to export logs",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const verifyLogs = async () => {
+    try {
+      const response = await fetch('/api/staff/logs/verify');
+      if (!response.ok) {
+        throw new Error('Verification failed');
+      }
+      const result = await response.json();
+      toast(result.valid ? {
+        title: "Audit Log Intact",
+        description: `${result.entriesChecked} entries verified${result.legacyEntries ? ` (${result.legacyEntries} older entries predate the hash chain)` : ''}.`
+      } : {
+        title: "Audit Log Tampering Detected",
+        description: `Log entry #${result.staffLogId}: ${result.reason}.`,
+        variant: "destructive"
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to verify logs",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/staff/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Failed to end staff session:', error);
+    }
+    setAuthenticated(false);
+    setCurrentStaff(null);
+    setRolePermissions(null);
+    setRoleTwoFactorRequired(null);
+    setStaffLogs([]);
+    setStaffMembers([]);
+    setAllStaff([]);
+    setSelectedStaffMember(null);
+    setLogFilter({ action: "", targetType: "", from: "", to: "" });
+    setAuth({ username: "", password: "" });
+  };
+
   const addStaff = async () => {
     try {
       const response = await fetch('/api/staff/create', {
@@ -112,16 +297,11 @@ export default function AdminLogin({ onViewChange }: AdminLoginProps) {
           title: "Staff Added",
           description: `New staff member ${newStaff.username} has been created.`
         });
-        setNewStaff({ username: "", password: "" });
+        setNewStaff({ username: "", password: "", role: "counter_staff" });
         setIsAddingStaff(false);
         
         // Refresh staff list
-        const staffResponse = await fetch('/api/staff/members');
-        if (staffResponse.ok) {
-          const members = await staffResponse.json();
-          setAllStaff(members);
-          setStaffMembers(members);
-        }
+        await loadStaffMembers();
       } else {
         const error = await response.json();
         toast({
@@ -168,6 +348,167 @@ export default function AdminLogin({ onViewChange }: AdminLoginProps) {
     }
   };
 
+  const changeStaffRole = async (staffId: number, role: StaffRole) => {
+    try {
+      const response = await fetch(`/api/staff/${staffId}/role`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role })
+      });
+
+      if (response.ok) {
+        toast({
+          title: "Role Updated",
+          description: `Role changed to ${STAFF_ROLE_LABELS[role]}.`
+        });
+        await loadStaffMembers();
+      } else {
+        const error = await response.json();
+        toast({
+          title: "Failed to Change Role",
+          description: error.message || "Could not change staff role",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to change staff role",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const toggleRolePermission = async (role: StaffRole, permission: StaffPermission) => {
+    if (!rolePermissions) return;
+
+    const current = rolePermissions[role];
+    const permissions = current.includes(permission)
+      ? current.filter(p => p !== permission)
+      : [...current, permission];
+
+    try {
+      const response = await fetch(`/api/staff/roles/${role}/permissions`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ permissions })
+      });
+
+      if (response.ok) {
+        setRolePermissions({ ...rolePermissions, [role]: permissions });
+      } else {
+        const error = await response.json();
+        toast({
+          title: "Failed to Update Permissions",
+          description: error.message || "Could not update role permissions",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update role permissions",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const toggleRoleTwoFactor = async (role: StaffRole) => {
+    if (!roleTwoFactorRequired) return;
+
+    const required = !roleTwoFactorRequired[role];
+    try {
+      const response = await fetch(`/api/staff/roles/${role}/two-factor`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ required })
+      });
+
+      if (response.ok) {
+        setRoleTwoFactorRequired({ ...roleTwoFactorRequired, [role]: required });
+        toast({
+          title: "2FA Policy Updated",
+          description: `${STAFF_ROLE_LABELS[role]}: two-factor authentication ${required ? "required" : "optional"}.`
+        });
+      } else {
+        const error = await response.json();
+        toast({
+          title: "Failed to Update 2FA Policy",
+          description: error.message || "Could not update two-factor policy",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update two-factor policy",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const resetStaffTwoFactor = async (staffId: number, username: string) => {
+    if (!window.confirm(`Reset two-factor authentication for "${username}"? They will need to set it up again.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/staff/${staffId}/2fa`, {
+        method: 'DELETE'
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        toast({
+          title: "2FA Reset",
+          description: result.message
+        });
+        await loadStaffMembers();
+      } else {
+        const error = await response.json();
+        toast({
+          title: "Failed to Reset 2FA",
+          description: error.message || "Could not reset two-factor authentication",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to reset two-factor authentication",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const endStaffSessions = async (staffId: number, username: string) => {
+    try {
+      const response = await fetch(`/api/staff/${staffId}/sessions`, {
+        method: 'DELETE'
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        toast({
+          title: "Sessions Ended",
+          description: `${username}: ${result.message}`
+        });
+      } else {
+        toast({
+          title: "Failed to End Sessions",
+          description: "Could not log out staff member",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to end staff sessions",
+        variant: "destructive"
+      });
+    }
+  };
+
   const removeStaff = async (staffId: number, username: string) => {
     if (window.confirm(`Are you sure you want to remove staff member "${username}"? This action cannot be undone.`)) {
       try {
@@ -182,12 +523,7 @@ export default function AdminLogin({ onViewChange }: AdminLoginProps) {
           });
           
           // Refresh staff list
-          const staffResponse = await fetch('/api/staff/members');
-          if (staffResponse.ok) {
-            const members = await staffResponse.json();
-            setAllStaff(members);
-            setStaffMembers(members);
-          }
+          await loadStaffMembers();
         } else {
           toast({
             title: "Failed to Remove Staff",
@@ -214,43 +550,78 @@ export default function AdminLogin({ onViewChange }: AdminLoginProps) {
               <Shield className="w-6 h-6 text-white" />
             </div>
             <CardTitle className="text-2xl">Admin Login</CardTitle>
-            <p className="text-slate-600">Enter admin credentials to access the panel</p>
+            <p className="text-slate-600">Sign in with a staff account that can view the audit log or manage staff</p>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-slate-700 mb-2">Username</label>
-              <input
-                type="text"
-                value={auth.username}
-                onChange={(e) => setAuth(prev => ({ ...prev, username: e.target.value }))}
-                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                placeholder="Enter username"
-              />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-slate-700 mb-2">Password</label>
-              <input
-                type="password"
-                value={auth.password}
-                onChange={(e) => setAuth(prev => ({ ...prev, password: e.target.value }))}
-                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                placeholder="Enter password"
-              />
-            </div>
-            <Button
-              onClick={handleAuthentication}
-              className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white"
-            >
-              <Shield className="w-4 h-4 mr-2" />
-              Access Admin Panel
-            </Button>
-            <Button
-              onClick={() => onViewChange('role-selection')}
-              variant="outline"
-              className="w-full"
-            >
-              Back to Home
-            </Button>
+            {awaitingTwoFactor ? (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Authentication Code</label>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-center tracking-widest"
+                    placeholder="6-digit code or recovery code"
+                    autoFocus
+                  />
+                </div>
+                <Button
+                  onClick={handleTwoFactorVerification}
+                  disabled={twoFactorCode.trim().length < 6}
+                  className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white"
+                >
+                  <Smartphone className="w-4 h-4 mr-2" />
+                  Verify Code
+                </Button>
+                <Button
+                  onClick={() => setAwaitingTwoFactor(false)}
+                  variant="outline"
+                  className="w-full"
+                >
+                  Start Over
+                </Button>
+              </>
+            ) : (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Username</label>
+                  <input
+                    type="text"
+                    value={auth.username}
+                    onChange={(e) => setAuth(prev => ({ ...prev, username: e.target.value }))}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Enter username"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Password</label>
+                  <input
+                    type="password"
+                    value={auth.password}
+                    onChange={(e) => setAuth(prev => ({ ...prev, password: e.target.value }))}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Enter password"
+                  />
+                </div>
+                <Button
+                  onClick={handleAuthentication}
+                  className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white"
+                >
+                  <Shield className="w-4 h-4 mr-2" />
+                  Access Admin Panel
+                </Button>
+                <Button
+                  onClick={() => onViewChange('role-selection')}
+                  variant="outline"
+                  className="w-full"
+                >
+                  Back to Home
+                </Button>
+              </>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -269,7 +640,10 @@ export default function AdminLogin({ onViewChange }: AdminLoginProps) {
               </div>
               <div>
                 <h1 className="text-xl font-bold text-slate-800">Admin Panel</h1>
-                <p className="text-sm text-slate-600">Staff Activity & Management</p>
+                <p className="text-sm text-slate-600">
+                  Staff Activity & Management
+                  {currentStaff && ` · ${currentStaff.username} (${STAFF_ROLE_LABELS[currentStaff.role]})`}
+                </p>
               </div>
             </div>
             <div className="flex items-center space-x-2">
@@ -281,14 +655,7 @@ export default function AdminLogin({ onViewChange }: AdminLoginProps) {
                 Back to Home
               </Button>
               <Button
-                onClick={() => {
-                  setAuthenticated(false);
-                  setStaffLogs([]);
-                  setStaffMembers([]);
-                  setAllStaff([]);
-                  setSelectedStaffMember(null);
-                  setAuth({ username: "", password: "" });
-                }}
+                onClick={handleLogout}
                 variant="outline"
                 size="sm"
               >
@@ -302,10 +669,12 @@ export default function AdminLogin({ onViewChange }: AdminLoginProps) {
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 py-8">
-        <Tabs defaultValue="activity" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2">
-            <TabsTrigger value="activity">Staff Activity</TabsTrigger>
-            <TabsTrigger value="management">Staff Management</TabsTrigger>
+        <Tabs defaultValue={hasPermission(STAFF_PERMISSIONS.VIEW_AUDIT_LOG) ? "activity" : "management"} className="space-y-6">
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="activity" disabled={!hasPermission(STAFF_PERMISSIONS.VIEW_AUDIT_LOG)}>Staff Activity</TabsTrigger>
+            <TabsTrigger value="management" disabled={!hasPermission(STAFF_PERMISSIONS.MANAGE_STAFF)}>Staff Management</TabsTrigger>
+            <TabsTrigger value="roles" disabled={!hasPermission(STAFF_PERMISSIONS.MANAGE_STAFF)}>Roles & Permissions</TabsTrigger>
+            <TabsTrigger value="security">My Security</TabsTrigger>
           </TabsList>
 
           {/* Staff Activity Tab */}
@@ -333,11 +702,61 @@ export default function AdminLogin({ onViewChange }: AdminLoginProps) {
                         ))}
                       </SelectContent>
                     </Select>
-                    <Button onClick={refreshLogs} size="sm" variant="outline">
-                      <Clock className="w-4 h-4 mr-1" />
-                      Refresh
-                    </Button>
+                    <Select value={logFilter.action || "all"} onValueChange={(value) => setLogFilter(prev => ({ ...prev, action: value === "all" ? "" : value }))}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue placeholder="All Actions" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Actions</SelectItem>
+                        {logFilterOptions.actions.map((action) => (
+                          <SelectItem key={action} value={action}>{action.replace(/_/g, ' ')}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={logFilter.targetType || "all"} onValueChange={(value) => setLogFilter(prev => ({ ...prev, targetType: value === "all" ? "" : value }))}>
+                      <SelectTrigger className="w-40">
+                        <SelectValue placeholder="All Targets" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Targets</SelectItem>
+                        {logFilterOptions.targetTypes.map((targetType) => (
+                          <SelectItem key={targetType} value={targetType}>{targetType}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-end gap-4 mb-4">
+                  <div>
+                    <label className="block text-sm font-medium mb-1">From</label>
+                    <input
+                      type="date"
+                      value={logFilter.from}
+                      onChange={(e) => setLogFilter(prev => ({ ...prev, from: e.target.value }))}
+                      className="px-3 py-2 border rounded-lg"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1">To</label>
+                    <input
+                      type="date"
+                      value={logFilter.to}
+                      onChange={(e) => setLogFilter(prev => ({ ...prev, to: e.target.value }))}
+                      className="px-3 py-2 border rounded-lg"
+                    />
                   </div>
+                  <Button onClick={refreshLogs} size="sm" variant="outline">
+                    <Clock className="w-4 h-4 mr-1" />
+                    Apply Filters
+                  </Button>
+                  <Button onClick={exportLogs} size="sm" variant="outline" data-testid="button-export-logs">
+                    <Download className="w-4 h-4 mr-1" />
+                    Export CSV
+                  </Button>
+                  <Button onClick={verifyLogs} size="sm" variant="outline" data-testid="button-verify-logs">
+                    <ShieldCheck className="w-4 h-4 mr-1" />
+                    Verify Integrity
+                  </Button>
                 </div>
 
                 <div className="space-y-3 max-h-96 overflow-y-auto">
@@ -349,7 +768,7 @@ export default function AdminLogin({ onViewChange }: AdminLoginProps) {
                   ) : (
                     staffLogs
                       .sort((a: any, b: any) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-                      .slice(0, 15)
+                      .slice(0, 50)
                       .map((log: any) => {
                         const isLogin = log.action === 'STAFF_LOGIN';
                         const actionColor = isLogin ? 'text-green-600' : log.action.includes('DELETE') ? 'text-red-600' : 'text-blue-600';
@@ -427,7 +846,7 @@ export default function AdminLogin({ onViewChange }: AdminLoginProps) {
                   <Card className="mb-4 border-blue-200 bg-blue-50">
                     <CardContent className="p-4">
                       <h4 className="font-semibold mb-3">Add New Staff Member</h4>
-                      <div className="grid grid-cols-2 gap-4">
+                      <div className="grid grid-cols-3 gap-4">
                         <div>
                           <label className="block text-sm font-medium mb-1">Username</label>
                           <input
@@ -448,6 +867,19 @@ export default function AdminLogin({ onViewChange }: AdminLoginProps) {
                             placeholder="Enter password"
                           />
                         </div>
+                        <div>
+                          <label className="block text-sm font-medium mb-1">Role</label>
+                          <Select value={newStaff.role} onValueChange={(value) => setNewStaff(prev => ({ ...prev, role: value as StaffRole }))}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {STAFF_ROLES.map((role) => (
+                                <SelectItem key={role} value={role}>{STAFF_ROLE_LABELS[role]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
                       </div>
                       <div className="flex items-center space-x-2 mt-3">
                         <Button onClick={addStaff} size="sm">
@@ -468,9 +900,21 @@ export default function AdminLogin({ onViewChange }: AdminLoginProps) {
                         <div className="flex items-center justify-between">
                           <div>
                             <h4 className="font-semibold">{staff.username}</h4>
-                            <p className="text-sm text-slate-600">ID: {staff.id}</p>
+                            <p className="text-sm text-slate-600">
+                              ID: {staff.id} · 2FA {staff.twoFactorEnabled ? "enabled" : "off"}
+                            </p>
                           </div>
                           <div className="flex items-center space-x-2">
+                            <Select value={staff.role} onValueChange={(value) => changeStaffRole(staff.id, value as StaffRole)}>
+                              <SelectTrigger className="w-40">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {STAFF_ROLES.map((role) => (
+                                  <SelectItem key={role} value={role}>{STAFF_ROLE_LABELS[role]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
                             <Button
                               onClick={() => {
                                 const newPassword = prompt(`Enter new password for ${staff.username}:`);
@@ -484,6 +928,24 @@ export default function AdminLogin({ onViewChange }: AdminLoginProps) {
                               <Key className="w-4 h-4 mr-1" />
                               Reset Password
                             </Button>
+                            {staff.twoFactorEnabled && (
+                              <Button
+                                onClick={() => resetStaffTwoFactor(staff.id, staff.username)}
+                                size="sm"
+                                variant="outline"
+                              >
+                                <Smartphone className="w-4 h-4 mr-1" />
+                                Reset 2FA
+                              </Button>
+                            )}
+                            <Button
+                              onClick={() => endStaffSessions(staff.id, staff.username)}
+                              size="sm"
+                              variant="outline"
+                            >
+                              <LogOut className="w-4 h-4 mr-1" />
+                              Log Out Everywhere
+                            </Button>
                             <Button
                               onClick={() => removeStaff(staff.id, staff.username)}
                               size="sm"
@@ -502,6 +964,76 @@ export default function AdminLogin({ onViewChange }: AdminLoginProps) {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Roles & Permissions Tab */}
+          <TabsContent value="roles" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Key className="w-5 h-5 mr-2 text-blue-500" />
+                  Roles & Permissions
+                </CardTitle>
+                <p className="text-sm text-slate-600">Owners always hold every permission.</p>
+              </CardHeader>
+              <CardContent>
+                {!rolePermissions ? (
+                  <p className="text-slate-600">Loading roles...</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b">
+                          <th className="text-left py-2 pr-4">Permission</th>
+                          {STAFF_ROLES.map((role) => (
+                            <th key={role} className="text-center py-2 px-2">{STAFF_ROLE_LABELS[role]}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {ALL_STAFF_PERMISSIONS.map((permission) => (
+                          <tr key={permission} className="border-b last:border-0">
+                            <td className="py-2 pr-4">{STAFF_PERMISSION_LABELS[permission]}</td>
+                            {STAFF_ROLES.map((role) => (
+                              <td key={role} className="text-center py-2 px-2">
+                                <input
+                                  type="checkbox"
+                                  checked={rolePermissions[role].includes(permission)}
+                                  disabled={role === "owner"}
+                                  onChange={() => toggleRolePermission(role, permission)}
+                                  className="h-4 w-4"
+                                />
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                        {roleTwoFactorRequired && (
+                          <tr className="border-t-2">
+                            <td className="py-2 pr-4 font-medium">Require two-factor authentication</td>
+                            {STAFF_ROLES.map((role) => (
+                              <td key={role} className="text-center py-2 px-2">
+                                <input
+                                  type="checkbox"
+                                  checked={roleTwoFactorRequired[role]}
+                                  disabled={role === "owner" && currentStaff?.role !== "owner"}
+                                  onChange={() => toggleRoleTwoFactor(role)}
+                                  className="h-4 w-4"
+                                />
+                              </td>
+                            ))}
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* My Security Tab */}
+          <TabsContent value="security" className="space-y-4">
+            <StaffTwoFactorSettings />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,88 @@
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { CalendarClock, Car } from "lucide-react";
+import type { BookingAlternatives as Alternatives } from "@shared/fleetSchema";
+
+interface BookingAlternativesProps {
+  alternatives: Alternatives;
+  onSelectDates: (startDate: Date, endDate: Date) => void;
+  onSelectVehicle: (vehicleId: number) => void;
+  disabled?: boolean;
+}
+
+const formatRM = (amount: number | string) => `RM ${parseFloat(String(amount)).toFixed(2)}`;
+
+const describeShift = (shiftDays: number) => {
+  const days = Math.abs(shiftDays);
+  return `${days} day${days === 1 ? '' : 's'} ${shiftDays < 0 ? 'earlier' : 'later'}`;
+};
+
+// One-click alternatives offered when the chosen vehicle is taken: the same
+// vehicle on nearby dates, or a similar vehicle on the same dates.
+export default function BookingAlternatives({ alternatives, onSelectDates, onSelectVehicle, disabled }: BookingAlternativesProps) {
+  if (alternatives.dates.length === 0 && alternatives.vehicles.length === 0) {
+    return (
+      <p className="text-sm text-slate-600">
+        We couldn't find a similar vehicle or nearby dates. Please try other dates or contact us.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {alternatives.dates.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-slate-700">This vehicle is free on:</p>
+          {alternatives.dates.map(option => (
+            <Button
+              key={option.shiftDays}
+              variant="outline"
+              className="w-full justify-between h-auto py-2"
+              disabled={disabled}
+              onClick={() => onSelectDates(new Date(option.startDate), new Date(option.endDate))}
+              data-testid={`button-alternative-dates-${option.shiftDays}`}
+            >
+              <span className="flex items-center">
+                <CalendarClock className="w-4 h-4 mr-2" />
+                {format(new Date(option.startDate), 'MMM d')} - {format(new Date(option.endDate), 'MMM d')}
+              </span>
+              <span className="text-xs text-slate-500">
+                {describeShift(option.shiftDays)}
+                {option.estimatedTotal !== null && ` · about ${formatRM(option.estimatedTotal)}`}
+              </span>
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {alternatives.vehicles.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-slate-700">Similar vehicles free on your dates:</p>
+          {alternatives.vehicles.map(option => (
+            <Button
+              key={option.vehicle.id}
+              variant="outline"
+              className="w-full justify-between h-auto py-2"
+              disabled={disabled}
+              onClick={() => onSelectVehicle(option.vehicle.id)}
+              data-testid={`button-alternative-vehicle-${option.vehicle.id}`}
+            >
+              <span className="flex items-center">
+                {option.vehicle.photoUrl ? (
+                  <img src={option.vehicle.photoUrl} alt={option.vehicle.name} className="w-10 h-8 object-cover rounded mr-2" />
+                ) : (
+                  <Car className="w-4 h-4 mr-2" />
+                )}
+                {option.vehicle.name}
+              </span>
+              <span className="text-xs text-slate-500">
+                {option.vehicle.mileageLimit} km/day
+                {option.dailyRate !== null && ` · about ${formatRM(option.dailyRate)}/day`}
+              </span>
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
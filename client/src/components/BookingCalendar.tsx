@@ -1,13 +1,19 @@
 import { useState, useMemo } from "react";
-import { ChevronLeft, ChevronRight, Car, Clock, User, Calendar } from "lucide-react";
+import { ChevronLeft, ChevronRight, Car, Clock, User, Calendar, Ban, Hourglass } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isToday, getMonth, getYear } from "date-fns";
+import { format, startOfMonth, endOfMonth, startOfDay, endOfDay, eachDayOfInterval, isSameMonth, isToday, getMonth, getYear } from "date-fns";
 import { useQuery } from "@tanstack/react-query";
+import { resolveRentalStatus, RENTAL_STATUS_LABELS } from "@shared/rentalSchema";
+import { VEHICLE_BLACKOUT_REASON_LABELS, type VehicleBlackout, type VehicleBlackoutReason } from "@shared/fleetSchema";
+import { BOOKING_REQUEST_STATUS_LABELS, type VehicleHold } from "@shared/bookingRequestSchema";
 
 interface Booking {
   id: number;
+  // Null for rentals not yet linked to a fleet vehicle
+  vehicleId: number | null;
+  // The vehicle's name when the rental was made
   vehicle: string;
   startDate: string;
   endDate: string;
@@ -16,6 +22,8 @@ interface Booking {
   status: string;
 }
 
+type CalendarBlackout = VehicleBlackout & { vehicleName: string };
+
 interface Vehicle {
   id: number;
   name: string;
@@ -39,9 +47,9 @@ const colorPalette = [
 
 // Generate vehicle colors based on vehicle ID for consistency
 const generateVehicleColors = (vehicles: Vehicle[]) => {
-  const colors: { [key: string]: string } = {};
+  const colors: { [id: number]: string } = {};
   vehicles.forEach((vehicle, index) => {
-    colors[vehicle.name] = colorPalette[index % colorPalette.length];
+    colors[vehicle.id] = colorPalette[index % colorPalette.length];
   });
   return colors;
 };
@@ -56,9 +64,36 @@ export default function BookingCalendar({ bookings }: BookingCalendarProps) {
   });
 
   // Generate vehicle colors dynamically
+  const activeVehicles = useMemo(() => vehicles.filter(v => v.isActive), [vehicles]);
   const vehicleColors = useMemo(() => {
-    return generateVehicleColors(vehicles.filter(v => v.isActive));
-  }, [vehicles]);
+    return generateVehicleColors(activeVehicles);
+  }, [activeVehicles]);
+
+  // Vehicles taken off the road this month
+  const month = getMonth(currentDate) + 1;
+  const year = getYear(currentDate);
+  const { data: blackouts = [] } = useQuery<CalendarBlackout[]>({
+    queryKey: ['/api/staff/calendar/blackouts', { month, year }],
+    queryFn: async () => {
+      const response = await fetch(`/api/staff/calendar/blackouts?month=${month}&year=${year}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch blackouts: ${response.status}`);
+      }
+      return response.json();
+    },
+  });
+
+  // Dates held for booking requests staff haven't converted yet
+  const { data: holds = [] } = useQuery<VehicleHold[]>({
+    queryKey: ['/api/staff/calendar/holds', { month, year }],
+    queryFn: async () => {
+      const response = await fetch(`/api/staff/calendar/holds?month=${month}&year=${year}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch holds: ${response.status}`);
+      }
+      return response.json();
+    },
+  });
 
   const calendarDays = useMemo(() => {
     const start = startOfMonth(currentDate);
@@ -90,8 +125,20 @@ export default function BookingCalendar({ bookings }: BookingCalendarProps) {
     return getBookingsForDate(date);
   };
 
-  const getVehicleColor = (vehicle: string) => {
-    return vehicleColors[vehicle] || 'bg-gray-400';
+  const getDayBlackouts = (date: Date) => {
+    return blackouts.filter(blackout =>
+      new Date(blackout.startDate) <= endOfDay(date) && new Date(blackout.endDate) >= startOfDay(date)
+    );
+  };
+
+  const getDayHolds = (date: Date) => {
+    return holds.filter(hold =>
+      new Date(hold.startDate) <= endOfDay(date) && new Date(hold.endDate) >= startOfDay(date)
+    );
+  };
+
+  const getVehicleColor = (vehicleId: number | null) => {
+    return (vehicleId !== null && vehicleColors[vehicleId]) || 'bg-gray-400';
   };
 
   return (
@@ -146,6 +193,8 @@ export default function BookingCalendar({ bookings }: BookingCalendarProps) {
           <div className="grid grid-cols-7 gap-2">
             {calendarDays.map(date => {
               const dayBookings = getDayBookings(date);
+              const dayBlackouts = getDayBlackouts(date);
+              const dayHolds = getDayHolds(date);
               const isSelected = selectedDate && date.toDateString() === selectedDate.toDateString();
               const isTodayDate = isToday(date);
 
@@ -170,7 +219,7 @@ export default function BookingCalendar({ bookings }: BookingCalendarProps) {
                     {dayBookings.slice(0, 3).map(booking => (
                       <div
                         key={booking.id}
-                        className={`text-xs px-2 py-1 rounded-full text-white truncate ${getVehicleColor(booking.vehicle)}`}
+                        className={`text-xs px-2 py-1 rounded-full text-white truncate ${getVehicleColor(booking.vehicleId)}`}
                         title={`${booking.vehicle} - ${booking.customerName || `Customer ID: ${booking.customerId}`}`}
                       >
                         <div className="flex items-center gap-1">
@@ -184,6 +233,30 @@ export default function BookingCalendar({ bookings }: BookingCalendarProps) {
                         +{dayBookings.length - 3} more
                       </div>
                     )}
+                    {dayBlackouts.map(blackout => (
+                      <div
+                        key={`blackout-${blackout.id}`}
+                        className="text-xs px-2 py-1 rounded-full bg-gray-200 text-gray-700 truncate"
+                        title={`${blackout.vehicleName} - ${VEHICLE_BLACKOUT_REASON_LABELS[blackout.reason as VehicleBlackoutReason] ?? blackout.reason}`}
+                      >
+                        <div className="flex items-center gap-1">
+                          <Ban className="h-3 w-3" />
+                          <span className="truncate">{blackout.vehicleName}</span>
+                        </div>
+                      </div>
+                    ))}
+                    {dayHolds.map(hold => (
+                      <div
+                        key={`hold-${hold.bookingRequestId}`}
+                        className="text-xs px-2 py-1 rounded-full border border-dashed border-amber-400 bg-amber-50 text-amber-800 truncate"
+                        title={`${hold.vehicleName} - held for ${hold.customerName || `request #${hold.bookingRequestId}`}`}
+                      >
+                        <div className="flex items-center gap-1">
+                          <Hourglass className="h-3 w-3" />
+                          <span className="truncate">{hold.vehicleName}</span>
+                        </div>
+                      </div>
+                    ))}
                   </div>
                 </div>
               );
@@ -204,7 +277,9 @@ export default function BookingCalendar({ bookings }: BookingCalendarProps) {
           <CardContent>
             {(() => {
               const selectedDateBookings = getDayBookings(selectedDate);
-              if (selectedDateBookings.length === 0) {
+              const selectedDateBlackouts = getDayBlackouts(selectedDate);
+              const selectedDateHolds = getDayHolds(selectedDate);
+              if (selectedDateBookings.length === 0 && selectedDateBlackouts.length === 0 && selectedDateHolds.length === 0) {
                 return (
                   <p className="text-gray-500 text-center py-8">
                     No bookings for this date
@@ -221,7 +296,7 @@ export default function BookingCalendar({ bookings }: BookingCalendarProps) {
                     >
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-3">
-                          <div className={`w-4 h-4 rounded-full ${getVehicleColor(booking.vehicle)}`} />
+                          <div className={`w-4 h-4 rounded-full ${getVehicleColor(booking.vehicleId)}`} />
                           <div>
                             <div className="font-semibold text-gray-900">{booking.vehicle}</div>
                             <div className="text-sm text-gray-600 flex items-center gap-1">
@@ -235,8 +310,61 @@ export default function BookingCalendar({ bookings }: BookingCalendarProps) {
                             <Clock className="h-3 w-3" />
                             {format(new Date(booking.startDate), 'MMM d')} - {format(new Date(booking.endDate), 'MMM d')}
                           </div>
-                          <Badge variant={booking.status === 'completed' ? 'default' : 'secondary'}>
-                            {booking.status}
+                          <Badge variant={['checked_out', 'on_rent'].includes(resolveRentalStatus(booking)) ? 'default' : 'secondary'}>
+                            {RENTAL_STATUS_LABELS[resolveRentalStatus(booking)]}
+                          </Badge>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                  {selectedDateBlackouts.map(blackout => (
+                    <div
+                      key={`blackout-${blackout.id}`}
+                      className="p-4 bg-gray-100 rounded-lg border border-dashed"
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                          <Ban className="h-4 w-4 text-gray-500" />
+                          <div>
+                            <div className="font-semibold text-gray-900">{blackout.vehicleName}</div>
+                            <div className="text-sm text-gray-600">
+                              {VEHICLE_BLACKOUT_REASON_LABELS[blackout.reason as VehicleBlackoutReason] ?? blackout.reason}
+                              {blackout.note && ` · ${blackout.note}`}
+                            </div>
+                          </div>
+                        </div>
+                        <div className="text-sm text-gray-600 flex items-center gap-1">
+                          <Clock className="h-3 w-3" />
+                          {format(new Date(blackout.startDate), 'MMM d')} - {format(new Date(blackout.endDate), 'MMM d')}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                  {selectedDateHolds.map(hold => (
+                    <div
+                      key={`hold-${hold.bookingRequestId}`}
+                      className="p-4 bg-amber-50 rounded-lg border border-dashed border-amber-400"
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                          <Hourglass className="h-4 w-4 text-amber-600" />
+                          <div>
+                            <div className="font-semibold text-gray-900">{hold.vehicleName}</div>
+                            <div className="text-sm text-gray-600 flex items-center gap-1">
+                              <User className="h-3 w-3" />
+                              {hold.customerName || `Request #${hold.bookingRequestId}`}
+                            </div>
+                          </div>
+                        </div>
+                        <div className="text-sm text-gray-600">
+                          <div className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            {format(new Date(hold.startDate), 'MMM d')} - {format(new Date(hold.endDate), 'MMM d')}
+                          </div>
+                          <Badge variant="outline" className="border-amber-500 text-amber-700">
+                            {hold.status === 'pending'
+                              ? `Held until ${format(new Date(hold.expiresAt), 'MMM d HH:mm')}`
+                              : BOOKING_REQUEST_STATUS_LABELS[hold.status]}
                           </Badge>
                         </div>
                       </div>
@@ -261,10 +389,10 @@ export default function BookingCalendar({ bookings }: BookingCalendarProps) {
             </div>
           ) : (
             <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
-              {Object.entries(vehicleColors).map(([vehicle, color]) => (
-                <div key={vehicle} className="flex items-center gap-2">
-                  <div className={`w-4 h-4 rounded-full ${color}`} />
-                  <span className="text-sm text-gray-600">{vehicle}</span>
+              {activeVehicles.map((vehicle) => (
+                <div key={vehicle.id} className="flex items-center gap-2">
+                  <div className={`w-4 h-4 rounded-full ${vehicleColors[vehicle.id]}`} />
+                  <span className="text-sm text-gray-600">{vehicle.name}</span>
                 </div>
               ))}
             </div>
@@ -15,7 +15,7 @@ import {
   Trophy, Star, Gift, Target, Calendar, Car, 
   TrendingUp, Award, Zap, Crown, Users, 
   ChevronRight, ArrowLeft, Plus, MessageSquare, 
-  Heart, Flame, Sparkles, Medal
+  Heart, Flame, Sparkles, Medal, Download
 } from "lucide-react";
 import type { Customer, CustomerBadge, CustomerActivity, CustomerReview, LoyaltyTier } from "@shared/schema";
 
@@ -158,14 +158,22 @@ export default function CustomerDashboard({ onViewChange }: CustomerDashboardPro
           </h1>
           <p className="text-slate-600 mt-1">Track your journey and unlock amazing rewards</p>
         </div>
-        <Button 
-          variant="outline" 
-          onClick={() => onViewChange('vehicles')}
-          data-testid="button-browse-vehicles"
-        >
-          <Car className="w-4 h-4 mr-2" />
-          Browse Vehicles
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" asChild data-testid="button-download-my-data">
+            <a href="/api/customers/me/personal-data" download>
+              <Download className="w-4 h-4 mr-2" />
+              Download My Data
+            </a>
+          </Button>
+          <Button 
+            variant="outline" 
+            onClick={() => onViewChange('vehicles')}
+            data-testid="button-browse-vehicles"
+          >
+            <Car className="w-4 h-4 mr-2" />
+            Browse Vehicles
+          </Button>
+        </div>
       </div>
 
       {/* Level Progress */}
@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { ArrowLeft, Mail, Lock, KeyRound, User } from "lucide-react";
+
+interface CustomerLoginProps {
+  onViewChange: (view: string) => void;
+}
+
+type LoginStep = "email" | "code" | "password" | "forgot";
+
+export default function CustomerLogin({ onViewChange }: CustomerLoginProps) {
+  const { toast } = useToast();
+  const { setCustomer } = useAuth();
+  const [step, setStep] = useState<LoginStep>("email");
+  const [email, setEmail] = useState("");
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+
+  const onLoggedIn = (customer: any) => {
+    setCustomer(customer);
+    onViewChange('customer-portal');
+    toast({
+      title: "Welcome back!",
+      description: `Signed in as ${customer.fullName}.`,
+    });
+  };
+
+  const onLoginError = (error: Error) => {
+    toast({
+      title: "Login Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const requestCodeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/customers/login/request-code', { email });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setCode("");
+      setStep("code");
+      toast({
+        title: "Check your email",
+        description: data.message,
+      });
+    },
+    onError: onLoginError,
+  });
+
+  const verifyCodeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/customers/login/verify-code', { email, code });
+      return response.json();
+    },
+    onSuccess: onLoggedIn,
+    onError: (error: Error) => {
+      setCode("");
+      onLoginError(error);
+    },
+  });
+
+  const passwordLoginMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/customers/login', { email, password });
+      return response.json();
+    },
+    onSuccess: onLoggedIn,
+    onError: onLoginError,
+  });
+
+  const forgotPasswordMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/customers/forgot-password', { email });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setStep("password");
+      toast({
+        title: "Check your email",
+        description: data.message,
+      });
+    },
+    onError: onLoginError,
+  });
+
+  const isPending = requestCodeMutation.isPending || verifyCodeMutation.isPending || passwordLoginMutation.isPending || forgotPasswordMutation.isPending;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-cyan-50 to-slate-100 flex items-center justify-center p-4">
+      <div className="relative w-full max-w-md">
+        <Button
+          variant="ghost"
+          className="absolute -top-12 left-0 text-slate-600 hover:text-slate-800"
+          onClick={() => onViewChange('role-selection')}
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Role Selection
+        </Button>
+
+        <div className="bg-white rounded-3xl p-8 shadow-2xl border border-slate-200">
+          <div className="text-center mb-8">
+            <div className="inline-flex items-center justify-center w-20 h-20 rounded-full bg-gradient-to-r from-blue-600 to-cyan-600 mb-4 shadow-lg">
+              <User className="h-10 w-10 text-white" />
+            </div>
+            <h1 className="text-3xl font-bold text-slate-800 mb-2">Customer Login</h1>
+            <p className="text-slate-600">
+              {step === "code"
+                ? `Enter the 6-digit code sent to ${email}`
+                : step === "forgot"
+                  ? "We'll email you a link to choose a new password"
+                  : "Sign in to your customer portal"}
+            </p>
+          </div>
+
+          {step === "email" && (
+            <form
+              onSubmit={(e) => { e.preventDefault(); requestCodeMutation.mutate(); }}
+              className="space-y-6"
+            >
+              <div className="space-y-2">
+                <Label htmlFor="email" className="flex items-center gap-2">
+                  <Mail className="h-4 w-4" />
+                  Email Address
+                </Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  data-testid="input-email"
+                  required
+                />
+              </div>
+
+              <Button type="submit" disabled={isPending || !email} className="w-full" data-testid="button-send-code">
+                <KeyRound className="mr-2 h-5 w-5" />
+                {requestCodeMutation.isPending ? "Sending Code..." : "Email Me a Login Code"}
+              </Button>
+
+              <Button
+                type="button"
+                variant="link"
+                className="w-full"
+                disabled={!email}
+                onClick={() => setStep("password")}
+              >
+                Sign in with a password instead
+              </Button>
+            </form>
+          )}
+
+          {step === "code" && (
+            <form
+              onSubmit={(e) => { e.preventDefault(); verifyCodeMutation.mutate(); }}
+              className="space-y-6"
+            >
+              <div className="flex justify-center">
+                <InputOTP maxLength={6} value={code} onChange={setCode} data-testid="input-login-code">
+                  <InputOTPGroup>
+                    {[0, 1, 2, 3, 4, 5].map((index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+
+              <Button type="submit" disabled={isPending || code.length !== 6} className="w-full" data-testid="button-verify-code">
+                {verifyCodeMutation.isPending ? "Verifying..." : "Sign In"}
+              </Button>
+
+              <div className="flex justify-between text-sm">
+                <Button type="button" variant="link" onClick={() => setStep("email")}>
+                  Use a different email
+                </Button>
+                <Button type="button" variant="link" disabled={isPending} onClick={() => requestCodeMutation.mutate()}>
+                  Resend code
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {step === "password" && (
+            <form
+              onSubmit={(e) => { e.preventDefault(); passwordLoginMutation.mutate(); }}
+              className="space-y-6"
+            >
+              <div className="space-y-2">
+                <Label htmlFor="login-email" className="flex items-center gap-2">
+                  <Mail className="h-4 w-4" />
+                  Email Address
+                </Label>
+                <Input
+                  id="login-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="password" className="flex items-center gap-2">
+                  <Lock className="h-4 w-4" />
+                  Password
+                </Label>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="Enter your password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  data-testid="input-password"
+                  required
+                />
+              </div>
+
+              <Button type="submit" disabled={isPending || !password} className="w-full" data-testid="button-password-login">
+                {passwordLoginMutation.isPending ? "Signing In..." : "Sign In"}
+              </Button>
+
+              <div className="flex justify-between text-sm">
+                <Button type="button" variant="link" onClick={() => setStep("email")}>
+                  Email me a login code instead
+                </Button>
+                <Button type="button" variant="link" onClick={() => setStep("forgot")} data-testid="link-forgot-password">
+                  Forgot password?
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {step === "forgot" && (
+            <form
+              onSubmit={(e) => { e.preventDefault(); forgotPasswordMutation.mutate(); }}
+              className="space-y-6"
+            >
+              <div className="space-y-2">
+                <Label htmlFor="forgot-email" className="flex items-center gap-2">
+                  <Mail className="h-4 w-4" />
+                  Email Address
+                </Label>
+                <Input
+                  id="forgot-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  data-testid="input-forgot-email"
+                  required
+                />
+              </div>
+
+              <Button type="submit" disabled={isPending || !email} className="w-full" data-testid="button-send-reset-link">
+                {forgotPasswordMutation.isPending ? "Sending Link..." : "Email Me a Reset Link"}
+              </Button>
+
+              <Button type="button" variant="link" className="w-full" onClick={() => setStep("password")}>
+                Back to sign in
+              </Button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
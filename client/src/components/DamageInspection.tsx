@@ -0,0 +1,464 @@
+import { useState, type MouseEvent } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { getQueryFn, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { ArrowLeft, ClipboardCheck, FileText, Trash2, Upload } from "lucide-react";
+import type { Rental } from "@shared/schema";
+import {
+  VEHICLE_PHOTO_SLOTS, VEHICLE_PHOTO_SLOT_LABELS,
+  type RentalReturn, type VehiclePhotoSlot, type VehiclePhotosBySlot
+} from "@shared/rentalSchema";
+import {
+  VEHICLE_DIAGRAMS, VEHICLE_DIAGRAM_WIDTH, VEHICLE_DIAGRAM_HEIGHT, DAMAGE_SEVERITIES,
+  type DamageInspection as DamageInspectionRecord, type DamagePoint, type DamageSeverity
+} from "@shared/inspectionSchema";
+
+interface DamageInspectionView {
+  inspection: DamageInspectionRecord | null;
+  points: DamagePoint[];
+  checkoutPhotos: VehiclePhotosBySlot;
+  returnPhotos: VehiclePhotosBySlot;
+  rentalReturn: RentalReturn | null;
+  editable: boolean;
+}
+
+interface DamageInspectionProps {
+  rental: Rental;
+  onClose: () => void;
+}
+
+interface PendingPoint {
+  x: number;
+  y: number;
+  description: string;
+  severity: DamageSeverity;
+  repairEstimate: string;
+  estimateReference: string;
+  estimateDocument: File | null;
+}
+
+const severityColors: Record<DamageSeverity, string> = {
+  minor: '#d69e2e',
+  moderate: '#dd6b20',
+  severe: '#c53030',
+};
+
+const formatRM = (amount: number | string) => `RM ${parseFloat(String(amount)).toFixed(2)}`;
+
+export default function DamageInspection({ rental, onClose }: DamageInspectionProps) {
+  const [slot, setSlot] = useState<VehiclePhotoSlot>('front');
+  const [pendingPoint, setPendingPoint] = useState<PendingPoint | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const inspectionUrl = `/api/staff/rentals/${rental.id}/inspection`;
+  const { data: view, isLoading } = useQuery<DamageInspectionView>({
+    queryKey: [inspectionUrl],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: [inspectionUrl] });
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const addPointMutation = useMutation({
+    mutationFn: async (point: PendingPoint) => {
+      const formData = new FormData();
+      formData.append('slot', slot);
+      formData.append('x', point.x.toFixed(2));
+      formData.append('y', point.y.toFixed(2));
+      formData.append('description', point.description);
+      formData.append('severity', point.severity);
+      formData.append('repairEstimate', point.repairEstimate || '0');
+      if (point.estimateReference) {
+        formData.append('estimateReference', point.estimateReference);
+      }
+      if (point.estimateDocument) {
+        formData.append('estimateDocument', point.estimateDocument);
+      }
+
+      const response = await fetch(`${inspectionUrl}/points`, { method: 'POST', body: formData });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || `Failed to mark damage: ${response.status}`);
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      setPendingPoint(null);
+      refresh();
+    },
+    onError: showError("Could Not Mark Damage"),
+  });
+
+  const deletePointMutation = useMutation({
+    mutationFn: async (pointId: number) => {
+      const response = await apiRequest('DELETE', `${inspectionUrl}/points/${pointId}`);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: showError("Could Not Remove Damage"),
+  });
+
+  const finalizeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `${inspectionUrl}/finalize`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Inspection Finalized",
+        description: `${data.message}. ${formatRM(data.settlement.depositRefund)} of the deposit will be refunded.`,
+      });
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ['/api/staff/vehicle-schedule'] });
+    },
+    onError: showError("Could Not Finalize Inspection"),
+  });
+
+  const regenerateReportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `${inspectionUrl}/report`);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: showError("Could Not Generate Report"),
+  });
+
+  const handleDiagramClick = (event: MouseEvent<SVGSVGElement>) => {
+    if (!view?.editable) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    setPendingPoint({
+      x: ((event.clientX - bounds.left) / bounds.width) * 100,
+      y: ((event.clientY - bounds.top) / bounds.height) * 100,
+      description: '',
+      severity: 'minor',
+      repairEstimate: '',
+      estimateReference: '',
+      estimateDocument: null,
+    });
+  };
+
+  if (isLoading || !view) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const slotPoints = view.points.filter(point => point.slot === slot);
+  const totalEstimate = view.points.reduce((sum, point) => sum + parseFloat(point.repairEstimate), 0);
+  const numberOf = (point: DamagePoint) => view.points.indexOf(point) + 1;
+
+  const renderPhoto = (label: string, url?: string) => (
+    <div>
+      <p className="text-sm font-medium text-slate-700 mb-2">{label}</p>
+      {url ? (
+        <a href={url} target="_blank" rel="noopener noreferrer">
+          <img src={url} alt={label} className="w-full aspect-[4/3] object-cover rounded-lg border" />
+        </a>
+      ) : (
+        <div className="w-full aspect-[4/3] rounded-lg border border-dashed flex items-center justify-center text-sm text-slate-500">
+          No photo
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800">Damage Inspection</h2>
+          <p className="text-slate-600">{rental.vehicle} · AGR-{rental.id}</p>
+        </div>
+        <Button variant="outline" onClick={onClose} data-testid="button-close-inspection">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </Button>
+      </div>
+
+      {!view.rentalReturn && (
+        <p className="text-sm text-amber-700 bg-amber-50 p-3 rounded-lg">
+          Check in the vehicle before inspecting it for damage.
+        </p>
+      )}
+
+      {/* Slot selector */}
+      <div className="flex flex-wrap gap-2">
+        {VEHICLE_PHOTO_SLOTS.map(photoSlot => {
+          const count = view.points.filter(point => point.slot === photoSlot).length;
+          return (
+            <Button
+              key={photoSlot}
+              size="sm"
+              variant={photoSlot === slot ? 'default' : 'outline'}
+              onClick={() => {
+                setSlot(photoSlot);
+                setPendingPoint(null);
+              }}
+              data-testid={`button-slot-${photoSlot}`}
+            >
+              {VEHICLE_PHOTO_SLOT_LABELS[photoSlot]}
+              {count > 0 && <Badge variant="destructive" className="ml-2">{count}</Badge>}
+            </Button>
+          );
+        })}
+      </div>
+
+      {/* Checkout vs return photos */}
+      <Card className="glass">
+        <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-6">
+          {renderPhoto('At Handover', view.checkoutPhotos[slot])}
+          {renderPhoto('At Return', view.returnPhotos[slot])}
+        </CardContent>
+      </Card>
+
+      {/* Diagram */}
+      <Card className="glass">
+        <CardHeader>
+          <CardTitle className="text-lg">Mark Damage</CardTitle>
+          {view.editable && <p className="text-sm text-slate-600">Click the diagram where the damage is</p>}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <svg
+            viewBox={`0 0 ${VEHICLE_DIAGRAM_WIDTH} ${VEHICLE_DIAGRAM_HEIGHT}`}
+            className={cn("w-full bg-white rounded-lg border", view.editable && "cursor-crosshair")}
+            onClick={handleDiagramClick}
+            data-testid="vehicle-diagram"
+          >
+            <path d={VEHICLE_DIAGRAMS[slot]} fill="none" stroke="#4a5568" strokeWidth={1} />
+            {slotPoints.map(point => (
+              <g key={point.id}>
+                <circle
+                  cx={(point.x / 100) * VEHICLE_DIAGRAM_WIDTH}
+                  cy={(point.y / 100) * VEHICLE_DIAGRAM_HEIGHT}
+                  r={4}
+                  fill={severityColors[point.severity as DamageSeverity] ?? severityColors.minor}
+                />
+                <text
+                  x={(point.x / 100) * VEHICLE_DIAGRAM_WIDTH}
+                  y={(point.y / 100) * VEHICLE_DIAGRAM_HEIGHT + 1.8}
+                  fontSize={5}
+                  textAnchor="middle"
+                  fill="#ffffff"
+                >
+                  {numberOf(point)}
+                </text>
+              </g>
+            ))}
+            {pendingPoint && (
+              <circle
+                cx={(pendingPoint.x / 100) * VEHICLE_DIAGRAM_WIDTH}
+                cy={(pendingPoint.y / 100) * VEHICLE_DIAGRAM_HEIGHT}
+                r={4}
+                fill="none"
+                stroke="#c53030"
+                strokeDasharray="2 1"
+              />
+            )}
+          </svg>
+
+          {pendingPoint && (
+            <div className="glass-dark rounded-xl p-4 space-y-3">
+              <div>
+                <Label>Damage</Label>
+                <Input
+                  value={pendingPoint.description}
+                  onChange={(e) => setPendingPoint({ ...pendingPoint, description: e.target.value })}
+                  placeholder="e.g. Dent on rear door"
+                  data-testid="input-damage-description"
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                  <Label>Severity</Label>
+                  <select
+                    value={pendingPoint.severity}
+                    onChange={(e) => setPendingPoint({ ...pendingPoint, severity: e.target.value as DamageSeverity })}
+                    className="w-full p-2 border border-slate-300 rounded-lg"
+                  >
+                    {DAMAGE_SEVERITIES.map(severity => (
+                      <option key={severity} value={severity}>{severity.charAt(0).toUpperCase() + severity.slice(1)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <Label>Repair Estimate (RM)</Label>
+                  <Input
+                    value={pendingPoint.repairEstimate}
+                    onChange={(e) => setPendingPoint({ ...pendingPoint, repairEstimate: e.target.value })}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    data-testid="input-repair-estimate"
+                  />
+                </div>
+                <div>
+                  <Label>Quote Reference</Label>
+                  <Input
+                    value={pendingPoint.estimateReference}
+                    onChange={(e) => setPendingPoint({ ...pendingPoint, estimateReference: e.target.value })}
+                    placeholder="Optional"
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <input
+                    type="file"
+                    accept="image/*,application/pdf"
+                    onChange={(e) => setPendingPoint({ ...pendingPoint, estimateDocument: e.target.files?.[0] ?? null })}
+                    className="hidden"
+                    id="estimate-document"
+                  />
+                  <Label
+                    htmlFor="estimate-document"
+                    className="cursor-pointer inline-flex items-center text-sm text-blue-600 hover:text-blue-700"
+                  >
+                    <Upload className="w-4 h-4 mr-1" />
+                    {pendingPoint.estimateDocument ? pendingPoint.estimateDocument.name : 'Attach repair quote'}
+                  </Label>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setPendingPoint(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    disabled={!pendingPoint.description.trim() || addPointMutation.isPending}
+                    onClick={() => addPointMutation.mutate(pendingPoint)}
+                    data-testid="button-save-damage"
+                  >
+                    Save Damage
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Damage list and settlement */}
+      <Card className="glass">
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center">
+            <ClipboardCheck className="mr-2" size={20} />
+            Damage & Repair Estimates
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {view.points.length === 0 && (
+            <p className="text-sm text-slate-500">No damage marked.</p>
+          )}
+          {view.points.map(point => (
+            <div key={point.id} className="flex items-start justify-between text-sm border-b pb-2">
+              <div>
+                <p className="font-medium">
+                  {numberOf(point)}. {point.description}
+                  <span className="text-slate-500 font-normal"> · {VEHICLE_PHOTO_SLOT_LABELS[point.slot as VehiclePhotoSlot] ?? point.slot} · {point.severity}</span>
+                </p>
+                {(point.estimateReference || point.estimateDocumentUrl) && (
+                  <p className="text-slate-500">
+                    {point.estimateReference && `Quote ${point.estimateReference} `}
+                    {point.estimateDocumentUrl && (
+                      <a href={point.estimateDocumentUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline">
+                        View quote
+                      </a>
+                    )}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <span>{formatRM(point.repairEstimate)}</span>
+                {view.editable && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={deletePointMutation.isPending}
+                    onClick={() => deletePointMutation.mutate(point.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+
+          <div className="bg-slate-50 p-4 rounded-lg text-sm space-y-1">
+            <div className="flex justify-between font-semibold">
+              <span>Total Repair Estimates:</span>
+              <span>{formatRM(totalEstimate)}</span>
+            </div>
+            {view.rentalReturn && (
+              <>
+                <div className="flex justify-between">
+                  <span>Deposit Held:</span>
+                  <span>{formatRM(view.rentalReturn.depositHeld)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Other Return Charges:</span>
+                  <span>
+                    {formatRM(parseFloat(view.rentalReturn.mileageCharge) + parseFloat(view.rentalReturn.fuelCharge) + parseFloat(view.rentalReturn.lateFee))}
+                  </span>
+                </div>
+                {view.inspection?.finalizedAt && (
+                  <>
+                    <div className="flex justify-between font-semibold text-green-700">
+                      <span>Deposit Refund:</span>
+                      <span>{formatRM(view.rentalReturn.depositRefund)}</span>
+                    </div>
+                    {parseFloat(view.rentalReturn.balanceDue) > 0 && (
+                      <div className="flex justify-between font-semibold text-red-600">
+                        <span>Balance Due from Customer:</span>
+                        <span>{formatRM(view.rentalReturn.balanceDue)}</span>
+                      </div>
+                    )}
+                  </>
+                )}
+              </>
+            )}
+          </div>
+
+          {view.editable && view.rentalReturn && (
+            <Button
+              className="w-full bg-green-600 hover:bg-green-700"
+              disabled={finalizeMutation.isPending || view.points.length === 0}
+              onClick={() => finalizeMutation.mutate()}
+              data-testid="button-finalize-inspection"
+            >
+              Charge Against Deposit & Finalize
+            </Button>
+          )}
+
+          {view.inspection?.finalizedAt && (
+            <div className="flex gap-2">
+              {view.inspection.reportPdfUrl && (
+                <Button variant="outline" onClick={() => window.open(view.inspection!.reportPdfUrl!, '_blank')} data-testid="button-view-damage-report">
+                  <FileText className="w-4 h-4 mr-2" />
+                  View Damage Report
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                disabled={regenerateReportMutation.isPending}
+                onClick={() => regenerateReportMutation.mutate()}
+              >
+                Regenerate Report
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
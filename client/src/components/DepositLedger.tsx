@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { getQueryFn, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Wallet } from "lucide-react";
+import {
+  DEPOSIT_ENTRY_LABELS, DEPOSIT_PAYMENT_METHODS, DEPOSIT_PAYMENT_METHOD_LABELS,
+  type DepositEntryType, type DepositLedgerEntry, type DepositPaymentMethod, type DepositSummary
+} from "@shared/depositSchema";
+
+interface DepositLedgerProps {
+  rentalId: number;
+  title?: string;
+}
+
+type ManualEntryType = Exclude<DepositEntryType, "deduction_reversed">;
+
+const formatRM = (amount: number | string) => `RM ${parseFloat(String(amount)).toFixed(2)}`;
+
+// Entries that take money out of the deposit
+const isOutgoing = (type: string) => type === 'deducted' || type === 'refunded';
+
+export default function DepositLedger({ rentalId, title }: DepositLedgerProps) {
+  const [entryType, setEntryType] = useState<ManualEntryType>('refunded');
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<DepositPaymentMethod>('bank_transfer');
+  const [reference, setReference] = useState('');
+  const [reason, setReason] = useState('');
+  const [occurredAt, setOccurredAt] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const ledgerUrl = `/api/staff/rentals/${rentalId}/deposit`;
+  const { data: ledger, isLoading } = useQuery<{ entries: DepositLedgerEntry[]; summary: DepositSummary }>({
+    queryKey: [ledgerUrl],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const entryMutation = useMutation({
+    mutationFn: async () => {
+      const base = { type: entryType, amount: parseFloat(amount), occurredAt: new Date(occurredAt).toISOString() };
+      const body = entryType === 'deducted'
+        ? { ...base, reason }
+        : { ...base, method, reference: reference || undefined };
+      const response = await apiRequest('POST', ledgerUrl, body);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Deposit Updated", description: `${DEPOSIT_ENTRY_LABELS[entryType]} ${formatRM(amount)} recorded.` });
+      setAmount('');
+      setReference('');
+      setReason('');
+      queryClient.invalidateQueries({ queryKey: [ledgerUrl] });
+      queryClient.invalidateQueries({ queryKey: ['/api/staff/deposits/outstanding'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could Not Record Entry", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !ledger) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const { entries, summary } = ledger;
+  const canSubmit = parseFloat(amount) > 0 && (entryType !== 'deducted' || reason.trim().length > 0);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-800">Security Deposit</h2>
+        {title && <p className="text-slate-600">{title}</p>}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        <div className="glass p-3 rounded-lg">
+          <p className="text-slate-500">Collected</p>
+          <p className="font-semibold">{formatRM(summary.collected)}</p>
+        </div>
+        <div className="glass p-3 rounded-lg">
+          <p className="text-slate-500">Deducted</p>
+          <p className="font-semibold">{formatRM(summary.deducted)}</p>
+        </div>
+        <div className="glass p-3 rounded-lg">
+          <p className="text-slate-500">Refunded</p>
+          <p className="font-semibold">{formatRM(summary.refunded)}</p>
+        </div>
+        <div className="glass p-3 rounded-lg">
+          <p className="text-slate-500">Still Held</p>
+          <p className="font-semibold text-blue-700">{formatRM(summary.held)}</p>
+        </div>
+      </div>
+
+      <Card className="glass">
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center">
+            <Wallet className="mr-2" size={20} />
+            Ledger
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {entries.length === 0 && (
+            <p className="text-sm text-slate-500">No deposit movements recorded.</p>
+          )}
+          {entries.map(entry => (
+            <div key={entry.id} className="flex justify-between text-sm border-b pb-2">
+              <div>
+                <p className="font-medium">
+                  {DEPOSIT_ENTRY_LABELS[entry.type as DepositEntryType] ?? entry.type}
+                  <span className="text-slate-500 font-normal"> · {format(new Date(entry.occurredAt), 'MMM d, yyyy')}</span>
+                </p>
+                <p className="text-slate-500">
+                  {[
+                    entry.reason,
+                    entry.method && (DEPOSIT_PAYMENT_METHOD_LABELS[entry.method as DepositPaymentMethod] ?? entry.method),
+                    entry.reference && `Ref ${entry.reference}`,
+                  ].filter(Boolean).join(' · ')}
+                </p>
+              </div>
+              <span className={isOutgoing(entry.type) ? 'text-red-600' : 'text-green-700'}>
+                {isOutgoing(entry.type) ? '-' : '+'}{formatRM(entry.amount)}
+              </span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card className="glass">
+        <CardHeader>
+          <CardTitle className="text-lg">Record Movement</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            {(['collected', 'deducted', 'refunded'] as ManualEntryType[]).map(type => (
+              <Button
+                key={type}
+                size="sm"
+                variant={entryType === type ? 'default' : 'outline'}
+                onClick={() => setEntryType(type)}
+              >
+                {DEPOSIT_ENTRY_LABELS[type]}
+              </Button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="deposit-amount">Amount (RM)</Label>
+              <Input
+                id="deposit-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                data-testid="input-deposit-amount"
+              />
+            </div>
+            <div>
+              <Label htmlFor="deposit-date">Date</Label>
+              <Input id="deposit-date" type="date" value={occurredAt} onChange={(e) => setOccurredAt(e.target.value)} />
+            </div>
+            {entryType === 'deducted' ? (
+              <div className="md:col-span-2">
+                <Label htmlFor="deposit-reason">Reason</Label>
+                <Input
+                  id="deposit-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. Traffic summons"
+                />
+              </div>
+            ) : (
+              <>
+                <div>
+                  <Label htmlFor="deposit-method">Method</Label>
+                  <select
+                    id="deposit-method"
+                    value={method}
+                    onChange={(e) => setMethod(e.target.value as DepositPaymentMethod)}
+                    className="w-full p-2 border border-slate-300 rounded-lg"
+                  >
+                    {DEPOSIT_PAYMENT_METHODS.map(option => (
+                      <option key={option} value={option}>{DEPOSIT_PAYMENT_METHOD_LABELS[option]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="deposit-reference">Reference</Label>
+                  <Input
+                    id="deposit-reference"
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                    placeholder="Transaction or receipt number"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {entryType !== 'collected' && summary.held > 0 && (
+              <Button variant="outline" onClick={() => setAmount(summary.held.toFixed(2))}>
+                Full Balance
+              </Button>
+            )}
+            <Button
+              disabled={!canSubmit || entryMutation.isPending}
+              onClick={() => entryMutation.mutate()}
+              data-testid="button-record-deposit-entry"
+            >
+              Record {DEPOSIT_ENTRY_LABELS[entryType]}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { getQueryFn } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import DepositLedger from "@/components/DepositLedger";
+import { Wallet } from "lucide-react";
+import { RENTAL_STATUS_LABELS } from "@shared/rentalSchema";
+import type { OutstandingDeposit } from "@shared/depositSchema";
+
+const formatRM = (amount: number) => `RM ${amount.toFixed(2)}`;
+
+// Every rental still holding deposit money, oldest first, so refunds owed
+// to customers aren't forgotten.
+export default function OutstandingDeposits() {
+  const [refundDueOnly, setRefundDueOnly] = useState(false);
+  const [selected, setSelected] = useState<OutstandingDeposit | null>(null);
+
+  const { data: deposits = [], isLoading } = useQuery<OutstandingDeposit[]>({
+    queryKey: ['/api/staff/deposits/outstanding'],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const shown = refundDueOnly ? deposits.filter(deposit => deposit.refundDue) : deposits;
+  const totalHeld = shown.reduce((sum, deposit) => sum + deposit.held, 0);
+  const refundDueCount = deposits.filter(deposit => deposit.refundDue).length;
+
+  return (
+    <div className="glass rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-semibold text-slate-800 flex items-center">
+          <Wallet className="mr-2" size={20} />
+          Outstanding Deposits
+        </h3>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant={refundDueOnly ? 'default' : 'outline'}
+            onClick={() => setRefundDueOnly(!refundDueOnly)}
+            data-testid="button-refund-due-only"
+          >
+            Refund due ({refundDueCount})
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : shown.length === 0 ? (
+        <p className="text-sm text-slate-500">No deposits outstanding.</p>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-slate-600">
+            {shown.length} rental{shown.length > 1 ? 's' : ''} holding {formatRM(totalHeld)}
+          </p>
+          {shown.map(deposit => (
+            <button
+              key={deposit.rentalId}
+              type="button"
+              onClick={() => setSelected(deposit)}
+              className="w-full text-left glass p-3 rounded-lg text-sm hover:bg-slate-50"
+            >
+              <div className="flex justify-between items-center">
+                <div>
+                  <span className="font-medium">{deposit.customerName}</span>
+                  <span className="text-slate-600 ml-2">AGR-{deposit.rentalId} · {deposit.vehicle}</span>
+                </div>
+                <span className="font-semibold">{formatRM(deposit.held)}</span>
+              </div>
+              <div className="flex justify-between items-center mt-1 text-slate-500">
+                <span>
+                  Held {deposit.ageDays} day{deposit.ageDays === 1 ? '' : 's'} · due back {format(new Date(deposit.endDate), 'MMM d, yyyy')}
+                </span>
+                <div className="flex gap-2">
+                  <Badge variant="secondary">{RENTAL_STATUS_LABELS[deposit.status]}</Badge>
+                  {deposit.refundDue && <Badge variant="destructive">Refund due</Badge>}
+                </div>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {selected && (
+            <DepositLedger
+              rentalId={selected.rentalId}
+              title={`${selected.customerName} · AGR-${selected.rentalId} · ${selected.vehicle}`}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { getQueryFn } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock, FileText } from "lucide-react";
+import type { Rental } from "@shared/schema";
+import { repriceRental, RENTAL_AMENDMENT_LABELS, type RentalAmendment, type RentalAmendmentType } from "@shared/rentalSchema";
+
+interface RentalAmendmentFormProps {
+  rental: Rental;
+  onComplete: () => void;
+  onCancel: () => void;
+}
+
+interface ConflictingBooking {
+  id: number;
+  startDate: string;
+  endDate: string;
+}
+
+const formatRM = (amount: number | string) => `RM ${parseFloat(String(amount)).toFixed(2)}`;
+
+export default function RentalAmendmentForm({ rental, onComplete, onCancel }: RentalAmendmentFormProps) {
+  const [endDate, setEndDate] = useState(format(new Date(rental.endDate), "yyyy-MM-dd'T'HH:mm"));
+  const [reason, setReason] = useState("");
+  const [conflicts, setConflicts] = useState<ConflictingBooking[]>([]);
+  const [blackouts, setBlackouts] = useState<ConflictingBooking[]>([]);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const amendmentsUrl = `/api/staff/rentals/${rental.id}/amendments`;
+  const { data: amendments = [] } = useQuery<RentalAmendment[]>({
+    queryKey: [amendmentsUrl],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const newEndDate = new Date(endDate);
+  const currentEndDate = new Date(rental.endDate);
+  const type: RentalAmendmentType | null = isNaN(newEndDate.getTime()) || newEndDate.getTime() === currentEndDate.getTime()
+    ? null
+    : newEndDate > currentEndDate ? 'extension' : 'early_return';
+
+  // Preview only; the server re-prices the rental when the change is saved
+  const preview = type ? repriceRental(rental, newEndDate) : null;
+  const difference = preview ? preview.grandTotal - parseFloat(rental.grandTotal) : 0;
+
+  const amendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/staff/rentals/${rental.id}/${type === 'extension' ? 'extend' : 'shorten'}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ endDate: newEndDate.toISOString(), reason: reason || undefined }),
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        setConflicts(body?.conflicts ?? []);
+        setBlackouts(body?.blackouts ?? []);
+        throw new Error(body?.message || `Failed to change the return date: ${response.status}`);
+      }
+      return body;
+    },
+    onSuccess: (data) => {
+      toast({ title: "Return Date Changed", description: data.message });
+      queryClient.invalidateQueries({ queryKey: [amendmentsUrl] });
+      if (data.amendment.addendumPdfUrl) {
+        window.open(data.amendment.addendumPdfUrl, '_blank');
+      }
+      onComplete();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could Not Change Return Date", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-800">Change Return Date</h2>
+        <p className="text-slate-600">{rental.vehicle} · AGR-{rental.id}</p>
+      </div>
+
+      <Card className="glass">
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center">
+            <CalendarClock className="mr-2" size={20} />
+            Extension or Early Return
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label>Current Return Date</Label>
+              <p className="p-2 text-slate-700">{format(currentEndDate, 'MMM d, yyyy HH:mm')}</p>
+            </div>
+            <div>
+              <Label htmlFor="endDate">New Return Date</Label>
+              <Input
+                id="endDate"
+                type="datetime-local"
+                value={endDate}
+                onChange={(e) => {
+                  setEndDate(e.target.value);
+                  setConflicts([]);
+                  setBlackouts([]);
+                }}
+                data-testid="input-new-end-date"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="reason">Reason</Label>
+            <Textarea
+              id="reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Customer extended by phone"
+              rows={2}
+            />
+          </div>
+
+          {preview && type && (
+            <div className="bg-slate-50 p-4 rounded-lg text-sm space-y-1">
+              <div className="flex justify-between">
+                <span>{RENTAL_AMENDMENT_LABELS[type]}:</span>
+                <span>{rental.totalDays} → {preview.totalDays} days</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Grand Total:</span>
+                <span>{formatRM(rental.grandTotal)} → {formatRM(preview.grandTotal)}</span>
+              </div>
+              <div className={`flex justify-between font-semibold ${difference >= 0 ? 'text-red-600' : 'text-green-700'}`}>
+                <span>{difference >= 0 ? 'Additional Payable:' : 'To Refund:'}</span>
+                <span>{formatRM(Math.abs(difference))}</span>
+              </div>
+            </div>
+          )}
+
+          {(conflicts.length > 0 || blackouts.length > 0) && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+              <p className="font-medium">Conflicts with:</p>
+              {conflicts.map(conflict => (
+                <p key={conflict.id}>
+                  AGR-{conflict.id}: {format(new Date(conflict.startDate), 'MMM d')} - {format(new Date(conflict.endDate), 'MMM d')}
+                </p>
+              ))}
+              {blackouts.map(blackout => (
+                <p key={`blackout-${blackout.id}`}>
+                  Off the road: {format(new Date(blackout.startDate), 'MMM d')} - {format(new Date(blackout.endDate), 'MMM d')}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!type || amendMutation.isPending}
+              onClick={() => amendMutation.mutate()}
+              data-testid="button-save-amendment"
+            >
+              {type === 'early_return' ? 'Record Early Return' : 'Extend Rental'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {amendments.length > 0 && (
+        <Card className="glass">
+          <CardHeader>
+            <CardTitle className="text-lg">Addenda</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {amendments.map(amendment => (
+              <div key={amendment.id} className="flex items-center justify-between text-sm border-b pb-2">
+                <div>
+                  <p className="font-medium">
+                    No. {amendment.amendmentNumber} · {RENTAL_AMENDMENT_LABELS[amendment.type as RentalAmendmentType] ?? amendment.type}
+                  </p>
+                  <p className="text-slate-500">
+                    {format(new Date(amendment.previousEndDate), 'MMM d')} → {format(new Date(amendment.newEndDate), 'MMM d')} · {formatRM(amendment.priceDifference)}
+                  </p>
+                </div>
+                {amendment.addendumPdfUrl && (
+                  <Button variant="outline" size="sm" onClick={() => window.open(amendment.addendumPdfUrl!, '_blank')}>
+                    <FileText className="w-4 h-4 mr-1" />
+                    PDF
+                  </Button>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -45,14 +45,15 @@ interface RentalCompletionFormProps {
   onCancel: () => void;
 }
 
+// ids are the photo slots the server stores each photo under
 const photoTypes = [
-  { id: 'front_with_customer', label: 'Front With Customer', icon: '👥' },
+  { id: 'frontWithCustomer', label: 'Front With Customer', icon: '👥' },
   { id: 'front', label: 'Front', icon: '🚗' },
   { id: 'back', label: 'Back', icon: '🚙' },
   { id: 'left', label: 'Left Side', icon: '⬅️' },
   { id: 'right', label: 'Right Side', icon: '➡️' },
-  { id: 'interior_mileage', label: 'Interior/Mileage', icon: '🏎️' },
-  { id: 'known_damage', label: 'Known Damage', icon: '⚠️' },
+  { id: 'interiorMileage', label: 'Interior/Mileage', icon: '🏎️' },
+  { id: 'knownDamage', label: 'Known Damage', icon: '⚠️' },
 ];
 
 const fuelLevels = ['Empty', '1/8', '1/4', '3/8', '1/2', '5/8', '3/4', '7/8', 'Full'];
@@ -158,7 +159,7 @@ export default function RentalCompletionForm({
       // Add vehicle photos
       vehiclePhotos.forEach((photo, index) => {
         if (photo) {
-          formData.append('vehiclePhotos', photo);
+          formData.append(photoTypes[index].id, photo);
         }
       });
       
@@ -25,7 +25,7 @@ import { ProcessingModal } from "@/components/ui/loading-spinner";
 
 const rentalFormSchema = z.object({
   customerId: z.number().optional(),
-  vehicle: z.string().default(""),
+  vehicleId: z.string().default(""),
   color: z.string().default(""),
   mileageLimit: z.string().default("300"),
   extraMileageCharge: z.string().default("1.50"),
@@ -80,7 +80,7 @@ export default function RentalForm({ onViewChange, onComplete }: RentalFormProps
       currentMileage: 0,
       mileageLimit: "",
       extraMileageCharge: "",
-      vehicle: "",
+      vehicleId: "",
       color: "",
       startDate: "",
       endDate: "",
@@ -203,7 +203,6 @@ export default function RentalForm({ onViewChange, onComplete }: RentalFormProps
     const submissionData = {
       ...data,
       customerId: data.customerId || customer?.id || 1,
-      vehicle: data.vehicle || "Generic Vehicle",
       color: data.color || "Black",
       mileageLimit: data.mileageLimit || "300",
       extraMileageCharge: data.extraMileageCharge || "1.50",
@@ -250,8 +249,8 @@ export default function RentalForm({ onViewChange, onComplete }: RentalFormProps
   }, [costs.grandTotal, form]);
 
   // Auto-update mileage info when vehicle changes
-  const selectedVehicle = watchedValues.vehicle;
-  const selectedVehicleData = vehicles.find(v => v.name === selectedVehicle);
+  const selectedVehicle = watchedValues.vehicleId;
+  const selectedVehicleData = vehicles.find(v => String(v.id) === selectedVehicle);
   
   // Auto-populate mileage fields when vehicle changes
   useEffect(() => {
@@ -264,17 +263,17 @@ export default function RentalForm({ onViewChange, onComplete }: RentalFormProps
   // Check vehicle availability when dates or vehicle change
   useEffect(() => {
     const checkAvailability = async () => {
-      const vehicle = watchedValues.vehicle;
+      const vehicleId = watchedValues.vehicleId;
       const startDate = watchedValues.startDate;
       const endDate = watchedValues.endDate;
       
-      if (vehicle && startDate && endDate) {
+      if (vehicleId && startDate && endDate) {
         setCheckingAvailability(true);
         try {
           const response = await apiRequest(
             'POST',
             '/api/rentals/check-availability',
-            { vehicle, startDate, endDate }
+            { vehicleId, startDate, endDate }
           );
           const data = await response.json();
           setAvailabilityStatus(data);
@@ -287,7 +286,7 @@ export default function RentalForm({ onViewChange, onComplete }: RentalFormProps
     };
     
     checkAvailability();
-  }, [watchedValues.vehicle, watchedValues.startDate, watchedValues.endDate]);
+  }, [watchedValues.vehicleId, watchedValues.startDate, watchedValues.endDate]);
 
   const photoTypes = ['Front With Customer', 'Front', 'Back', 'Left', 'Right', 'Interior/Mileage', 'Known Damage'];
 
@@ -386,7 +385,7 @@ export default function RentalForm({ onViewChange, onComplete }: RentalFormProps
                 <Label>Vehicle Selection</Label>
                 <select 
                   className="input-glass h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background"
-                  onChange={(e) => form.setValue('vehicle', e.target.value)}
+                  onChange={(e) => form.setValue('vehicleId', e.target.value)}
                 >
                   <option value="">
                     {vehiclesLoading ? "Loading vehicles..." : "Select a vehicle"}
@@ -395,7 +394,7 @@ export default function RentalForm({ onViewChange, onComplete }: RentalFormProps
                     <option value="" disabled>No vehicles available</option>
                   )}
                   {!vehiclesLoading && vehicles.length > 0 && vehicles.map((vehicle) => (
-                    <option key={vehicle.id} value={vehicle.name}>
+                    <option key={vehicle.id} value={vehicle.id}>
                       {vehicle.name} ({vehicle.category})
                     </option>
                   ))}
@@ -597,9 +596,9 @@ export default function RentalForm({ onViewChange, onComplete }: RentalFormProps
               <Alert className="mt-6 border-red-200 bg-red-50">
                 <AlertCircle className="h-4 w-4 text-red-600" />
                 <AlertDescription className="text-red-800">
-                  <strong>Sorry, this vehicle is already booked for the selected dates.</strong>
+                  <strong>Sorry, this vehicle is not available for the selected dates.</strong>
                   <br />
-                  The vehicle is already reserved during this period. Please select different dates or choose another vehicle.
+                  The vehicle is already reserved, being turned around or off the road during this period. Please select different dates or choose another vehicle.
                 </AlertDescription>
               </Alert>
             )}
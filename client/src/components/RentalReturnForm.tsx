@@ -0,0 +1,578 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Slider } from "@/components/ui/slider";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Camera, Fuel, FileText, ArrowLeft, ArrowRight,
+  CheckCircle2, Upload, Plus, Trash2, Receipt
+} from "lucide-react";
+import type { Rental } from "@shared/schema";
+import {
+  computeRentalSettlement, DEFAULT_SETTLEMENT_RATES, FULL_TANK_FUEL_LEVEL, VEHICLE_PHOTO_SLOTS, VEHICLE_PHOTO_SLOT_LABELS,
+  type RentalDamageCharge, type RentalReturn
+} from "@shared/rentalSchema";
+
+const rentalReturnFormSchema = z.object({
+  returnMileage: z.number().int("Mileage must be a whole number").min(0, "Return mileage must be 0 or greater"),
+  returnFuelLevel: z.number().min(0).max(FULL_TANK_FUEL_LEVEL),
+  returnedAt: z.string().min(1, "Return time is required"),
+  fuelChargePerEighth: z.number().min(0, "Fuel charge must be 0 or greater"),
+  lateFeePerHour: z.number().min(0, "Late fee must be 0 or greater"),
+  notes: z.string().max(1000).optional(),
+});
+
+type RentalReturnFormData = z.infer<typeof rentalReturnFormSchema>;
+
+interface RentalReturnFormProps {
+  rental: Rental;
+  onComplete: () => void;
+  onCancel: () => void;
+}
+
+// Same slots as the handover photos, so damage inspection can compare them
+const returnPhotoTypes = VEHICLE_PHOTO_SLOTS.map(slot => ({ id: slot, label: VEHICLE_PHOTO_SLOT_LABELS[slot] }));
+
+const fuelLevels = ['Empty', '1/8', '1/4', '3/8', '1/2', '5/8', '3/4', '7/8', 'Full'];
+
+const formatRM = (amount: number | string) => `RM ${parseFloat(String(amount)).toFixed(2)}`;
+
+export default function RentalReturnForm({ rental, onComplete, onCancel }: RentalReturnFormProps) {
+  const [currentStep, setCurrentStep] = useState(1);
+  const [returnPhotos, setReturnPhotos] = useState<File[]>([]);
+  const [damages, setDamages] = useState<RentalDamageCharge[]>([]);
+  const [settlement, setSettlement] = useState<RentalReturn | null>(null);
+
+  const { toast } = useToast();
+
+  const form = useForm<RentalReturnFormData>({
+    resolver: zodResolver(rentalReturnFormSchema),
+    defaultValues: {
+      returnMileage: rental.currentMileage,
+      returnFuelLevel: rental.fuelLevel,
+      returnedAt: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
+      fuelChargePerEighth: DEFAULT_SETTLEMENT_RATES.fuelChargePerEighth,
+      lateFeePerHour: DEFAULT_SETTLEMENT_RATES.lateFeePerHour,
+      notes: "",
+    },
+  });
+
+  // Preview only; the server recalculates the settlement on check-in
+  const preview = computeRentalSettlement(
+    rental,
+    {
+      returnMileage: form.watch('returnMileage') || 0,
+      returnFuelLevel: form.watch('returnFuelLevel') ?? rental.fuelLevel,
+      returnedAt: new Date(form.watch('returnedAt') || Date.now()),
+      damages: damages.filter(damage => damage.description.trim()),
+    },
+    {
+      ...DEFAULT_SETTLEMENT_RATES,
+      fuelChargePerEighth: form.watch('fuelChargePerEighth') || 0,
+      lateFeePerHour: form.watch('lateFeePerHour') || 0,
+    }
+  );
+
+  const handleReturnPhotoChange = async (index: number, file: File) => {
+    let photo = file;
+    try {
+      const { compressImageDetailed } = await import('@/lib/imageCompression');
+      const result = await compressImageDetailed(file, {
+        maxWidth: 1000,
+        maxHeight: 1000,
+        quality: 0.8,
+        maxSizeInMB: 0.5
+      });
+      if (result.success) {
+        photo = result.file;
+      }
+    } catch (error) {
+      console.error('Image compression failed:', error);
+      toast({
+        title: "Compression Failed",
+        description: "Using original image. File might be large for upload.",
+        variant: "destructive",
+      });
+    }
+
+    const newPhotos = [...returnPhotos];
+    newPhotos[index] = photo;
+    setReturnPhotos(newPhotos);
+  };
+
+  const updateDamage = (index: number, updates: Partial<RentalDamageCharge>) => {
+    setDamages(damages.map((damage, i) => (i === index ? { ...damage, ...updates } : damage)));
+  };
+
+  const checkInMutation = useMutation({
+    mutationFn: async (data: RentalReturnFormData) => {
+      const formData = new FormData();
+      formData.append('returnMileage', data.returnMileage.toString());
+      formData.append('returnFuelLevel', data.returnFuelLevel.toString());
+      formData.append('returnedAt', new Date(data.returnedAt).toISOString());
+      formData.append('fuelChargePerEighth', data.fuelChargePerEighth.toString());
+      formData.append('lateFeePerHour', data.lateFeePerHour.toString());
+      formData.append('damages', JSON.stringify(damages.filter(damage => damage.description.trim())));
+      if (data.notes) {
+        formData.append('notes', data.notes);
+      }
+      returnPhotos.forEach((photo, index) => {
+        if (photo) {
+          formData.append(returnPhotoTypes[index].id, photo);
+        }
+      });
+
+      const response = await fetch(`/api/staff/rentals/${rental.id}/return`, {
+        method: 'POST',
+        body: formData,
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || `Failed to check in vehicle: ${response.status}`);
+      }
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Vehicle Checked In",
+        description: data.message,
+      });
+      setSettlement(data.settlement);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Check-in Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onInvalid = (errors: any) => {
+    const firstError = errors[Object.keys(errors)[0]];
+    toast({
+      title: "Form Validation Failed",
+      description: firstError?.message || "Please fix the highlighted errors before submitting.",
+      variant: "destructive",
+    });
+  };
+
+  const onSubmit = (data: RentalReturnFormData) => {
+    if (data.returnMileage < rental.currentMileage) {
+      toast({
+        title: "Invalid Mileage",
+        description: `Return mileage cannot be below the handover mileage of ${rental.currentMileage} KM.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    checkInMutation.mutate(data);
+  };
+
+  const renderStep = () => {
+    switch (currentStep) {
+      case 1:
+        return (
+          <Card className="glass">
+            <CardHeader className="text-center">
+              <div className="w-16 h-16 bg-gradient-to-r from-blue-600 to-cyan-600 rounded-2xl mx-auto mb-4 flex items-center justify-center">
+                <Fuel className="text-white" size={24} />
+              </div>
+              <CardTitle className="text-2xl">Odometer & Fuel</CardTitle>
+              <p className="text-slate-600">Handed over at {rental.currentMileage} KM with {fuelLevels[rental.fuelLevel]} tank</p>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div>
+                <Label>Return Mileage (KM)</Label>
+                <Input
+                  {...form.register('returnMileage', { valueAsNumber: true })}
+                  type="number"
+                  min={rental.currentMileage}
+                  step="1"
+                  data-testid="input-return-mileage"
+                />
+                {form.formState.errors.returnMileage && (
+                  <p className="text-red-500 text-sm mt-1">{form.formState.errors.returnMileage.message}</p>
+                )}
+              </div>
+
+              <div>
+                <Label>Returned At</Label>
+                <Input
+                  {...form.register('returnedAt')}
+                  type="datetime-local"
+                  data-testid="input-returned-at"
+                />
+                <p className="text-sm text-slate-500 mt-1">
+                  Due back {format(new Date(rental.endDate), 'MMM d, yyyy h:mm a')}
+                </p>
+              </div>
+
+              <div>
+                <Label className="mb-4 block">Return Fuel Level</Label>
+                <div className="glass-dark rounded-xl p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <span className="text-sm font-medium text-slate-700">E</span>
+                    <span className="text-sm font-medium text-slate-700">F</span>
+                  </div>
+                  <Slider
+                    value={[form.watch('returnFuelLevel')]}
+                    onValueChange={(value) => form.setValue('returnFuelLevel', value[0])}
+                    max={FULL_TANK_FUEL_LEVEL}
+                    step={1}
+                    className="fuel-gauge"
+                  />
+                  <div className="flex justify-between text-xs text-slate-500 mt-2">
+                    {fuelLevels.map((level, index) => (
+                      <span key={index}>{level}</span>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        );
+
+      case 2:
+        return (
+          <Card className="glass">
+            <CardHeader className="text-center">
+              <div className="w-16 h-16 bg-gradient-to-r from-green-600 to-emerald-600 rounded-2xl mx-auto mb-4 flex items-center justify-center">
+                <Camera className="text-white" size={24} />
+              </div>
+              <CardTitle className="text-2xl">Return Photos</CardTitle>
+              <p className="text-slate-600">Document the vehicle's condition on return</p>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {returnPhotoTypes.map((photoType, index) => (
+                  <div key={photoType.id} className="glass-dark rounded-xl p-4">
+                    <div className="flex items-center justify-between mb-3">
+                      <span className="font-medium text-slate-700">
+                        {photoType.label}
+                      </span>
+                      {returnPhotos[index] && (
+                        <CheckCircle2 className="w-5 h-5 text-green-600" />
+                      )}
+                    </div>
+                    <div className="text-center">
+                      <input
+                        type="file"
+                        accept="image/*"
+                        onChange={async (e) => {
+                          const file = e.target.files?.[0];
+                          if (file) {
+                            await handleReturnPhotoChange(index, file);
+                          }
+                        }}
+                        className="hidden"
+                        id={`return-photo-${index}`}
+                      />
+                      <Label
+                        htmlFor={`return-photo-${index}`}
+                        className="cursor-pointer inline-flex items-center bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+                        data-testid={`button-upload-return-photo-${photoType.id}`}
+                      >
+                        <Upload className="w-4 h-4 mr-2" />
+                        {returnPhotos[index] ? 'Update Photo' : 'Take Photo'}
+                      </Label>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        );
+
+      case 3:
+        return (
+          <Card className="glass">
+            <CardHeader className="text-center">
+              <div className="w-16 h-16 bg-gradient-to-r from-amber-600 to-orange-600 rounded-2xl mx-auto mb-4 flex items-center justify-center">
+                <FileText className="text-white" size={24} />
+              </div>
+              <CardTitle className="text-2xl">Charges & Settlement</CardTitle>
+              <p className="text-slate-600">Charges are deducted from the {formatRM(rental.deposit)} deposit</p>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label>Fuel Charge (RM per 1/8 tank)</Label>
+                  <Input
+                    {...form.register('fuelChargePerEighth', { valueAsNumber: true })}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    data-testid="input-fuel-charge"
+                  />
+                </div>
+                <div>
+                  <Label>Late Fee (RM per hour)</Label>
+                  <Input
+                    {...form.register('lateFeePerHour', { valueAsNumber: true })}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    data-testid="input-late-fee"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label>Damages</Label>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDamages([...damages, { description: "", amount: 0 }])}
+                    data-testid="button-add-damage"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Damage
+                  </Button>
+                </div>
+                {damages.map((damage, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Input
+                      value={damage.description}
+                      onChange={(e) => updateDamage(index, { description: e.target.value })}
+                      placeholder="e.g. Scratch on rear bumper"
+                      className="flex-1"
+                    />
+                    <Input
+                      value={damage.amount}
+                      onChange={(e) => updateDamage(index, { amount: parseFloat(e.target.value) || 0 })}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className="w-32"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDamages(damages.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div>
+                <Label>Notes</Label>
+                <Textarea
+                  {...form.register('notes')}
+                  placeholder="Anything else noted at check-in (optional)"
+                  data-testid="input-return-notes"
+                />
+              </div>
+
+              <div className="bg-slate-50 p-4 rounded-lg">
+                <h4 className="font-semibold mb-2">Settlement Preview</h4>
+                <div className="space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span>Excess Mileage ({preview.excessKm} KM over {preview.mileageAllowance} KM):</span>
+                    <span>{formatRM(preview.mileageCharge)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Fuel Shortfall ({preview.fuelShortfall}/8 tank):</span>
+                    <span>{formatRM(preview.fuelCharge)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Late Return ({preview.lateHours} hours):</span>
+                    <span>{formatRM(preview.lateFee)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Damages:</span>
+                    <span>{formatRM(preview.damageCharge)}</span>
+                  </div>
+                  <hr className="my-2" />
+                  <div className="flex justify-between font-semibold">
+                    <span>Deposit Refund:</span>
+                    <span>{formatRM(preview.depositRefund)}</span>
+                  </div>
+                  {preview.balanceDue > 0 && (
+                    <div className="flex justify-between font-semibold text-red-600">
+                      <span>Balance Due from Customer:</span>
+                      <span>{formatRM(preview.balanceDue)}</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <Button
+                onClick={form.handleSubmit(onSubmit, onInvalid)}
+                disabled={checkInMutation.isPending}
+                className="w-full bg-green-600 hover:bg-green-700"
+                data-testid="button-check-in-vehicle"
+              >
+                {checkInMutation.isPending ? (
+                  <>
+                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+                    Checking In...
+                  </>
+                ) : (
+                  <>
+                    <CheckCircle2 className="w-4 h-4 mr-2" />
+                    Check In Vehicle
+                  </>
+                )}
+              </Button>
+            </CardContent>
+          </Card>
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800">Vehicle Return</h2>
+          <p className="text-slate-600">Check-in for {rental.vehicle}</p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={onCancel}
+          data-testid="button-cancel-return"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </Button>
+      </div>
+
+      {/* Progress Steps */}
+      <div className="flex items-center space-x-4 mb-8">
+        {[1, 2, 3].map((step) => (
+          <div key={step} className="flex items-center">
+            <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold ${
+              currentStep >= step
+                ? 'bg-blue-600 text-white'
+                : 'bg-slate-200 text-slate-500'
+            }`}>
+              {step}
+            </div>
+            {step < 3 && (
+              <div className={`w-16 h-1 ${
+                currentStep > step ? 'bg-blue-600' : 'bg-slate-200'
+              }`} />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Step Content */}
+      {renderStep()}
+
+      {/* Navigation */}
+      {currentStep < 3 && (
+        <div className="flex justify-between">
+          <Button
+            onClick={() => setCurrentStep(currentStep - 1)}
+            variant="outline"
+            disabled={currentStep === 1}
+          >
+            <ArrowLeft className="mr-2" size={16} />
+            Previous
+          </Button>
+          <Button onClick={() => setCurrentStep(currentStep + 1)} className="bg-blue-600 hover:bg-blue-700">
+            Next Step
+            <ArrowRight className="ml-2" size={16} />
+          </Button>
+        </div>
+      )}
+
+      {/* Settlement Summary */}
+      <Dialog open={!!settlement} onOpenChange={(open) => !open && onComplete()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center text-green-600">
+              <Receipt className="w-6 h-6 mr-2" />
+              Settlement Summary
+            </DialogTitle>
+          </DialogHeader>
+
+          {settlement && (
+            <div className="space-y-4">
+              <div className="bg-slate-50 p-4 rounded-lg text-sm space-y-1">
+                <p><strong>Vehicle:</strong> {rental.vehicle}</p>
+                <p><strong>Returned:</strong> {format(new Date(settlement.returnedAt), 'MMM d, yyyy h:mm a')}</p>
+                <p><strong>Distance Driven:</strong> {settlement.distanceDriven} KM (allowance {settlement.mileageAllowance} KM)</p>
+                <p><strong>Return Fuel:</strong> {fuelLevels[settlement.returnFuelLevel]}</p>
+              </div>
+
+              <div className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span>Excess Mileage ({settlement.excessKm} KM):</span>
+                  <span>{formatRM(settlement.mileageCharge)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Fuel Shortfall ({settlement.fuelShortfall}/8 tank):</span>
+                  <span>{formatRM(settlement.fuelCharge)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Late Return ({settlement.lateHours} hours):</span>
+                  <span>{formatRM(settlement.lateFee)}</span>
+                </div>
+                {settlement.damages.map((damage, index) => (
+                  <div key={index} className="flex justify-between">
+                    <span>Damage: {damage.description}</span>
+                    <span>{formatRM(damage.amount)}</span>
+                  </div>
+                ))}
+                <hr className="my-2" />
+                <div className="flex justify-between font-semibold">
+                  <span>Total Charges:</span>
+                  <span>{formatRM(settlement.totalCharges)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Deposit Held:</span>
+                  <span>{formatRM(settlement.depositHeld)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Deducted from Deposit:</span>
+                  <span>-{formatRM(settlement.depositDeducted)}</span>
+                </div>
+                <div className="flex justify-between font-semibold text-green-700">
+                  <span>Deposit Refund:</span>
+                  <span>{formatRM(settlement.depositRefund)}</span>
+                </div>
+                {parseFloat(settlement.balanceDue) > 0 && (
+                  <div className="flex justify-between font-semibold text-red-600">
+                    <span>Balance Due from Customer:</span>
+                    <span>{formatRM(settlement.balanceDue)}</span>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex justify-end">
+                <Button
+                  onClick={onComplete}
+                  className="bg-green-600 hover:bg-green-700"
+                  data-testid="button-close-settlement"
+                >
+                  Done
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
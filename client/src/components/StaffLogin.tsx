@@ -7,9 +7,10 @@ import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
-import { Shield, ArrowLeft, User, Lock } from "lucide-react";
+import { Shield, ArrowLeft, User, Lock, Smartphone, KeyRound, Copy } from "lucide-react";
 import { z } from "zod";
 
 type StaffLoginData = z.infer<typeof staffLoginSchema>;
@@ -18,9 +19,22 @@ interface StaffLoginProps {
   onViewChange: (view: string) => void;
 }
 
+type LoginStep = "credentials" | "verify" | "enroll" | "recovery-codes";
+
+interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
 export default function StaffLogin({ onViewChange }: StaffLoginProps) {
   const { toast } = useToast();
   const { setStaff } = useAuth();
+  const [step, setStep] = useState<LoginStep>("credentials");
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [loggedInStaff, setLoggedInStaff] = useState<any>(null);
 
   const form = useForm<StaffLoginData>({
     resolver: zodResolver(staffLoginSchema),
@@ -30,27 +44,92 @@ export default function StaffLogin({ onViewChange }: StaffLoginProps) {
     },
   });
 
+  const finishLogin = (data: any) => {
+    setStaff(data);
+    onViewChange('staff-dashboard');
+    toast({
+      title: "Login Successful",
+      description: "Welcome to the staff dashboard.",
+    });
+  };
+
+  const onLoginError = (error: Error) => {
+    setCode("");
+    toast({
+      title: "Login Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/staff/login/2fa/setup');
+      return response.json();
+    },
+    onSuccess: (data: TwoFactorEnrollment) => setEnrollment(data),
+    onError: onLoginError,
+  });
+
   const loginMutation = useMutation({
     mutationFn: async (data: StaffLoginData) => {
-      return apiRequest('POST', '/api/staff/login', data);
+      const response = await apiRequest('POST', '/api/staff/login', data);
+      return response.json();
     },
     onSuccess: (data) => {
-      setStaff(data);
-      onViewChange('staff-dashboard');
-      toast({
-        title: "Login Successful",
-        description: "Welcome to the staff dashboard.",
-      });
+      setCode("");
+      if (data.twoFactorRequired) {
+        setStep("verify");
+      } else if (data.twoFactorEnrollmentRequired) {
+        setStep("enroll");
+        setupMutation.mutate();
+        toast({
+          title: "Two-Factor Setup Required",
+          description: data.message,
+        });
+      } else {
+        finishLogin(data);
+      }
     },
-    onError: (error: Error) => {
-      toast({
-        title: "Login Failed",
-        description: error.message,
-        variant: "destructive",
-      });
+    onError: onLoginError,
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/staff/login/2fa', { code });
+      return response.json();
     },
+    onSuccess: finishLogin,
+    onError: onLoginError,
   });
 
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/staff/login/2fa/enable', { code });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setLoggedInStaff(data);
+      setStep("recovery-codes");
+    },
+    onError: onLoginError,
+  });
+
+  const restartLogin = () => {
+    setStep("credentials");
+    setCode("");
+    setEnrollment(null);
+    setUseRecoveryCode(false);
+  };
+
+  const copyRecoveryCodes = async () => {
+    await navigator.clipboard.writeText(loggedInStaff.recoveryCodes.join("\n"));
+    toast({
+      title: "Copied",
+      description: "Recovery codes copied to clipboard.",
+    });
+  };
+
   const onSubmit = (data: StaffLoginData) => {
     loginMutation.mutate(data);
   };
@@ -87,59 +166,191 @@ export default function StaffLogin({ onViewChange }: StaffLoginProps) {
           </div>
 
           {/* Login Form */}
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-            <div className="space-y-2">
-              <Label htmlFor="username" className="text-white/90 flex items-center gap-2">
-                <User className="h-4 w-4" />
-                Username
-              </Label>
-              <Input
-                id="username"
-                type="text"
-                placeholder="Enter your username"
-                className="bg-white/10 border-white/20 text-white placeholder:text-white/50 focus:border-red-400 focus:ring-red-400/20"
-                {...form.register("username")}
-              />
-              {form.formState.errors.username && (
-                <p className="text-red-300 text-sm">{form.formState.errors.username.message}</p>
-              )}
-            </div>
+          {step === "credentials" && (
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="username" className="text-white/90 flex items-center gap-2">
+                  <User className="h-4 w-4" />
+                  Username
+                </Label>
+                <Input
+                  id="username"
+                  type="text"
+                  placeholder="Enter your username"
+                  className="bg-white/10 border-white/20 text-white placeholder:text-white/50 focus:border-red-400 focus:ring-red-400/20"
+                  {...form.register("username")}
+                />
+                {form.formState.errors.username && (
+                  <p className="text-red-300 text-sm">{form.formState.errors.username.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="password" className="text-white/90 flex items-center gap-2">
+                  <Lock className="h-4 w-4" />
+                  Password
+                </Label>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="Enter your password"
+                  className="bg-white/10 border-white/20 text-white placeholder:text-white/50 focus:border-red-400 focus:ring-red-400/20"
+                  {...form.register("password")}
+                />
+                {form.formState.errors.password && (
+                  <p className="text-red-300 text-sm">{form.formState.errors.password.message}</p>
+                )}
+              </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="password" className="text-white/90 flex items-center gap-2">
-                <Lock className="h-4 w-4" />
-                Password
-              </Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder="Enter your password"
-                className="bg-white/10 border-white/20 text-white placeholder:text-white/50 focus:border-red-400 focus:ring-red-400/20"
-                {...form.register("password")}
-              />
-              {form.formState.errors.password && (
-                <p className="text-red-300 text-sm">{form.formState.errors.password.message}</p>
+              <Button
+                type="submit"
+                disabled={loginMutation.isPending}
+                className="w-full bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 text-white py-3 rounded-xl font-semibold shadow-lg hover:shadow-red-500/25 transition-all duration-200"
+              >
+                {loginMutation.isPending ? (
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 border-2 border-white/20 border-t-white rounded-full animate-spin"></div>
+                    Signing In...
+                  </div>
+                ) : (
+                  <>
+                    <Shield className="mr-2 h-5 w-5" />
+                    Sign In
+                  </>
+                )}
+              </Button>
+            </form>
+          )}
+
+          {/* Second Factor */}
+          {step === "verify" && (
+            <form
+              onSubmit={(e) => { e.preventDefault(); verifyMutation.mutate(); }}
+              className="space-y-6"
+            >
+              <p className="text-white/80 text-center flex items-center justify-center gap-2">
+                <Smartphone className="h-4 w-4" />
+                {useRecoveryCode ? "Enter one of your recovery codes" : "Enter the 6-digit code from your authenticator app"}
+              </p>
+
+              {useRecoveryCode ? (
+                <Input
+                  placeholder="xxxxx-xxxxx"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="bg-white/10 border-white/20 text-white placeholder:text-white/50 text-center tracking-widest"
+                  data-testid="input-recovery-code"
+                  autoFocus
+                />
+              ) : (
+                <div className="flex justify-center">
+                  <InputOTP maxLength={6} value={code} onChange={setCode} data-testid="input-2fa-code">
+                    <InputOTPGroup className="text-white">
+                      {[0, 1, 2, 3, 4, 5].map((index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
               )}
-            </div>
 
-            <Button
-              type="submit"
-              disabled={loginMutation.isPending}
-              className="w-full bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 text-white py-3 rounded-xl font-semibold shadow-lg hover:shadow-red-500/25 transition-all duration-200"
+              <Button
+                type="submit"
+                disabled={verifyMutation.isPending || (useRecoveryCode ? code.trim().length < 10 : code.length !== 6)}
+                className="w-full bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 text-white py-3 rounded-xl font-semibold"
+                data-testid="button-verify-2fa"
+              >
+                {verifyMutation.isPending ? "Verifying..." : "Verify"}
+              </Button>
+
+              <div className="flex justify-between text-sm">
+                <Button type="button" variant="link" className="text-white/80" onClick={restartLogin}>
+                  Start over
+                </Button>
+                <Button
+                  type="button"
+                  variant="link"
+                  className="text-white/80"
+                  onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(""); }}
+                >
+                  {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {/* Required Enrollment */}
+          {step === "enroll" && (
+            <form
+              onSubmit={(e) => { e.preventDefault(); enableMutation.mutate(); }}
+              className="space-y-6"
             >
-              {loginMutation.isPending ? (
-                <div className="flex items-center gap-2">
-                  <div className="w-4 h-4 border-2 border-white/20 border-t-white rounded-full animate-spin"></div>
-                  Signing In...
+              <p className="text-white/80 text-sm text-center">
+                Scan this QR code with Google Authenticator, Authy or a similar app, then enter the 6-digit code it shows.
+              </p>
+
+              {enrollment ? (
+                <div className="flex flex-col items-center gap-3">
+                  <img src={enrollment.qrCodeDataUrl} alt="Two-factor QR code" className="w-48 h-48 rounded-lg bg-white p-2" />
+                  <p className="text-white/60 text-xs text-center break-all">
+                    Can't scan? Enter this key: <span className="font-mono text-white">{enrollment.secret}</span>
+                  </p>
                 </div>
               ) : (
-                <>
-                  <Shield className="mr-2 h-5 w-5" />
-                  Sign In
-                </>
+                <p className="text-white/60 text-center">{setupMutation.isPending ? "Generating QR code..." : "Unable to start setup."}</p>
               )}
-            </Button>
-          </form>
+
+              <div className="flex justify-center">
+                <InputOTP maxLength={6} value={code} onChange={setCode} data-testid="input-2fa-enroll-code">
+                  <InputOTPGroup className="text-white">
+                    {[0, 1, 2, 3, 4, 5].map((index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+
+              <Button
+                type="submit"
+                disabled={!enrollment || enableMutation.isPending || code.length !== 6}
+                className="w-full bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 text-white py-3 rounded-xl font-semibold"
+                data-testid="button-enable-2fa"
+              >
+                {enableMutation.isPending ? "Verifying..." : "Enable & Sign In"}
+              </Button>
+
+              <Button type="button" variant="link" className="w-full text-white/80" onClick={restartLogin}>
+                Start over
+              </Button>
+            </form>
+          )}
+
+          {/* Recovery Codes */}
+          {step === "recovery-codes" && loggedInStaff && (
+            <div className="space-y-6">
+              <p className="text-white/80 text-sm text-center flex items-center justify-center gap-2">
+                <KeyRound className="h-4 w-4" />
+                Save these recovery codes somewhere safe. Each one can be used once if you lose your phone.
+              </p>
+              <div className="grid grid-cols-2 gap-2 p-4 bg-black/20 rounded-xl font-mono text-white text-center" data-testid="list-recovery-codes">
+                {loggedInStaff.recoveryCodes.map((recoveryCode: string) => (
+                  <span key={recoveryCode}>{recoveryCode}</span>
+                ))}
+              </div>
+              <Button type="button" variant="outline" className="w-full" onClick={copyRecoveryCodes}>
+                <Copy className="mr-2 h-4 w-4" />
+                Copy Codes
+              </Button>
+              <Button
+                type="button"
+                onClick={() => finishLogin(loggedInStaff)}
+                className="w-full bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 text-white py-3 rounded-xl font-semibold"
+                data-testid="button-continue-dashboard"
+              >
+                I've Saved My Codes
+              </Button>
+            </div>
+          )}
 
           {/* Login Hint */}
           <div className="mt-6 p-4 bg-red-500/10 rounded-xl border border-red-500/20">
@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { Smartphone, KeyRound, ShieldCheck, ShieldOff } from "lucide-react";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+export default function StaffTwoFactorSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ['/api/staff/2fa'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/staff/2fa');
+      return response.json();
+    },
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    setCode("");
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const onCodesIssued = (data: { message: string; recoveryCodes: string[] }) => {
+    setCode("");
+    setEnrollment(null);
+    setRecoveryCodes(data.recoveryCodes);
+    queryClient.invalidateQueries({ queryKey: ['/api/staff/2fa'] });
+    toast({
+      title: "Two-Factor Authentication",
+      description: data.message,
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/staff/2fa/setup');
+      return response.json();
+    },
+    onSuccess: (data: TwoFactorEnrollment) => {
+      setCode("");
+      setEnrollment(data);
+    },
+    onError: onError("Setup Failed"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/staff/2fa/enable', { code });
+      return response.json();
+    },
+    onSuccess: onCodesIssued,
+    onError: onError("Could Not Enable 2FA"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/staff/2fa/recovery-codes', { code });
+      return response.json();
+    },
+    onSuccess: onCodesIssued,
+    onError: onError("Could Not Generate Codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/staff/2fa/disable', { code });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setCode("");
+      setRecoveryCodes(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/staff/2fa'] });
+      toast({
+        title: "Two-Factor Authentication",
+        description: data.message,
+      });
+    },
+    onError: onError("Could Not Disable 2FA"),
+  });
+
+  const isPending = setupMutation.isPending || enableMutation.isPending || regenerateMutation.isPending || disableMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Smartphone className="w-5 h-5 mr-2 text-blue-500" />
+          Two-Factor Authentication
+          {status && (
+            <Badge variant={status.enabled ? "default" : "secondary"} className="ml-3">
+              {status.enabled ? "Enabled" : "Off"}
+            </Badge>
+          )}
+        </CardTitle>
+        <p className="text-sm text-slate-600">
+          Require a code from an authenticator app in addition to your password when you sign in.
+          {status?.required && " Your role requires two-factor authentication."}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <p className="text-slate-600">Loading...</p>}
+
+        {recoveryCodes && (
+          <div className="p-4 border border-yellow-300 bg-yellow-50 rounded-lg space-y-3">
+            <p className="text-sm text-yellow-800 flex items-center gap-2">
+              <KeyRound className="w-4 h-4" />
+              Save these recovery codes now. They will not be shown again and each can be used once.
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2 font-mono text-sm" data-testid="list-recovery-codes">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode} className="bg-white rounded px-2 py-1 text-center">{recoveryCode}</span>
+              ))}
+            </div>
+            <Button size="sm" variant="outline" onClick={() => setRecoveryCodes(null)}>
+              I've Saved These Codes
+            </Button>
+          </div>
+        )}
+
+        {status && !status.enabled && !enrollment && (
+          <Button onClick={() => setupMutation.mutate()} disabled={isPending} data-testid="button-setup-2fa">
+            <ShieldCheck className="w-4 h-4 mr-2" />
+            {setupMutation.isPending ? "Generating..." : "Set Up Two-Factor Authentication"}
+          </Button>
+        )}
+
+        {enrollment && (
+          <div className="space-y-3">
+            <p className="text-sm text-slate-600">
+              Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <img src={enrollment.qrCodeDataUrl} alt="Two-factor QR code" className="w-48 h-48 border rounded-lg" />
+            <p className="text-xs text-slate-500 break-all">
+              Can't scan? Enter this key: <span className="font-mono text-slate-800">{enrollment.secret}</span>
+            </p>
+            <div className="flex items-center gap-2 max-w-sm">
+              <Input
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                data-testid="input-2fa-enable-code"
+              />
+              <Button onClick={() => enableMutation.mutate()} disabled={isPending || code.trim().length !== 6}>
+                {enableMutation.isPending ? "Verifying..." : "Enable"}
+              </Button>
+              <Button variant="outline" onClick={() => { setEnrollment(null); setCode(""); }}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {status?.enabled && (
+          <div className="space-y-3">
+            <p className="text-sm text-slate-600">
+              {status.recoveryCodesRemaining} recovery code(s) remaining.
+              {status.enabledAt && ` Enabled on ${new Date(status.enabledAt).toLocaleDateString()}.`}
+            </p>
+            <p className="text-sm text-slate-600">
+              Enter a current authenticator code (or a recovery code) to make changes.
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="Code"
+                autoComplete="one-time-code"
+                className="max-w-xs"
+                data-testid="input-2fa-manage-code"
+              />
+              <Button
+                variant="outline"
+                onClick={() => regenerateMutation.mutate()}
+                disabled={isPending || code.trim().length < 6}
+              >
+                <KeyRound className="w-4 h-4 mr-2" />
+                New Recovery Codes
+              </Button>
+              {!status.required && (
+                <Button
+                  variant="outline"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => disableMutation.mutate()}
+                  disabled={isPending || code.trim().length < 6}
+                >
+                  <ShieldOff className="w-4 h-4 mr-2" />
+                  Disable
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,273 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { getQueryFn, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Ban, Timer, Trash2 } from "lucide-react";
+import {
+  VEHICLE_BLACKOUT_REASONS, VEHICLE_BLACKOUT_REASON_LABELS, MAX_TURNAROUND_HOURS,
+  type VehicleBlackout, type VehicleBlackoutReason
+} from "@shared/fleetSchema";
+import type { VehicleHold } from "@shared/bookingRequestSchema";
+
+interface VehicleAvailabilitySettingsProps {
+  vehicleId: number;
+}
+
+export interface VehicleScheduling {
+  turnaroundHours: number;
+  blackouts: VehicleBlackout[];
+  // Dates held for pending and confirmed booking requests
+  holds: VehicleHold[];
+}
+
+interface ConflictingBooking {
+  id: number;
+  startDate: string;
+  endDate: string;
+}
+
+export const vehicleSchedulingUrl = (vehicleId: number | string) => `/api/staff/vehicles/${vehicleId}/scheduling`;
+
+// Turnaround buffer and off-road blocks for one vehicle.
+export default function VehicleAvailabilitySettings({ vehicleId }: VehicleAvailabilitySettingsProps) {
+  const [turnaroundHours, setTurnaroundHours] = useState('');
+  const [reason, setReason] = useState<VehicleBlackoutReason>('maintenance');
+  const [note, setNote] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [conflicts, setConflicts] = useState<ConflictingBooking[]>([]);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const schedulingUrl = vehicleSchedulingUrl(vehicleId);
+  const { data: scheduling, isLoading } = useQuery<VehicleScheduling>({
+    queryKey: [schedulingUrl],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const savedTurnaroundHours = scheduling?.turnaroundHours;
+  useEffect(() => {
+    if (savedTurnaroundHours !== undefined) {
+      setTurnaroundHours(String(savedTurnaroundHours));
+    }
+  }, [savedTurnaroundHours]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [schedulingUrl] });
+    queryClient.invalidateQueries({ queryKey: ['/api/staff/calendar/blackouts'] });
+  };
+
+  const turnaroundMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', `/api/staff/vehicles/${vehicleId}/turnaround`, { turnaroundHours: parseInt(turnaroundHours) });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Turnaround Updated", description: `Bookings are now kept ${turnaroundHours} hours apart.` });
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could Not Update Turnaround", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const blackoutMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/staff/vehicles/${vehicleId}/blackouts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          reason,
+          note: note || undefined,
+          startDate: new Date(startDate).toISOString(),
+          endDate: new Date(endDate).toISOString(),
+        }),
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        setConflicts(body?.conflicts ?? []);
+        throw new Error(body?.message || `Failed to block the vehicle: ${response.status}`);
+      }
+      return body;
+    },
+    onSuccess: () => {
+      toast({ title: "Vehicle Blocked", description: `${VEHICLE_BLACKOUT_REASON_LABELS[reason]} block added.` });
+      setNote('');
+      setStartDate('');
+      setEndDate('');
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could Not Block Vehicle", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (blackoutId: number) => {
+      const response = await apiRequest('DELETE', `/api/staff/vehicles/${vehicleId}/blackouts/${blackoutId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Block Removed" });
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could Not Remove Block", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !scheduling) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const upcoming = scheduling.blackouts.filter(blackout => new Date(blackout.endDate) >= new Date());
+  const canBlock = !!startDate && !!endDate && new Date(endDate) > new Date(startDate);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <Card className="glass">
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center">
+            <Timer className="mr-2" size={20} />
+            Turnaround
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-slate-600">
+            Hours kept free after each rental to clean, refuel and deliver the vehicle.
+          </p>
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <Label htmlFor="turnaround-hours">Hours</Label>
+              <Input
+                id="turnaround-hours"
+                type="number"
+                min="0"
+                max={MAX_TURNAROUND_HOURS}
+                step="1"
+                value={turnaroundHours}
+                onChange={(e) => setTurnaroundHours(e.target.value)}
+                data-testid="input-turnaround-hours"
+              />
+            </div>
+            <Button
+              disabled={turnaroundHours === '' || parseInt(turnaroundHours) === scheduling.turnaroundHours || turnaroundMutation.isPending}
+              onClick={() => turnaroundMutation.mutate()}
+            >
+              Save
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="glass">
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center">
+            <Ban className="mr-2" size={20} />
+            Off-road Blocks
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {upcoming.length === 0 && (
+            <p className="text-sm text-slate-500">No upcoming blocks.</p>
+          )}
+          {upcoming.map(blackout => (
+            <div key={blackout.id} className="flex items-center justify-between text-sm border-b pb-2">
+              <div>
+                <p className="font-medium">
+                  {VEHICLE_BLACKOUT_REASON_LABELS[blackout.reason as VehicleBlackoutReason] ?? blackout.reason}
+                </p>
+                <p className="text-slate-500">
+                  {format(new Date(blackout.startDate), 'MMM d HH:mm')} - {format(new Date(blackout.endDate), 'MMM d HH:mm')}
+                  {blackout.note && ` · ${blackout.note}`}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate(blackout.id)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="blackout-reason">Reason</Label>
+              <select
+                id="blackout-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value as VehicleBlackoutReason)}
+                className="w-full p-2 border border-slate-300 rounded-lg"
+              >
+                {VEHICLE_BLACKOUT_REASONS.map(option => (
+                  <option key={option} value={option}>{VEHICLE_BLACKOUT_REASON_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="blackout-note">Note</Label>
+              <Input id="blackout-note" value={note} onChange={(e) => setNote(e.target.value)} placeholder="e.g. 20,000 km service" />
+            </div>
+            <div>
+              <Label htmlFor="blackout-start">From</Label>
+              <Input
+                id="blackout-start"
+                type="datetime-local"
+                value={startDate}
+                onChange={(e) => {
+                  setStartDate(e.target.value);
+                  setConflicts([]);
+                }}
+              />
+            </div>
+            <div>
+              <Label htmlFor="blackout-end">Until</Label>
+              <Input
+                id="blackout-end"
+                type="datetime-local"
+                value={endDate}
+                onChange={(e) => {
+                  setEndDate(e.target.value);
+                  setConflicts([]);
+                }}
+              />
+            </div>
+          </div>
+
+          {conflicts.length > 0 && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+              <p className="font-medium">Booked during this time:</p>
+              {conflicts.map(conflict => (
+                <p key={conflict.id}>
+                  AGR-{conflict.id}: {format(new Date(conflict.startDate), 'MMM d')} - {format(new Date(conflict.endDate), 'MMM d')}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              disabled={!canBlock || blackoutMutation.isPending}
+              onClick={() => blackoutMutation.mutate()}
+              data-testid="button-add-blackout"
+            >
+              Block Vehicle
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,27 +1,94 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { getQueryFn } from "@/lib/queryClient";
-import { vehicles } from "@/lib/vehicles";
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, isWithinInterval } from "date-fns";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { getQueryFn, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format, startOfMonth, endOfMonth, startOfDay, endOfDay, eachDayOfInterval, isSameDay, isWithinInterval } from "date-fns";
 import { Calendar, Car, ChevronLeft, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import RentalReturnForm from "@/components/RentalReturnForm";
+import DamageInspection from "@/components/DamageInspection";
+import RentalAmendmentForm from "@/components/RentalAmendmentForm";
+import DepositLedger from "@/components/DepositLedger";
+import VehicleAvailabilitySettings, { vehicleSchedulingUrl, type VehicleScheduling } from "@/components/VehicleAvailabilitySettings";
 import { cn } from "@/lib/utils";
+import type { Rental, Vehicle } from "@shared/schema";
+import { VEHICLE_BLACKOUT_REASON_LABELS, type VehicleBlackoutReason } from "@shared/fleetSchema";
+import { BOOKING_REQUEST_STATUS_LABELS } from "@shared/bookingRequestSchema";
+import { RENTAL_ACTION_DEFINITIONS, RENTAL_STATUS_LABELS, AMENDABLE_RENTAL_STATUSES, RELEASED_RENTAL_STATUSES, type RentalAction, type RentalStatus } from "@shared/rentalSchema";
+
+type ScheduledRental = Rental & {
+  lifecycleStatus: RentalStatus;
+  allowedActions: RentalAction[];
+};
+
+const STATUS_BADGE_VARIANTS: Partial<Record<RentalStatus, "default" | "secondary" | "destructive" | "outline">> = {
+  checked_out: "default",
+  on_rent: "default",
+  closed: "outline",
+  cancelled: "destructive",
+  no_show: "destructive",
+};
 
 export default function VehicleSchedule() {
+  // Vehicle id, as a string for the Select
   const [selectedVehicle, setSelectedVehicle] = useState<string>("");
   const [currentDate, setCurrentDate] = useState(new Date());
+  const [returningRental, setReturningRental] = useState<ScheduledRental | null>(null);
+  const [inspectingRental, setInspectingRental] = useState<ScheduledRental | null>(null);
+  const [amendingRental, setAmendingRental] = useState<ScheduledRental | null>(null);
+  const [depositRental, setDepositRental] = useState<ScheduledRental | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
   
   const currentMonth = currentDate.getMonth() + 1;
   const currentYear = currentDate.getFullYear();
 
-  const { data: schedule, isLoading } = useQuery({
+  const { data: vehicles = [] } = useQuery<Vehicle[]>({
+    queryKey: ['/api/vehicles'],
+  });
+
+  const vehiclesByCategory = vehicles.reduce<Record<string, Vehicle[]>>((groups, vehicle) => {
+    groups[vehicle.category] = [...(groups[vehicle.category] || []), vehicle];
+    return groups;
+  }, {});
+
+  const { data: schedule, isLoading } = useQuery<ScheduledRental[]>({
     queryKey: ['/api/staff/vehicle-schedule', selectedVehicle, { month: currentMonth, year: currentYear }],
     queryFn: getQueryFn({ on401: "throw" }),
     enabled: !!selectedVehicle,
   });
 
+  const { data: scheduling } = useQuery<VehicleScheduling>({
+    queryKey: [vehicleSchedulingUrl(selectedVehicle)],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!selectedVehicle,
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: async ({ rentalId, action }: { rentalId: number; action: RentalAction }) => {
+      const response = await apiRequest('POST', `/api/staff/rentals/${rentalId}/transition`, { action });
+      return response.json();
+    },
+    onSuccess: (_rental, { action }) => {
+      toast({
+        title: "Rental Updated",
+        description: `${RENTAL_ACTION_DEFINITIONS[action].label} recorded.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/staff/vehicle-schedule'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/staff/rentals'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const monthStart = startOfMonth(currentDate);
   const monthEnd = endOfMonth(currentDate);
   const monthDays = eachDayOfInterval({ start: monthStart, end: monthEnd });
@@ -48,6 +115,31 @@ export default function VehicleSchedule() {
     });
   };
 
+  const getBlackoutsForDate = (date: Date) => {
+    if (!scheduling) return [];
+
+    return scheduling.blackouts.filter(blackout =>
+      // Any part of the day counts, not just midnight
+      new Date(blackout.startDate) <= endOfDay(date) && new Date(blackout.endDate) >= startOfDay(date)
+    );
+  };
+
+  const monthBlackouts = (scheduling?.blackouts ?? []).filter(blackout =>
+    new Date(blackout.startDate) <= monthEnd && new Date(blackout.endDate) >= monthStart
+  );
+
+  const getHoldsForDate = (date: Date) => {
+    if (!scheduling) return [];
+
+    return scheduling.holds.filter(hold =>
+      new Date(hold.startDate) <= endOfDay(date) && new Date(hold.endDate) >= startOfDay(date)
+    );
+  };
+
+  const monthHolds = (scheduling?.holds ?? []).filter(hold =>
+    new Date(hold.startDate) <= monthEnd && new Date(hold.endDate) >= monthStart
+  );
+
   const getBookingsForDate = (date: Date) => {
     if (!schedule) return [];
     
@@ -71,12 +163,12 @@ export default function VehicleSchedule() {
             <SelectValue placeholder="Choose a vehicle to view schedule" />
           </SelectTrigger>
           <SelectContent>
-            {Object.entries(vehicles).map(([category, vehicleList]) => (
+            {Object.entries(vehiclesByCategory).map(([category, vehicleList]) => (
               <div key={category}>
                 <div className="px-2 py-1 text-sm font-semibold text-slate-600">{category}</div>
                 {vehicleList.map((vehicle) => (
-                  <SelectItem key={vehicle} value={vehicle}>
-                    {vehicle}
+                  <SelectItem key={vehicle.id} value={String(vehicle.id)}>
+                    {vehicle.name}
                   </SelectItem>
                 ))}
               </div>
@@ -138,6 +230,8 @@ export default function VehicleSchedule() {
               {monthDays.map((date, index) => {
                 const isBooked = isDateBooked(date);
                 const bookings = getBookingsForDate(date);
+                const isBlocked = getBlackoutsForDate(date).length > 0;
+                const isHeld = getHoldsForDate(date).length > 0;
                 const isToday = isSameDay(date, new Date());
                 
                 return (
@@ -145,7 +239,13 @@ export default function VehicleSchedule() {
                     key={index}
                     className={cn(
                       "relative p-3 min-h-[80px] rounded-lg border transition-all",
-                      isBooked ? "bg-red-50 border-red-300" : "bg-white/50 border-slate-200",
+                      isBooked
+                        ? "bg-red-50 border-red-300"
+                        : isBlocked
+                          ? "bg-slate-200 border-slate-400"
+                          : isHeld
+                            ? "bg-amber-50 border-dashed border-amber-400"
+                            : "bg-white/50 border-slate-200",
                       isToday && "ring-2 ring-primary"
                     )}
                   >
@@ -163,6 +263,22 @@ export default function VehicleSchedule() {
                         Booked
                       </Badge>
                     )}
+                    {!isBooked && isBlocked && (
+                      <Badge
+                        variant="secondary"
+                        className="absolute bottom-1 right-1 text-xs"
+                      >
+                        Blocked
+                      </Badge>
+                    )}
+                    {!isBooked && !isBlocked && isHeld && (
+                      <Badge
+                        variant="outline"
+                        className="absolute bottom-1 right-1 text-xs border-dashed border-amber-500 text-amber-700"
+                      >
+                        Held
+                      </Badge>
+                    )}
                     {bookings.length > 0 && (
                       <div className="mt-1 text-xs text-red-600">
                         {bookings.length} booking{bookings.length > 1 ? 's' : ''}
@@ -189,16 +305,143 @@ export default function VehicleSchedule() {
                         ({rental.totalDays} days)
                       </span>
                     </div>
-                    <Badge variant={rental.status === 'completed' ? 'default' : 'secondary'}>
-                      {rental.status}
+                    <Badge variant={STATUS_BADGE_VARIANTS[rental.lifecycleStatus] ?? 'secondary'}>
+                      {RENTAL_STATUS_LABELS[rental.lifecycleStatus]}
                     </Badge>
                   </div>
+                  {!RELEASED_RENTAL_STATUSES.includes(rental.lifecycleStatus) && (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      <Button size="sm" variant="outline" onClick={() => setDepositRental(rental)}>
+                        Deposit
+                      </Button>
+                      {AMENDABLE_RENTAL_STATUSES.includes(rental.lifecycleStatus) && (
+                        <Button size="sm" variant="outline" onClick={() => setAmendingRental(rental)}>
+                          Change Return Date
+                        </Button>
+                      )}
+                      {(rental.lifecycleStatus === 'returned' || rental.lifecycleStatus === 'closed') && (
+                        <Button size="sm" variant="outline" onClick={() => setInspectingRental(rental)}>
+                          Damage Inspection
+                        </Button>
+                      )}
+                      {rental.allowedActions.map(action => (
+                        <Button
+                          key={action}
+                          size="sm"
+                          variant={RENTAL_ACTION_DEFINITIONS[action].to === 'cancelled' || RENTAL_ACTION_DEFINITIONS[action].to === 'no_show' ? 'destructive' : 'outline'}
+                          disabled={transitionMutation.isPending}
+                          onClick={() => action === 'return'
+                            ? setReturningRental(rental)
+                            : transitionMutation.mutate({ rentalId: rental.id, action })}
+                        >
+                          {RENTAL_ACTION_DEFINITIONS[action].label}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {monthBlackouts.length > 0 && (
+            <div className="mt-6 space-y-2">
+              <h4 className="font-semibold text-slate-800">Off the road this month:</h4>
+              {monthBlackouts.map(blackout => (
+                <div key={blackout.id} className="glass p-3 rounded-lg text-sm flex justify-between items-center">
+                  <span className="font-medium">
+                    {format(new Date(blackout.startDate), 'MMM d HH:mm')} - {format(new Date(blackout.endDate), 'MMM d HH:mm')}
+                  </span>
+                  <Badge variant="secondary">
+                    {VEHICLE_BLACKOUT_REASON_LABELS[blackout.reason as VehicleBlackoutReason] ?? blackout.reason}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {monthHolds.length > 0 && (
+            <div className="mt-6 space-y-2">
+              <h4 className="font-semibold text-slate-800">Held for booking requests:</h4>
+              {monthHolds.map(hold => (
+                <div key={hold.bookingRequestId} className="p-3 rounded-lg text-sm flex justify-between items-center border border-dashed border-amber-400 bg-amber-50/60">
+                  <div>
+                    <span className="font-medium">
+                      {format(new Date(hold.startDate), 'MMM d')} - {format(new Date(hold.endDate), 'MMM d')}
+                    </span>
+                    <span className="text-slate-600 ml-2">
+                      {hold.customerName ?? `Request #${hold.bookingRequestId}`}
+                      {hold.status === 'pending' && ` · until ${format(new Date(hold.expiresAt), 'MMM d HH:mm')}`}
+                    </span>
+                  </div>
+                  <Badge variant="outline" className="border-amber-500 text-amber-700">
+                    {BOOKING_REQUEST_STATUS_LABELS[hold.status]}
+                  </Badge>
                 </div>
               ))}
             </div>
           )}
         </div>
       )}
+
+      {selectedVehicle && (
+        <VehicleAvailabilitySettings vehicleId={parseInt(selectedVehicle)} />
+      )}
+
+      {/* Vehicle check-in */}
+      <Dialog open={!!returningRental} onOpenChange={(open) => !open && setReturningRental(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          {returningRental && (
+            <RentalReturnForm
+              rental={returningRental}
+              onComplete={() => {
+                setReturningRental(null);
+                queryClient.invalidateQueries({ queryKey: ['/api/staff/vehicle-schedule'] });
+                queryClient.invalidateQueries({ queryKey: ['/api/staff/rentals'] });
+              }}
+              onCancel={() => setReturningRental(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Extension / early return */}
+      <Dialog open={!!amendingRental} onOpenChange={(open) => !open && setAmendingRental(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {amendingRental && (
+            <RentalAmendmentForm
+              rental={amendingRental}
+              onComplete={() => {
+                setAmendingRental(null);
+                queryClient.invalidateQueries({ queryKey: ['/api/staff/vehicle-schedule'] });
+                queryClient.invalidateQueries({ queryKey: ['/api/staff/rentals'] });
+              }}
+              onCancel={() => setAmendingRental(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Security deposit */}
+      <Dialog open={!!depositRental} onOpenChange={(open) => !open && setDepositRental(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {depositRental && (
+            <DepositLedger rentalId={depositRental.id} title={`${depositRental.vehicle} · AGR-${depositRental.id}`} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Damage inspection */}
+      <Dialog open={!!inspectingRental} onOpenChange={(open) => !open && setInspectingRental(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          {inspectingRental && (
+            <DamageInspection
+              rental={inspectingRental}
+              onClose={() => setInspectingRental(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
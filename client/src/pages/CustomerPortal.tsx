@@ -9,12 +9,16 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import CustomerDashboard from "@/components/CustomerDashboard";
+import TermsConditions from "@/components/TermsConditions";
+import BookingAlternatives from "@/components/BookingAlternatives";
 import { 
   Calendar, Car, Clock, CheckCircle, AlertCircle, 
-  LogOut, User, MessageCircle, Send, X 
+  LogOut, User, MessageCircle, Send, X, Mail 
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { bookingRequestSchema, type BookingRequestData, type Vehicle } from "@shared/schema";
+import type { BookingAlternatives as Alternatives } from "@shared/fleetSchema";
+import { WAITLIST_STATUS_LABELS, type CustomerWaitlistEntry } from "@shared/waitlistSchema";
 import { z } from "zod";
 
 interface CustomerPortalProps {
@@ -28,7 +32,10 @@ export default function CustomerPortal({ onViewChange }: CustomerPortalProps) {
   const [endDate, setEndDate] = useState("");
   const [customerMessage, setCustomerMessage] = useState("");
   const [checkingAvailability, setCheckingAvailability] = useState(false);
-  const [availabilityResult, setAvailabilityResult] = useState<{ available: boolean; conflicts: any[] } | null>(null);
+  const [changingRequestId, setChangingRequestId] = useState<number | null>(null);
+  const [newStartDate, setNewStartDate] = useState("");
+  const [newEndDate, setNewEndDate] = useState("");
+  const [availabilityResult, setAvailabilityResult] = useState<{ available: boolean; conflictingDates: any[]; alternatives: Alternatives | null } | null>(null);
 
   const { customer, logout } = useAuth();
   const { toast } = useToast();
@@ -49,13 +56,131 @@ export default function CustomerPortal({ onViewChange }: CustomerPortalProps) {
     enabled: !!customer?.id,
   });
 
-  const checkAvailabilityMutation = useMutation({
+  const refreshBookingRequests = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/booking-requests/customer'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/waitlist'] });
+  };
+
+  const cancelRequestMutation = useMutation({
+    mutationFn: async (requestId: number) => {
+      const response = await apiRequest('POST', `/api/booking-requests/${requestId}/cancel`, {});
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Request Cancelled", description: data.message });
+      refreshBookingRequests();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Cancel Request",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const changeDatesMutation = useMutation({
+    mutationFn: async ({ requestId, startDate, endDate }: { requestId: number; startDate: string; endDate: string }) => {
+      const response = await apiRequest('POST', `/api/booking-requests/${requestId}/change-dates`, {
+        startDate: new Date(startDate + 'T00:00:00.000Z').toISOString(),
+        endDate: new Date(endDate + 'T00:00:00.000Z').toISOString(),
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Dates Change Requested", description: data.message });
+      setChangingRequestId(null);
+      setNewStartDate("");
+      setNewEndDate("");
+      refreshBookingRequests();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Change Dates",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCancelRequest = (request: any) => {
+    if (!window.confirm(`Cancel your booking request for the ${request.vehicleName}?`)) {
+      return;
+    }
+    cancelRequestMutation.mutate(request.id);
+  };
+
+  const startChangingDates = (request: any) => {
+    setChangingRequestId(request.id);
+    setNewStartDate(new Date(request.startDate).toISOString().split('T')[0]);
+    setNewEndDate(new Date(request.endDate).toISOString().split('T')[0]);
+  };
+
+  const { data: waitlistEntries = [] } = useQuery<CustomerWaitlistEntry[]>({
+    queryKey: ['/api/waitlist'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/waitlist');
+      return response.json();
+    },
+    enabled: !!customer?.id,
+  });
+
+  const leaveWaitlistMutation = useMutation({
+    mutationFn: async (entryId: number) => {
+      const response = await apiRequest('DELETE', `/api/waitlist/${entryId}`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Left Waitlist", description: data.message });
+      queryClient.invalidateQueries({ queryKey: ['/api/waitlist'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Leave Waitlist",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Current session, used for the email verification banner and to make the
+  // customer accept newly published Terms & Conditions
+  const { data: currentCustomer } = useQuery<{ emailVerified: boolean; termsStatus: { acceptanceRequired: boolean } }>({
+    queryKey: ['/api/customers/me'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/customers/me');
+      return response.json();
+    },
+    enabled: !!customer?.id,
+  });
+
+  const resendVerificationMutation = useMutation({
     mutationFn: async () => {
-      if (!selectedVehicle || !startDate || !endDate) return null;
-      
+      const response = await apiRequest('POST', '/api/customers/resend-verification');
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Verification Email Sent",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Send Email",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Takes the vehicle and dates explicitly so an alternative can be checked
+  // straight after it is picked
+  const checkAvailabilityMutation = useMutation({
+    mutationFn: async ({ vehicle, startDate, endDate }: { vehicle: Vehicle; startDate: string; endDate: string }) => {
       setCheckingAvailability(true);
       try {
-        const response = await apiRequest('POST', `/api/vehicles/${selectedVehicle.id}/check-availability`, {
+        const response = await apiRequest('POST', `/api/vehicles/${vehicle.id}/check-availability`, {
           startDate,
           endDate
         });
@@ -64,13 +189,12 @@ export default function CustomerPortal({ onViewChange }: CustomerPortalProps) {
         setCheckingAvailability(false);
       }
     },
-    onSuccess: (result) => {
-      if (!result) return;
+    onSuccess: (result, { vehicle }) => {
       setAvailabilityResult(result);
       if (result.available) {
         toast({
           title: "Vehicle Available! ✅",
-          description: `${selectedVehicle?.name} is available for your selected dates.`,
+          description: `${vehicle.name} is available for your selected dates.`,
         });
       } else {
         toast({
@@ -163,7 +287,24 @@ export default function CustomerPortal({ onViewChange }: CustomerPortalProps) {
       return;
     }
 
-    checkAvailabilityMutation.mutate();
+    if (!selectedVehicle) return;
+    checkAvailabilityMutation.mutate({ vehicle: selectedVehicle, startDate, endDate });
+  };
+
+  const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+  const handleSelectAlternativeDates = (start: Date, end: Date) => {
+    if (!selectedVehicle) return;
+    setStartDate(toDateInput(start));
+    setEndDate(toDateInput(end));
+    checkAvailabilityMutation.mutate({ vehicle: selectedVehicle, startDate: toDateInput(start), endDate: toDateInput(end) });
+  };
+
+  const handleSelectAlternativeVehicle = (vehicleId: number) => {
+    const vehicle = (vehicles as Vehicle[]).find(v => v.id === vehicleId);
+    if (!vehicle) return;
+    setSelectedVehicle(vehicle);
+    checkAvailabilityMutation.mutate({ vehicle, startDate, endDate });
   };
 
   const handleSubmitBookingRequest = () => {
@@ -187,12 +328,23 @@ export default function CustomerPortal({ onViewChange }: CustomerPortalProps) {
         return <Badge variant="default" className="bg-green-100 text-green-800">Confirmed</Badge>;
       case 'rejected':
         return <Badge variant="destructive">Rejected</Badge>;
+      case 'expired':
+        return <Badge variant="outline" className="text-slate-500">Expired</Badge>;
+      case 'completed':
+        return <Badge variant="default" className="bg-blue-100 text-blue-800">Completed</Badge>;
+      case 'cancelled':
+        return <Badge variant="outline" className="text-slate-500">Cancelled</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    try {
+      await apiRequest('POST', '/api/customers/logout');
+    } catch (error) {
+      console.error("Failed to end customer session:", error);
+    }
     logout();
     onViewChange('role-selection');
   };
@@ -208,6 +360,14 @@ export default function CustomerPortal({ onViewChange }: CustomerPortalProps) {
     );
   }
 
+  if (currentCustomer?.termsStatus.acceptanceRequired) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-cyan-50 to-slate-100 px-4 py-8">
+        <TermsConditions onViewChange={onViewChange} />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-cyan-50 to-slate-100">
       {/* Header */}
@@ -237,6 +397,29 @@ export default function CustomerPortal({ onViewChange }: CustomerPortalProps) {
       </div>
 
       <div className="max-w-7xl mx-auto px-4 py-8">
+        {/* Email Verification */}
+        {currentCustomer && !currentCustomer.emailVerified && (
+          <Card className="mb-8 border-yellow-300 bg-yellow-50">
+            <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <Mail className="w-5 h-5 text-yellow-700" />
+                <p className="text-sm text-yellow-800">
+                  Please verify <strong>{customer?.email}</strong> so we can send you agreements and booking updates.
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => resendVerificationMutation.mutate()}
+                disabled={resendVerificationMutation.isPending}
+                data-testid="button-resend-verification"
+              >
+                {resendVerificationMutation.isPending ? "Sending..." : "Resend Verification Email"}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         {/* My Booking Requests */}
         {bookingRequests.length > 0 && (
           <div className="mb-8">
@@ -252,6 +435,9 @@ export default function CustomerPortal({ onViewChange }: CustomerPortalProps) {
                           {new Date(request.startDate).toLocaleDateString()} - {new Date(request.endDate).toLocaleDateString()}
                         </p>
                         <p className="text-sm text-slate-600">{request.totalDays} days</p>
+                        {(request.status === 'rejected' || request.status === 'expired') && request.rejectedReason && (
+                          <p className="text-sm text-red-600 mt-1">{request.rejectedReason}</p>
+                        )}
                       </div>
                       <div className="text-right">
                         {getStatusBadge(request.status)}
@@ -260,6 +446,124 @@ export default function CustomerPortal({ onViewChange }: CustomerPortalProps) {
                         </p>
                       </div>
                     </div>
+                    {request.customerActions?.length > 0 && changingRequestId !== request.id && (
+                      <div className="flex flex-wrap items-center gap-2 mt-3">
+                        {request.customerActions.includes('change_dates') && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => startChangingDates(request)}
+                            data-testid={`button-change-dates-${request.id}`}
+                          >
+                            <Calendar className="mr-1" size={14} />
+                            Change Dates
+                          </Button>
+                        )}
+                        {request.customerActions.includes('cancel') && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-red-600"
+                            onClick={() => handleCancelRequest(request)}
+                            disabled={cancelRequestMutation.isPending}
+                            data-testid={`button-cancel-request-${request.id}`}
+                          >
+                            <X className="mr-1" size={14} />
+                            Cancel Request
+                          </Button>
+                        )}
+                        {request.customerActions.includes('change_dates') && (
+                          <span className="text-xs text-slate-500">
+                            Changes close {new Date(request.changeDeadline).toLocaleString()}
+                          </span>
+                        )}
+                      </div>
+                    )}
+                    {changingRequestId === request.id && (
+                      <div className="mt-3 space-y-3 border-t pt-3">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                          <div>
+                            <Label htmlFor={`new-start-date-${request.id}`}>New Start Date</Label>
+                            <Input
+                              id={`new-start-date-${request.id}`}
+                              type="date"
+                              value={newStartDate}
+                              onChange={(e) => setNewStartDate(e.target.value)}
+                              min={new Date().toISOString().split('T')[0]}
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor={`new-end-date-${request.id}`}>New End Date</Label>
+                            <Input
+                              id={`new-end-date-${request.id}`}
+                              type="date"
+                              value={newEndDate}
+                              onChange={(e) => setNewEndDate(e.target.value)}
+                              min={newStartDate || new Date().toISOString().split('T')[0]}
+                            />
+                          </div>
+                        </div>
+                        {request.status === 'confirmed' && (
+                          <p className="text-xs text-slate-600">
+                            Your request will go back to our team to confirm the new dates.
+                          </p>
+                        )}
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            className="btn-gradient"
+                            disabled={!newStartDate || !newEndDate || newEndDate <= newStartDate || changeDatesMutation.isPending}
+                            onClick={() => changeDatesMutation.mutate({ requestId: request.id, startDate: newStartDate, endDate: newEndDate })}
+                            data-testid={`button-submit-dates-${request.id}`}
+                          >
+                            {changeDatesMutation.isPending ? "Sending..." : "Request New Dates"}
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => setChangingRequestId(null)}>
+                            Keep Current Dates
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* My Waitlist */}
+        {waitlistEntries.some(entry => entry.status === 'waiting') && (
+          <div className="mb-8">
+            <h2 className="text-2xl font-bold text-slate-800 mb-4">My Waitlist</h2>
+            <div className="grid gap-4">
+              {waitlistEntries.filter(entry => entry.status === 'waiting').map(entry => (
+                <Card key={entry.id} className="glass">
+                  <CardContent className="p-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h3 className="font-semibold text-slate-800">{entry.vehicleName}</h3>
+                        <p className="text-sm text-slate-600">
+                          {new Date(entry.startDate).toLocaleDateString()} - {new Date(entry.endDate).toLocaleDateString()}
+                        </p>
+                        <p className="text-xs text-slate-500 mt-1">
+                          We'll hold the vehicle and email you if these dates free up.
+                        </p>
+                      </div>
+                      <div className="text-right space-y-2">
+                        <Badge variant="outline">{WAITLIST_STATUS_LABELS.waiting}</Badge>
+                        <div>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => leaveWaitlistMutation.mutate(entry.id)}
+                            disabled={leaveWaitlistMutation.isPending}
+                            data-testid={`button-leave-waitlist-${entry.id}`}
+                          >
+                            Leave
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
                   </CardContent>
                 </Card>
               ))}
@@ -403,11 +707,21 @@ export default function CustomerPortal({ onViewChange }: CustomerPortalProps) {
                           }
                         </span>
                       </div>
-                      {!availabilityResult.available && availabilityResult.conflicts.length > 0 && (
+                      {!availabilityResult.available && availabilityResult.conflictingDates.length > 0 && (
                         <div className="mt-2 text-sm text-red-600">
                           Conflicts with existing bookings
                         </div>
                       )}
+                      {!availabilityResult.available && availabilityResult.alternatives && (
+                        <div className="mt-4">
+                          <BookingAlternatives
+                            alternatives={availabilityResult.alternatives}
+                            onSelectDates={handleSelectAlternativeDates}
+                            onSelectVehicle={handleSelectAlternativeVehicle}
+                            disabled={checkingAvailability}
+                          />
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
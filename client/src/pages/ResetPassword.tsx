@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { AlertCircle, CheckCircle, KeyRound, Lock } from "lucide-react";
+
+interface ResetPasswordProps {
+  onViewChange: (view: string) => void;
+}
+
+export default function ResetPassword({ onViewChange }: ResetPasswordProps) {
+  const { toast } = useToast();
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token") || "");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/customers/reset-password', { token, newPassword });
+      return response.json();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Password Reset Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword.length < 8) {
+      toast({
+        title: "Password Too Short",
+        description: "Password must be at least 8 characters.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      toast({
+        title: "Passwords Don't Match",
+        description: "Please enter the same password twice.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    resetMutation.mutate();
+  };
+
+  const goToLogin = () => {
+    window.history.replaceState(null, "", "/");
+    onViewChange('customer-login');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-cyan-50 to-slate-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-white rounded-3xl p-8 shadow-2xl border border-slate-200">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-20 h-20 rounded-full bg-gradient-to-r from-blue-600 to-cyan-600 mb-4 shadow-lg">
+            <KeyRound className="h-10 w-10 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold text-slate-800 mb-2">Reset Password</h1>
+          <p className="text-slate-600">Choose a new password for your customer portal</p>
+        </div>
+
+        {!token && (
+          <div className="flex items-center justify-center gap-2 text-red-600 mb-6">
+            <AlertCircle className="h-5 w-5" />
+            <p>This reset link is incomplete. Please open the link from your email again.</p>
+          </div>
+        )}
+
+        {resetMutation.isSuccess ? (
+          <div className="space-y-6 text-center">
+            <div className="flex items-center justify-center gap-2 text-green-700" data-testid="text-reset-success">
+              <CheckCircle className="h-5 w-5" />
+              <p>{resetMutation.data.message}</p>
+            </div>
+            <Button onClick={goToLogin} className="w-full" data-testid="button-go-to-login">
+              Go to Customer Login
+            </Button>
+          </div>
+        ) : token && (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="new-password" className="flex items-center gap-2">
+                <Lock className="h-4 w-4" />
+                New Password
+              </Label>
+              <Input
+                id="new-password"
+                type="password"
+                placeholder="At least 8 characters"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                data-testid="input-new-password"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password" className="flex items-center gap-2">
+                <Lock className="h-4 w-4" />
+                Confirm Password
+              </Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                data-testid="input-confirm-password"
+                required
+              />
+            </div>
+
+            <Button type="submit" disabled={resetMutation.isPending} className="w-full" data-testid="button-reset-password">
+              {resetMutation.isPending ? "Saving..." : "Set New Password"}
+            </Button>
+
+            <Button type="button" variant="link" className="w-full" onClick={goToLogin}>
+              Back to Customer Login
+            </Button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
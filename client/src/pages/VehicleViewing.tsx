@@ -9,9 +9,11 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Calendar } from "@/components/ui/calendar";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { Car, Calendar as CalendarIcon, Users, MapPin, Fuel, CheckCircle2, XCircle, ArrowLeft, UserCheck, UserPlus, Send, MessageSquare } from "lucide-react";
+import { Car, Calendar as CalendarIcon, Users, MapPin, Fuel, CheckCircle2, XCircle, ArrowLeft, UserCheck, UserPlus, Send, MessageSquare, BellRing } from "lucide-react";
 import { format } from "date-fns";
 import type { Vehicle } from "@shared/schema";
+import type { BookingAlternatives as Alternatives } from "@shared/fleetSchema";
+import BookingAlternatives from "@/components/BookingAlternatives";
 
 interface VehicleViewingProps {
   onNavigateBack: () => void;
@@ -26,7 +28,7 @@ export default function VehicleViewing({ onNavigateBack, onNavigateToSignup, onN
     to: Date | undefined;
   }>({ from: undefined, to: undefined });
   const [checkingAvailability, setCheckingAvailability] = useState(false);
-  const [availabilityResult, setAvailabilityResult] = useState<{ available: boolean; conflictingDates?: any[] } | null>(null);
+  const [availabilityResult, setAvailabilityResult] = useState<{ available: boolean; conflictingDates?: any[]; alternatives?: Alternatives | null } | null>(null);
   const [showBookingForm, setShowBookingForm] = useState(false);
   const [customerMessage, setCustomerMessage] = useState("");
   
@@ -67,19 +69,53 @@ export default function VehicleViewing({ onNavigateBack, onNavigateToSignup, onN
     },
   });
 
-  const checkAvailability = async () => {
+  // Defaults to the current selection; alternatives pass theirs in, as the
+  // state hasn't updated yet when they are checked
+  // Offered the dates, and a held booking request, if they free up
+  const waitlistMutation = useMutation({
+    mutationFn: async (data: { vehicleId: number; startDate: string; endDate: string }) => {
+      const response = await apiRequest('POST', '/api/waitlist', data);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Added to Waitlist",
+        description: `${data.message}. We'll email you if these dates free up.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Join Waitlist",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleJoinWaitlist = () => {
     if (!selectedVehicle || !dateRange.from || !dateRange.to) return;
 
+    waitlistMutation.mutate({
+      vehicleId: selectedVehicle.id,
+      startDate: dateRange.from.toISOString(),
+      endDate: dateRange.to.toISOString(),
+    });
+  };
+
+  const checkAvailability = async (vehicle = selectedVehicle, from = dateRange.from, to = dateRange.to) => {
+    if (!vehicle || !from || !to) return;
+
+    waitlistMutation.reset();
     setCheckingAvailability(true);
     try {
-      const response = await fetch(`/api/vehicles/${selectedVehicle.id}/check-availability`, {
+      const response = await fetch(`/api/vehicles/${vehicle.id}/check-availability`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          startDate: dateRange.from.toISOString(),
-          endDate: dateRange.to.toISOString(),
+          startDate: from.toISOString(),
+          endDate: to.toISOString(),
         }),
       });
       
@@ -93,7 +129,20 @@ export default function VehicleViewing({ onNavigateBack, onNavigateToSignup, onN
     }
   };
 
+  const selectAlternativeDates = (from: Date, to: Date) => {
+    setDateRange({ from, to });
+    checkAvailability(selectedVehicle, from, to);
+  };
+
+  const selectAlternativeVehicle = (vehicleId: number) => {
+    const vehicle = (vehicles as Vehicle[] | undefined)?.find(v => v.id === vehicleId);
+    if (!vehicle) return;
+    setSelectedVehicle(vehicle);
+    checkAvailability(vehicle);
+  };
+
   const resetSelection = () => {
+    waitlistMutation.reset();
     setSelectedVehicle(null);
     setDateRange({ from: undefined, to: undefined });
     setAvailabilityResult(null);
@@ -295,7 +344,7 @@ export default function VehicleViewing({ onNavigateBack, onNavigateToSignup, onN
                         </p>
                       </div>
                       <Button
-                        onClick={checkAvailability}
+                        onClick={() => checkAvailability()}
                         disabled={checkingAvailability}
                         className="btn-gradient"
                       >
@@ -412,12 +461,43 @@ export default function VehicleViewing({ onNavigateBack, onNavigateToSignup, onN
                         <p className="text-red-700">
                           Sorry, this vehicle is not available for your selected dates.
                         </p>
-                        <div className="space-y-2">
-                          <p className="text-sm font-medium text-slate-700">Please try:</p>
-                          <ul className="text-sm text-slate-600 space-y-1 ml-4">
-                            <li>• Different dates for this vehicle</li>
-                            <li>• Another vehicle from our fleet</li>
-                          </ul>
+                        {availabilityResult.alternatives ? (
+                          <BookingAlternatives
+                            alternatives={availabilityResult.alternatives}
+                            onSelectDates={selectAlternativeDates}
+                            onSelectVehicle={selectAlternativeVehicle}
+                            disabled={checkingAvailability}
+                          />
+                        ) : (
+                          <div className="space-y-2">
+                            <p className="text-sm font-medium text-slate-700">Please try:</p>
+                            <ul className="text-sm text-slate-600 space-y-1 ml-4">
+                              <li>• Different dates for this vehicle</li>
+                              <li>• Another vehicle from our fleet</li>
+                            </ul>
+                          </div>
+                        )}
+                        <div className="glass-panel p-4 space-y-2">
+                          <p className="text-sm font-medium text-slate-700">Set on these dates?</p>
+                          <p className="text-sm text-slate-600">
+                            Join the waitlist and we'll hold the vehicle for you if it frees up.
+                          </p>
+                          {customer ? (
+                            <Button
+                              onClick={handleJoinWaitlist}
+                              disabled={waitlistMutation.isPending || waitlistMutation.isSuccess}
+                              className="w-full btn-gradient"
+                              data-testid="button-join-waitlist"
+                            >
+                              <BellRing className="w-4 h-4 mr-2" />
+                              {waitlistMutation.isSuccess ? "On the Waitlist" : waitlistMutation.isPending ? "Joining..." : "Join Waitlist"}
+                            </Button>
+                          ) : (
+                            <Button onClick={onNavigateToLogin} variant="outline" className="w-full">
+                              <UserCheck className="w-4 h-4 mr-2" />
+                              Login to Join Waitlist
+                            </Button>
+                          )}
                         </div>
                         <Button
                           variant="outline"
@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { CheckCircle, AlertCircle, Loader2, MailCheck } from "lucide-react";
+
+interface VerifyEmailProps {
+  onViewChange: (view: string) => void;
+}
+
+export default function VerifyEmail({ onViewChange }: VerifyEmailProps) {
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token") || "");
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/customers/verify-email', { token });
+      return response.json();
+    },
+  });
+
+  // The token is read once from the link and mutate is stable, so this only
+  // runs on mount
+  const { mutate: verifyEmail } = verifyMutation;
+  useEffect(() => {
+    if (token) {
+      verifyEmail();
+    }
+  }, [token, verifyEmail]);
+
+  const goToLogin = () => {
+    window.history.replaceState(null, "", "/");
+    onViewChange('customer-login');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-cyan-50 to-slate-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-white rounded-3xl p-8 shadow-2xl border border-slate-200 text-center">
+        <div className="inline-flex items-center justify-center w-20 h-20 rounded-full bg-gradient-to-r from-blue-600 to-cyan-600 mb-4 shadow-lg">
+          <MailCheck className="h-10 w-10 text-white" />
+        </div>
+        <h1 className="text-3xl font-bold text-slate-800 mb-6">Verify Email</h1>
+
+        {!token && (
+          <div className="flex items-center justify-center gap-2 text-red-600 mb-6">
+            <AlertCircle className="h-5 w-5" />
+            <p>This verification link is incomplete. Please open the link from your email again.</p>
+          </div>
+        )}
+
+        {token && (verifyMutation.isPending || verifyMutation.isIdle) && (
+          <div className="flex items-center justify-center gap-2 text-slate-600 mb-6">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            <p>Verifying your email address...</p>
+          </div>
+        )}
+
+        {verifyMutation.isSuccess && (
+          <div className="flex items-center justify-center gap-2 text-green-700 mb-6" data-testid="text-verify-success">
+            <CheckCircle className="h-5 w-5" />
+            <p>{verifyMutation.data.email} has been verified. Thank you!</p>
+          </div>
+        )}
+
+        {verifyMutation.isError && (
+          <div className="flex items-center justify-center gap-2 text-red-600 mb-6" data-testid="text-verify-error">
+            <AlertCircle className="h-5 w-5" />
+            <p>{verifyMutation.error.message} You can request a new link from the customer portal.</p>
+          </div>
+        )}
+
+        <Button onClick={goToLogin} className="w-full" data-testid="button-go-to-login">
+          Go to Customer Login
+        </Button>
+      </div>
+    </div>
+  );
+}
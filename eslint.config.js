@@ -0,0 +1,28 @@
+import js from "@eslint/js";
+import globals from "globals";
+import reactHooks from "eslint-plugin-react-hooks";
+import tseslint from "typescript-eslint";
+
+// Syntax-level checks for the client, server and shared code. Types are
+// checked by `npm run check`.
+export default tseslint.config(
+  { ignores: ["dist", "node_modules", "app", "attached_assets"] },
+  {
+    files: ["client/src/**/*.{ts,tsx}", "server/**/*.ts", "shared/**/*.ts"],
+    extends: [js.configs.recommended, ...tseslint.configs.recommended],
+    languageOptions: {
+      globals: { ...globals.browser, ...globals.node },
+    },
+    plugins: { "react-hooks": reactHooks },
+    rules: {
+      ...reactHooks.configs.recommended.rules,
+      "@typescript-eslint/no-explicit-any": "off",
+      // Needed to extend Express's Request with `declare global`
+      "@typescript-eslint/no-namespace": "off",
+      // Older components still carry unused imports; these shouldn't block
+      "@typescript-eslint/no-unused-vars": ["warn", { ignoreRestSiblings: true, caughtErrors: "none" }],
+      // The PDF generators await images inside the stream's promise
+      "no-async-promise-executor": "warn",
+    },
+  },
+);
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { EventEmitter } from "events";
+
+vi.mock("./storage", () => ({
+  storage: {
+    createStaffLog: vi.fn(async (log) => ({ id: 1, timestamp: new Date(), ...log })),
+    getStaffById: vi.fn(),
+    getStaffRole: vi.fn(),
+    getRolePermissions: vi.fn(),
+    isTwoFactorRequiredForRole: vi.fn(),
+    getVehicleById: vi.fn(),
+    getRentalById: vi.fn(),
+    getCustomerById: vi.fn(),
+    getInvoiceById: vi.fn(),
+    getDeliveryById: vi.fn(),
+    getBookingRequestById: vi.fn(),
+    getTermsVersionById: vi.fn(),
+  },
+}));
+
+import { storage } from "./storage";
+import { auditStaffMutations, recordStaffLog, staffLogsToCsv } from "./auditLog";
+
+function staffRequest(method: string, path: string) {
+  return { method, path, originalUrl: `/api/staff${path}`, ip: "127.0.0.1", staff: { id: 7, username: "ops" } } as any;
+}
+
+function response(statusCode = 200) {
+  const res = new EventEmitter() as any;
+  res.statusCode = statusCode;
+  res.json = vi.fn(() => res);
+  return res;
+}
+
+// Runs the middleware and the route, then lets the finish handler log.
+async function runAudited(req: any, res: any, route: () => unknown | Promise<unknown>) {
+  await auditStaffMutations(req, res, () => undefined);
+  await route();
+  res.emit("finish");
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+describe("auditStaffMutations", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("logs a change with a before/after diff", async () => {
+    vi.mocked(storage.getVehicleById)
+      .mockResolvedValueOnce({ id: 3, name: "Myvi", dailyRate: "100.00" } as any)
+      .mockResolvedValueOnce({ id: 3, name: "Myvi", dailyRate: "120.00" } as any);
+
+    const req = staffRequest("PATCH", "/vehicles/3");
+    const res = response();
+    await runAudited(req, res, () => res.json({ message: "Vehicle updated" }));
+
+    expect(storage.createStaffLog).toHaveBeenCalledWith(expect.objectContaining({
+      staffId: 7,
+      action: "VEHICLE_UPDATED",
+      targetType: "vehicle",
+      targetId: 3,
+      details: expect.objectContaining({ changes: { dailyRate: { from: "100.00", to: "120.00" } } }),
+    }));
+  });
+
+  it("masks secret fields while still showing they changed", async () => {
+    vi.mocked(storage.getCustomerById)
+      .mockResolvedValueOnce({ id: 5, email: "a@example.com", hashedPassword: "old" } as any)
+      .mockResolvedValueOnce({ id: 5, email: "a@example.com", hashedPassword: "new" } as any);
+
+    const req = staffRequest("PATCH", "/customers/5/password");
+    const res = response();
+    await runAudited(req, res, () => res.json({ message: "Password reset" }));
+
+    const [log] = vi.mocked(storage.createStaffLog).mock.calls[0];
+    expect((log.details as any).changes).toEqual({ hashedPassword: { from: "[redacted]", to: "[redacted]" } });
+  });
+
+  it("doesn't log failed requests or reads", async () => {
+    const failed = response(400);
+    await runAudited(staffRequest("DELETE", "/vehicles/3"), failed, () => failed.json({ message: "Nope" }));
+    const read = response();
+    await runAudited(staffRequest("GET", "/vehicles"), read, () => read.json([]));
+
+    expect(storage.createStaffLog).not.toHaveBeenCalled();
+  });
+
+  it("leaves the entry to the route when it records its own", async () => {
+    vi.mocked(storage.getRentalById).mockResolvedValue({ id: 9, status: "reserved" } as any);
+
+    const req = staffRequest("PATCH", "/rentals/9/cancel");
+    const res = response();
+    await runAudited(req, res, async () => {
+      await recordStaffLog(req, { staffId: 7, staffUsername: "ops", action: "RENTAL_CANCELLED", targetType: "rental", targetId: 9, details: { reason: "Customer asked" } });
+      res.json({ message: "Rental cancelled successfully" });
+    });
+
+    expect(storage.createStaffLog).toHaveBeenCalledTimes(1);
+    expect(storage.createStaffLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: "RENTAL_CANCELLED",
+      details: { reason: "Customer asked", changes: {} },
+    }));
+  });
+});
+
+describe("staffLogsToCsv", () => {
+  it("quotes cells and defuses spreadsheet formulas", () => {
+    const csv = staffLogsToCsv([{
+      id: 1,
+      timestamp: new Date("2026-01-02T03:04:05.000Z"),
+      staffId: 7,
+      staffUsername: "=HYPERLINK(\"x\")",
+      action: "VEHICLE_UPDATED",
+      targetType: "vehicle",
+      targetId: 3,
+      details: { note: "a,b" },
+    } as any]);
+
+    const [header, row] = csv.split("\r\n");
+    expect(header).toBe("id,timestamp,staffId,staffUsername,action,targetType,targetId,details");
+    expect(row).toBe(`1,2026-01-02T03:04:05.000Z,7,"'=HYPERLINK(""x"")",VEHICLE_UPDATED,vehicle,3,"{""note"":""a,b""}"`);
+  });
+});
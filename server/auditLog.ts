@@ -0,0 +1,264 @@
+import type { Request, RequestHandler } from "express";
+import type { InsertStaffLog, StaffLog } from "@shared/schema";
+import { STAFF_ROLES, type StaffRole } from "@shared/authSchema";
+import { storage } from "./storage";
+
+// Request methods that change data and are audited automatically.
+const MUTATING_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+// POST routes under /api/staff that only read data.
+const UNAUDITED_PATHS = ["/logs/view"];
+
+// Fields never written to the audit log in clear text.
+const REDACTED_FIELDS = ["hashedPassword", "password", "secret", "pendingSecret", "recoveryCodeHashes", "nonceHash", "codeHash"];
+
+type Snapshot = Record<string, unknown>;
+
+interface AuditTarget {
+  targetType: string;
+  targetId: number | null;
+  action: string;
+  // Loads the current state of the target, for before/after diffs
+  load?: () => Promise<unknown>;
+}
+
+interface AuditContext extends AuditTarget {
+  rawBefore?: unknown;
+  before?: Snapshot;
+  responseBody?: unknown;
+  // Set once the route has written its own log entry for the request
+  recorded: boolean;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      audit?: AuditContext;
+    }
+  }
+}
+
+// Staff routes are grouped by the first path segment under /api/staff.
+const AUDITED_RESOURCES: Record<string, { targetType: string; load: (id: number) => Promise<unknown> }> = {
+  vehicles: { targetType: "vehicle", load: (id) => storage.getVehicleById(id) },
+  rentals: { targetType: "rental", load: (id) => storage.getRentalById(id) },
+  customers: { targetType: "customer", load: (id) => storage.getCustomerById(id) },
+  invoices: { targetType: "invoice", load: (id) => storage.getInvoiceById(id) },
+  deliveries: { targetType: "delivery", load: (id) => storage.getDeliveryById(id) },
+  "booking-requests": { targetType: "booking_request", load: (id) => storage.getBookingRequestById(id) },
+  terms: { targetType: "terms", load: (id) => storage.getTermsVersionById(id) },
+};
+
+async function loadStaffMember(staffId: number) {
+  const staffMember = await storage.getStaffById(staffId);
+  return staffMember && { ...staffMember, role: await storage.getStaffRole(staffId) };
+}
+
+async function loadRole(role: StaffRole) {
+  return {
+    permissions: await storage.getRolePermissions(role),
+    twoFactorRequired: await storage.isTwoFactorRequiredForRole(role),
+  };
+}
+
+function toActionName(...parts: string[]): string {
+  return parts.join("_").replace(/[^a-zA-Z0-9]+/g, "_").toUpperCase();
+}
+
+const METHOD_VERBS: Record<string, string> = {
+  POST: "created",
+  PUT: "updated",
+  PATCH: "updated",
+  DELETE: "deleted",
+};
+
+// Works out what a staff route acts on from its path, e.g.
+// PATCH /rentals/12/cancel -> rental #12, action RENTAL_CANCEL.
+function resolveAuditTarget(method: string, path: string): AuditTarget {
+  const [resource, id, subAction] = path.split("/").filter(Boolean);
+  const targetId = id && /^\d+$/.test(id) ? parseInt(id) : null;
+
+  // /api/staff/:staffId/... acts on a staff member
+  if (/^\d+$/.test(resource)) {
+    const staffId = parseInt(resource);
+    return {
+      targetType: "staff",
+      targetId: staffId,
+      action: toActionName("staff", id || METHOD_VERBS[method]),
+      load: () => loadStaffMember(staffId),
+    };
+  }
+
+  if (resource === "roles" && STAFF_ROLES.includes(id as StaffRole)) {
+    return {
+      targetType: "role",
+      targetId: null,
+      action: toActionName("role", id, subAction || METHOD_VERBS[method]),
+      load: () => loadRole(id as StaffRole),
+    };
+  }
+
+  const auditedResource = AUDITED_RESOURCES[resource];
+  if (auditedResource) {
+    const actionSuffix = targetId === null ? id || METHOD_VERBS[method] : subAction || METHOD_VERBS[method];
+    return {
+      targetType: auditedResource.targetType,
+      targetId,
+      action: toActionName(auditedResource.targetType, actionSuffix),
+      load: targetId === null ? undefined : () => auditedResource.load(targetId),
+    };
+  }
+
+  return { targetType: resource || "staff", targetId: null, action: toActionName("staff", ...path.split("/").filter(Boolean)) };
+}
+
+// Plain JSON copy of an entity with secret fields masked.
+function toSnapshot(entity: unknown): Snapshot | undefined {
+  if (!entity || typeof entity !== "object" || Array.isArray(entity)) {
+    return undefined;
+  }
+  const snapshot: Snapshot = JSON.parse(JSON.stringify(entity));
+  for (const field of REDACTED_FIELDS) {
+    if (field in snapshot) {
+      snapshot[field] = "[redacted]";
+    }
+  }
+  return snapshot;
+}
+
+// Field-by-field changes between two snapshots. Secret fields are compared
+// before masking so a changed password still shows up, without its value.
+function diffSnapshots(before: Snapshot | undefined, after: Snapshot | undefined, rawBefore?: unknown, rawAfter?: unknown) {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  keys.forEach((key) => {
+    const from = before?.[key];
+    const to = after?.[key];
+    const redacted = REDACTED_FIELDS.includes(key);
+    const rawFrom = redacted ? (rawBefore as Snapshot | undefined)?.[key] : from;
+    const rawTo = redacted ? (rawAfter as Snapshot | undefined)?.[key] : to;
+    if (JSON.stringify(rawFrom) !== JSON.stringify(rawTo)) {
+      changes[key] = { from: from ?? null, to: to ?? null };
+    }
+  });
+  return changes;
+}
+
+async function loadAfterState(audit: AuditContext): Promise<{ raw: unknown; snapshot?: Snapshot }> {
+  if (audit.load) {
+    const raw = await audit.load();
+    return { raw, snapshot: toSnapshot(raw) };
+  }
+  // Without a loader, fall back to the record the route returned (e.g. a
+  // newly created vehicle); plain messages are not entity state
+  const body = audit.responseBody as Snapshot | undefined;
+  if (typeof body?.id !== "number") {
+    return { raw: undefined };
+  }
+  return { raw: body, snapshot: toSnapshot(body) };
+}
+
+// Writes a staff log entry, adding the before/after diff of the entity the
+// request changed when the entry is about that entity. Routes use this
+// instead of storage.createStaffLog so the automatic entry is not duplicated.
+// Pass includeChanges: false where the old values must not be kept, e.g.
+// personal data erasure.
+export async function recordStaffLog(
+  req: Request,
+  log: InsertStaffLog,
+  { includeChanges = true }: { includeChanges?: boolean } = {}
+): Promise<StaffLog> {
+  const audit = req.audit;
+  let details = log.details as Record<string, unknown> | null | undefined;
+
+  if (includeChanges && audit && !audit.recorded && audit.load && audit.targetType === log.targetType && audit.targetId === log.targetId && !details?.changes) {
+    try {
+      const after = await loadAfterState(audit);
+      details = { ...details, changes: diffSnapshots(audit.before, after.snapshot, audit.rawBefore, after.raw) };
+    } catch (error) {
+      console.error("Audit diff error:", error);
+    }
+  }
+  if (audit) {
+    audit.recorded = true;
+  }
+
+  return storage.createStaffLog({ ...log, details });
+}
+
+async function recordAutomaticEntry(req: Request, statusCode: number) {
+  const audit = req.audit;
+  if (!audit || audit.recorded || statusCode >= 400 || !req.staff) {
+    return;
+  }
+
+  const after = await loadAfterState(audit);
+  // Creates have no id in the path; take it from the returned record
+  const createdId = typeof after.snapshot?.id === "number" ? after.snapshot.id : null;
+  await storage.createStaffLog({
+    staffId: req.staff.id,
+    staffUsername: req.staff.username,
+    action: audit.action,
+    targetType: audit.targetType,
+    targetId: audit.targetId ?? createdId,
+    details: {
+      method: req.method,
+      path: req.originalUrl.split("?")[0],
+      changes: diffSnapshots(audit.before, after.snapshot, audit.rawBefore, after.raw),
+      ipAddress: req.ip,
+    },
+  });
+}
+
+// Logs every successful mutating /api/staff request. Mounted after the staff
+// session check so req.staff is known. The target's state is captured before
+// the route runs and again once the response has been sent.
+export const auditStaffMutations: RequestHandler = async (req, res, next) => {
+  if (!req.staff || !MUTATING_METHODS.includes(req.method) || UNAUDITED_PATHS.includes(req.path)) {
+    return next();
+  }
+
+  const audit: AuditContext = { ...resolveAuditTarget(req.method, req.path), recorded: false };
+  try {
+    if (audit.load) {
+      audit.rawBefore = await audit.load();
+      audit.before = toSnapshot(audit.rawBefore);
+    }
+  } catch (error) {
+    console.error("Audit snapshot error:", error);
+  }
+  req.audit = audit;
+
+  const sendJson = res.json.bind(res);
+  res.json = (body) => {
+    audit.responseBody = body;
+    return sendJson(body);
+  };
+
+  res.on("finish", () => {
+    recordAutomaticEntry(req, res.statusCode).catch((error) => {
+      console.error("Failed to record audit entry:", error);
+    });
+  });
+  next();
+};
+
+// CSV cells that start with these characters are run as formulas by
+// spreadsheet apps, so they are prefixed with a quote.
+const FORMULA_PREFIXES = ["=", "+", "-", "@", "\t", "\r"];
+
+function toCsvCell(value: unknown): string {
+  let text = value === null || value === undefined ? "" : value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+  if (FORMULA_PREFIXES.some((prefix) => text.startsWith(prefix))) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function staffLogsToCsv(logs: StaffLog[]): string {
+  const header = ["id", "timestamp", "staffId", "staffUsername", "action", "targetType", "targetId", "details"];
+  const rows = logs.map((log) =>
+    [log.id, log.timestamp, log.staffId, log.staffUsername, log.action, log.targetType, log.targetId, log.details].map(toCsvCell).join(",")
+  );
+  return [header.join(","), ...rows].join("\r\n");
+}
@@ -0,0 +1,119 @@
+import type { Vehicle } from "@shared/schema";
+import type { AlternativeDates, AlternativeVehicle, BookingAlternatives } from "@shared/fleetSchema";
+import { storage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far either side of the requested dates to look for a free window
+const DATE_SEARCH_DAYS = 30;
+
+const MAX_VEHICLE_ALTERNATIVES = 3;
+
+interface BusyPeriod {
+  startDate: Date;
+  endDate: Date;
+}
+
+function estimateTotal(dailyRate: number | undefined, totalDays: number): number | null {
+  return dailyRate === undefined ? null : Math.round(dailyRate * totalDays * 100) / 100;
+}
+
+// Everything keeping the vehicle busy around the dates: rentals and holds
+// widened by its turnaround, and blackouts.
+async function getBusyPeriods(vehicleId: number, from: Date, to: Date): Promise<BusyPeriod[]> {
+  const turnaroundMs = (await storage.getVehicleTurnaroundHours(vehicleId)) * 60 * 60 * 1000;
+  const padded = (period: BusyPeriod) => ({
+    startDate: new Date(period.startDate.getTime() - turnaroundMs),
+    endDate: new Date(period.endDate.getTime() + turnaroundMs),
+  });
+
+  const rentals = await storage.getConflictingRentals(vehicleId, from, to);
+  const holds = await storage.getConflictingHolds(vehicleId, from, to);
+  const blackouts = await storage.getConflictingBlackouts(vehicleId, from, to);
+  return [...rentals.map(padded), ...holds.map(padded), ...blackouts];
+}
+
+// The nearest free window of the same length before and after the dates,
+// moving a whole day at a time and never into the past.
+async function findAlternativeDates(vehicleId: number, startDate: Date, endDate: Date, now: Date): Promise<AlternativeDates[]> {
+  const durationMs = endDate.getTime() - startDate.getTime();
+  const busy = await getBusyPeriods(
+    vehicleId,
+    new Date(startDate.getTime() - DATE_SEARCH_DAYS * DAY_MS),
+    new Date(endDate.getTime() + DATE_SEARCH_DAYS * DAY_MS)
+  );
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+
+  const isFree = (start: Date, end: Date) =>
+    start >= today && !busy.some(period => period.startDate <= end && period.endDate >= start);
+
+  const windows: { startDate: Date; endDate: Date; shiftDays: number }[] = [];
+  for (const direction of [-1, 1]) {
+    for (let days = 1; days <= DATE_SEARCH_DAYS; days++) {
+      const shiftDays = direction * days;
+      const start = new Date(startDate.getTime() + shiftDays * DAY_MS);
+      const end = new Date(start.getTime() + durationMs);
+      if (isFree(start, end)) {
+        windows.push({ startDate: start, endDate: end, shiftDays });
+        break;
+      }
+    }
+  }
+
+  const totalDays = Math.ceil(durationMs / DAY_MS);
+  const rates = await storage.getVehicleDailyRates([vehicleId]);
+  return windows
+    .sort((a, b) => Math.abs(a.shiftDays) - Math.abs(b.shiftDays))
+    .map(window => ({ ...window, estimatedTotal: estimateTotal(rates.get(vehicleId), totalDays) }));
+}
+
+// Other active vehicles in the same category free for the dates, cheapest
+// first and then by how close their mileage limit is to the one asked for.
+// Vehicles never rented out have no price yet and come last.
+async function findAlternativeVehicles(requested: Vehicle, startDate: Date, endDate: Date): Promise<AlternativeVehicle[]> {
+  const candidates = (await storage.getAllVehicles()).filter(vehicle =>
+    vehicle.isActive && vehicle.id !== requested.id && vehicle.category === requested.category
+  );
+
+  const available: Vehicle[] = [];
+  for (const vehicle of candidates) {
+    if (await storage.checkVehicleAvailability(vehicle.id, startDate, endDate)) {
+      available.push(vehicle);
+    }
+  }
+
+  const totalDays = Math.ceil((endDate.getTime() - startDate.getTime()) / DAY_MS);
+  const rates = await storage.getVehicleDailyRates(available.map(vehicle => vehicle.id));
+  const mileageDifference = (vehicle: Vehicle) => Math.abs((vehicle.mileageLimit ?? 0) - (requested.mileageLimit ?? 0));
+
+  return available
+    .sort((a, b) => {
+      const rateA = rates.get(a.id) ?? Infinity;
+      const rateB = rates.get(b.id) ?? Infinity;
+      if (rateA !== rateB) {
+        return rateA - rateB;
+      }
+      return mileageDifference(a) - mileageDifference(b);
+    })
+    .slice(0, MAX_VEHICLE_ALTERNATIVES)
+    .map(vehicle => ({
+      vehicle: {
+        id: vehicle.id,
+        name: vehicle.name,
+        category: vehicle.category,
+        photoUrl: vehicle.photoUrl,
+        mileageLimit: vehicle.mileageLimit,
+      },
+      dailyRate: rates.get(vehicle.id) ?? null,
+      estimatedTotal: estimateTotal(rates.get(vehicle.id), totalDays),
+    }));
+}
+
+// What to offer a customer whose vehicle is taken for the dates they chose.
+export async function findBookingAlternatives(vehicle: Vehicle, startDate: Date, endDate: Date, now = new Date()): Promise<BookingAlternatives> {
+  return {
+    dates: await findAlternativeDates(vehicle.id, startDate, endDate, now),
+    vehicles: await findAlternativeVehicles(vehicle, startDate, endDate),
+  };
+}
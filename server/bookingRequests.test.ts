@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./storage", () => ({
+  storage: {
+    getCustomerById: vi.fn(),
+    updateBookingRequestNotifications: vi.fn(),
+    expireBookingRequests: vi.fn(),
+  },
+}));
+
+vi.mock("./services/emailService", () => ({
+  emailService: {
+    sendBookingRequestConfirmed: vi.fn(),
+    sendBookingRequestRejected: vi.fn(),
+  },
+}));
+
+import { storage } from "./storage";
+import { emailService } from "./services/emailService";
+import {
+  customerBookingRequestActions,
+  withCustomerActions,
+  bookingRequestHoldExpiry,
+  bookingRequestChangeDeadline,
+  notifyBookingRequestDecision,
+  expireStaleBookingRequests,
+  BOOKING_REQUEST_EXPIRED_REASON,
+} from "./bookingRequests";
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date("2026-03-10T09:00:00.000Z");
+const startingIn = (hours: number) => new Date(NOW.getTime() + hours * HOUR);
+
+describe("customerBookingRequestActions", () => {
+  it("allows cancelling and changing dates before the cut-off", () => {
+    expect(customerBookingRequestActions({ status: "pending", startDate: startingIn(25) }, NOW)).toEqual(["cancel", "change_dates"]);
+    expect(customerBookingRequestActions({ status: "confirmed", startDate: startingIn(25) }, NOW)).toEqual(["cancel", "change_dates"]);
+  });
+
+  it("lets a pending request be cancelled until it starts", () => {
+    expect(customerBookingRequestActions({ status: "pending", startDate: startingIn(2) }, NOW)).toEqual(["cancel"]);
+    expect(customerBookingRequestActions({ status: "pending", startDate: startingIn(0) }, NOW)).toEqual([]);
+  });
+
+  it("locks a confirmed request within the cut-off", () => {
+    expect(customerBookingRequestActions({ status: "confirmed", startDate: startingIn(2) }, NOW)).toEqual([]);
+  });
+
+  it("offers nothing once a request has been decided against", () => {
+    for (const status of ["rejected", "cancelled", "expired"]) {
+      expect(customerBookingRequestActions({ status, startDate: startingIn(72) }, NOW)).toEqual([]);
+    }
+  });
+});
+
+describe("booking request deadlines", () => {
+  it("holds dates for a day and closes changes a day before the start", () => {
+    expect(bookingRequestHoldExpiry(NOW)).toEqual(startingIn(24));
+    expect(bookingRequestChangeDeadline({ startDate: startingIn(72) })).toEqual(startingIn(48));
+  });
+
+  it("adds the customer's actions and deadline to a request", () => {
+    const request = { id: 4, status: "confirmed", startDate: new Date(Date.now() + 72 * HOUR) };
+    const withActions = withCustomerActions(request);
+
+    expect(withActions).toMatchObject(request);
+    expect(withActions.customerActions).toEqual(["cancel", "change_dates"]);
+    expect(withActions.changeDeadline).toEqual(bookingRequestChangeDeadline(request));
+  });
+});
+
+describe("notifyBookingRequestDecision", () => {
+  const customer = { id: 2, email: "a@example.com" };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(storage.getCustomerById).mockResolvedValue(customer as any);
+  });
+
+  it("emails the outcome and records whether it went out", async () => {
+    vi.mocked(emailService.sendBookingRequestConfirmed).mockResolvedValue(true);
+    vi.mocked(emailService.sendBookingRequestRejected).mockResolvedValue(false);
+
+    const confirmed = { id: 1, customerId: 2, status: "confirmed" } as any;
+    expect(await notifyBookingRequestDecision(confirmed)).toBe(true);
+    expect(emailService.sendBookingRequestConfirmed).toHaveBeenCalledWith(customer, confirmed);
+    expect(storage.updateBookingRequestNotifications).toHaveBeenCalledWith(1, true);
+
+    const rejected = { id: 3, customerId: 2, status: "rejected" } as any;
+    expect(await notifyBookingRequestDecision(rejected)).toBe(false);
+    expect(emailService.sendBookingRequestRejected).toHaveBeenCalledWith(customer, rejected);
+    expect(storage.updateBookingRequestNotifications).toHaveBeenCalledWith(3, false);
+  });
+
+  it("skips requests whose customer is gone", async () => {
+    vi.mocked(storage.getCustomerById).mockResolvedValue(undefined);
+
+    expect(await notifyBookingRequestDecision({ id: 1, customerId: 2, status: "confirmed" } as any)).toBe(false);
+    expect(storage.updateBookingRequestNotifications).not.toHaveBeenCalled();
+  });
+});
+
+describe("expireStaleBookingRequests", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(storage.getCustomerById).mockResolvedValue({ id: 2 } as any);
+  });
+
+  it("expires requests unanswered for two days and tells each customer", async () => {
+    const expired = [
+      { id: 1, customerId: 2, status: "expired" },
+      { id: 2, customerId: 2, status: "expired" },
+    ] as any[];
+    vi.mocked(storage.expireBookingRequests).mockResolvedValue(expired);
+    vi.mocked(emailService.sendBookingRequestRejected)
+      .mockRejectedValueOnce(new Error("SMTP down"))
+      .mockResolvedValueOnce(true);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    expect(await expireStaleBookingRequests(NOW)).toBe(expired);
+    expect(storage.expireBookingRequests).toHaveBeenCalledWith(startingIn(-48), BOOKING_REQUEST_EXPIRED_REASON);
+    // One failed email doesn't stop the others
+    expect(emailService.sendBookingRequestRejected).toHaveBeenCalledTimes(2);
+    expect(storage.updateBookingRequestNotifications).toHaveBeenCalledWith(2, true);
+  });
+});
@@ -0,0 +1,117 @@
+import type { BookingRequest } from "@shared/schema";
+import type { CustomerBookingRequestAction } from "@shared/bookingRequestSchema";
+import { storage } from "./storage";
+import { emailService } from "./services/emailService";
+
+// Pending requests nobody has answered within this long expire.
+const BOOKING_REQUEST_EXPIRY_MS =
+  parseInt(process.env.BOOKING_REQUEST_EXPIRY_HOURS || "48") * 60 * 60 * 1000;
+
+// How long a pending request keeps its dates from being booked by anyone
+// else while staff look at it.
+const BOOKING_REQUEST_HOLD_MS =
+  parseInt(process.env.BOOKING_REQUEST_HOLD_HOURS || "24") * 60 * 60 * 1000;
+
+// Customers can't change a request, or cancel a confirmed one, within this
+// long of it starting.
+const BOOKING_REQUEST_CHANGE_CUTOFF_MS =
+  parseInt(process.env.BOOKING_REQUEST_CHANGE_CUTOFF_HOURS || "24") * 60 * 60 * 1000;
+
+const EXPIRY_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+export const BOOKING_REQUEST_EXPIRED_REASON =
+  "We could not confirm your request in time. Please send a new request if you still need a vehicle.";
+
+export function bookingRequestHoldExpiry(now = new Date()): Date {
+  return new Date(now.getTime() + BOOKING_REQUEST_HOLD_MS);
+}
+
+export function bookingRequestChangeDeadline(request: Pick<BookingRequest, "startDate">): Date {
+  return new Date(new Date(request.startDate).getTime() - BOOKING_REQUEST_CHANGE_CUTOFF_MS);
+}
+
+// The cancellation policy. A pending request can be cancelled until it
+// starts, as nothing has been set aside for it yet, but a confirmed one only
+// until the cut-off. Either can have its dates changed until the cut-off.
+export function customerBookingRequestActions(
+  request: Pick<BookingRequest, "status" | "startDate">,
+  now = new Date()
+): CustomerBookingRequestAction[] {
+  if (request.status !== "pending" && request.status !== "confirmed") {
+    return [];
+  }
+  const beforeCutoff = now < bookingRequestChangeDeadline(request);
+  const actions: CustomerBookingRequestAction[] = [];
+  if (beforeCutoff || (request.status === "pending" && now < new Date(request.startDate))) {
+    actions.push("cancel");
+  }
+  if (beforeCutoff) {
+    actions.push("change_dates");
+  }
+  return actions;
+}
+
+export type CustomerBookingRequest<T> = T & {
+  customerActions: CustomerBookingRequestAction[];
+  changeDeadline: Date;
+};
+
+// Adds what the customer may still do, so the portal only offers allowed
+// changes.
+export function withCustomerActions<T extends Pick<BookingRequest, "status" | "startDate">>(request: T): CustomerBookingRequest<T> {
+  return {
+    ...request,
+    customerActions: customerBookingRequestActions(request),
+    changeDeadline: bookingRequestChangeDeadline(request),
+  };
+}
+
+// Emails the customer the outcome of their request (confirmed, rejected or
+// expired) and records whether the email went out.
+export async function notifyBookingRequestDecision(bookingRequest: BookingRequest): Promise<boolean> {
+  const customer = await storage.getCustomerById(bookingRequest.customerId);
+  if (!customer) {
+    return false;
+  }
+
+  const emailSent = bookingRequest.status === "confirmed"
+    ? await emailService.sendBookingRequestConfirmed(customer, bookingRequest)
+    : await emailService.sendBookingRequestRejected(customer, bookingRequest);
+  await storage.updateBookingRequestNotifications(bookingRequest.id, emailSent);
+  return emailSent;
+}
+
+export async function expireStaleBookingRequests(now = new Date()): Promise<BookingRequest[]> {
+  const expired = await storage.expireBookingRequests(
+    new Date(now.getTime() - BOOKING_REQUEST_EXPIRY_MS),
+    BOOKING_REQUEST_EXPIRED_REASON
+  );
+  for (const bookingRequest of expired) {
+    try {
+      await notifyBookingRequestDecision(bookingRequest);
+    } catch (error) {
+      console.error(`Failed to notify customer of expired booking request ${bookingRequest.id}:`, error);
+    }
+  }
+  return expired;
+}
+
+// Runs the expiry now and then every few minutes for as long as the server
+// is up. onExpired is handed each batch of expired requests, so their dates
+// can be offered on without this module depending on the waitlist.
+export function scheduleBookingRequestExpiry(onExpired: (expired: BookingRequest[]) => Promise<void>) {
+  const run = () => {
+    expireStaleBookingRequests()
+      .then(async (expired) => {
+        if (expired.length > 0) {
+          console.log(`⏰ Expired ${expired.length} unanswered booking request(s)`);
+          await onExpired(expired);
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to expire booking requests:", error);
+      });
+  };
+  run();
+  setInterval(run, EXPIRY_CHECK_INTERVAL_MS).unref();
+}
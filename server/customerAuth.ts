@@ -0,0 +1,205 @@
+import { createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from "crypto";
+import type { Request, RequestHandler } from "express";
+import type { Customer } from "@shared/schema";
+import type { CustomerToken, CustomerTokenPurpose } from "@shared/authSchema";
+import { storage } from "./storage";
+
+// How long an emailed login code stays valid.
+export const CUSTOMER_LOGIN_CODE_TTL_MS =
+  parseInt(process.env.CUSTOMER_LOGIN_CODE_TTL_MINUTES || "10") * 60 * 1000;
+
+// Wrong guesses allowed against a single code before it is retired.
+export const CUSTOMER_LOGIN_CODE_MAX_ATTEMPTS = 5;
+
+// Lifetime of the links in verification and password reset emails.
+export const CUSTOMER_TOKEN_TTL_MS: Record<CustomerTokenPurpose, number> = {
+  verify_email: parseInt(process.env.CUSTOMER_VERIFY_EMAIL_TTL_HOURS || "48") * 60 * 60 * 1000,
+  reset_password: parseInt(process.env.CUSTOMER_RESET_PASSWORD_TTL_MINUTES || "60") * 60 * 1000,
+};
+
+export interface CustomerSessionData {
+  id: number;
+  email: string;
+  loginAt: string;
+}
+
+declare module "express-session" {
+  interface SessionData {
+    customer?: CustomerSessionData;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The authenticated customer, populated by requireCustomer.
+      customer?: Customer;
+    }
+  }
+}
+
+export function generateLoginCode(): string {
+  return randomInt(0, 1_000_000).toString().padStart(6, "0");
+}
+
+export function hashLoginCode(code: string): string {
+  return createHash("sha256").update(code).digest("hex");
+}
+
+function getTokenSecret(): string {
+  const secret = process.env.CUSTOMER_TOKEN_SECRET || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("CUSTOMER_TOKEN_SECRET or SESSION_SECRET must be set to sign customer tokens.");
+  }
+  return secret;
+}
+
+function signTokenPayload(payload: string): string {
+  return createHmac("sha256", getTokenSecret()).update(payload).digest("base64url");
+}
+
+interface CustomerTokenPayload {
+  tid: number;
+  cid: number;
+  purpose: CustomerTokenPurpose;
+  nonce: string;
+  exp: number;
+}
+
+// Stores a single-use token for the customer and returns the signed string to
+// embed in an email link. Any earlier unused token for the same purpose is
+// retired so only the latest link works.
+export async function issueCustomerToken(customer: Customer, purpose: CustomerTokenPurpose): Promise<string> {
+  const nonce = randomBytes(24).toString("base64url");
+  const expiresAt = new Date(Date.now() + CUSTOMER_TOKEN_TTL_MS[purpose]);
+
+  await storage.revokeCustomerTokens(customer.id, purpose);
+  const record = await storage.createCustomerToken({
+    customerId: customer.id,
+    purpose,
+    email: customer.email,
+    nonceHash: hashLoginCode(nonce),
+    expiresAt,
+  });
+
+  const payload: CustomerTokenPayload = {
+    tid: record.id,
+    cid: customer.id,
+    purpose,
+    nonce,
+    exp: expiresAt.getTime(),
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${signTokenPayload(encoded)}`;
+}
+
+export type CustomerTokenCheck =
+  | { valid: true; record: CustomerToken; customer: Customer }
+  | { valid: false; reason: "invalid" | "expired" | "used" };
+
+// Checks the signature, expiry and single-use state of a token without
+// consuming it. Callers redeem it with storage.consumeCustomerToken.
+export async function verifyCustomerToken(token: string, purpose: CustomerTokenPurpose): Promise<CustomerTokenCheck> {
+  const [encoded, signature] = token.split(".");
+  if (!encoded || !signature) {
+    return { valid: false, reason: "invalid" };
+  }
+
+  const expected = Buffer.from(signTokenPayload(encoded));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return { valid: false, reason: "invalid" };
+  }
+
+  let payload: CustomerTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+  } catch {
+    return { valid: false, reason: "invalid" };
+  }
+
+  if (payload.purpose !== purpose) {
+    return { valid: false, reason: "invalid" };
+  }
+  if (payload.exp < Date.now()) {
+    return { valid: false, reason: "expired" };
+  }
+
+  const record = await storage.getCustomerTokenById(payload.tid);
+  if (
+    !record ||
+    record.customerId !== payload.cid ||
+    record.purpose !== purpose ||
+    record.nonceHash !== hashLoginCode(payload.nonce)
+  ) {
+    return { valid: false, reason: "invalid" };
+  }
+  if (record.consumedAt) {
+    return { valid: false, reason: "used" };
+  }
+  if (record.expiresAt.getTime() < Date.now()) {
+    return { valid: false, reason: "expired" };
+  }
+
+  const customer = await storage.getCustomerById(record.customerId);
+  if (!customer) {
+    return { valid: false, reason: "invalid" };
+  }
+
+  return { valid: true, record, customer };
+}
+
+// Strips credentials before a customer record leaves the server.
+export function toSafeCustomer(customer: Customer) {
+  const { hashedPassword: _hashedPassword, ...safeCustomer } = customer;
+  return safeCustomer;
+}
+
+// Rejects the request unless it carries a customer session, and attaches the
+// customer to req.customer.
+export const requireCustomer: RequestHandler = async (req, res, next) => {
+  const customerSession = req.session.customer;
+  if (!customerSession) {
+    return res.status(401).json({ message: "Customer login required" });
+  }
+
+  try {
+    const customer = await storage.getCustomerById(customerSession.id);
+    if (!customer) {
+      await destroyCustomerSession(req);
+      return res.status(401).json({ message: "Customer account no longer exists" });
+    }
+
+    if (customer.status === "blacklisted") {
+      await destroyCustomerSession(req);
+      return res.status(403).json({ message: "Account has been suspended" });
+    }
+
+    req.customer = customer;
+    next();
+  } catch (error) {
+    console.error("Customer session check error:", error);
+    res.status(500).json({ message: "Failed to verify customer session" });
+  }
+};
+
+export function establishCustomerSession(req: Request, customer: Customer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((regenerateError) => {
+      if (regenerateError) return reject(regenerateError);
+
+      req.session.customer = {
+        id: customer.id,
+        email: customer.email,
+        loginAt: new Date().toISOString(),
+      };
+      req.session.save((saveError) => (saveError ? reject(saveError) : resolve()));
+    });
+  });
+}
+
+export function destroyCustomerSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.destroy((error) => (error ? reject(error) : resolve()));
+  });
+}
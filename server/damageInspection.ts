@@ -0,0 +1,51 @@
+import type { Rental } from "@shared/schema";
+import { getPhotosBySlot, resolveRentalStatus, type RentalReturn, type VehiclePhotosBySlot } from "@shared/rentalSchema";
+import type { DamageInspection, DamagePoint } from "@shared/inspectionSchema";
+import { storage } from "./storage";
+import { pdfGenerator } from "./services/pdfGenerator";
+
+export interface DamageInspectionView {
+  inspection: DamageInspection | null;
+  points: DamagePoint[];
+  checkoutPhotos: VehiclePhotosBySlot;
+  returnPhotos: VehiclePhotosBySlot;
+  rentalReturn: RentalReturn | null;
+  // Marks can be changed until the inspection is finalised or the rental closed
+  editable: boolean;
+}
+
+export async function getDamageInspectionView(rental: Rental): Promise<DamageInspectionView> {
+  const [existing, rentalReturn] = await Promise.all([
+    storage.getDamageInspection(rental.id),
+    storage.getRentalReturn(rental.id),
+  ]);
+  return {
+    inspection: existing?.inspection ?? null,
+    points: existing?.points ?? [],
+    checkoutPhotos: getPhotosBySlot(rental.vehiclePhotos),
+    returnPhotos: (rentalReturn?.returnPhotos as VehiclePhotosBySlot) ?? {},
+    rentalReturn: rentalReturn ?? null,
+    editable: canEditDamageInspection(rental, existing?.inspection),
+  };
+}
+
+// Inspections happen between check-in and closing the rental.
+export function canEditDamageInspection(rental: Rental, inspection?: DamageInspection | null): boolean {
+  return resolveRentalStatus(rental) === "returned" && !inspection?.finalizedAt;
+}
+
+// Renders the report PDF for a finalised inspection and stores its URL.
+export async function generateDamageReport(rental: Rental): Promise<string> {
+  const [customer, existing, rentalReturn] = await Promise.all([
+    storage.getCustomerById(rental.customerId),
+    storage.getDamageInspection(rental.id),
+    storage.getRentalReturn(rental.id),
+  ]);
+  if (!customer || !existing || !rentalReturn) {
+    throw new Error("Damage inspection, check-in or customer not found");
+  }
+
+  const reportPdfUrl = await pdfGenerator.generateDamageReport(rental, customer, existing.inspection, existing.points, rentalReturn);
+  await storage.setDamageReportPdf(existing.inspection.id, reportPdfUrl);
+  return reportPdfUrl;
+}
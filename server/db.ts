@@ -1,7 +1,18 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-serverless';
 import ws from "ws";
-import * as schema from "@shared/schema";
+import * as coreSchema from "@shared/schema";
+import * as authSchema from "@shared/authSchema";
+import * as auditSchema from "@shared/auditSchema";
+import * as termsSchema from "@shared/termsSchema";
+import * as rentalSchema from "@shared/rentalSchema";
+import * as inspectionSchema from "@shared/inspectionSchema";
+import * as depositSchema from "@shared/depositSchema";
+import * as fleetSchema from "@shared/fleetSchema";
+import * as bookingRequestSchema from "@shared/bookingRequestSchema";
+import * as waitlistSchema from "@shared/waitlistSchema";
+
+const schema = { ...coreSchema, ...authSchema, ...auditSchema, ...termsSchema, ...rentalSchema, ...inspectionSchema, ...depositSchema, ...fleetSchema, ...bookingRequestSchema, ...waitlistSchema };
 
 neonConfig.webSocketConstructor = ws;
 
@@ -0,0 +1,135 @@
+import type { Request, Response } from "express";
+import { STAFF_PERMISSIONS } from "@shared/authSchema";
+import { storage, type DocumentOwner } from "./storage";
+import { isStaffSessionIdle } from "./staffAuth";
+import { canonicalDocumentUrl, checkSignedDownload } from "./downloadLinks";
+import {
+  ObjectAccessGroupType,
+  ObjectPermission,
+  customerObjectUserId,
+  staffObjectUserId,
+  isAllowedByAclPolicy,
+  type ObjectAclPolicy,
+} from "./objectAcl";
+
+// Staff who may open any stored file, including ones no record claims.
+const DOCUMENT_STAFF_RULE = {
+  group: { type: ObjectAccessGroupType.STAFF_PERMISSION, id: STAFF_PERMISSIONS.VIEW_CUSTOMER_DOCUMENTS },
+  permission: ObjectPermission.READ,
+};
+
+// Every URL form a stored file can be referenced by. Uploads and backups are
+// mirrored to object storage under the same file name.
+function documentUrlVariants(fileUrl: string): string[] {
+  const canonicalUrl = canonicalDocumentUrl(fileUrl);
+  if (!/^\/(uploads|backups)\//.test(canonicalUrl)) {
+    return [canonicalUrl];
+  }
+  return [canonicalUrl, `/objects${canonicalUrl}`];
+}
+
+// Builds the ACL policy for a stored file from the record that references it:
+// - customer ID documents: the customer, plus staff allowed to view documents
+// - rental files (agreement, payment proof, signature, photos): the rental's
+//   customer and staff who manage rentals
+// - vehicle catalogue photos: public
+// Files no record claims are only visible to document staff.
+export async function resolveDocumentAclPolicy(fileUrl: string): Promise<ObjectAclPolicy> {
+  return aclPolicyForOwner(await storage.findDocumentOwner(documentUrlVariants(fileUrl)));
+}
+
+function aclPolicyForOwner(documentOwner: DocumentOwner | undefined): ObjectAclPolicy {
+  switch (documentOwner?.type) {
+    case "vehicle":
+      return { owner: "system", visibility: "public" };
+    case "customer":
+      return {
+        owner: customerObjectUserId(documentOwner.customerId),
+        visibility: "private",
+        aclRules: [
+          {
+            group: { type: ObjectAccessGroupType.OWNING_CUSTOMER, id: String(documentOwner.customerId) },
+            permission: ObjectPermission.READ,
+          },
+          DOCUMENT_STAFF_RULE,
+        ],
+      };
+    case "rental":
+      return {
+        owner: customerObjectUserId(documentOwner.customerId),
+        visibility: "private",
+        aclRules: [
+          {
+            group: { type: ObjectAccessGroupType.RENTAL_PARTICIPANTS, id: String(documentOwner.rentalId) },
+            permission: ObjectPermission.READ,
+          },
+          DOCUMENT_STAFF_RULE,
+        ],
+      };
+    default:
+      return { owner: "system", visibility: "private", aclRules: [DOCUMENT_STAFF_RULE] };
+  }
+}
+
+// ACL user id for whoever is signed in on this request. Signing in as staff
+// or as a customer starts a fresh session, so there is at most one.
+function getRequestObjectUserId(req: Request): string | undefined {
+  const staffSession = req.session?.staff;
+  if (staffSession && !isStaffSessionIdle(staffSession)) {
+    return staffObjectUserId(staffSession.id);
+  }
+  const customerSession = req.session?.customer;
+  if (customerSession) {
+    return customerObjectUserId(customerSession.id);
+  }
+  return undefined;
+}
+
+// A valid signed link grants access on its own unless it belongs to a rental
+// whose links were revoked after it was issued.
+async function isSignedLinkRevoked(documentOwner: DocumentOwner | undefined, issuedAt: Date): Promise<boolean> {
+  if (documentOwner?.type !== "rental") {
+    return false;
+  }
+  const revokedAt = await storage.getRentalDownloadLinksRevokedAt(documentOwner.rentalId);
+  return !!revokedAt && issuedAt <= revokedAt;
+}
+
+// Accepts a valid signed download link, otherwise checks the signed-in user
+// against the file's policy. Responds with 401 or 403 and returns false when
+// access is denied.
+export async function authorizeDocumentRequest(req: Request, res: Response, fileUrl: string): Promise<boolean> {
+  const documentOwner = await storage.findDocumentOwner(documentUrlVariants(fileUrl));
+
+  const signedDownload = checkSignedDownload(req, fileUrl);
+  if (signedDownload.signed) {
+    if (!signedDownload.valid) {
+      res.status(403).send(signedDownload.reason === "expired" ? 'This download link has expired' : 'Invalid download link');
+      return false;
+    }
+    if (await isSignedLinkRevoked(documentOwner, signedDownload.issuedAt)) {
+      res.status(403).send('This download link is no longer valid');
+      return false;
+    }
+    return true;
+  }
+
+  const aclPolicy = aclPolicyForOwner(documentOwner);
+  if (await isAllowedByAclPolicy({ aclPolicy, requestedPermission: ObjectPermission.READ })) {
+    return true;
+  }
+
+  const userId = getRequestObjectUserId(req);
+  if (!userId) {
+    res.status(401).send('Login required');
+    return false;
+  }
+
+  if (await isAllowedByAclPolicy({ userId, aclPolicy, requestedPermission: ObjectPermission.READ })) {
+    return true;
+  }
+
+  console.warn(`❌ Security: ${userId} denied access to ${fileUrl}`);
+  res.status(403).send('Access denied');
+  return false;
+}
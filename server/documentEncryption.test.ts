@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { randomBytes } from "crypto";
+import {
+  encryptDocument,
+  decryptDocument,
+  rewrapDocumentKey,
+  isEncryptedDocument,
+  getDocumentKeyId,
+  getActiveDocumentKeyId,
+} from "./documentEncryption";
+
+const OLD_KEY = `2025:${randomBytes(32).toString("base64")}`;
+const NEW_KEY = `2026:${randomBytes(32).toString("base64")}`;
+const IMAGE = Buffer.from("\xff\xd8\xff\xe0 a JPEG's worth of bytes", "latin1");
+
+describe("document envelope encryption", () => {
+  const configuredKeys = process.env.DOCUMENT_ENCRYPTION_KEYS;
+
+  beforeEach(() => {
+    process.env.DOCUMENT_ENCRYPTION_KEYS = OLD_KEY;
+  });
+
+  afterEach(() => {
+    if (configuredKeys === undefined) {
+      delete process.env.DOCUMENT_ENCRYPTION_KEYS;
+    } else {
+      process.env.DOCUMENT_ENCRYPTION_KEYS = configuredKeys;
+    }
+  });
+
+  it("round-trips a document under the active key", () => {
+    const encrypted = encryptDocument(IMAGE);
+
+    expect(isEncryptedDocument(encrypted)).toBe(true);
+    expect(encrypted.includes(IMAGE)).toBe(false);
+    expect(getDocumentKeyId(encrypted)).toBe("2025");
+    expect(decryptDocument(encrypted)).toEqual(IMAGE);
+  });
+
+  it("uses a fresh data key and iv for every file", () => {
+    expect(encryptDocument(IMAGE).equals(encryptDocument(IMAGE))).toBe(false);
+  });
+
+  it("returns files stored before encryption unchanged", () => {
+    expect(isEncryptedDocument(IMAGE)).toBe(false);
+    expect(decryptDocument(IMAGE)).toBe(IMAGE);
+  });
+
+  it("rejects a tampered file", () => {
+    const encrypted = encryptDocument(IMAGE);
+    encrypted[encrypted.length - 1] ^= 1;
+
+    expect(() => decryptDocument(encrypted)).toThrow();
+  });
+
+  it("re-wraps the data key on rotation without touching the contents", () => {
+    const encrypted = encryptDocument(IMAGE);
+    process.env.DOCUMENT_ENCRYPTION_KEYS = `${NEW_KEY},${OLD_KEY}`;
+    expect(getActiveDocumentKeyId()).toBe("2026");
+
+    const rewrapped = rewrapDocumentKey(encrypted)!;
+    expect(getDocumentKeyId(rewrapped)).toBe("2026");
+    // The encrypted body (data iv, tag and ciphertext) is carried over as-is
+    const bodyLength = 12 + 16 + IMAGE.length;
+    expect(rewrapped.subarray(-bodyLength).equals(encrypted.subarray(-bodyLength))).toBe(true);
+    expect(rewrapDocumentKey(rewrapped)).toBeNull();
+
+    // Once the old key is retired only rotated files can be read
+    process.env.DOCUMENT_ENCRYPTION_KEYS = NEW_KEY;
+    expect(decryptDocument(rewrapped)).toEqual(IMAGE);
+    expect(() => decryptDocument(encrypted)).toThrow('Document encryption key "2025" is not configured');
+  });
+
+  it("requires well-formed master keys", () => {
+    process.env.DOCUMENT_ENCRYPTION_KEYS = "";
+    expect(() => encryptDocument(IMAGE)).toThrow("DOCUMENT_ENCRYPTION_KEYS must be set");
+
+    process.env.DOCUMENT_ENCRYPTION_KEYS = `short:${randomBytes(16).toString("base64")}`;
+    expect(() => encryptDocument(IMAGE)).toThrow('Invalid DOCUMENT_ENCRYPTION_KEYS entry "short"');
+  });
+});
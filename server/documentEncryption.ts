@@ -0,0 +1,156 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+// Envelope encryption for KYC document images. Each file is encrypted with
+// its own random data key, and the data key is stored in the file encrypted
+// ("wrapped") with a master key from DOCUMENT_ENCRYPTION_KEYS. Rotating the
+// master key only re-wraps the data keys; file contents are not re-encrypted.
+//
+// File layout:
+//   magic | key id length (1 byte) | key id | wrapped key iv | wrapped key tag |
+//   wrapped data key | data iv | data tag | ciphertext
+const MAGIC = Buffer.from("RRZENC01");
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// Custom object storage metadata marking an encrypted upload, so it is
+// decrypted when served instead of streamed as-is.
+export const ENCRYPTED_DOCUMENT_METADATA = { encryption: "envelope-v1" };
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+// DOCUMENT_ENCRYPTION_KEYS is a comma-separated list of "id:base64key"
+// entries, newest first. The first key encrypts new files; the others are
+// kept only to read files not yet rotated.
+function getMasterKeys(): MasterKey[] {
+  const entries = (process.env.DOCUMENT_ENCRYPTION_KEYS || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+  if (entries.length === 0) {
+    throw new Error("DOCUMENT_ENCRYPTION_KEYS must be set to store KYC documents.");
+  }
+
+  return entries.map((entry) => {
+    const separator = entry.indexOf(":");
+    const id = entry.slice(0, separator);
+    const key = Buffer.from(entry.slice(separator + 1), "base64");
+    if (separator <= 0 || id.length > 255 || key.length !== KEY_LENGTH) {
+      throw new Error(`Invalid DOCUMENT_ENCRYPTION_KEYS entry "${id || entry.slice(0, 8)}": expected id:<${KEY_LENGTH}-byte base64 key>`);
+    }
+    return { id, key };
+  });
+}
+
+function getMasterKey(id: string): Buffer {
+  const masterKey = getMasterKeys().find((candidate) => candidate.id === id);
+  if (!masterKey) {
+    throw new Error(`Document encryption key "${id}" is not configured`);
+  }
+  return masterKey.key;
+}
+
+export function getActiveDocumentKeyId(): string {
+  return getMasterKeys()[0].id;
+}
+
+function seal(key: Buffer, plaintext: Buffer) {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+export function isEncryptedDocument(buffer: Buffer): boolean {
+  return buffer.length > MAGIC.length && buffer.subarray(0, MAGIC.length).equals(MAGIC);
+}
+
+interface EncryptedDocument {
+  keyId: string;
+  wrappedKey: { iv: Buffer; tag: Buffer; ciphertext: Buffer };
+  // data iv + data tag + ciphertext, untouched by key rotation
+  body: Buffer;
+}
+
+function parseEncryptedDocument(buffer: Buffer): EncryptedDocument {
+  if (!isEncryptedDocument(buffer)) {
+    throw new Error("Not an encrypted document");
+  }
+  let offset = MAGIC.length;
+  const keyIdLength = buffer[offset];
+  offset += 1;
+  const keyId = buffer.subarray(offset, offset + keyIdLength).toString("utf8");
+  offset += keyIdLength;
+  const iv = buffer.subarray(offset, offset + IV_LENGTH);
+  offset += IV_LENGTH;
+  const tag = buffer.subarray(offset, offset + TAG_LENGTH);
+  offset += TAG_LENGTH;
+  const ciphertext = buffer.subarray(offset, offset + KEY_LENGTH);
+  offset += KEY_LENGTH;
+  return { keyId, wrappedKey: { iv, tag, ciphertext }, body: buffer.subarray(offset) };
+}
+
+function serializeEncryptedDocument(keyId: string, wrappedKey: EncryptedDocument["wrappedKey"], body: Buffer): Buffer {
+  const keyIdBuffer = Buffer.from(keyId, "utf8");
+  return Buffer.concat([
+    MAGIC,
+    Buffer.from([keyIdBuffer.length]),
+    keyIdBuffer,
+    wrappedKey.iv,
+    wrappedKey.tag,
+    wrappedKey.ciphertext,
+    body,
+  ]);
+}
+
+// Id of the master key that wraps the file's data key.
+export function getDocumentKeyId(buffer: Buffer): string {
+  return parseEncryptedDocument(buffer).keyId;
+}
+
+export function encryptDocument(plaintext: Buffer): Buffer {
+  const { id, key } = getMasterKeys()[0];
+  const dataKey = randomBytes(KEY_LENGTH);
+  const data = seal(dataKey, plaintext);
+  const wrappedKey = seal(key, dataKey);
+  return serializeEncryptedDocument(id, wrappedKey, Buffer.concat([data.iv, data.tag, data.ciphertext]));
+}
+
+function unwrapDataKey(document: EncryptedDocument): Buffer {
+  const { iv, tag, ciphertext } = document.wrappedKey;
+  return open(getMasterKey(document.keyId), iv, tag, ciphertext);
+}
+
+// Returns the file's contents, decrypting it if it is encrypted. Files stored
+// before encryption was introduced are returned unchanged.
+export function decryptDocument(buffer: Buffer): Buffer {
+  if (!isEncryptedDocument(buffer)) {
+    return buffer;
+  }
+  const document = parseEncryptedDocument(buffer);
+  const dataKey = unwrapDataKey(document);
+  const iv = document.body.subarray(0, IV_LENGTH);
+  const tag = document.body.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  return open(dataKey, iv, tag, document.body.subarray(IV_LENGTH + TAG_LENGTH));
+}
+
+// Re-wraps the file's data key with the active master key. Returns null when
+// it is already wrapped with the active key.
+export function rewrapDocumentKey(buffer: Buffer): Buffer | null {
+  const document = parseEncryptedDocument(buffer);
+  const { id, key } = getMasterKeys()[0];
+  if (document.keyId === id) {
+    return null;
+  }
+  return serializeEncryptedDocument(id, seal(key, unwrapDataKey(document)), document.body);
+}
@@ -0,0 +1,74 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Request } from "express";
+
+// Default lifetime of a signed download link.
+export const DOWNLOAD_LINK_TTL_MS =
+  parseInt(process.env.DOWNLOAD_LINK_TTL_HOURS || "72") * 60 * 60 * 1000;
+
+function getLinkSecret(): string {
+  const secret = process.env.DOWNLOAD_LINK_SECRET || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("DOWNLOAD_LINK_SECRET or SESSION_SECRET must be set to sign download links.");
+  }
+  return secret;
+}
+
+// Uploads and backups are served both directly and through /objects, so links
+// are signed over the direct form and work on either route.
+export function canonicalDocumentUrl(fileUrl: string): string {
+  return fileUrl.replace(/^\/objects\/(uploads|backups)\//, "/$1/");
+}
+
+function signLink(fileUrl: string, issuedAt: number, expiresAt: number): string {
+  return createHmac("sha256", getLinkSecret())
+    .update(`${canonicalDocumentUrl(fileUrl)}:${issuedAt}:${expiresAt}`)
+    .digest("base64url");
+}
+
+// Relative URL that serves fileUrl (e.g. "/backups/agreement.pdf") without a
+// login until it expires. Links to a rental's files also stop working once
+// the rental's links are revoked.
+export function createSignedDownloadUrl(fileUrl: string, ttlMs = DOWNLOAD_LINK_TTL_MS): string {
+  const issuedAt = Date.now();
+  const expiresAt = issuedAt + ttlMs;
+  const params = new URLSearchParams({
+    issued: String(issuedAt),
+    expires: String(expiresAt),
+    signature: signLink(fileUrl, issuedAt, expiresAt),
+  });
+  return `${fileUrl}?${params.toString()}`;
+}
+
+export type SignedDownloadCheck =
+  | { signed: false }
+  | { signed: true; valid: true; issuedAt: Date }
+  | { signed: true; valid: false; reason: "invalid" | "expired" };
+
+// Checks the signature query parameters on a file request. Requests without
+// them are reported as unsigned so the caller can fall back to the session.
+export function checkSignedDownload(req: Request, fileUrl: string): SignedDownloadCheck {
+  const { issued, expires, signature } = req.query;
+  if (signature === undefined) {
+    return { signed: false };
+  }
+  if (typeof issued !== "string" || typeof expires !== "string" || typeof signature !== "string") {
+    return { signed: true, valid: false, reason: "invalid" };
+  }
+
+  const issuedAt = Number(issued);
+  const expiresAt = Number(expires);
+  if (!Number.isSafeInteger(issuedAt) || !Number.isSafeInteger(expiresAt)) {
+    return { signed: true, valid: false, reason: "invalid" };
+  }
+
+  const expected = Buffer.from(signLink(fileUrl, issuedAt, expiresAt));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return { signed: true, valid: false, reason: "invalid" };
+  }
+
+  if (expiresAt <= Date.now()) {
+    return { signed: true, valid: false, reason: "expired" };
+  }
+  return { signed: true, valid: true, issuedAt: new Date(issuedAt) };
+}
@@ -0,0 +1,94 @@
+import path from "path";
+import type { Customer } from "@shared/schema";
+import { storage } from "./storage";
+import { readStoredFile, rewriteStoredFile } from "./storedFiles";
+import { encryptDocument, getDocumentKeyId, isEncryptedDocument, rewrapDocumentKey } from "./documentEncryption";
+
+// Customer identity documents, which are stored encrypted.
+export const KYC_DOCUMENTS = [
+  { field: "icPassportUrl", label: "IC/Passport" },
+  { field: "driversLicenseUrl", label: "Driver's license" },
+  { field: "utilityBillUrl", label: "Utility bill" },
+] as const;
+
+export interface KycDocumentStatus {
+  exists: boolean;
+  encrypted: boolean;
+  // Master key wrapping the file's data key
+  keyId: string | null;
+}
+
+export async function inspectKycDocument(fileUrl: string): Promise<KycDocumentStatus> {
+  const buffer = await readStoredFile(fileUrl);
+  if (!buffer) {
+    return { exists: false, encrypted: false, keyId: null };
+  }
+  const encrypted = isEncryptedDocument(buffer);
+  return { exists: true, encrypted, keyId: encrypted ? getDocumentKeyId(buffer) : null };
+}
+
+export interface KycDocumentRewriteResult {
+  customersChecked: number;
+  filesRewritten: number;
+  filesUnchanged: number;
+  filesMissing: string[];
+  failures: { url: string; error: string }[];
+}
+
+function contentTypeFor(fileUrl: string): string {
+  const extension = path.extname(fileUrl).toLowerCase();
+  return extension === ".png" ? "image/png" : extension === ".webp" ? "image/webp" : "image/jpeg";
+}
+
+// Applies transform to every copy of every customer's KYC documents.
+// One failing file does not stop the run; it is reported instead.
+async function rewriteKycDocuments(
+  transform: (buffer: Buffer) => Buffer | null,
+  customers?: Customer[]
+): Promise<KycDocumentRewriteResult> {
+  const targets = customers ?? (await storage.getAllCustomers());
+  const result: KycDocumentRewriteResult = {
+    customersChecked: targets.length,
+    filesRewritten: 0,
+    filesUnchanged: 0,
+    filesMissing: [],
+    failures: [],
+  };
+
+  for (const customer of targets) {
+    for (const { field } of KYC_DOCUMENTS) {
+      const url = customer[field];
+      if (!url) {
+        continue;
+      }
+      try {
+        const copies = await rewriteStoredFile(url, transform, contentTypeFor(url));
+        if (copies.found === 0) {
+          result.filesMissing.push(url);
+        } else if (copies.rewritten > 0) {
+          result.filesRewritten++;
+        } else {
+          result.filesUnchanged++;
+        }
+      } catch (error) {
+        console.error(`Failed to rewrite KYC document ${url}:`, error);
+        result.failures.push({ url, error: (error as Error).message });
+      }
+    }
+  }
+  return result;
+}
+
+// Migration for documents uploaded before encryption at rest: encrypts every
+// copy still stored in clear. Already encrypted copies are left alone, so it
+// is safe to run repeatedly.
+export function encryptExistingKycDocuments(customers?: Customer[]): Promise<KycDocumentRewriteResult> {
+  return rewriteKycDocuments((buffer) => (isEncryptedDocument(buffer) ? null : encryptDocument(buffer)), customers);
+}
+
+// Re-wraps every document's data key with the active master key (the first
+// entry of DOCUMENT_ENCRYPTION_KEYS). Old keys can be removed from the
+// configuration once this reports no failures.
+export function rotateKycDocumentKeys(): Promise<KycDocumentRewriteResult> {
+  return rewriteKycDocuments((buffer) => (isEncryptedDocument(buffer) ? rewrapDocumentKey(buffer) : null));
+}
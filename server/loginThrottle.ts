@@ -0,0 +1,226 @@
+import type { Request, RequestHandler } from "express";
+import { storage } from "./storage";
+import { adminNotificationService } from "./services/adminNotificationService";
+
+export type LoginScope = "staff" | "customer";
+
+// Failures allowed against one account before it is locked.
+const MAX_ACCOUNT_FAILURES = parseInt(process.env.LOGIN_MAX_ACCOUNT_FAILURES || "5");
+
+// Failures allowed from one IP address, across all accounts, before it is locked.
+const MAX_IP_FAILURES = parseInt(process.env.LOGIN_MAX_IP_FAILURES || "20");
+
+// First lockout length; each further failure doubles it up to the maximum.
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+// Counters with no failures for this long start over.
+const FAILURE_WINDOW_MS = 60 * 60 * 1000;
+
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+export interface LoginAttemptRecord {
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil: Date | null;
+}
+
+// Where failure counters live. The in-memory store suits a single local
+// process; the Postgres store shares counters across instances and restarts.
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttemptRecord | undefined>;
+  increment(key: string, resetIfIdleSince: Date): Promise<LoginAttemptRecord>;
+  lock(key: string, lockedUntil: Date): Promise<void>;
+  clear(key: string): Promise<void>;
+  prune(idleSince: Date): Promise<void>;
+}
+
+export class MemoryLoginAttemptStore implements LoginAttemptStore {
+  private records = new Map<string, LoginAttemptRecord>();
+
+  async get(key: string) {
+    return this.records.get(key);
+  }
+
+  async increment(key: string, resetIfIdleSince: Date) {
+    const existing = this.records.get(key);
+    const record: LoginAttemptRecord =
+      existing && existing.lastFailureAt >= resetIfIdleSince
+        ? { ...existing, failures: existing.failures + 1, lastFailureAt: new Date() }
+        : { failures: 1, lastFailureAt: new Date(), lockedUntil: existing?.lockedUntil ?? null };
+    this.records.set(key, record);
+    return record;
+  }
+
+  async lock(key: string, lockedUntil: Date) {
+    const record = this.records.get(key);
+    if (record) {
+      record.lockedUntil = lockedUntil;
+    }
+  }
+
+  async clear(key: string) {
+    this.records.delete(key);
+  }
+
+  async prune(idleSince: Date) {
+    const now = new Date();
+    this.records.forEach((record, key) => {
+      if (record.lastFailureAt <= idleSince && (!record.lockedUntil || record.lockedUntil <= now)) {
+        this.records.delete(key);
+      }
+    });
+  }
+}
+
+export class PostgresLoginAttemptStore implements LoginAttemptStore {
+  get(key: string) {
+    return storage.getLoginAttempt(key);
+  }
+
+  increment(key: string, resetIfIdleSince: Date) {
+    return storage.incrementLoginAttempt(key, resetIfIdleSince);
+  }
+
+  lock(key: string, lockedUntil: Date) {
+    return storage.lockLoginAttempt(key, lockedUntil);
+  }
+
+  clear(key: string) {
+    return storage.clearLoginAttempt(key);
+  }
+
+  prune(idleSince: Date) {
+    return storage.pruneLoginAttempts(idleSince);
+  }
+}
+
+export type LoginCheck =
+  | { allowed: true }
+  | { allowed: false; retryAfterSeconds: number };
+
+export class LoginThrottle {
+  constructor(private store: LoginAttemptStore) {
+    setInterval(() => {
+      this.store.prune(new Date(Date.now() - FAILURE_WINDOW_MS)).catch((error) => {
+        console.error("Failed to prune login attempts:", error);
+      });
+    }, PRUNE_INTERVAL_MS).unref();
+  }
+
+  private accountKey(scope: LoginScope, identifier: string) {
+    return `${scope}:account:${identifier.trim().toLowerCase()}`;
+  }
+
+  private ipKey(scope: LoginScope, ip: string | undefined) {
+    return `${scope}:ip:${ip || "unknown"}`;
+  }
+
+  async check(scope: LoginScope, identifier: string | undefined, ip: string | undefined): Promise<LoginCheck> {
+    const keys = [this.ipKey(scope, ip)];
+    // The identifier comes straight from the request body, so ignore
+    // anything that is not a usable string
+    if (typeof identifier === "string" && identifier.trim()) {
+      keys.push(this.accountKey(scope, identifier));
+    }
+
+    const now = Date.now();
+    let lockedUntil = 0;
+    for (const key of keys) {
+      const record = await this.store.get(key);
+      if (record?.lockedUntil && record.lockedUntil.getTime() > now) {
+        lockedUntil = Math.max(lockedUntil, record.lockedUntil.getTime());
+      }
+    }
+
+    if (lockedUntil === 0) {
+      return { allowed: true };
+    }
+    return { allowed: false, retryAfterSeconds: Math.ceil((lockedUntil - now) / 1000) };
+  }
+
+  async recordFailure(scope: LoginScope, identifier: string | undefined, ip: string | undefined): Promise<void> {
+    const address = ip || "unknown";
+    await this.countFailure(this.ipKey(scope, ip), MAX_IP_FAILURES, { scope, type: "ip", identifier: address, ip: address });
+    if (identifier) {
+      await this.countFailure(this.accountKey(scope, identifier), MAX_ACCOUNT_FAILURES, {
+        scope,
+        type: "account",
+        identifier: identifier.trim().toLowerCase(),
+        ip: address,
+      });
+    }
+  }
+
+  // Only the account counter is cleared; a valid login must not wipe the
+  // failures an IP has racked up against other accounts.
+  async recordSuccess(scope: LoginScope, identifier: string): Promise<void> {
+    await this.store.clear(this.accountKey(scope, identifier));
+  }
+
+  private async countFailure(
+    key: string,
+    maxFailures: number,
+    lockout: { scope: LoginScope; type: "account" | "ip"; identifier: string; ip: string }
+  ) {
+    const record = await this.store.increment(key, new Date(Date.now() - FAILURE_WINDOW_MS));
+    if (record.failures < maxFailures) {
+      return;
+    }
+
+    const lockoutMs = Math.min(BASE_LOCKOUT_MS * 2 ** (record.failures - maxFailures), MAX_LOCKOUT_MS);
+    const lockedUntil = new Date(Date.now() + lockoutMs);
+    await this.store.lock(key, lockedUntil);
+    console.warn(`🔒 Login locked for ${key} until ${lockedUntil.toISOString()} (${record.failures} failures)`);
+
+    // Only the first lockout of a run is reported, so a sustained attack
+    // does not flood the admin inbox
+    if (record.failures === maxFailures) {
+      await adminNotificationService.notifyLoginLockout({
+        ...lockout,
+        failures: record.failures,
+        lockedUntil,
+      });
+    }
+  }
+}
+
+function createLoginAttemptStore(): LoginAttemptStore {
+  return process.env.LOGIN_THROTTLE_STORE === "memory"
+    ? new MemoryLoginAttemptStore()
+    : new PostgresLoginAttemptStore();
+}
+
+export const loginThrottle = new LoginThrottle(createLoginAttemptStore());
+
+// Rejects the request with 429 while the IP address or the account named by
+// getIdentifier is locked out.
+export function throttleLogin(
+  scope: LoginScope,
+  getIdentifier: (req: Request) => string | undefined
+): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const check = await loginThrottle.check(scope, getIdentifier(req), req.ip);
+      if (!check.allowed) {
+        res.set("Retry-After", String(check.retryAfterSeconds));
+        return res.status(429).json({
+          message: `Too many failed login attempts. Try again in ${formatRetryAfter(check.retryAfterSeconds)}.`,
+          retryAfterSeconds: check.retryAfterSeconds,
+        });
+      }
+      next();
+    } catch (error) {
+      console.error("Login throttle check error:", error);
+      res.status(500).json({ message: "Login is temporarily unavailable" });
+    }
+  };
+}
+
+function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
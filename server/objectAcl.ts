@@ -1,18 +1,48 @@
 import { File } from "@google-cloud/storage";
+import { STAFF_PERMISSIONS, type StaffPermission } from "@shared/authSchema";
+import { storage } from "./storage";
 
 const ACL_POLICY_METADATA_KEY = "custom:aclPolicy";
 
 // The type of the access group.
 //
-// Can be flexibly defined according to the use case.
-//
-// Examples:
-// - USER_LIST: the users from a list stored in the database;
-// - EMAIL_DOMAIN: the users whose email is in a specific domain;
-// - GROUP_MEMBER: the users who are members of a specific group;
-// - SUBSCRIBER: the users who are subscribers of a specific service / content
-//   creator.
-export enum ObjectAccessGroupType {}
+// - OWNING_CUSTOMER: the customer whose id is the group id;
+// - STAFF_PERMISSION: staff whose role holds the permission named by the
+//   group id, e.g. "customer:view_documents" for KYC images;
+// - RENTAL_PARTICIPANTS: the customer on the rental whose id is the group id,
+//   plus staff who can manage rentals.
+export enum ObjectAccessGroupType {
+  OWNING_CUSTOMER = "owning_customer",
+  STAFF_PERMISSION = "staff_permission",
+  RENTAL_PARTICIPANTS = "rental_participants",
+}
+
+// User ids in ACL policies are namespaced by account type, since staff and
+// customer ids come from different tables.
+export function staffObjectUserId(staffId: number): string {
+  return `staff:${staffId}`;
+}
+
+export function customerObjectUserId(customerId: number): string {
+  return `customer:${customerId}`;
+}
+
+function parseObjectUserId(userId: string): { kind: "staff" | "customer"; id: number } | null {
+  const match = /^(staff|customer):(\d+)$/.exec(userId);
+  if (!match) {
+    return null;
+  }
+  return { kind: match[1] as "staff" | "customer", id: parseInt(match[2]) };
+}
+
+async function staffHasPermission(staffId: number, permission: StaffPermission): Promise<boolean> {
+  const staffMember = await storage.getStaffById(staffId);
+  if (!staffMember) {
+    return false;
+  }
+  const role = await storage.getStaffRole(staffId);
+  return (await storage.getRolePermissions(role)).includes(permission);
+}
 
 // The logic user group that can access the object.
 export interface ObjectAccessGroup {
@@ -82,21 +112,60 @@ abstract class BaseObjectAccessGroup implements ObjectAccessGroup {
   public abstract hasMember(userId: string): Promise<boolean>;
 }
 
+class OwningCustomerAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.OWNING_CUSTOMER, id);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    return userId === customerObjectUserId(parseInt(this.id));
+  }
+}
+
+class StaffPermissionAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.STAFF_PERMISSION, id);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    const user = parseObjectUserId(userId);
+    if (user?.kind !== "staff") {
+      return false;
+    }
+    return staffHasPermission(user.id, this.id as StaffPermission);
+  }
+}
+
+class RentalParticipantsAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.RENTAL_PARTICIPANTS, id);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    const user = parseObjectUserId(userId);
+    if (!user) {
+      return false;
+    }
+
+    if (user.kind === "staff") {
+      return staffHasPermission(user.id, STAFF_PERMISSIONS.MANAGE_RENTALS);
+    }
+
+    const rental = await storage.getRentalById(parseInt(this.id));
+    return rental?.customerId === user.id;
+  }
+}
+
 function createObjectAccessGroup(
   group: ObjectAccessGroup,
 ): BaseObjectAccessGroup {
   switch (group.type) {
-    // Implement the case for each type of access group to instantiate.
-    //
-    // For example:
-    // case "USER_LIST":
-    //   return new UserListAccessGroup(group.id);
-    // case "EMAIL_DOMAIN":
-    //   return new EmailDomainAccessGroup(group.id);
-    // case "GROUP_MEMBER":
-    //   return new GroupMemberAccessGroup(group.id);
-    // case "SUBSCRIBER":
-    //   return new SubscriberAccessGroup(group.id);
+    case ObjectAccessGroupType.OWNING_CUSTOMER:
+      return new OwningCustomerAccessGroup(group.id);
+    case ObjectAccessGroupType.STAFF_PERMISSION:
+      return new StaffPermissionAccessGroup(group.id);
+    case ObjectAccessGroupType.RENTAL_PARTICIPANTS:
+      return new RentalParticipantsAccessGroup(group.id);
     default:
       throw new Error(`Unknown access group type: ${group.type}`);
   }
@@ -147,6 +216,20 @@ export async function canAccessObject({
     return false;
   }
 
+  return isAllowedByAclPolicy({ userId, aclPolicy, requestedPermission });
+}
+
+// Checks a policy directly, for files whose policy is not stored as object
+// metadata (e.g. local uploads and backups).
+export async function isAllowedByAclPolicy({
+  userId,
+  aclPolicy,
+  requestedPermission,
+}: {
+  userId?: string;
+  aclPolicy: ObjectAclPolicy;
+  requestedPermission: ObjectPermission;
+}): Promise<boolean> {
   // Public objects are always accessible for read.
   if (
     aclPolicy.visibility === "public" &&
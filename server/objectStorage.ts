@@ -8,6 +8,7 @@ import {
   getObjectAclPolicy,
   setObjectAclPolicy,
 } from "./objectAcl";
+import { decryptDocument } from "./documentEncryption";
 
 const REPLIT_SIDECAR_ENDPOINT = "http://127.0.0.1:1106";
 
@@ -102,6 +103,20 @@ export class ObjectStorageService {
       // Get the ACL policy for the object.
       const aclPolicy = await getObjectAclPolicy(file);
       const isPublic = aclPolicy?.visibility === "public";
+
+      // Encrypted KYC documents are decrypted in memory rather than streamed
+      if (metadata.metadata?.encryption) {
+        const [encrypted] = await file.download();
+        const contents = decryptDocument(encrypted);
+        res.set({
+          "Content-Type": metadata.contentType || "application/octet-stream",
+          "Content-Length": String(contents.length),
+          "Cache-Control": `private, max-age=${cacheTtlSec}`,
+        });
+        res.send(contents);
+        return;
+      }
+
       // Set appropriate headers
       res.set({
         "Content-Type": metadata.contentType || "application/octet-stream",
@@ -272,8 +287,9 @@ export class ObjectStorageService {
     });
   }
 
-  // Upload a file to object storage
-  async uploadFile(buffer: Buffer, filename: string, contentType: string = 'application/octet-stream'): Promise<string> {
+  // Upload a file to object storage. customMetadata is stored with the object,
+  // e.g. to mark it as encrypted.
+  async uploadFile(buffer: Buffer, filename: string, contentType: string = 'application/octet-stream', customMetadata?: Record<string, string>): Promise<string> {
     try {
       const privateDir = this.getPrivateObjectDir();
       const fullPath = `${privateDir}/uploads/${filename}`;
@@ -285,6 +301,7 @@ export class ObjectStorageService {
       await file.save(buffer, {
         metadata: {
           contentType: contentType,
+          metadata: customMetadata,
         },
       });
       
@@ -344,6 +361,22 @@ export class ObjectStorageService {
       return null;
     }
   }
+
+  // Delete a file from object storage; returns false if it did not exist
+  async deleteFileFromStorage(objectPath: string): Promise<boolean> {
+    const privateDir = this.getPrivateObjectDir();
+    const fullPath = `${privateDir}/${objectPath.replace(/^\/objects\//, '')}`;
+    const { bucketName, objectName } = parseObjectPath(fullPath);
+    const file = objectStorageClient.bucket(bucketName).file(objectName);
+
+    const [exists] = await file.exists();
+    if (!exists) {
+      return false;
+    }
+    await file.delete();
+    console.log(`🗑️ File deleted from object storage: ${fullPath}`);
+    return true;
+  }
 }
 
 function parseObjectPath(path: string): {
@@ -0,0 +1,180 @@
+import archiver from "archiver";
+import path from "path";
+import { randomBytes } from "crypto";
+import type { Response } from "express";
+import type { Customer, Rental } from "@shared/schema";
+import type { RentalAmendment, RentalReturn } from "@shared/rentalSchema";
+import { storage, type CustomerErasureCounts } from "./storage";
+import { toSafeCustomer } from "./customerAuth";
+import { STORED_FILE_PATTERN, resolveStoredFile, readStoredFile, deleteStoredFile } from "./storedFiles";
+import { decryptDocument } from "./documentEncryption";
+
+interface StoredFile {
+  url: string;
+  // Path inside the export archive
+  archivePath: string;
+}
+
+// Rental photos are stored in a JSON blob whose shape varies between
+// versions, so collect every stored-file URL found anywhere in it.
+function collectFileUrls(value: unknown, urls: string[] = []): string[] {
+  if (typeof value === "string") {
+    if (STORED_FILE_PATTERN.test(value)) urls.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectFileUrls(item, urls));
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach((item) => collectFileUrls(item, urls));
+  }
+  return urls;
+}
+
+// Files holding the customer's personal data. Payment proofs are left out of
+// erasure (but not export) because they back the accounting records.
+function listCustomerFiles(
+  customer: Customer,
+  customerRentals: Rental[],
+  customerReturns: RentalReturn[],
+  customerAmendments: RentalAmendment[],
+  { forErasure }: { forErasure: boolean }
+): StoredFile[] {
+  const files: StoredFile[] = [];
+  const add = (url: string | null | undefined, archivePath: string) => {
+    if (url && resolveStoredFile(url) && !files.some((file) => file.url === url)) {
+      files.push({ url, archivePath });
+    }
+  };
+
+  add(customer.icPassportUrl, `documents/ic-passport${path.extname(customer.icPassportUrl || "")}`);
+  add(customer.driversLicenseUrl, `documents/drivers-license${path.extname(customer.driversLicenseUrl || "")}`);
+  add(customer.utilityBillUrl, `documents/utility-bill${path.extname(customer.utilityBillUrl || "")}`);
+
+  for (const rental of customerRentals) {
+    const folder = `rentals/rental-${rental.id}`;
+    add(rental.agreementPdfUrl, `${folder}/agreement.pdf`);
+    add(rental.signatureUrl, `${folder}/signature${path.extname(rental.signatureUrl || "")}`);
+    if (!forErasure) {
+      add(rental.paymentProofUrl, `${folder}/payment-proof${path.extname(rental.paymentProofUrl || "")}`);
+      collectFileUrls(rental.vehiclePhotos).forEach((url) => add(url, `${folder}/photos/${path.basename(url)}`));
+    }
+  }
+  for (const amendment of customerAmendments) {
+    add(amendment.addendumPdfUrl, `rentals/rental-${amendment.rentalId}/addendum-${amendment.amendmentNumber}.pdf`);
+  }
+  if (!forErasure) {
+    for (const rentalReturn of customerReturns) {
+      collectFileUrls(rentalReturn.returnPhotos).forEach((url) => add(url, `rentals/rental-${rentalReturn.rentalId}/return-photos/${path.basename(url)}`));
+    }
+  }
+  return files;
+}
+
+// Streams a zip of everything held about the customer: their records as
+// JSON plus their ID documents, agreements and rental files.
+export async function streamPersonalDataExport(customer: Customer, res: Response): Promise<void> {
+  const [customerRentals, rentalReturns, rentalAmendments, depositLedger, bookingRequests, reviews, badges, activities, termsAcceptances] = await Promise.all([
+    storage.getRentalsByCustomer(customer.id),
+    storage.getRentalReturnsByCustomer(customer.id),
+    storage.getRentalAmendmentsByCustomer(customer.id),
+    storage.getDepositLedgerByCustomer(customer.id),
+    storage.getBookingRequestsByCustomer(customer.id),
+    storage.getCustomerReviews(customer.id),
+    storage.getCustomerBadges(customer.id),
+    storage.getCustomerActivities(customer.id, null),
+    storage.getTermsAcceptancesByCustomer(customer.id),
+  ]);
+
+  const files = listCustomerFiles(customer, customerRentals, rentalReturns, rentalAmendments, { forErasure: false });
+  const missingFiles: string[] = [];
+
+  const archive = archiver("zip", { zlib: { level: 9 } });
+  archive.on("warning", (warning) => console.warn("Personal data export warning:", warning));
+  archive.on("error", (error) => {
+    console.error("Personal data export error:", error);
+    res.destroy(error);
+  });
+
+  res.setHeader("Content-Type", "application/zip");
+  res.setHeader("Content-Disposition", `attachment; filename="personal-data-customer-${customer.id}.zip"`);
+  archive.pipe(res);
+
+  for (const file of files) {
+    const buffer = await readStoredFile(file.url);
+    if (buffer) {
+      archive.append(decryptDocument(buffer), { name: file.archivePath });
+    } else {
+      missingFiles.push(file.url);
+    }
+  }
+
+  const personalData = {
+    exportedAt: new Date().toISOString(),
+    customer: toSafeCustomer(customer),
+    rentals: customerRentals,
+    rentalReturns,
+    rentalAmendments,
+    depositLedger,
+    bookingRequests,
+    reviews,
+    badges,
+    activities,
+    termsAcceptances,
+    files: files.filter((file) => !missingFiles.includes(file.url)).map((file) => ({ originalUrl: file.url, path: file.archivePath })),
+    missingFiles,
+  };
+  archive.append(JSON.stringify(personalData, null, 2), { name: "personal-data.json" });
+
+  await archive.finalize();
+}
+
+export interface CustomerErasureResult extends CustomerErasureCounts {
+  filesDeleted: number;
+  filesNotFound: string[];
+}
+
+// Erases the customer's personal data while keeping the rental amounts,
+// payment proofs and invoices needed for the accounts. Staff log entries
+// are kept as-is: the log is hash-chained and cannot be rewritten.
+export async function eraseCustomerPersonalData(customer: Customer): Promise<CustomerErasureResult> {
+  const [customerRentals, customerAmendments] = await Promise.all([
+    storage.getRentalsByCustomer(customer.id),
+    storage.getRentalAmendmentsByCustomer(customer.id),
+  ]);
+  const files = listCustomerFiles(customer, customerRentals, [], customerAmendments, { forErasure: true });
+
+  // A random hash no password can match, so the account can never sign in again
+  const unusablePasswordHash = await storage.hashPassword(randomBytes(32).toString("hex"));
+  const counts = await storage.eraseCustomerPersonalData(customer.id, unusablePasswordHash);
+  await storage.deleteCustomerSessions(customer.id);
+  for (const rental of customerRentals) {
+    await storage.revokeRentalDownloadLinks(rental.id);
+  }
+
+  let filesDeleted = 0;
+  const filesNotFound: string[] = [];
+  for (const file of files) {
+    if (await deleteStoredFile(file.url)) {
+      filesDeleted++;
+    } else {
+      filesNotFound.push(file.url);
+    }
+  }
+
+  return { ...counts, filesDeleted, filesNotFound };
+}
+
+// Deletes every stored file belonging to the customer, for outright
+// deletion of the customer and their rentals.
+export async function deleteCustomerFiles(customer: Customer): Promise<number> {
+  const [customerRentals, customerReturns, customerAmendments] = await Promise.all([
+    storage.getRentalsByCustomer(customer.id),
+    storage.getRentalReturnsByCustomer(customer.id),
+    storage.getRentalAmendmentsByCustomer(customer.id),
+  ]);
+  let filesDeleted = 0;
+  for (const file of listCustomerFiles(customer, customerRentals, customerReturns, customerAmendments, { forErasure: false })) {
+    if (await deleteStoredFile(file.url)) {
+      filesDeleted++;
+    }
+  }
+  return filesDeleted;
+}
@@ -0,0 +1,38 @@
+import path from "path";
+import type { Customer, Rental } from "@shared/schema";
+import { storage } from "./storage";
+import { pdfGenerator } from "./services/pdfGenerator";
+import { emailService } from "./services/emailService";
+
+export interface GeneratedRentalAgreement {
+  pdfUrl: string;
+  emailSent: boolean;
+}
+
+// Renders the rental agreement, stores its URL on the rental and emails it
+// to the customer with a copy to the admin. The email is best effort: the
+// agreement stands once the PDF is stored.
+export async function generateRentalAgreement(rental: Rental, customer: Customer): Promise<GeneratedRentalAgreement> {
+  const pdfUrl = await pdfGenerator.generateRentalAgreement(rental, customer);
+  await storage.updateRentalPdf(rental.id, pdfUrl);
+
+  let emailSent = false;
+  try {
+    // Convert relative path to absolute path for email attachment
+    const absolutePdfPath = path.isAbsolute(pdfUrl) ? pdfUrl : path.join(process.cwd(), pdfUrl.startsWith('/') ? pdfUrl.slice(1) : pdfUrl);
+    await emailService.sendRentalAgreement(customer, absolutePdfPath, rental);
+    emailSent = true;
+    console.log("Email sent successfully to:", customer.email);
+
+    try {
+      await emailService.sendRentalAgreementCopyToAdmin(customer, absolutePdfPath, rental);
+      console.log("Admin copy sent successfully");
+    } catch (adminEmailError) {
+      console.error("Error sending admin copy:", adminEmailError);
+    }
+  } catch (emailError) {
+    console.error("Error sending email:", emailError);
+  }
+
+  return { pdfUrl, emailSent };
+}
@@ -0,0 +1,18 @@
+import type { Rental } from "@shared/schema";
+import type { RentalAmendment } from "@shared/rentalSchema";
+import { storage } from "./storage";
+import { pdfGenerator } from "./services/pdfGenerator";
+
+// Renders the numbered addendum for an amendment and stores its URL. Dates
+// and totals come from the amendment itself, so an earlier addendum can be
+// regenerated after later ones.
+export async function generateRentalAddendum(rental: Rental, amendment: RentalAmendment): Promise<string> {
+  const customer = await storage.getCustomerById(rental.customerId);
+  if (!customer) {
+    throw new Error("Customer not found");
+  }
+
+  const addendumPdfUrl = await pdfGenerator.generateRentalAddendum(rental, customer, amendment);
+  await storage.setRentalAmendmentPdf(amendment.id, addendumPdfUrl);
+  return addendumPdfUrl;
+}
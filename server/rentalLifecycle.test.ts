@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { STAFF_PERMISSIONS } from "@shared/authSchema";
+import { resolveRentalStatus, getAllowedRentalActions, RENTAL_STATUSES } from "@shared/rentalSchema";
+import { staffRentalActor, withRentalLifecycle, describeRentalConflicts } from "./rentalLifecycle";
+
+const NOW = new Date("2026-03-10T09:00:00.000Z");
+const DAY = 24 * 60 * 60 * 1000;
+const daysFromNow = (days: number) => new Date(NOW.getTime() + days * DAY);
+
+describe("resolveRentalStatus", () => {
+  it("keeps lifecycle statuses as they are", () => {
+    for (const status of RENTAL_STATUSES) {
+      expect(resolveRentalStatus({ status, startDate: daysFromNow(-5), endDate: daysFromNow(-2) }, NOW)).toBe(status);
+    }
+  });
+
+  it("reads rentals from before the lifecycle by their dates", () => {
+    expect(resolveRentalStatus({ status: "pending", startDate: daysFromNow(-1), endDate: daysFromNow(1) }, NOW)).toBe("reserved");
+    expect(resolveRentalStatus({ status: "active", startDate: daysFromNow(1), endDate: daysFromNow(3) }, NOW)).toBe("checked_out");
+    expect(resolveRentalStatus({ status: "active", startDate: daysFromNow(-1), endDate: daysFromNow(1) }, NOW)).toBe("on_rent");
+    expect(resolveRentalStatus({ status: "completed", startDate: daysFromNow(-3), endDate: daysFromNow(-1) }, NOW)).toBe("closed");
+  });
+});
+
+describe("getAllowedRentalActions", () => {
+  it("follows the lifecycle", () => {
+    expect(getAllowedRentalActions("reserved")).toEqual(["check_out", "cancel", "no_show"]);
+    expect(getAllowedRentalActions("checked_out")).toEqual(["start", "cancel"]);
+    expect(getAllowedRentalActions("on_rent")).toEqual(["return"]);
+    expect(getAllowedRentalActions("returned")).toEqual(["close"]);
+    for (const status of ["closed", "cancelled", "no_show"] as const) {
+      expect(getAllowedRentalActions(status)).toEqual([]);
+    }
+  });
+
+  it("only offers what the staff member's permissions allow", () => {
+    expect(getAllowedRentalActions("reserved", [STAFF_PERMISSIONS.MANAGE_RENTALS])).toEqual(["check_out"]);
+    expect(getAllowedRentalActions("reserved", [STAFF_PERMISSIONS.CANCEL_RENTAL])).toEqual(["cancel", "no_show"]);
+    expect(getAllowedRentalActions("reserved", [])).toEqual([]);
+  });
+});
+
+describe("withRentalLifecycle", () => {
+  const staffRequest = (permissions?: string[]) => ({ staff: { id: 7, username: "ops" }, staffPermissions: permissions }) as any;
+
+  it("adds the resolved status and the staff member's next actions", () => {
+    const rental = { id: 3, status: "checked_out", startDate: daysFromNow(1), endDate: daysFromNow(3) };
+
+    expect(withRentalLifecycle(staffRequest([STAFF_PERMISSIONS.MANAGE_RENTALS, STAFF_PERMISSIONS.CANCEL_RENTAL]), rental)).toEqual({
+      ...rental,
+      lifecycleStatus: "checked_out",
+      allowedActions: ["start", "cancel"],
+    });
+  });
+
+  it("offers nothing without loaded permissions", () => {
+    const rental = { status: "reserved", startDate: daysFromNow(1), endDate: daysFromNow(3) };
+    expect(withRentalLifecycle(staffRequest(), rental).allowedActions).toEqual([]);
+  });
+
+  it("records the staff member as the actor", () => {
+    expect(staffRentalActor(staffRequest())).toEqual({ type: "staff", id: 7, name: "ops" });
+  });
+});
+
+describe("describeRentalConflicts", () => {
+  it("exposes only the clashing dates and customer", () => {
+    const conflict = { id: 4, startDate: daysFromNow(1), endDate: daysFromNow(2), customerId: 9, notes: "Airport pickup" };
+    expect(describeRentalConflicts([conflict])).toEqual([{ id: 4, startDate: conflict.startDate, endDate: conflict.endDate, customerId: 9 }]);
+  });
+});
@@ -0,0 +1,61 @@
+import type { Request } from "express";
+import type { Rental } from "@shared/schema";
+import type { VehicleBlackout } from "@shared/fleetSchema";
+import type { BookingRequestHold } from "@shared/bookingRequestSchema";
+import { getAllowedRentalActions, resolveRentalStatus, type RentalAction, type RentalActor, type RentalStatus } from "@shared/rentalSchema";
+
+// The staff member acting on a rental, for its status history. Use after
+// requireStaff.
+export function staffRentalActor(req: Request): RentalActor {
+  return { type: "staff", id: req.staff!.id, name: req.staff!.username };
+}
+
+export type RentalWithLifecycle<T> = T & {
+  lifecycleStatus: RentalStatus;
+  // What the requesting staff member may do next
+  allowedActions: RentalAction[];
+};
+
+// Adds the resolved status and the actions the staff member's permissions
+// allow, so the staff UI only offers valid transitions.
+export function withRentalLifecycle<T extends Pick<Rental, "status" | "startDate" | "endDate">>(
+  req: Request,
+  rental: T
+): RentalWithLifecycle<T> {
+  const lifecycleStatus = resolveRentalStatus(rental);
+  return {
+    ...rental,
+    lifecycleStatus,
+    allowedActions: getAllowedRentalActions(lifecycleStatus, req.staffPermissions || []),
+  };
+}
+
+// Bookings a new or changed rental ran into, for 409 responses.
+export function describeRentalConflicts(conflicts: Pick<Rental, "id" | "startDate" | "endDate" | "customerId">[]) {
+  return conflicts.map(rental => ({
+    id: rental.id,
+    startDate: rental.startDate,
+    endDate: rental.endDate,
+    customerId: rental.customerId,
+  }));
+}
+
+// Blackouts a new or changed rental ran into, for 409 responses.
+export function describeVehicleBlackouts(blackouts: Pick<VehicleBlackout, "id" | "startDate" | "endDate" | "reason">[]) {
+  return blackouts.map(blackout => ({
+    id: blackout.id,
+    startDate: blackout.startDate,
+    endDate: blackout.endDate,
+    reason: blackout.reason,
+  }));
+}
+
+// Booking request holds a new or changed rental ran into, for 409 responses.
+export function describeBookingRequestHolds(holds: Pick<BookingRequestHold, "bookingRequestId" | "startDate" | "endDate" | "expiresAt">[]) {
+  return holds.map(hold => ({
+    bookingRequestId: hold.bookingRequestId,
+    startDate: hold.startDate,
+    endDate: hold.endDate,
+    expiresAt: hold.expiresAt,
+  }));
+}
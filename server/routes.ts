@@ -1,19 +1,66 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertCustomerSchema, loginSchema, staffLoginSchema, insertRentalSchema, insertDeliverySchema, insertInvoiceSchema, bookingRequestSchema, insertBookingRequestSchema } from "@shared/schema";
+import { storage, RentalTransitionError, RentalAmendmentError, DepositLedgerError, VehicleUnavailableError, BookingRequestTransitionError, BookingRequestChangeError } from "./storage";
+import { insertCustomerSchema, staffLoginSchema, insertRentalSchema, insertDeliverySchema, insertInvoiceSchema, bookingRequestSchema, insertBookingRequestSchema, type Customer, type Staff } from "@shared/schema";
 import { imageProcessor } from "./services/imageProcessor";
 import { pdfGenerator } from "./services/pdfGenerator";
 import { emailService } from "./services/emailService";
 import { whatsappService } from "./services/whatsappService";
 import { adminNotificationService } from "./services/adminNotificationService";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
+import { setupStaffAuth, establishStaffSession, destroyStaffSession, requireStaff, requirePermission, ensureBootstrapOwner } from "./staffAuth";
+import { loginThrottle, throttleLogin } from "./loginThrottle";
+import { authorizeDocumentRequest } from "./documentAccess";
+import { auditStaffMutations, recordStaffLog, staffLogsToCsv } from "./auditLog";
+import { streamPersonalDataExport, eraseCustomerPersonalData, deleteCustomerFiles } from "./personalData";
+import { decryptDocument } from "./documentEncryption";
+import { inspectKycDocument, encryptExistingKycDocuments, KYC_DOCUMENTS } from "./kycDocuments";
+import { createSignedDownloadUrl, DOWNLOAD_LINK_TTL_MS } from "./downloadLinks";
+import { generateTotpSecret, verifyTotp, buildTwoFactorEnrollment, generateRecoveryCodes, verifyStaffSecondFactor, startStaffTwoFactorChallenge, getStaffTwoFactorChallenge, STAFF_2FA_MAX_ATTEMPTS } from "./staffTwoFactor";
+import { requireCustomer, establishCustomerSession, destroyCustomerSession, generateLoginCode, hashLoginCode, toSafeCustomer, issueCustomerToken, verifyCustomerToken, CUSTOMER_LOGIN_CODE_TTL_MS, CUSTOMER_LOGIN_CODE_MAX_ATTEMPTS, CUSTOMER_TOKEN_TTL_MS } from "./customerAuth";
+import { staffLogFilterSchema } from "@shared/auditSchema";
+import { insertTermsVersionSchema, acceptTermsSchema } from "@shared/termsSchema";
+import { getCurrentTerms, getCustomerTermsStatus, requireCurrentTermsAcceptance } from "./terms";
+import { rentalTransitionSchema, rentalCancellationSchema, rentalReturnSchema, rentalAmendmentSchema, resolveRentalStatus, getAllowedRentalActions, computeRentalSettlement, RENTAL_ACTION_DEFINITIONS, FINAL_RENTAL_STATUSES, DEFAULT_SETTLEMENT_RATES, VEHICLE_PHOTO_SLOTS, type VehiclePhotosBySlot, type RentalAmendmentType } from "@shared/rentalSchema";
+import { damagePointSchema, updateDamagePointSchema } from "@shared/inspectionSchema";
+import { depositEntrySchema, summarizeDepositLedger } from "@shared/depositSchema";
+import { vehicleBlackoutSchema, vehicleTurnaroundSchema } from "@shared/fleetSchema";
+import { bookingRequestDecisionSchema, bookingRequestCancellationSchema, bookingRequestDateChangeSchema } from "@shared/bookingRequestSchema";
+import { waitlistEntrySchema } from "@shared/waitlistSchema";
+import { getDamageInspectionView, canEditDamageInspection, generateDamageReport } from "./damageInspection";
+import { generateRentalAddendum } from "./rentalAmendments";
+import { generateRentalAgreement } from "./rentalAgreements";
+import { saveUploadedFile } from "./storedFiles";
+import { notifyBookingRequestDecision, scheduleBookingRequestExpiry, bookingRequestHoldExpiry, customerBookingRequestActions, withCustomerActions } from "./bookingRequests";
+import { findBookingAlternatives } from "./bookingAlternatives";
+import { offerReleasedDates, offerExpiredRequestDates, scheduleWaitlistOffers } from "./waitlist";
+import { staffRentalActor, withRentalLifecycle, describeRentalConflicts, describeVehicleBlackouts, describeBookingRequestHolds } from "./rentalLifecycle";
+import { STAFF_PERMISSIONS, STAFF_ROLES, insertStaffRoleSchema, updateRolePermissionsSchema, updateRoleTwoFactorSchema, staffTwoFactorCodeSchema, customerCodeRequestSchema, customerCodeLoginSchema, customerPasswordLoginSchema, forgotPasswordSchema, resetPasswordSchema, verifyEmailSchema, eraseCustomerSchema, type StaffRole } from "@shared/authSchema";
 import multer from "multer";
+import { ZodError } from "zod";
 import express from "express";
 import path from "path";
 import fs from "fs";
 import { promises as fsPromises } from "fs";
 
+// Base URL for links in outgoing emails. APP_BASE_URL should be set in
+// production so links never depend on the request's Host header.
+function getAppBaseUrl(req: Request): string {
+  return process.env.APP_BASE_URL || `${req.protocol}://${req.get("host")}`;
+}
+
+async function sendCustomerVerificationEmail(req: Request, customer: Customer): Promise<boolean> {
+  const token = await issueCustomerToken(customer, "verify_email");
+  const verificationLink = `${getAppBaseUrl(req)}/verify-email?token=${encodeURIComponent(token)}`;
+  return emailService.sendEmailVerification(customer, verificationLink, CUSTOMER_TOKEN_TTL_MS.verify_email / 3600000);
+}
+
+const CUSTOMER_TOKEN_ERRORS = {
+  invalid: "This link is invalid",
+  expired: "This link has expired. Please request a new one.",
+  used: "This link has already been used",
+} as const;
+
 // Security helper functions
 function isValidFilename(filename: string): boolean {
   // Only allow alphanumeric characters, dots, hyphens, and underscores
@@ -51,36 +98,85 @@ const upload = multer({
   }
 });
 
-// Helper function to generate and send rental agreement
-async function generateAndSendRentalAgreement(rentalId: number, customer: any): Promise<void> {
+// Starts the staff session once every login factor has passed and responds
+// with the staff member's role and permissions.
+async function completeStaffLogin(req: Request, res: Response, staffMember: Staff, extra: Record<string, unknown> = {}) {
+  await establishStaffSession(req, staffMember);
+  await loginThrottle.recordSuccess("staff", staffMember.username);
+  const role = await storage.getStaffRole(staffMember.id);
+  const permissions = await storage.getRolePermissions(role);
+
+  // Log staff login activity
   try {
-    // Generate the rental agreement PDF - use correct port 5000
-    const response = await fetch(`http://localhost:5000/api/rentals/${rentalId}/generate-agreement`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+    await recordStaffLog(req, {
+      staffId: staffMember.id,
+      staffUsername: staffMember.username,
+      action: "STAFF_LOGIN",
+      targetType: "authentication",
+      targetId: staffMember.id,
+      details: {
+        loginTime: new Date().toISOString(),
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        twoFactorMethod: extra.twoFactorMethod
+      }
     });
+  } catch (logError) {
+    console.error("Failed to log staff login:", logError);
+  }
 
-    if (!response.ok) {
-      throw new Error(`Failed to generate agreement: ${response.status}`);
-    }
+  res.json({
+    id: staffMember.id,
+    username: staffMember.username,
+    role,
+    permissions,
+    ...extra,
+    message: "Login successful"
+  });
+}
 
-    const agreementData = await response.json();
-    console.log(`✅ Rental agreement generated and sent for rental ${rentalId}`);
-    
-  } catch (error) {
-    console.error(`❌ Failed to generate/send agreement for rental ${rentalId}:`, error);
-    throw error;
+async function logStaffTwoFactorEvent(
+  req: Request,
+  staffMember: { id: number; username: string },
+  action: string,
+  targetId: number,
+  details: Record<string, unknown> = {}
+) {
+  try {
+    await recordStaffLog(req, {
+      staffId: staffMember.id,
+      staffUsername: staffMember.username,
+      action,
+      targetType: "authentication",
+      targetId,
+      details: { ...details, ipAddress: req.ip, userAgent: req.get('User-Agent') }
+    });
+  } catch (logError) {
+    console.error(`Failed to log ${action}:`, logError);
   }
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const objectStorageService = new ObjectStorageService();
 
-  // Serve uploaded files from object storage
+  // Sessions must be in place before any route below; every /api/staff route
+  // except login is guarded from here on. Customer routes opt in per route
+  // with requireCustomer. Successful staff changes are then audit-logged.
+  setupStaffAuth(app);
+  app.use("/api/staff", auditStaffMutations);
+
+  // Pending booking requests nobody answers expire in the background, and
+  // dates that free up are offered to the waitlist
+  scheduleBookingRequestExpiry(offerExpiredRequestDates);
+  scheduleWaitlistOffers();
+
+  // Serve uploaded files from object storage. Customer documents and rental
+  // files are only served to the sessions their access policy allows.
   app.get("/objects/:objectPath(*)", async (req, res) => {
     try {
+      if (!(await authorizeDocumentRequest(req, res, req.path))) {
+        return;
+      }
       const objectFile = await objectStorageService.getObjectEntityFile(req.path);
       objectStorageService.downloadObject(objectFile, res);
     } catch (error) {
@@ -92,7 +188,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Serve backup PDFs - CHECK OBJECT STORAGE FIRST (permanent) - SECURED
+  // Serve backup PDFs - CHECK OBJECT STORAGE FIRST (permanent) - SECURED, per document owner
   app.get('/backups/:filename', async (req, res) => {
     const filename = req.params.filename;
     
@@ -109,6 +205,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.error(`❌ Security: Invalid or unsafe filename: ${filename}`);
       return res.status(400).send('Invalid filename');
     }
+
+    try {
+      if (!(await authorizeDocumentRequest(req, res, `/backups/${filename}`))) {
+        return;
+      }
+    } catch (error) {
+      console.error("Document access check error:", error);
+      return res.sendStatus(500);
+    }
     
     // FIRST: Try object storage (permanent)
     try {
@@ -134,7 +239,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Serve uploaded files - CHECK OBJECT STORAGE FIRST (permanent) - SECURED
+  // Serve uploaded files - CHECK OBJECT STORAGE FIRST (permanent) - SECURED, per document owner
   app.get('/uploads/:filename', async (req, res) => {
     const filename = req.params.filename;
     
@@ -154,17 +259,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.error(`❌ Security: Invalid or unsafe filename: ${filename}`);
       return res.status(400).send('Invalid filename');
     }
+
+    try {
+      if (!(await authorizeDocumentRequest(req, res, `/uploads/${filename}`))) {
+        return;
+      }
+    } catch (error) {
+      console.error("Document access check error:", error);
+      return res.sendStatus(500);
+    }
     
-    // FIRST: Try object storage (permanent)
+    const contentType = filename.endsWith('.pdf') ? 'application/pdf' : 
+                       filename.endsWith('.png') ? 'image/png' : 
+                       filename.endsWith('.webp') ? 'image/webp' : 'image/jpeg';
+
+    // FIRST: Try object storage (permanent). KYC documents are stored
+    // encrypted and decrypted here.
     try {
       const buffer = await objectStorageService.getFileFromStorage(`/uploads/${filename}`);
       if (buffer) {
         console.log(`✅ Serving file from PERMANENT storage: ${filename}`);
-        const contentType = filename.endsWith('.pdf') ? 'application/pdf' : 
-                           filename.endsWith('.png') ? 'image/png' : 
-                           filename.endsWith('.webp') ? 'image/webp' : 'image/jpeg';
         res.set('Content-Type', contentType);
-        res.send(buffer);
+        res.send(decryptDocument(buffer));
         return;
       }
     } catch (err) {
@@ -174,7 +290,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // FALLBACK: Local storage with secure path
     if (fs.existsSync(securePath)) {
       console.log(`✅ Serving file from LOCAL storage: ${filename}`);
-      res.sendFile(securePath);
+      try {
+        const buffer = await fs.promises.readFile(securePath);
+        res.set('Content-Type', contentType);
+        res.send(decryptDocument(buffer));
+      } catch (error) {
+        console.error(`❌ Failed to read ${filename}:`, error);
+        res.status(500).send('Failed to read file');
+      }
     } else {
       console.error(`❌ File not found: ${filename}`);
       res.status(404).send('File not found');
@@ -209,9 +332,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // IC/Passport reupload endpoint
-  app.post('/api/customers/:customerId/reupload-ic', upload.single('icPassport'), async (req, res) => {
+  app.post('/api/customers/:customerId/reupload-ic', requireCustomer, upload.single('icPassport'), async (req, res) => {
     try {
       const { customerId } = req.params;
+      if (parseInt(customerId) !== req.customer!.id) {
+        return res.status(403).json({ message: "You can only update your own IC/Passport" });
+      }
       const customer = await storage.getCustomerById(parseInt(customerId));
       
       if (!customer) {
@@ -283,25 +409,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "End date must be after start date" });
       }
 
-      // Get vehicle name first
-      const vehicles = await storage.getAllVehicles();
-      const vehicle = vehicles.find(v => v.id === vehicleId);
-      
+      const vehicle = await storage.getVehicleById(vehicleId);
       if (!vehicle) {
         return res.status(404).json({ message: "Vehicle not found" });
       }
 
-      // Check for existing bookings that overlap with the requested dates
-      const conflictingRentals = await storage.getConflictingRentals(vehicle.name, start, end);
-      const isAvailable = conflictingRentals.length === 0;
+      // Check for existing bookings (and their turnaround), blackouts and
+      // other customers' held requests that overlap with the requested dates
+      const conflictingRentals = await storage.getConflictingRentals(vehicle.id, start, end);
+      const blackouts = await storage.getConflictingBlackouts(vehicle.id, start, end);
+      const holds = await storage.getConflictingHolds(vehicle.id, start, end);
+      const isAvailable = conflictingRentals.length === 0 && blackouts.length === 0 && holds.length === 0;
 
       res.json({
         available: isAvailable,
-        conflictingDates: conflictingRentals.map(rental => ({
-          startDate: rental.startDate,
-          endDate: rental.endDate,
-          customer: rental.customerId
-        }))
+        conflictingDates: [
+          ...conflictingRentals.map(rental => ({
+            startDate: rental.startDate,
+            endDate: rental.endDate,
+            customer: rental.customerId
+          })),
+          ...blackouts.map(blackout => ({
+            startDate: blackout.startDate,
+            endDate: blackout.endDate,
+            customer: null
+          })),
+          ...holds.map(hold => ({
+            startDate: hold.startDate,
+            endDate: hold.endDate,
+            customer: null
+          })),
+        ],
+        // Other dates for this vehicle, or other vehicles for these dates
+        alternatives: isAvailable ? null : await findBookingAlternatives(vehicle, start, end)
       });
     } catch (error) {
       console.error("Check availability error:", error);
@@ -309,7 +449,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/staff/vehicles', async (req, res) => {
+  app.post('/api/staff/vehicles', requirePermission(STAFF_PERMISSIONS.MANAGE_VEHICLES), async (req, res) => {
     try {
       const vehicle = await storage.createVehicle(req.body);
       res.json(vehicle);
@@ -319,7 +459,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/staff/vehicles/:id', async (req, res) => {
+  app.patch('/api/staff/vehicles/:id', requirePermission(STAFF_PERMISSIONS.MANAGE_VEHICLES), async (req, res) => {
     try {
       const vehicleId = parseInt(req.params.id);
       const vehicle = await storage.updateVehicle(vehicleId, req.body);
@@ -330,9 +470,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/staff/vehicles/:id', async (req, res) => {
+  app.delete('/api/staff/vehicles/:id', requirePermission(STAFF_PERMISSIONS.MANAGE_VEHICLES), async (req, res) => {
     try {
       const vehicleId = parseInt(req.params.id);
+      // Its rentals still point at it; deactivate the vehicle instead
+      if (await storage.countVehicleRentals(vehicleId) > 0) {
+        return res.status(409).json({ message: "This vehicle has rentals on record and cannot be deleted. Mark it inactive instead." });
+      }
       await storage.deleteVehicle(vehicleId);
       res.json({ message: "Vehicle deleted successfully" });
     } catch (error) {
@@ -341,8 +485,117 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Turnaround buffer, blackouts and booking request holds that keep a
+  // vehicle from being booked
+  app.get('/api/staff/vehicles/:id/scheduling', async (req, res) => {
+    try {
+      const vehicleId = parseInt(req.params.id);
+      const turnaroundHours = await storage.getVehicleTurnaroundHours(vehicleId);
+      const blackouts = await storage.getVehicleBlackouts(vehicleId);
+      const holds = await storage.getVehicleHolds(vehicleId);
+      res.json({ turnaroundHours, blackouts, holds });
+    } catch (error) {
+      console.error("Get vehicle scheduling error:", error);
+      res.status(500).json({ message: "Failed to get vehicle scheduling", error: (error as Error).message });
+    }
+  });
+
+  app.put('/api/staff/vehicles/:id/turnaround', requirePermission(STAFF_PERMISSIONS.MANAGE_VEHICLES), async (req, res) => {
+    try {
+      const vehicleId = parseInt(req.params.id);
+      const { turnaroundHours } = vehicleTurnaroundSchema.parse(req.body);
+      const vehicle = await storage.getVehicleById(vehicleId);
+      if (!vehicle) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+
+      const previousTurnaroundHours = await storage.getVehicleTurnaroundHours(vehicleId);
+      await storage.setVehicleTurnaroundHours(vehicleId, turnaroundHours, req.staff!.id);
+      await recordStaffLog(req, {
+        staffId: req.staff!.id,
+        staffUsername: req.staff!.username,
+        action: "VEHICLE_TURNAROUND_UPDATED",
+        targetType: "vehicle",
+        targetId: vehicleId,
+        details: { vehicle: vehicle.name, previousTurnaroundHours, turnaroundHours },
+      });
+
+      res.json({ turnaroundHours });
+    } catch (error) {
+      console.error("Update vehicle turnaround error:", error);
+      res.status(400).json({ message: "Failed to update turnaround", error: (error as Error).message });
+    }
+  });
+
+  app.post('/api/staff/vehicles/:id/blackouts', requirePermission(STAFF_PERMISSIONS.MANAGE_VEHICLES), async (req, res) => {
+    try {
+      const vehicleId = parseInt(req.params.id);
+      const input = vehicleBlackoutSchema.parse(req.body);
+      const vehicle = await storage.getVehicleById(vehicleId);
+      if (!vehicle) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+
+      const blackout = await storage.createVehicleBlackout(vehicleId, input, req.staff!.id);
+      await recordStaffLog(req, {
+        staffId: req.staff!.id,
+        staffUsername: req.staff!.username,
+        action: "VEHICLE_BLACKOUT_CREATED",
+        targetType: "vehicle",
+        targetId: vehicleId,
+        details: {
+          vehicle: vehicle.name,
+          blackoutId: blackout.id,
+          reason: blackout.reason,
+          startDate: blackout.startDate,
+          endDate: blackout.endDate,
+          note: blackout.note,
+        },
+      });
+
+      res.json(blackout);
+    } catch (error) {
+      if (error instanceof VehicleUnavailableError) {
+        return res.status(409).json({ message: error.message, conflicts: describeRentalConflicts(error.conflicts) });
+      }
+      console.error("Create vehicle blackout error:", error);
+      res.status(400).json({ message: "Failed to block the vehicle", error: (error as Error).message });
+    }
+  });
+
+  app.delete('/api/staff/vehicles/:id/blackouts/:blackoutId', requirePermission(STAFF_PERMISSIONS.MANAGE_VEHICLES), async (req, res) => {
+    try {
+      const vehicleId = parseInt(req.params.id);
+      const blackoutId = parseInt(req.params.blackoutId);
+      const [blackout] = (await storage.getVehicleBlackouts(vehicleId)).filter(b => b.id === blackoutId);
+      if (!blackout) {
+        return res.status(404).json({ message: "Blackout not found" });
+      }
+
+      await storage.deleteVehicleBlackout(blackoutId);
+      await recordStaffLog(req, {
+        staffId: req.staff!.id,
+        staffUsername: req.staff!.username,
+        action: "VEHICLE_BLACKOUT_DELETED",
+        targetType: "vehicle",
+        targetId: vehicleId,
+        details: {
+          blackoutId,
+          reason: blackout.reason,
+          startDate: blackout.startDate,
+          endDate: blackout.endDate,
+        },
+      });
+
+      res.json({ message: "Blackout removed" });
+    } catch (error) {
+      console.error("Delete vehicle blackout error:", error);
+      res.status(500).json({ message: "Failed to remove blackout", error: (error as Error).message });
+    }
+  });
+
   // Upload vehicle photo
-  app.post("/api/staff/vehicles/upload-photo", upload.single('vehiclePhoto'), async (req, res) => {
+  app.post("/api/staff/vehicles/upload-photo", requirePermission(STAFF_PERMISSIONS.MANAGE_VEHICLES), upload.single('vehiclePhoto'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No photo file provided" });
@@ -366,9 +619,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Booking Request endpoints
-  app.post("/api/booking-requests", async (req, res) => {
+  app.post("/api/booking-requests", requireCustomer, requireCurrentTermsAcceptance, async (req, res) => {
     try {
-      const requestData = bookingRequestSchema.parse(req.body);
+      // Requests are always filed against the signed-in customer
+      const requestData = bookingRequestSchema.parse({ ...req.body, customerId: req.customer!.id });
       
       // Calculate total days
       const startDate = new Date(requestData.startDate);
@@ -379,7 +633,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "End date must be after start date" });
       }
 
-      // Create booking request
+      // Create booking request, holding its dates while staff review it
       const bookingRequest = await storage.createBookingRequest({
         customerId: requestData.customerId,
         vehicleId: requestData.vehicleId,
@@ -389,7 +643,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         totalDays,
         customerMessage: requestData.customerMessage,
         status: "pending"
-      });
+      }, bookingRequestHoldExpiry());
 
       // Get customer details for email
       const customer = await storage.getCustomerById(requestData.customerId);
@@ -424,22 +678,158 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       });
     } catch (error) {
+      if (error instanceof VehicleUnavailableError) {
+        // Other customers' bookings aren't shown to the public
+        return res.status(409).json({ message: "This vehicle is not available for the selected dates. Please choose other dates or another vehicle." });
+      }
       console.error("Create booking request error:", error);
       res.status(500).json({ message: "Failed to create booking request" });
     }
   });
 
-  app.get("/api/booking-requests/customer/:customerId", async (req, res) => {
+  app.get("/api/booking-requests/customer/:customerId", requireCustomer, async (req, res) => {
     try {
       const customerId = parseInt(req.params.customerId);
+      if (customerId !== req.customer!.id) {
+        return res.status(403).json({ message: "You can only view your own booking requests" });
+      }
       const requests = await storage.getBookingRequestsByCustomer(customerId);
-      res.json(requests);
+      res.json(requests.map(request => withCustomerActions(request)));
     } catch (error) {
       console.error("Get customer booking requests error:", error);
       res.status(500).json({ message: "Failed to get booking requests" });
     }
   });
 
+  // Customers cancel their own requests within the cancellation policy.
+  // Staff are told, and the freed dates go to the waitlist.
+  app.post("/api/booking-requests/:id/cancel", requireCustomer, async (req, res) => {
+    try {
+      const requestId = parseInt(req.params.id);
+      const { reason } = bookingRequestCancellationSchema.parse(req.body);
+      const existing = await storage.getBookingRequestById(requestId);
+      if (!existing || existing.customerId !== req.customer!.id) {
+        return res.status(404).json({ message: "Booking request not found" });
+      }
+      if (!customerBookingRequestActions(existing).includes("cancel")) {
+        throw new BookingRequestChangeError("This booking request can no longer be cancelled online. Please contact us.");
+      }
+
+      const bookingRequest = await storage.cancelBookingRequestByCustomer(requestId, req.customer!.id, reason);
+      try {
+        await emailService.sendAdminBookingRequestChange(req.customer!, bookingRequest, existing, reason);
+      } catch (error) {
+        console.error("Failed to notify staff of booking request cancellation:", error);
+      }
+      await offerReleasedDates(bookingRequest.vehicleId);
+
+      res.json({ message: "Your booking request has been cancelled", bookingRequest: withCustomerActions(bookingRequest) });
+    } catch (error) {
+      if (error instanceof BookingRequestTransitionError || error instanceof BookingRequestChangeError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Cancel booking request error:", error);
+      res.status(400).json({ message: "Failed to cancel booking request", error: (error as Error).message });
+    }
+  });
+
+  // Customers move their own requests to other dates within the cancellation
+  // policy. The new dates are held straight away and go to staff to confirm.
+  app.post("/api/booking-requests/:id/change-dates", requireCustomer, requireCurrentTermsAcceptance, async (req, res) => {
+    try {
+      const requestId = parseInt(req.params.id);
+      const change = bookingRequestDateChangeSchema.parse(req.body);
+      const existing = await storage.getBookingRequestById(requestId);
+      if (!existing || existing.customerId !== req.customer!.id) {
+        return res.status(404).json({ message: "Booking request not found" });
+      }
+      if (!customerBookingRequestActions(existing).includes("change_dates")) {
+        throw new BookingRequestChangeError("The dates of this booking request can no longer be changed online. Please contact us.");
+      }
+      if (change.startDate <= new Date()) {
+        return res.status(400).json({ message: "The new dates must be in the future" });
+      }
+
+      const bookingRequest = await storage.changeBookingRequestDates(requestId, req.customer!.id, change, bookingRequestHoldExpiry());
+      try {
+        await emailService.sendAdminBookingRequestChange(req.customer!, bookingRequest, existing, change.reason);
+      } catch (error) {
+        console.error("Failed to notify staff of booking request date change:", error);
+      }
+      await offerReleasedDates(bookingRequest.vehicleId);
+
+      res.json({
+        message: "Your new dates have been sent to our team to confirm",
+        bookingRequest: withCustomerActions(bookingRequest),
+      });
+    } catch (error) {
+      if (error instanceof BookingRequestChangeError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof VehicleUnavailableError) {
+        // Other customers' bookings aren't shown to the public
+        return res.status(409).json({ message: "This vehicle is not available for the new dates. Please choose other dates." });
+      }
+      console.error("Change booking request dates error:", error);
+      res.status(400).json({ message: "Failed to change booking request dates", error: (error as Error).message });
+    }
+  });
+
+  // Cancellations and date changes the customer has made to the request
+  app.get("/api/staff/booking-requests/:id/history", async (req, res) => {
+    try {
+      const changes = await storage.getBookingRequestChanges(parseInt(req.params.id));
+      res.json(changes);
+    } catch (error) {
+      console.error("Get booking request history error:", error);
+      res.status(500).json({ message: "Failed to get booking request history" });
+    }
+  });
+
+  // Waitlist for a vehicle that is taken for the customer's dates. They are
+  // offered the dates, longest-waiting first, when they free up.
+  app.post("/api/waitlist", requireCustomer, requireCurrentTermsAcceptance, async (req, res) => {
+    try {
+      const entry = waitlistEntrySchema.parse(req.body);
+      const vehicle = await storage.getVehicleById(entry.vehicleId);
+      if (!vehicle || !vehicle.isActive) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      if (await storage.checkVehicleAvailability(vehicle.id, entry.startDate, entry.endDate)) {
+        return res.status(409).json({ message: "This vehicle is available for these dates. Send a booking request instead." });
+      }
+
+      const created = await storage.createWaitlistEntry(req.customer!.id, entry);
+      res.status(201).json({ message: `You're on the waitlist for the ${vehicle.name}`, entry: created });
+    } catch (error) {
+      console.error("Join waitlist error:", error);
+      res.status(400).json({ message: "Failed to join the waitlist", error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/waitlist", requireCustomer, async (req, res) => {
+    try {
+      const entries = await storage.getCustomerWaitlistEntries(req.customer!.id);
+      res.json(entries);
+    } catch (error) {
+      console.error("Get waitlist error:", error);
+      res.status(500).json({ message: "Failed to get your waitlist" });
+    }
+  });
+
+  app.delete("/api/waitlist/:id", requireCustomer, async (req, res) => {
+    try {
+      const entry = await storage.leaveWaitlist(parseInt(req.params.id), req.customer!.id);
+      if (!entry) {
+        return res.status(404).json({ message: "You're not waiting for this vehicle" });
+      }
+      res.json({ message: "You've left the waitlist", entry });
+    } catch (error) {
+      console.error("Leave waitlist error:", error);
+      res.status(500).json({ message: "Failed to leave the waitlist" });
+    }
+  });
+
   app.get("/api/staff/booking-requests", async (req, res) => {
     try {
       const { status } = req.query;
@@ -453,25 +843,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/staff/booking-requests/:id/status", async (req, res) => {
+  // Confirm or reject a pending request and email the customer. Confirming
+  // re-checks that the vehicle is still free for the dates.
+  app.patch("/api/staff/booking-requests/:id/status", requirePermission(STAFF_PERMISSIONS.MANAGE_BOOKINGS), async (req, res) => {
     try {
       const requestId = parseInt(req.params.id);
-      const { status, staffId, reason } = req.body;
-      
-      // Update booking request status first
-      await storage.updateBookingRequestStatus(requestId, status, staffId, reason);
-      
-      // Simple status update - no auto-rental creation
-      res.json({ message: `Booking request ${status} successfully` });
-      
+      const decision = bookingRequestDecisionSchema.parse(req.body);
+      const reason = decision.status === "rejected" ? decision.reason : undefined;
+
+      const bookingRequest = await storage.transitionBookingRequest(requestId, decision.status, { staffId: req.staff!.id, reason });
+      if (bookingRequest.status === "rejected") {
+        await offerReleasedDates(bookingRequest.vehicleId);
+      }
+
+      let emailSent = false;
+      try {
+        emailSent = await notifyBookingRequestDecision(bookingRequest);
+      } catch (emailError) {
+        console.error("Booking request decision email error:", emailError);
+      }
+
+      await recordStaffLog(req, {
+        staffId: req.staff!.id,
+        staffUsername: req.staff!.username,
+        action: decision.status === "confirmed" ? "BOOKING_REQUEST_CONFIRMED" : "BOOKING_REQUEST_REJECTED",
+        targetType: "booking_request",
+        targetId: requestId,
+        details: {
+          customer: bookingRequest.customerId,
+          vehicle: bookingRequest.vehicleName,
+          startDate: bookingRequest.startDate,
+          endDate: bookingRequest.endDate,
+          reason: reason || null,
+          emailSent,
+        },
+      });
+
+      res.json({
+        message: emailSent
+          ? `Booking request ${decision.status} and the customer has been emailed`
+          : `Booking request ${decision.status}, but the customer email could not be sent`,
+        bookingRequest: { ...bookingRequest, emailSent },
+      });
     } catch (error) {
+      if (error instanceof BookingRequestTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof VehicleUnavailableError) {
+        return res.status(409).json({ message: error.message, conflicts: describeRentalConflicts(error.conflicts), blackouts: describeVehicleBlackouts(error.blackouts), holds: describeBookingRequestHolds(error.holds) });
+      }
       console.error("Update booking request status error:", error);
-      res.status(500).json({ message: "Failed to update booking request status" });
+      res.status(400).json({ message: "Failed to update booking request status", error: (error as Error).message });
+    }
+  });
+
+  // WhatsApp link telling the customer the outcome of their request. Handing
+  // the link to staff counts as sending it.
+  app.post("/api/staff/booking-requests/:id/send-whatsapp", requirePermission(STAFF_PERMISSIONS.MANAGE_BOOKINGS), async (req, res) => {
+    try {
+      const requestId = parseInt(req.params.id);
+      const bookingRequest = await storage.getBookingRequestById(requestId);
+      if (!bookingRequest) {
+        return res.status(404).json({ message: "Booking request not found" });
+      }
+      if (!["confirmed", "rejected", "expired"].includes(bookingRequest.status)) {
+        return res.status(409).json({ message: "The request has not been decided yet" });
+      }
+
+      const customer = await storage.getCustomerById(bookingRequest.customerId);
+      if (!customer?.phone) {
+        return res.status(400).json({ message: "The customer has no phone number on file" });
+      }
+
+      const whatsappUrl = whatsappService.createBookingRequestLink(customer.phone, customer.fullName, bookingRequest);
+      await storage.updateBookingRequestNotifications(requestId, undefined, true);
+      res.json({ message: `WhatsApp link generated for ${customer.fullName}`, whatsappUrl });
+    } catch (error) {
+      console.error("Booking request WhatsApp error:", error);
+      res.status(500).json({ message: "Failed to generate WhatsApp link", error: (error as Error).message });
     }
   });
 
   // Delete booking request
-  app.delete("/api/staff/booking-requests/:id", async (req, res) => {
+  app.delete("/api/staff/booking-requests/:id", requirePermission(STAFF_PERMISSIONS.MANAGE_BOOKINGS), async (req, res) => {
     try {
       const requestId = parseInt(req.params.id);
       
@@ -491,6 +945,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       await storage.deleteBookingRequest(requestId);
+      await offerReleasedDates(bookingRequest.vehicleId);
       
       console.log(`✅ Booking request ${requestId} deleted successfully`);
       res.json({ message: "Booking request deleted successfully" });
@@ -501,7 +956,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/staff/booking-requests/:id/complete-booking", async (req, res) => {
+  app.post("/api/staff/booking-requests/:id/complete-booking", requirePermission(STAFF_PERMISSIONS.MANAGE_BOOKINGS), async (req, res) => {
     try {
       const requestId = parseInt(req.params.id);
       
@@ -540,7 +995,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         currentMileage: 0, // Staff will update this
         mileageLimit: vehicle.mileageLimit || 300,
         extraMileageCharge: "1.50",
-        vehicle: bookingRequest.vehicleName,
         color: "TBD", // Staff will update this during handover
         startDate: bookingRequest.startDate,
         endDate: bookingRequest.endDate,
@@ -549,14 +1003,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         deposit: deposit.toString(),
         discount: "0",
         grandTotal: grandTotal.toString(),
-        status: "pending", // Will be completed during handover process
+        status: "reserved" as const, // Checked out during the handover process
       };
 
-      // Create the rental record
-      const rental = await storage.createRental(rentalData);
-      
-      // Update booking request to track that it was converted
-      await storage.updateBookingRequestStatus(requestId, 'completed', null, 'Converted to rental agreement');
+      // Create the rental record, completing the booking request with it
+      const rental = await storage.createRental(rentalData, vehicle.id, staffRentalActor(req), requestId);
 
       console.log(`✅ Booking request ${requestId} completed and converted to rental ${rental.id}`);
 
@@ -571,13 +1022,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
     } catch (error) {
+      if (error instanceof VehicleUnavailableError) {
+        return res.status(409).json({ message: error.message, conflicts: describeRentalConflicts(error.conflicts), blackouts: describeVehicleBlackouts(error.blackouts), holds: describeBookingRequestHolds(error.holds) });
+      }
+      if (error instanceof BookingRequestTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
       console.error("Complete booking request error:", error);
       res.status(500).json({ message: "Failed to complete booking request" });
     }
   });
 
-  app.patch("/api/staff/rentals/:id/complete", upload.fields([
-    { name: 'vehiclePhotos', maxCount: 10 },
+  app.patch("/api/staff/rentals/:id/complete", requirePermission(STAFF_PERMISSIONS.MANAGE_RENTALS), upload.fields([
+    ...VEHICLE_PHOTO_SLOTS.map(slot => ({ name: slot, maxCount: 1 })),
     { name: 'paymentProof', maxCount: 1 }
   ]), async (req, res) => {
     try {
@@ -593,20 +1050,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         rentalPerDay, totalDays, deposit, discount, grandTotal 
       });
       
-      // Process vehicle photos
-      const vehiclePhotoUrls: string[] = [];
+      // Process vehicle photos, one upload field per photo slot
+      const vehiclePhotoUrls: VehiclePhotosBySlot = {};
       const files = req.files as { [fieldname: string]: Express.Multer.File[] };
-      if (files.vehiclePhotos && files.vehiclePhotos.length > 0) {
-        for (const file of files.vehiclePhotos) {
-          try {
-            const photoUrl = await imageProcessor.processVehiclePhoto(
-              file.buffer,
-              file.originalname
-            );
-            vehiclePhotoUrls.push(photoUrl);
-          } catch (error) {
-            console.error("Error processing vehicle photo:", error);
-          }
+      for (const slot of VEHICLE_PHOTO_SLOTS) {
+        const file = files[slot]?.[0];
+        if (!file) continue;
+        try {
+          vehiclePhotoUrls[slot] = await imageProcessor.processVehiclePhoto(
+            file.buffer,
+            file.originalname
+          );
+        } catch (error) {
+          console.error("Error processing vehicle photo:", error);
         }
       }
       
@@ -638,6 +1094,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!rental) {
         return res.status(404).json({ message: "Rental not found" });
       }
+      const status = resolveRentalStatus(rental);
+      if (!getAllowedRentalActions(status).includes("check_out")) {
+        return res.status(409).json({ message: new RentalTransitionError("check_out", status).message });
+      }
 
       // Update rental with completion data
       const updateData = {
@@ -653,22 +1113,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
         mileageLimit: parseInt(mileageLimit),
         extraMileageCharge: parseFloat(extraMileageCharge),
         // File URLs
-        vehiclePhotos: { photos: vehiclePhotoUrls },
+        vehiclePhotos: vehiclePhotoUrls,
         paymentProofUrl: paymentProofUrl,
         signatureUrl: signatureUrl,
-        status: "completed"
       };
       
       await storage.updateRental(rentalId, updateData);
+      await storage.transitionRental(rentalId, "check_out", staffRentalActor(req));
+      if (updateData.deposit > 0) {
+        await storage.addDepositEntry(rentalId, { type: "collected", amount: updateData.deposit, reference: "Paid at handover" }, req.staff!.id, "handover");
+      }
       
       // Get customer details for agreement generation using rental's customer ID
       const customer = await storage.getCustomerById(rental.customerId);
+      // The agreement shows the handover details just saved
+      const completedRental = await storage.getRentalById(rentalId);
       
-      if (rental && customer) {
+      if (completedRental && customer) {
         // Generate and send rental agreement
         try {
-          await generateAndSendRentalAgreement(rental.id, customer);
-          console.log(`✅ Rental agreement generated and sent for rental ${rental.id}`);
+          await generateRentalAgreement(completedRental, customer);
+          console.log(`✅ Rental agreement generated and sent for rental ${rentalId}`);
         } catch (agreementError) {
           console.error("Error generating rental agreement:", agreementError);
         }
@@ -688,7 +1153,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Regenerate rental agreement
-  app.post("/api/staff/rentals/:id/regenerate-agreement", async (req, res) => {
+  app.post("/api/staff/rentals/:id/regenerate-agreement", requirePermission(STAFF_PERMISSIONS.MANAGE_RENTALS), async (req, res) => {
     try {
       const rentalId = parseInt(req.params.id);
       
@@ -707,11 +1172,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`🔄 Regenerating agreement for rental ${rentalId}`);
       
       // Generate and send the rental agreement
-      await generateAndSendRentalAgreement(rentalId, customer);
+      const { emailSent } = await generateRentalAgreement(rental, customer);
       
       res.json({ 
-        message: "Rental agreement has been regenerated and emailed successfully",
-        rentalId: rentalId
+        message: emailSent
+          ? "Rental agreement has been regenerated and emailed successfully"
+          : "Rental agreement has been regenerated (email delivery unavailable)",
+        rentalId: rentalId,
+        emailSent
       });
       
     } catch (error) {
@@ -721,32 +1189,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Gamification API routes
-  app.get("/api/customers/profile", async (req, res) => {
+  app.get("/api/customers/profile", requireCustomer, async (req, res) => {
     try {
-      const customerId = req.headers['customer-id'];
-      if (!customerId) {
-        return res.status(400).json({ message: "Customer ID required" });
-      }
-      
-      const profile = await storage.getCustomerById(parseInt(customerId.toString()));
-      if (!profile) {
-        return res.status(404).json({ message: "Customer not found" });
-      }
-      res.json(profile);
+      res.json(toSafeCustomer(req.customer!));
     } catch (error) {
       console.error("Get customer profile error:", error);
       res.status(500).json({ message: "Failed to get profile" });
     }
   });
 
-  app.get("/api/customers/badges", async (req, res) => {
+  app.get("/api/customers/badges", requireCustomer, async (req, res) => {
     try {
-      const customerId = req.headers['customer-id'];
-      if (!customerId) {
-        return res.status(400).json({ message: "Customer ID required" });
-      }
-      
-      const badges = await storage.getCustomerBadges(parseInt(customerId.toString()));
+      const badges = await storage.getCustomerBadges(req.customer!.id);
       res.json(badges);
     } catch (error) {
       console.error("Get customer badges error:", error);
@@ -754,14 +1208,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/customers/activities", async (req, res) => {
+  app.get("/api/customers/activities", requireCustomer, async (req, res) => {
     try {
-      const customerId = req.headers['customer-id'];
-      if (!customerId) {
-        return res.status(400).json({ message: "Customer ID required" });
-      }
-      
-      const activities = await storage.getCustomerActivities(parseInt(customerId.toString()));
+      const activities = await storage.getCustomerActivities(req.customer!.id);
       res.json(activities);
     } catch (error) {
       console.error("Get customer activities error:", error);
@@ -769,14 +1218,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/customers/reviews", async (req, res) => {
+  app.get("/api/customers/reviews", requireCustomer, async (req, res) => {
     try {
-      const customerId = req.headers['customer-id'];
-      if (!customerId) {
-        return res.status(400).json({ message: "Customer ID required" });
-      }
-      
-      const reviews = await storage.getCustomerReviews(parseInt(customerId.toString()));
+      const reviews = await storage.getCustomerReviews(req.customer!.id);
       res.json(reviews);
     } catch (error) {
       console.error("Get customer reviews error:", error);
@@ -784,31 +1228,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/customers/reviews", async (req, res) => {
+  app.post("/api/customers/reviews", requireCustomer, async (req, res) => {
     try {
-      const customerId = req.headers['customer-id'];
-      if (!customerId) {
-        return res.status(400).json({ message: "Customer ID required" });
-      }
-      
+      const customerId = req.customer!.id;
       const { rating, reviewText } = req.body;
       
       // Create review
       const review = await storage.createCustomerReview({
-        customerId: parseInt(customerId.toString()),
+        customerId,
         rating: parseInt(rating),
         reviewText: reviewText,
         isPublic: true
       });
       
       // Award points for review
-      const currentCustomer = await storage.getCustomerById(parseInt(customerId.toString()));
-      const newPoints = (currentCustomer?.totalPoints || 0) + 25;
-      await storage.updateCustomerPoints(parseInt(customerId.toString()), newPoints);
+      const newPoints = (req.customer!.totalPoints || 0) + 25;
+      await storage.updateCustomerPoints(customerId, newPoints);
       
       // Add activity log
       await storage.addCustomerActivity({
-        customerId: parseInt(customerId.toString()),
+        customerId,
         activityType: 'review_submitted',
         pointsEarned: 25,
         description: 'Submitted a review for rental experience',
@@ -832,19 +1271,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/customers/loyalty-tier", async (req, res) => {
+  app.get("/api/customers/loyalty-tier", requireCustomer, async (req, res) => {
     try {
-      const customer = req.customer;
-      if (!customer) {
-        return res.status(401).json({ message: "Unauthorized" });
-      }
-      
-      const profile = await storage.getCustomerById(customer.id);
-      if (!profile) {
-        return res.status(404).json({ message: "Customer not found" });
-      }
-      
-      const tier = await storage.getLoyaltyTierByPoints(profile.totalPoints);
+      const tier = await storage.getLoyaltyTierByPoints(req.customer!.totalPoints);
       res.json(tier);
     } catch (error) {
       console.error("Get loyalty tier error:", error);
@@ -852,44 +1281,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Check customer file integrity
-  app.get('/api/staff/check-customer-files', async (req, res) => {
+  // Check customer file integrity: missing KYC documents, and documents still
+  // stored unencrypted (fixed by POST /api/staff/encrypt-customer-files)
+  app.get('/api/staff/check-customer-files', requirePermission(STAFF_PERMISSIONS.MANAGE_CUSTOMERS), async (req, res) => {
     try {
       const customers = await storage.getAllCustomers();
       const fileChecks = [];
       
       for (const customer of customers) {
+        // Erased customers have no documents left
+        if (customer.status === 'erased') {
+          continue;
+        }
         const issues = [];
+        const unencryptedFiles: string[] = [];
         
-        // Check IC/Passport file
-        if (customer.icPassportUrl) {
-          const icFilePath = path.join(process.cwd(), customer.icPassportUrl);
-          try {
-            await fs.promises.access(icFilePath, fs.constants.F_OK);
-          } catch {
-            issues.push(`IC/Passport file missing: ${customer.icPassportUrl}`);
+        for (const { field, label } of KYC_DOCUMENTS) {
+          const url = customer[field];
+          if (!url) {
+            // This check has only ever required the IC/passport and utility bill
+            if (field !== 'driversLicenseUrl') {
+              issues.push(`${label} URL not set`);
+            }
+            continue;
           }
-        } else {
-          issues.push('IC/Passport URL not set');
-        }
-        
-        // Check utility bill file
-        if (customer.utilityBillUrl) {
-          const utilityFilePath = path.join(process.cwd(), customer.utilityBillUrl);
-          try {
-            await fs.promises.access(utilityFilePath, fs.constants.F_OK);
-          } catch {
-            issues.push(`Utility bill file missing: ${customer.utilityBillUrl}`);
+          const status = await inspectKycDocument(url);
+          if (!status.exists) {
+            issues.push(`${label} file missing: ${url}`);
+          } else if (!status.encrypted) {
+            issues.push(`${label} file not encrypted: ${url}`);
+            unencryptedFiles.push(url);
           }
-        } else {
-          issues.push('Utility bill URL not set');
         }
         
         if (issues.length > 0) {
           fileChecks.push({
             customerId: customer.id,
             customerName: customer.fullName,
-            issues
+            issues,
+            unencryptedFiles
           });
         }
       }
@@ -897,11 +1327,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({ 
         totalCustomers: customers.length,
         customersWithIssues: fileChecks.length,
+        customersWithUnencryptedFiles: fileChecks.filter(check => check.unencryptedFiles.length > 0).length,
         issues: fileChecks
       });
     } catch (error) {
       console.error("File check error:", error);
-      res.status(500).json({ message: "Failed to check files", error: error.message });
+      res.status(500).json({ message: "Failed to check files", error: (error as Error).message });
+    }
+  });
+
+  // Encrypt KYC documents stored before encryption at rest was introduced
+  app.post('/api/staff/encrypt-customer-files', requirePermission(STAFF_PERMISSIONS.MANAGE_CUSTOMERS), async (req, res) => {
+    try {
+      const result = await encryptExistingKycDocuments();
+      res.json({ message: `Encrypted ${result.filesRewritten} customer files`, ...result });
+    } catch (error) {
+      console.error("Customer file encryption error:", error);
+      res.status(500).json({ message: "Failed to encrypt customer files", error: (error as Error).message });
     }
   });
 
@@ -1015,6 +1457,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Continue - customer creation was successful
       }
 
+      // Ask the customer to confirm their email address
+      try {
+        await sendCustomerVerificationEmail(req, newCustomer);
+      } catch (verificationError) {
+        console.error("Failed to send verification email to customer:", verificationError);
+        // Continue - the customer can request another link from the portal
+      }
+
       // Send admin notification for new customer registration
       try {
         await emailService.sendAdminNewCustomerNotification(newCustomer);
@@ -1058,63 +1508,300 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Customer Login
-  app.post("/api/customers/login", async (req, res) => {
+  // Customer Login - step 1: email a one-time code. No new codes are sent
+  // while the account or address is locked out from failed attempts.
+  app.post("/api/customers/login/request-code", throttleLogin("customer", req => req.body?.email), async (req, res) => {
     try {
-      const { email } = loginSchema.parse(req.body);
-      
+      const { email } = customerCodeRequestSchema.parse(req.body);
+      const customer = await storage.getCustomerByEmail(email);
+
+      // Same response whether or not the address is registered
+      const genericResponse = { message: "If that email is registered, a login code has been sent." };
+
+      if (!customer || customer.status === "blacklisted") {
+        return res.json(genericResponse);
+      }
+
+      const code = generateLoginCode();
+      await storage.createCustomerLoginCode(
+        customer.id,
+        hashLoginCode(code),
+        new Date(Date.now() + CUSTOMER_LOGIN_CODE_TTL_MS)
+      );
+      await emailService.sendCustomerLoginCode(customer, code, CUSTOMER_LOGIN_CODE_TTL_MS / 60000);
+
+      res.json(genericResponse);
+    } catch (error) {
+      console.error("Login code request error:", error);
+      res.status(400).json({ message: "Failed to send login code", error: (error as Error).message });
+    }
+  });
+
+  // Customer Login - step 2: exchange the code for a session
+  app.post("/api/customers/login/verify-code", throttleLogin("customer", req => req.body?.email), async (req, res) => {
+    try {
+      const { email, code } = customerCodeLoginSchema.parse(req.body);
+      const invalidCode = { message: "Invalid or expired login code" };
+
       const customer = await storage.getCustomerByEmail(email);
       if (!customer) {
-        return res.status(401).json({ message: "Customer not found with this email address" });
+        await loginThrottle.recordFailure("customer", email, req.ip);
+        return res.status(401).json(invalidCode);
       }
 
       if (customer.status === "blacklisted") {
         return res.status(403).json({ message: "Account has been suspended" });
       }
 
-      // Return customer without sensitive fields
-      res.json({
-        id: customer.id,
-        fullName: customer.fullName,
-        email: customer.email,
-        phone: customer.phone,
-        address: customer.address,
-        status: customer.status,
-        icPassportNumber: customer.icPassportNumber,
-        icPassportUrl: customer.icPassportUrl,
-        driversLicenseUrl: customer.driversLicenseUrl,
-        utilityBillUrl: customer.utilityBillUrl,
-        socialMediaHandle: customer.socialMediaHandle,
-        createdAt: customer.createdAt
-      });
+      const loginCode = await storage.getActiveCustomerLoginCode(customer.id);
+      if (!loginCode || loginCode.attempts >= CUSTOMER_LOGIN_CODE_MAX_ATTEMPTS) {
+        await loginThrottle.recordFailure("customer", email, req.ip);
+        return res.status(401).json(invalidCode);
+      }
+
+      if (loginCode.codeHash !== hashLoginCode(code)) {
+        await storage.recordCustomerLoginCodeAttempt(loginCode.id);
+        await loginThrottle.recordFailure("customer", email, req.ip);
+        return res.status(401).json(invalidCode);
+      }
+
+      await storage.consumeCustomerLoginCode(loginCode.id);
+      await loginThrottle.recordSuccess("customer", email);
+      await establishCustomerSession(req, customer);
+      res.json(toSafeCustomer(customer));
     } catch (error) {
-      console.error("Login error:", error);
+      console.error("Login code verification error:", error);
       res.status(400).json({ message: "Login failed", error: (error as Error).message });
     }
   });
 
-  // Accept Terms & Conditions
-  app.post("/api/customers/:id/accept-terms", async (req, res) => {
+  // Customer Login - password
+  app.post("/api/customers/login", throttleLogin("customer", req => req.body?.email), async (req, res) => {
     try {
-      const customerId = parseInt(req.params.id);
-      await storage.updateCustomerTermsAcceptance(customerId);
-      res.json({ message: "Terms accepted successfully" });
-    } catch (error) {
-      console.error("Terms acceptance error:", error);
-      res.status(400).json({ message: "Failed to accept terms", error: error instanceof Error ? error.message : "Unknown error" });
-    }
-  });
+      const { email, password } = customerPasswordLoginSchema.parse(req.body);
+      const invalidCredentials = { message: "Invalid email or password" };
+      
+      const customer = await storage.getCustomerByEmail(email);
+      if (!customer || !customer.hashedPassword) {
+        await loginThrottle.recordFailure("customer", email, req.ip);
+        return res.status(401).json(invalidCredentials);
+      }
 
-  // Create Rental
-  app.post("/api/rentals", upload.fields([
-    { name: 'vehiclePhotos', maxCount: 7 },
+      const isPasswordValid = await storage.comparePassword(password, customer.hashedPassword);
+      if (!isPasswordValid) {
+        await loginThrottle.recordFailure("customer", email, req.ip);
+        return res.status(401).json(invalidCredentials);
+      }
+
+      await loginThrottle.recordSuccess("customer", email);
+
+      if (customer.status === "blacklisted") {
+        return res.status(403).json({ message: "Account has been suspended" });
+      }
+
+      await establishCustomerSession(req, customer);
+      res.json(toSafeCustomer(customer));
+    } catch (error) {
+      console.error("Login error:", error);
+      res.status(400).json({ message: "Login failed", error: (error as Error).message });
+    }
+  });
+
+  // Current Customer Session
+  app.get("/api/customers/me", requireCustomer, async (req, res) => {
+    try {
+      const customer = req.customer!;
+      const [emailVerified, termsStatus] = await Promise.all([
+        storage.isCustomerEmailVerified(customer.id, customer.email),
+        getCustomerTermsStatus(customer.id),
+      ]);
+      res.json({ ...toSafeCustomer(customer), emailVerified, termsStatus });
+    } catch (error) {
+      console.error("Get current customer error:", error);
+      res.status(500).json({ message: "Failed to get customer", error: (error as Error).message });
+    }
+  });
+
+  // Download everything we hold about the signed-in customer (PDPA access request)
+  app.get("/api/customers/me/personal-data", requireCustomer, async (req, res) => {
+    try {
+      await streamPersonalDataExport(req.customer!, res);
+    } catch (error) {
+      console.error("Customer personal data export error:", error);
+      if (!res.headersSent) {
+        return res.status(500).json({ message: "Failed to export personal data", error: (error as Error).message });
+      }
+      res.destroy(error as Error);
+    }
+  });
+
+  // Verify Email Address
+  app.post("/api/customers/verify-email", async (req, res) => {
+    try {
+      const { token } = verifyEmailSchema.parse(req.body);
+      const check = await verifyCustomerToken(token, "verify_email");
+      if (!check.valid) {
+        return res.status(400).json({ message: CUSTOMER_TOKEN_ERRORS[check.reason], reason: check.reason });
+      }
+
+      // A link sent to a previous address does not verify the current one
+      if (check.record.email !== check.customer.email) {
+        return res.status(400).json({ message: CUSTOMER_TOKEN_ERRORS.invalid, reason: "invalid" });
+      }
+
+      if (!(await storage.consumeCustomerToken(check.record.id))) {
+        return res.status(400).json({ message: CUSTOMER_TOKEN_ERRORS.used, reason: "used" });
+      }
+
+      res.json({ message: "Email address verified", email: check.customer.email });
+    } catch (error) {
+      console.error("Email verification error:", error);
+      res.status(400).json({ message: "Failed to verify email", error: (error as Error).message });
+    }
+  });
+
+  // Resend Verification Email
+  app.post("/api/customers/resend-verification", requireCustomer, async (req, res) => {
+    try {
+      const customer = req.customer!;
+      if (await storage.isCustomerEmailVerified(customer.id, customer.email)) {
+        return res.json({ message: "Email address is already verified" });
+      }
+
+      const sent = await sendCustomerVerificationEmail(req, customer);
+      if (!sent) {
+        return res.status(500).json({ message: "Failed to send verification email" });
+      }
+
+      res.json({ message: `Verification email sent to ${customer.email}` });
+    } catch (error) {
+      console.error("Resend verification error:", error);
+      res.status(500).json({ message: "Failed to send verification email", error: (error as Error).message });
+    }
+  });
+
+  // Forgot Password - email a reset link
+  app.post("/api/customers/forgot-password", async (req, res) => {
+    try {
+      const { email } = forgotPasswordSchema.parse(req.body);
+      const customer = await storage.getCustomerByEmail(email);
+
+      // Same response whether or not the address is registered
+      const genericResponse = { message: "If that email is registered, a password reset link has been sent." };
+
+      if (!customer || customer.status === "blacklisted") {
+        return res.json(genericResponse);
+      }
+
+      const token = await issueCustomerToken(customer, "reset_password");
+      const resetLink = `${getAppBaseUrl(req)}/reset-password?token=${encodeURIComponent(token)}`;
+      await emailService.sendPasswordReset(customer, resetLink, CUSTOMER_TOKEN_TTL_MS.reset_password / 60000);
+
+      res.json(genericResponse);
+    } catch (error) {
+      console.error("Forgot password error:", error);
+      res.status(400).json({ message: "Failed to send password reset link", error: (error as Error).message });
+    }
+  });
+
+  // Reset Password - redeem the emailed link
+  app.post("/api/customers/reset-password", async (req, res) => {
+    try {
+      const { token, newPassword } = resetPasswordSchema.parse(req.body);
+      const check = await verifyCustomerToken(token, "reset_password");
+      if (!check.valid) {
+        return res.status(400).json({ message: CUSTOMER_TOKEN_ERRORS[check.reason], reason: check.reason });
+      }
+
+      if (check.customer.status === "blacklisted") {
+        return res.status(403).json({ message: "Account has been suspended" });
+      }
+
+      if (!(await storage.consumeCustomerToken(check.record.id))) {
+        return res.status(400).json({ message: CUSTOMER_TOKEN_ERRORS.used, reason: "used" });
+      }
+
+      const hashedPassword = await storage.hashPassword(newPassword);
+      await storage.updateCustomerPassword(check.customer.id, hashedPassword);
+
+      // Sign out every existing session so a compromised one cannot linger
+      await storage.deleteCustomerSessions(check.customer.id);
+
+      res.json({ message: "Password has been reset. You can now sign in with your new password." });
+    } catch (error) {
+      console.error("Reset password error:", error);
+      res.status(400).json({ message: "Failed to reset password", error: (error as Error).message });
+    }
+  });
+
+  // Customer Logout
+  app.post("/api/customers/logout", async (req, res) => {
+    try {
+      await destroyCustomerSession(req);
+      res.clearCookie("connect.sid");
+      res.json({ message: "Logged out successfully" });
+    } catch (error) {
+      console.error("Customer logout error:", error);
+      res.status(500).json({ message: "Failed to log out" });
+    }
+  });
+
+  // Current Terms & Conditions, shown before registration and acceptance
+  app.get("/api/terms/current", async (req, res) => {
+    try {
+      const terms = await getCurrentTerms();
+      res.json({ id: terms.id, version: terms.version, content: terms.content, publishedAt: terms.publishedAt });
+    } catch (error) {
+      console.error("Get terms error:", error);
+      res.status(500).json({ message: "Failed to get Terms & Conditions", error: (error as Error).message });
+    }
+  });
+
+  // Accept Terms & Conditions. The version the customer was shown must still
+  // be the current one; it is recorded with the time, IP and user agent.
+  app.post("/api/customers/:id/accept-terms", requireCustomer, async (req, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      if (customerId !== req.customer!.id) {
+        return res.status(403).json({ message: "You can only accept terms for your own account" });
+      }
+      const { termsVersionId } = acceptTermsSchema.parse(req.body);
+
+      const current = await getCurrentTerms();
+      if (termsVersionId !== current.id) {
+        return res.status(409).json({
+          message: "The Terms & Conditions have been updated. Please review the latest version.",
+          currentVersionId: current.id,
+        });
+      }
+
+      const acceptance = await storage.createTermsAcceptance({
+        customerId,
+        termsVersionId,
+        ipAddress: req.ip || null,
+        userAgent: req.get("user-agent") || null,
+      });
+      await storage.updateCustomerTermsAcceptance(customerId);
+      res.json({
+        message: "Terms accepted successfully",
+        termsVersion: current.version,
+        acceptedAt: acceptance.acceptedAt,
+      });
+    } catch (error) {
+      console.error("Terms acceptance error:", error);
+      res.status(400).json({ message: "Failed to accept terms", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Create Rental
+  app.post("/api/rentals", requireStaff, requirePermission(STAFF_PERMISSIONS.MANAGE_RENTALS), upload.fields([
+    { name: 'vehiclePhotos', maxCount: 7 },
     { name: 'paymentProof', maxCount: 1 }
   ]), async (req, res) => {
     try {
       // Transform form data to match schema expectations
       const transformedData = {
         customerId: parseInt(req.body.customerId),
-        vehicle: req.body.vehicle,
         color: req.body.color,
         mileageLimit: parseInt(req.body.mileageLimit.replace(/[^\d]/g, '')) || 0, // Extract number from "170 KM"
         extraMileageCharge: (parseFloat(req.body.extraMileageCharge.replace(/[^\d.]/g, '')) || 0).toString(), // Extract number from "RM 2.50"
@@ -1129,6 +1816,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
       
       console.log("Transformed rental data:", transformedData);
+
+      const vehicle = await storage.getVehicleById(parseInt(req.body.vehicleId));
+      if (!vehicle) {
+        return res.status(400).json({ message: "Select a vehicle from the fleet" });
+      }
+
+      // Fail before storing any photos; createRental re-checks under a lock
+      const conflicts = await storage.getConflictingRentals(vehicle.id, transformedData.startDate, transformedData.endDate);
+      const blackouts = await storage.getConflictingBlackouts(vehicle.id, transformedData.startDate, transformedData.endDate);
+      const holds = await storage.getConflictingHolds(vehicle.id, transformedData.startDate, transformedData.endDate);
+      if (conflicts.length > 0 || blackouts.length > 0 || holds.length > 0) {
+        return res.status(409).json({
+          message: new VehicleUnavailableError(conflicts, blackouts, holds).message,
+          conflicts: describeRentalConflicts(conflicts),
+          blackouts: describeVehicleBlackouts(blackouts),
+          holds: describeBookingRequestHolds(holds),
+        });
+      }
+
       const files = req.files as { [fieldname: string]: Express.Multer.File[] };
 
       // Vehicle photos are now optional
@@ -1167,12 +1873,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         );
       }
 
+      // Counter rentals are signed and paid on the spot
       const rental = await storage.createRental({
         ...transformedData,
         vehiclePhotos,
         paymentProofUrl,
         signatureUrl,
-      });
+        status: "checked_out",
+      }, vehicle.id, staffRentalActor(req));
+      if (parseFloat(rental.deposit) > 0) {
+        await storage.addDepositEntry(rental.id, { type: "collected", amount: parseFloat(rental.deposit), reference: "Paid with rental" }, null, "handover");
+      }
 
       // Send admin notification for new rental booking
       try {
@@ -1188,13 +1899,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(rental);
     } catch (error) {
+      if (error instanceof VehicleUnavailableError) {
+        return res.status(409).json({ message: error.message, conflicts: describeRentalConflicts(error.conflicts), blackouts: describeVehicleBlackouts(error.blackouts), holds: describeBookingRequestHolds(error.holds) });
+      }
       console.error("Rental creation error:", error);
       res.status(400).json({ message: "Failed to create rental", error: error.message });
     }
   });
 
   // Generate Agreement PDF
-  app.post("/api/rentals/:id/generate-agreement", async (req, res) => {
+  app.post("/api/rentals/:id/generate-agreement", requireStaff, requirePermission(STAFF_PERMISSIONS.MANAGE_RENTALS), async (req, res) => {
     try {
       const rentalId = parseInt(req.params.id);
       const rentalRecord = await storage.getRentalById(rentalId);
@@ -1208,33 +1922,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Customer not found" });
       }
 
-      // Generate PDF
-      const pdfUrl = await pdfGenerator.generateRentalAgreement(rentalRecord, customer);
-      
-      // Update rental with PDF URL
-      await storage.updateRentalPdf(rentalRecord.id, pdfUrl);
-
-      // Try to send email with PDF attachment (optional)
-      let emailSent = false;
-      try {
-        // Convert relative path to absolute path for email attachment
-        const absolutePdfPath = path.isAbsolute(pdfUrl) ? pdfUrl : path.join(process.cwd(), pdfUrl.startsWith('/') ? pdfUrl.slice(1) : pdfUrl);
-        await emailService.sendRentalAgreement(customer, absolutePdfPath, rentalRecord);
-        emailSent = true;
-        console.log("Email sent successfully to:", customer.email);
-        
-        // Send copy to admin
-        try {
-          await emailService.sendRentalAgreementCopyToAdmin(customer, absolutePdfPath, rentalRecord);
-          console.log("Admin copy sent successfully");
-        } catch (adminEmailError) {
-          console.error("Error sending admin copy:", adminEmailError);
-          // Continue - main email was successful
-        }
-      } catch (emailError) {
-        console.error("Error sending email:", emailError);
-        // Continue without email - PDF generation was successful
-      }
+      // Generate the PDF and email it (email delivery is optional)
+      const { pdfUrl, emailSent } = await generateRentalAgreement(rentalRecord, customer);
 
       res.json({ 
         message: emailSent ? "Agreement generated and emailed successfully" : "Agreement generated successfully (email delivery unavailable)",
@@ -1264,6 +1953,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Agreement not found" });
       }
 
+      if (!(await authorizeDocumentRequest(req, res, rental.agreementPdfUrl))) {
+        return;
+      }
+
       // Fix path issue - PDF generator uses app/backups but agreementPdfUrl starts with /backups
       const pdfPath = rental.agreementPdfUrl.startsWith('/backups/') 
         ? path.join(process.cwd(), 'app', rental.agreementPdfUrl)
@@ -1309,7 +2002,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Send rental agreement via email
-  app.post("/api/rentals/:id/send-email", async (req, res) => {
+  app.post("/api/rentals/:id/send-email", requireStaff, requirePermission(STAFF_PERMISSIONS.MANAGE_RENTALS), async (req, res) => {
     try {
       const rentalId = parseInt(req.params.id);
       const rental = await storage.getRentalById(rentalId);
@@ -1360,7 +2053,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Send rental agreement via WhatsApp
-  app.post("/api/rentals/:id/send-whatsapp", async (req, res) => {
+  app.post("/api/rentals/:id/send-whatsapp", requireStaff, requirePermission(STAFF_PERMISSIONS.MANAGE_RENTALS), async (req, res) => {
     try {
       const rentalId = parseInt(req.params.id);
       const rental = await storage.getRentalById(rentalId);
@@ -1386,9 +2079,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await storage.updateRentalPdf(rental.id, pdfPath);
       }
 
-      // Generate WhatsApp link with message and PDF URL
-      const pdfUrl = `/api/rentals/${rental.id}/download-agreement`;
-      const result = await whatsappService.sendDocument(customer.phone, pdfPath, customer.fullName, rental, pdfUrl);
+      // Generate WhatsApp link with message and an expiring PDF URL
+      const pdfUrl = `${getAppBaseUrl(req)}${createSignedDownloadUrl(pdfPath)}`;
+      const linkExpiresAt = new Date(Date.now() + DOWNLOAD_LINK_TTL_MS);
+      const result = await whatsappService.sendDocument(customer.phone, pdfPath, customer.fullName, rental, pdfUrl, linkExpiresAt);
 
       res.json({
         success: true,
@@ -1408,7 +2102,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Regenerate all missing PDFs
-  app.post("/api/staff/regenerate-pdfs", async (req, res) => {
+  app.post("/api/staff/regenerate-pdfs", requirePermission(STAFF_PERMISSIONS.MANAGE_RENTALS), async (req, res) => {
     try {
       const rentals = await storage.getAllRentals();
       const results = [];
@@ -1463,7 +2157,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
   // Staff Login
-  app.post("/api/staff/login", async (req, res) => {
+  app.post("/api/staff/login", throttleLogin("staff", req => req.body?.username), async (req, res) => {
     try {
       const { username, password } = staffLoginSchema.parse(req.body);
       
@@ -1471,6 +2165,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const staffMember = await storage.getStaffByUsername(username);
       
       if (!staffMember) {
+        await loginThrottle.recordFailure("staff", username, req.ip);
         return res.status(401).json({ message: "Invalid staff credentials" });
       }
 
@@ -1478,35 +2173,288 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const isPasswordValid = await storage.comparePassword(password, staffMember.hashedPassword);
       
       if (!isPasswordValid) {
+        await loginThrottle.recordFailure("staff", username, req.ip);
         return res.status(401).json({ message: "Invalid staff credentials" });
       }
 
-      // Log staff login activity
+      await ensureBootstrapOwner(staffMember);
+
+      // Enrolled staff always need their second factor
+      const twoFactor = await storage.getStaffTwoFactor(staffMember.id);
+      if (twoFactor?.enabledAt) {
+        await startStaffTwoFactorChallenge(req, staffMember, "verify");
+        return res.json({ twoFactorRequired: true, message: "Enter the code from your authenticator app" });
+      }
+
+      // Roles that enforce 2FA must enroll before the session starts
+      const role = await storage.getStaffRole(staffMember.id);
+      if (await storage.isTwoFactorRequiredForRole(role)) {
+        await startStaffTwoFactorChallenge(req, staffMember, "enroll");
+        return res.json({ twoFactorEnrollmentRequired: true, message: "Your role requires two-factor authentication. Please set it up to continue." });
+      }
+
+      await completeStaffLogin(req, res, staffMember);
+    } catch (error) {
+      console.error("Staff login error:", error);
+      res.status(400).json({ message: "Staff login failed", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Staff Login - second factor
+  app.post("/api/staff/login/2fa", throttleLogin("staff", req => req.session.staffTwoFactor?.username), async (req, res) => {
+    try {
+      const { code } = staffTwoFactorCodeSchema.parse(req.body);
+      const challenge = getStaffTwoFactorChallenge(req);
+      if (!challenge || challenge.mode !== "verify") {
+        return res.status(401).json({ message: "Two-factor session expired. Please log in again." });
+      }
+
+      const staffMember = await storage.getStaffById(challenge.id);
+      if (!staffMember) {
+        return res.status(401).json({ message: "Staff account no longer exists" });
+      }
+
+      const result = await verifyStaffSecondFactor(staffMember.id, code);
+      if (!result.valid) {
+        challenge.attempts += 1;
+        await loginThrottle.recordFailure("staff", staffMember.username, req.ip);
+        await logStaffTwoFactorEvent(req, staffMember, "STAFF_2FA_FAILED", staffMember.id, { attempts: challenge.attempts });
+        return res.status(401).json({
+          message: "Invalid authentication code",
+          attemptsRemaining: Math.max(0, STAFF_2FA_MAX_ATTEMPTS - challenge.attempts)
+        });
+      }
+
+      if (result.method === "recovery_code") {
+        const remaining = (await storage.getStaffTwoFactor(staffMember.id))?.recoveryCodeHashes.length ?? 0;
+        await logStaffTwoFactorEvent(req, staffMember, "STAFF_2FA_RECOVERY_CODE_USED", staffMember.id, { recoveryCodesRemaining: remaining });
+      }
+      await logStaffTwoFactorEvent(req, staffMember, "STAFF_2FA_VERIFIED", staffMember.id, { method: result.method });
+
+      await completeStaffLogin(req, res, staffMember, { twoFactorMethod: result.method });
+    } catch (error) {
+      console.error("Staff 2FA verification error:", error);
+      res.status(400).json({ message: "Two-factor verification failed", error: (error as Error).message });
+    }
+  });
+
+  // Staff Login - start enrollment required by the staff member's role
+  app.post("/api/staff/login/2fa/setup", async (req, res) => {
+    try {
+      const challenge = getStaffTwoFactorChallenge(req);
+      if (!challenge || challenge.mode !== "enroll") {
+        return res.status(401).json({ message: "Two-factor session expired. Please log in again." });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.setStaffTwoFactorPendingSecret(challenge.id, secret);
+      res.json(await buildTwoFactorEnrollment(challenge.username, secret));
+    } catch (error) {
+      console.error("Staff 2FA login setup error:", error);
+      res.status(500).json({ message: "Failed to start two-factor setup", error: (error as Error).message });
+    }
+  });
+
+  // Staff Login - confirm enrollment and finish logging in
+  app.post("/api/staff/login/2fa/enable", throttleLogin("staff", req => req.session.staffTwoFactor?.username), async (req, res) => {
+    try {
+      const { code } = staffTwoFactorCodeSchema.parse(req.body);
+      const challenge = getStaffTwoFactorChallenge(req);
+      if (!challenge || challenge.mode !== "enroll") {
+        return res.status(401).json({ message: "Two-factor session expired. Please log in again." });
+      }
+
+      const staffMember = await storage.getStaffById(challenge.id);
+      const twoFactor = await storage.getStaffTwoFactor(challenge.id);
+      if (!staffMember || !twoFactor?.pendingSecret) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+
+      const step = verifyTotp(twoFactor.pendingSecret, code);
+      if (step === null) {
+        challenge.attempts += 1;
+        await loginThrottle.recordFailure("staff", staffMember.username, req.ip);
+        await logStaffTwoFactorEvent(req, staffMember, "STAFF_2FA_FAILED", staffMember.id, { attempts: challenge.attempts, during: "enrollment" });
+        return res.status(401).json({
+          message: "Invalid authentication code",
+          attemptsRemaining: Math.max(0, STAFF_2FA_MAX_ATTEMPTS - challenge.attempts)
+        });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.enableStaffTwoFactor(staffMember.id, twoFactor.pendingSecret, hashes, step);
+      await logStaffTwoFactorEvent(req, staffMember, "STAFF_2FA_ENROLLED", staffMember.id, { enforcedByRole: true });
+
+      await completeStaffLogin(req, res, staffMember, { twoFactorMethod: "totp", recoveryCodes: codes });
+    } catch (error) {
+      console.error("Staff 2FA login enrollment error:", error);
+      res.status(400).json({ message: "Failed to enable two-factor authentication", error: (error as Error).message });
+    }
+  });
+
+  // Current Staff Session
+  app.get("/api/staff/me", (req, res) => {
+    res.json({
+      id: req.staff!.id,
+      username: req.staff!.username,
+      role: req.staffRole,
+      permissions: req.staffPermissions
+    });
+  });
+
+  // Two-Factor Authentication (current staff member)
+  app.get("/api/staff/2fa", async (req, res) => {
+    try {
+      const twoFactor = await storage.getStaffTwoFactor(req.staff!.id);
+      res.json({
+        enabled: !!twoFactor?.enabledAt,
+        enabledAt: twoFactor?.enabledAt ?? null,
+        required: await storage.isTwoFactorRequiredForRole(req.staffRole!),
+        recoveryCodesRemaining: twoFactor?.enabledAt ? twoFactor.recoveryCodeHashes.length : 0
+      });
+    } catch (error) {
+      console.error("Get staff 2FA status error:", error);
+      res.status(500).json({ message: "Failed to get two-factor status", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/staff/2fa/setup", async (req, res) => {
+    try {
+      const twoFactor = await storage.getStaffTwoFactor(req.staff!.id);
+      if (twoFactor?.enabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.setStaffTwoFactorPendingSecret(req.staff!.id, secret);
+      res.json(await buildTwoFactorEnrollment(req.staff!.username, secret));
+    } catch (error) {
+      console.error("Staff 2FA setup error:", error);
+      res.status(500).json({ message: "Failed to start two-factor setup", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/staff/2fa/enable", async (req, res) => {
+    try {
+      const { code } = staffTwoFactorCodeSchema.parse(req.body);
+      const twoFactor = await storage.getStaffTwoFactor(req.staff!.id);
+      if (twoFactor?.enabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+      if (!twoFactor?.pendingSecret) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+
+      const step = verifyTotp(twoFactor.pendingSecret, code);
+      if (step === null) {
+        await logStaffTwoFactorEvent(req, req.staff!, "STAFF_2FA_FAILED", req.staff!.id, { during: "enrollment" });
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.enableStaffTwoFactor(req.staff!.id, twoFactor.pendingSecret, hashes, step);
+      await logStaffTwoFactorEvent(req, req.staff!, "STAFF_2FA_ENROLLED", req.staff!.id);
+
+      res.json({ message: "Two-factor authentication enabled", recoveryCodes: codes });
+    } catch (error) {
+      console.error("Staff 2FA enable error:", error);
+      res.status(400).json({ message: "Failed to enable two-factor authentication", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/staff/2fa/disable", async (req, res) => {
+    try {
+      const { code } = staffTwoFactorCodeSchema.parse(req.body);
+      if (await storage.isTwoFactorRequiredForRole(req.staffRole!)) {
+        return res.status(403).json({ message: "Your role requires two-factor authentication" });
+      }
+
+      const result = await verifyStaffSecondFactor(req.staff!.id, code);
+      if (!result.valid) {
+        await logStaffTwoFactorEvent(req, req.staff!, "STAFF_2FA_FAILED", req.staff!.id, { during: "disable" });
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      await storage.disableStaffTwoFactor(req.staff!.id);
+      await logStaffTwoFactorEvent(req, req.staff!, "STAFF_2FA_DISABLED", req.staff!.id, { method: result.method });
+
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      console.error("Staff 2FA disable error:", error);
+      res.status(400).json({ message: "Failed to disable two-factor authentication", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/staff/2fa/recovery-codes", async (req, res) => {
+    try {
+      const { code } = staffTwoFactorCodeSchema.parse(req.body);
+      const result = await verifyStaffSecondFactor(req.staff!.id, code);
+      if (!result.valid) {
+        await logStaffTwoFactorEvent(req, req.staff!, "STAFF_2FA_FAILED", req.staff!.id, { during: "recovery_code_regeneration" });
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.replaceStaffRecoveryCodes(req.staff!.id, hashes);
+      await logStaffTwoFactorEvent(req, req.staff!, "STAFF_2FA_RECOVERY_CODES_REGENERATED", req.staff!.id);
+
+      res.json({ message: "New recovery codes generated", recoveryCodes: codes });
+    } catch (error) {
+      console.error("Staff 2FA recovery code error:", error);
+      res.status(400).json({ message: "Failed to generate recovery codes", error: (error as Error).message });
+    }
+  });
+
+  // Staff Logout
+  app.post("/api/staff/logout", async (req, res) => {
+    try {
+      const staffMember = req.staff!;
+      await destroyStaffSession(req);
+      res.clearCookie("connect.sid");
+
       try {
-        await storage.createStaffLog({
+        await recordStaffLog(req, {
           staffId: staffMember.id,
           staffUsername: staffMember.username,
-          action: "STAFF_LOGIN",
+          action: "STAFF_LOGOUT",
           targetType: "authentication",
           targetId: staffMember.id,
-          details: {
-            loginTime: new Date().toISOString(),
-            ipAddress: req.ip,
-            userAgent: req.get('User-Agent')
-          }
+          details: { logoutTime: new Date().toISOString(), ipAddress: req.ip }
         });
       } catch (logError) {
-        console.error("Failed to log staff login:", logError);
+        console.error("Failed to log staff logout:", logError);
       }
 
-      res.json({ 
-        id: staffMember.id, 
-        username: staffMember.username,
-        message: "Login successful" 
-      });
+      res.json({ message: "Logged out successfully" });
     } catch (error) {
-      console.error("Staff login error:", error);
-      res.status(400).json({ message: "Staff login failed", error: error instanceof Error ? error.message : "Unknown error" });
+      console.error("Staff logout error:", error);
+      res.status(500).json({ message: "Failed to log out", error: (error as Error).message });
+    }
+  });
+
+  // Log Out All Other Sessions of the current staff member
+  app.post("/api/staff/logout-all", async (req, res) => {
+    try {
+      const staffMember = req.staff!;
+      const sessionsEnded = await storage.deleteStaffSessions(staffMember.id, req.sessionID);
+
+      try {
+        await recordStaffLog(req, {
+          staffId: staffMember.id,
+          staffUsername: staffMember.username,
+          action: "STAFF_LOGOUT_ALL",
+          targetType: "authentication",
+          targetId: staffMember.id,
+          details: { sessionsEnded, ipAddress: req.ip }
+        });
+      } catch (logError) {
+        console.error("Failed to log staff logout-all:", logError);
+      }
+
+      res.json({ message: `Logged out of ${sessionsEnded} other session(s)`, sessionsEnded });
+    } catch (error) {
+      console.error("Staff logout-all error:", error);
+      res.status(500).json({ message: "Failed to log out other sessions", error: (error as Error).message });
     }
   });
 
@@ -1522,75 +2470,631 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Expiring links to a customer's ID documents (IC/passport, licence, utility bill)
+  app.get("/api/staff/customers/:id/document-links", requirePermission(STAFF_PERMISSIONS.VIEW_CUSTOMER_DOCUMENTS), async (req, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      const customer = await storage.getCustomerById(customerId);
+
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      const baseUrl = getAppBaseUrl(req);
+      const signDocument = (fileUrl: string | null) => fileUrl ? `${baseUrl}${createSignedDownloadUrl(fileUrl)}` : null;
+      res.json({
+        icPassport: signDocument(customer.icPassportUrl),
+        driversLicense: signDocument(customer.driversLicenseUrl),
+        utilityBill: signDocument(customer.utilityBillUrl),
+        expiresAt: new Date(Date.now() + DOWNLOAD_LINK_TTL_MS).toISOString(),
+      });
+    } catch (error) {
+      console.error("Customer document links error:", error);
+      res.status(500).json({ message: "Failed to create document links", error: (error as Error).message });
+    }
+  });
+
   // Reset Customer Password (Staff)
-  app.patch("/api/staff/customers/:id/reset-password", async (req, res) => {
+  app.patch("/api/staff/customers/:id/reset-password", requirePermission(STAFF_PERMISSIONS.RESET_CUSTOMER_PASSWORD), async (req, res) => {
     try {
       const customerId = parseInt(req.params.id);
-      const { newPassword, staffId, staffUsername } = req.body;
+      const { newPassword } = req.body;
       
       if (!newPassword || newPassword.length < 4) {
         return res.status(400).json({ message: "Password must be at least 4 characters" });
       }
 
-      const customer = await storage.getCustomerById(customerId);
-      const hashedPassword = await storage.hashPassword(newPassword);
-      await storage.updateCustomerPassword(customerId, hashedPassword);
-      
-      // Log the action
-      await storage.createStaffLog({
-        staffId: staffId || 1,
-        staffUsername: staffUsername || 'Unknown',
-        action: 'customer_password_reset',
-        targetType: 'customer',
-        targetId: customerId,
-        details: { customerName: customer?.fullName, ipAddress: req.ip }
-      });
-      
-      res.json({ message: "Password reset successfully" });
+      const customer = await storage.getCustomerById(customerId);
+      const hashedPassword = await storage.hashPassword(newPassword);
+      await storage.updateCustomerPassword(customerId, hashedPassword);
+      
+      // Log the action
+      await recordStaffLog(req, {
+        staffId: req.staff!.id,
+        staffUsername: req.staff!.username,
+        action: 'customer_password_reset',
+        targetType: 'customer',
+        targetId: customerId,
+        details: { customerName: customer?.fullName, ipAddress: req.ip }
+      });
+      
+      res.json({ message: "Password reset successfully" });
+    } catch (error) {
+      console.error("Password reset error:", error);
+      res.status(500).json({ message: "Failed to reset password", error: error.message });
+    }
+  });
+
+  // Delete Rental Agreement (Staff)
+  // Cancel Rental
+  app.patch("/api/staff/rentals/:id/cancel", requirePermission(STAFF_PERMISSIONS.CANCEL_RENTAL), async (req, res) => {
+    try {
+      const rentalId = parseInt(req.params.id);
+      const { reason } = rentalCancellationSchema.parse(req.body);
+      const rental = await storage.transitionRental(rentalId, "cancel", staffRentalActor(req), reason);
+
+      // Links already shared for this rental's agreement and photos stop working
+      await storage.revokeRentalDownloadLinks(rentalId);
+
+      // The freed dates go to the first customer waiting for them
+      await offerReleasedDates(await storage.getRentalVehicleId(rentalId));
+      
+      // Log staff action for cancelling rental
+      try {
+        await recordStaffLog(req, {
+          staffId: req.staff!.id,
+          staffUsername: req.staff!.username,
+          action: "RENTAL_CANCELLED",
+          targetType: "rental",
+          targetId: rentalId,
+          details: {
+            rentalId,
+            vehicle: rental.vehicle,
+            customer: rental.customerId,
+            reason: reason || "Cancelled by staff",
+            cancelledAt: new Date().toISOString()
+          }
+        });
+      } catch (logError) {
+        console.error("Failed to log rental cancellation:", logError);
+      }
+      
+      res.json({ message: "Rental cancelled successfully", rental });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid cancellation", errors: error.errors });
+      }
+      if (error instanceof RentalTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Cancel rental error:", error);
+      res.status(500).json({ message: "Failed to cancel rental", error: (error as Error).message });
+    }
+  });
+
+  // Move a rental along its lifecycle. Each action carries its own
+  // permission (cancel and no-show need CANCEL_RENTAL).
+  app.post("/api/staff/rentals/:id/transition", requirePermission(STAFF_PERMISSIONS.MANAGE_RENTALS, STAFF_PERMISSIONS.CANCEL_RENTAL), async (req, res) => {
+    try {
+      const rentalId = parseInt(req.params.id);
+      const { action, note } = rentalTransitionSchema.parse(req.body);
+      if (action === "return") {
+        return res.status(400).json({ message: "Returns are recorded through the vehicle check-in" });
+      }
+      const definition = RENTAL_ACTION_DEFINITIONS[action];
+      if (!req.staffPermissions?.includes(definition.permission)) {
+        return res.status(403).json({
+          message: "You do not have permission to perform this action",
+          requiredPermissions: [definition.permission],
+        });
+      }
+
+      const existing = await storage.getRentalById(rentalId);
+      if (!existing) {
+        return res.status(404).json({ message: "Rental not found" });
+      }
+      if (action === "close") {
+        const inspection = await storage.getDamageInspection(rentalId);
+        if (inspection && !inspection.inspection.finalizedAt && inspection.points.length > 0) {
+          return res.status(409).json({ message: "Finalize the damage inspection before closing the rental" });
+        }
+      }
+
+      const rental = await storage.transitionRental(rentalId, action, staffRentalActor(req), note);
+      if (definition.to === "cancelled" || definition.to === "no_show") {
+        await storage.revokeRentalDownloadLinks(rentalId);
+        await offerReleasedDates(await storage.getRentalVehicleId(rentalId));
+      }
+
+      await recordStaffLog(req, {
+        staffId: req.staff!.id,
+        staffUsername: req.staff!.username,
+        action: `RENTAL_${action.toUpperCase()}`,
+        targetType: "rental",
+        targetId: rentalId,
+        details: {
+          vehicle: rental.vehicle,
+          customer: rental.customerId,
+          fromStatus: resolveRentalStatus(existing),
+          toStatus: definition.to,
+          note: note || null,
+        },
+      });
+
+      res.json(withRentalLifecycle(req, rental));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid status change", errors: error.errors });
+      }
+      if (error instanceof RentalTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Rental transition error:", error);
+      res.status(500).json({ message: "Failed to update rental status", error: (error as Error).message });
+    }
+  });
+
+  // Moves a rental's return date, re-prices it at the agreed rate and issues
+  // the change as a numbered addendum. Extensions must not run into another
+  // booking of the vehicle.
+  const amendRentalEndDate = (type: RentalAmendmentType) => async (req: Request, res: Response) => {
+    try {
+      const rentalId = parseInt(req.params.id);
+      const { endDate, reason } = rentalAmendmentSchema.parse(req.body);
+      const existing = await storage.getRentalById(rentalId);
+      if (!existing) {
+        return res.status(404).json({ message: "Rental not found" });
+      }
+
+      const { rental, amendment } = await storage.amendRentalEndDate(rentalId, { type, endDate, reason }, req.staff!.id);
+      if (type === "early_return") {
+        await offerReleasedDates(await storage.getRentalVehicleId(rentalId));
+      }
+
+      let addendumPdfUrl: string | null = null;
+      try {
+        addendumPdfUrl = await generateRentalAddendum(rental, amendment);
+      } catch (addendumError) {
+        console.error("Rental addendum generation error:", addendumError);
+      }
+
+      await recordStaffLog(req, {
+        staffId: req.staff!.id,
+        staffUsername: req.staff!.username,
+        action: type === "extension" ? "RENTAL_EXTENDED" : "RENTAL_SHORTENED",
+        targetType: "rental",
+        targetId: rentalId,
+        details: {
+          vehicle: rental.vehicle,
+          customer: rental.customerId,
+          amendmentNumber: amendment.amendmentNumber,
+          previousEndDate: amendment.previousEndDate,
+          newEndDate: amendment.newEndDate,
+          priceDifference: amendment.priceDifference,
+          reason: reason || null,
+        },
+      });
+
+      res.json({
+        message: addendumPdfUrl
+          ? `Addendum ${amendment.amendmentNumber} issued`
+          : `Addendum ${amendment.amendmentNumber} recorded, but its PDF could not be generated. Try regenerating it.`,
+        rental: withRentalLifecycle(req, rental),
+        amendment: { ...amendment, addendumPdfUrl },
+      });
+    } catch (error) {
+      if (error instanceof RentalAmendmentError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof VehicleUnavailableError) {
+        return res.status(409).json({ message: error.message, conflicts: describeRentalConflicts(error.conflicts), blackouts: describeVehicleBlackouts(error.blackouts), holds: describeBookingRequestHolds(error.holds) });
+      }
+      console.error("Rental amendment error:", error);
+      res.status(400).json({ message: "Failed to change the return date", error: (error as Error).message });
+    }
+  };
+
+  app.post("/api/staff/rentals/:id/extend", requirePermission(STAFF_PERMISSIONS.MANAGE_RENTALS), amendRentalEndDate("extension"));
+  app.post("/api/staff/rentals/:id/shorten", requirePermission(STAFF_PERMISSIONS.MANAGE_RENTALS), amendRentalEndDate("early_return"));
+
+  app.get("/api/staff/rentals/:id/amendments", async (req, res) => {
+    try {
+      const amendments = await storage.getRentalAmendments(parseInt(req.params.id));
+      res.json(amendments);
+    } catch (error) {
+      console.error("Get rental amendments error:", error);
+      res.status(500).json({ message: "Failed to get rental amendments", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/staff/rentals/:id/amendments/:amendmentId/addendum", requirePermission(STAFF_PERMISSIONS.MANAGE_RENTALS), async (req, res) => {
+    try {
+      const rental = await storage.getRentalById(parseInt(req.params.id));
+      if (!rental) {
+        return res.status(404).json({ message: "Rental not found" });
+      }
+      const amendmentId = parseInt(req.params.amendmentId);
+      const amendment = (await storage.getRentalAmendments(rental.id)).find(item => item.id === amendmentId);
+      if (!amendment) {
+        return res.status(404).json({ message: "Amendment not found" });
+      }
+
+      const addendumPdfUrl = await generateRentalAddendum(rental, amendment);
+      res.json({ message: `Addendum ${amendment.amendmentNumber} generated`, addendumPdfUrl });
+    } catch (error) {
+      console.error("Rental addendum generation error:", error);
+      res.status(500).json({ message: "Failed to generate addendum", error: (error as Error).message });
+    }
+  });
+
+  // Vehicle check-in: records the return odometer, fuel and time, charges
+  // excess mileage, fuel shortfall, late return and damages against the
+  // deposit, and marks the rental returned.
+  app.post("/api/staff/rentals/:id/return", requirePermission(STAFF_PERMISSIONS.MANAGE_RENTALS), upload.fields(
+    VEHICLE_PHOTO_SLOTS.map(slot => ({ name: slot, maxCount: 1 }))
+  ), async (req, res) => {
+    try {
+      const rentalId = parseInt(req.params.id);
+      const checkIn = rentalReturnSchema.parse(req.body);
+
+      const rental = await storage.getRentalById(rentalId);
+      if (!rental) {
+        return res.status(404).json({ message: "Rental not found" });
+      }
+      const status = resolveRentalStatus(rental);
+      if (!getAllowedRentalActions(status).includes("return")) {
+        return res.status(409).json({ message: new RentalTransitionError("return", status).message });
+      }
+      if (checkIn.returnMileage < rental.currentMileage) {
+        return res.status(400).json({ message: `Return mileage cannot be below the handover mileage of ${rental.currentMileage} km` });
+      }
+
+      // One upload field per photo slot, matching the handover photos
+      const returnPhotos: VehiclePhotosBySlot = {};
+      const files = req.files as { [fieldname: string]: Express.Multer.File[] } | undefined;
+      for (const slot of VEHICLE_PHOTO_SLOTS) {
+        const file = files?.[slot]?.[0];
+        if (!file) continue;
+        try {
+          returnPhotos[slot] = await imageProcessor.processVehiclePhoto(file.buffer, `return-${file.originalname}`);
+        } catch (error) {
+          console.error("Error processing return photo:", error);
+        }
+      }
+
+      const returnedAt = checkIn.returnedAt ?? new Date();
+      const rates = {
+        ...DEFAULT_SETTLEMENT_RATES,
+        fuelChargePerEighth: checkIn.fuelChargePerEighth,
+        lateFeePerHour: checkIn.lateFeePerHour,
+      };
+      // Settle against what the ledger says is held; rentals from before the
+      // ledger fall back to the agreed deposit
+      const depositLedger = await storage.getDepositLedger(rentalId);
+      const deposit = depositLedger.length > 0 ? summarizeDepositLedger(depositLedger).held.toFixed(2) : rental.deposit;
+      const settlement = computeRentalSettlement({ ...rental, deposit }, { ...checkIn, returnedAt }, rates);
+
+      const { rental: returnedRental, rentalReturn } = await storage.recordRentalReturn({
+        rentalId,
+        returnedAt,
+        returnMileage: checkIn.returnMileage,
+        returnFuelLevel: checkIn.returnFuelLevel,
+        returnPhotos,
+        distanceDriven: settlement.distanceDriven,
+        mileageAllowance: settlement.mileageAllowance,
+        excessKm: settlement.excessKm,
+        mileageCharge: settlement.mileageCharge.toFixed(2),
+        fuelShortfall: settlement.fuelShortfall,
+        fuelCharge: settlement.fuelCharge.toFixed(2),
+        lateHours: settlement.lateHours,
+        lateFee: settlement.lateFee.toFixed(2),
+        damages: checkIn.damages,
+        damageCharge: settlement.damageCharge.toFixed(2),
+        totalCharges: settlement.totalCharges.toFixed(2),
+        depositHeld: settlement.depositHeld.toFixed(2),
+        depositDeducted: settlement.depositDeducted.toFixed(2),
+        depositRefund: settlement.depositRefund.toFixed(2),
+        balanceDue: settlement.balanceDue.toFixed(2),
+        rates,
+        notes: checkIn.notes || null,
+        checkedInByStaffId: req.staff!.id,
+      }, staffRentalActor(req));
+
+      await recordStaffLog(req, {
+        staffId: req.staff!.id,
+        staffUsername: req.staff!.username,
+        action: "RENTAL_RETURNED",
+        targetType: "rental",
+        targetId: rentalId,
+        details: {
+          vehicle: rental.vehicle,
+          customer: rental.customerId,
+          returnedAt: returnedAt.toISOString(),
+          returnMileage: checkIn.returnMileage,
+          returnFuelLevel: checkIn.returnFuelLevel,
+          settlement,
+        },
+      });
+
+      res.json({
+        message: "Vehicle checked in successfully",
+        rental: withRentalLifecycle(req, returnedRental),
+        settlement: rentalReturn,
+      });
+    } catch (error) {
+      if (error instanceof RentalTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Rental return error:", error);
+      res.status(400).json({ message: "Failed to check in vehicle", error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/staff/rentals/:id/return", async (req, res) => {
+    try {
+      const rentalId = parseInt(req.params.id);
+      const rentalReturn = await storage.getRentalReturn(rentalId);
+      if (!rentalReturn) {
+        return res.status(404).json({ message: "This rental has not been checked in" });
+      }
+      res.json(rentalReturn);
+    } catch (error) {
+      console.error("Get rental return error:", error);
+      res.status(500).json({ message: "Failed to get rental return", error: (error as Error).message });
+    }
+  });
+
+  // Damage inspection: handover and return photos per slot, with the damage
+  // marked on the vehicle diagram
+  app.get("/api/staff/rentals/:id/inspection", async (req, res) => {
+    try {
+      const rental = await storage.getRentalById(parseInt(req.params.id));
+      if (!rental) {
+        return res.status(404).json({ message: "Rental not found" });
+      }
+      res.json(await getDamageInspectionView(rental));
+    } catch (error) {
+      console.error("Get damage inspection error:", error);
+      res.status(500).json({ message: "Failed to get damage inspection", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/staff/rentals/:id/inspection/points", requirePermission(STAFF_PERMISSIONS.MANAGE_RENTALS), upload.single('estimateDocument'), async (req, res) => {
+    try {
+      const rentalId = parseInt(req.params.id);
+      const point = damagePointSchema.parse(req.body);
+
+      const rental = await storage.getRentalById(rentalId);
+      if (!rental) {
+        return res.status(404).json({ message: "Rental not found" });
+      }
+      const existing = await storage.getDamageInspection(rentalId);
+      if (!canEditDamageInspection(rental, existing?.inspection)) {
+        return res.status(409).json({ message: "Damage can only be marked on a returned rental before the inspection is finalized" });
+      }
+
+      let estimateDocumentUrl: string | null = null;
+      if (req.file) {
+        if (!req.file.mimetype.startsWith("image/") && req.file.mimetype !== "application/pdf") {
+          return res.status(400).json({ message: "Repair estimates must be an image or a PDF" });
+        }
+        estimateDocumentUrl = await saveUploadedFile(req.file.buffer, `estimate-${req.file.originalname}`, req.file.mimetype);
+      }
+
+      const inspection = existing?.inspection ?? await storage.getOrCreateDamageInspection(rentalId, req.staff!.id);
+      const damagePoint = await storage.createDamagePoint({
+        ...point,
+        repairEstimate: point.repairEstimate.toFixed(2),
+        estimateDocumentUrl,
+        inspectionId: inspection.id,
+        createdByStaffId: req.staff!.id,
+      });
+      res.json(damagePoint);
+    } catch (error) {
+      console.error("Add damage point error:", error);
+      res.status(400).json({ message: "Failed to mark damage", error: (error as Error).message });
+    }
+  });
+
+  app.put("/api/staff/rentals/:id/inspection/points/:pointId", requirePermission(STAFF_PERMISSIONS.MANAGE_RENTALS), async (req, res) => {
+    try {
+      const rentalId = parseInt(req.params.id);
+      const updates = updateDamagePointSchema.parse(req.body);
+
+      const rental = await storage.getRentalById(rentalId);
+      const existing = await storage.getDamageInspection(rentalId);
+      const point = existing?.points.find(p => p.id === parseInt(req.params.pointId));
+      if (!rental || !existing || !point) {
+        return res.status(404).json({ message: "Damage mark not found" });
+      }
+      if (!canEditDamageInspection(rental, existing.inspection)) {
+        return res.status(409).json({ message: "This damage inspection can no longer be changed" });
+      }
+
+      const damagePoint = await storage.updateDamagePoint(point.id, {
+        ...updates,
+        repairEstimate: updates.repairEstimate?.toFixed(2),
+      });
+      res.json(damagePoint);
+    } catch (error) {
+      console.error("Update damage point error:", error);
+      res.status(400).json({ message: "Failed to update damage mark", error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/staff/rentals/:id/inspection/points/:pointId", requirePermission(STAFF_PERMISSIONS.MANAGE_RENTALS), async (req, res) => {
+    try {
+      const rentalId = parseInt(req.params.id);
+      const rental = await storage.getRentalById(rentalId);
+      const existing = await storage.getDamageInspection(rentalId);
+      const point = existing?.points.find(p => p.id === parseInt(req.params.pointId));
+      if (!rental || !existing || !point) {
+        return res.status(404).json({ message: "Damage mark not found" });
+      }
+      if (!canEditDamageInspection(rental, existing.inspection)) {
+        return res.status(409).json({ message: "This damage inspection can no longer be changed" });
+      }
+
+      await storage.deleteDamagePoint(point.id);
+      res.json({ message: "Damage mark removed" });
+    } catch (error) {
+      console.error("Delete damage point error:", error);
+      res.status(500).json({ message: "Failed to remove damage mark", error: (error as Error).message });
+    }
+  });
+
+  // Charges the repair estimates against the deposit and issues the damage
+  // report PDF. The inspection cannot be changed afterwards.
+  app.post("/api/staff/rentals/:id/inspection/finalize", requirePermission(STAFF_PERMISSIONS.MANAGE_RENTALS), async (req, res) => {
+    try {
+      const rentalId = parseInt(req.params.id);
+      const rental = await storage.getRentalById(rentalId);
+      if (!rental) {
+        return res.status(404).json({ message: "Rental not found" });
+      }
+      const existing = await storage.getDamageInspection(rentalId);
+      if (!canEditDamageInspection(rental, existing?.inspection)) {
+        return res.status(409).json({ message: "Only a returned rental's open damage inspection can be finalized" });
+      }
+      if (!await storage.getRentalReturn(rentalId)) {
+        return res.status(409).json({ message: "Check in the vehicle before finalizing the damage inspection" });
+      }
+
+      if (!existing || existing.points.length === 0) {
+        return res.status(400).json({ message: "Mark at least one damage before finalizing the inspection" });
+      }
+
+      const { rentalReturn } = await storage.finalizeDamageInspection(existing.inspection.id, req.staff!.id);
+
+      let reportPdfUrl: string | null = null;
+      try {
+        reportPdfUrl = await generateDamageReport(rental);
+      } catch (reportError) {
+        console.error("Damage report generation error:", reportError);
+      }
+
+      await recordStaffLog(req, {
+        staffId: req.staff!.id,
+        staffUsername: req.staff!.username,
+        action: "DAMAGE_INSPECTION_FINALIZED",
+        targetType: "rental",
+        targetId: rentalId,
+        details: {
+          vehicle: rental.vehicle,
+          customer: rental.customerId,
+          damagePoints: existing.points.length,
+          damageCharge: rentalReturn.damageCharge,
+          depositDeducted: rentalReturn.depositDeducted,
+          balanceDue: rentalReturn.balanceDue,
+          reportPdfUrl,
+        },
+      });
+
+      res.json({
+        message: reportPdfUrl
+          ? "Damage inspection finalized"
+          : "Damage inspection finalized, but the report PDF could not be generated. Try regenerating it.",
+        settlement: rentalReturn,
+        reportPdfUrl,
+      });
+    } catch (error) {
+      console.error("Finalize damage inspection error:", error);
+      res.status(500).json({ message: "Failed to finalize damage inspection", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/staff/rentals/:id/inspection/report", requirePermission(STAFF_PERMISSIONS.MANAGE_RENTALS), async (req, res) => {
+    try {
+      const rental = await storage.getRentalById(parseInt(req.params.id));
+      if (!rental) {
+        return res.status(404).json({ message: "Rental not found" });
+      }
+      const existing = await storage.getDamageInspection(rental.id);
+      if (!existing?.inspection.finalizedAt) {
+        return res.status(409).json({ message: "Finalize the damage inspection before generating its report" });
+      }
+
+      const reportPdfUrl = await generateDamageReport(rental);
+      res.json({ message: "Damage report generated", reportPdfUrl });
+    } catch (error) {
+      console.error("Damage report generation error:", error);
+      res.status(500).json({ message: "Failed to generate damage report", error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/staff/rentals/:id/deposit", async (req, res) => {
+    try {
+      const entries = await storage.getDepositLedger(parseInt(req.params.id));
+      res.json({ entries, summary: summarizeDepositLedger(entries) });
+    } catch (error) {
+      console.error("Get deposit ledger error:", error);
+      res.status(500).json({ message: "Failed to get deposit ledger", error: (error as Error).message });
+    }
+  });
+
+  // Records a deposit collection, deduction or refund by hand. Deductions
+  // and refunds can't exceed what is still held.
+  app.post("/api/staff/rentals/:id/deposit", requirePermission(STAFF_PERMISSIONS.MANAGE_RENTALS), async (req, res) => {
+    try {
+      const rentalId = parseInt(req.params.id);
+      const entry = depositEntrySchema.parse(req.body);
+      const rental = await storage.getRentalById(rentalId);
+      if (!rental) {
+        return res.status(404).json({ message: "Rental not found" });
+      }
+
+      const created = await storage.addDepositEntry(rentalId, entry, req.staff!.id);
+      const entries = await storage.getDepositLedger(rentalId);
+      const summary = summarizeDepositLedger(entries);
+
+      await recordStaffLog(req, {
+        staffId: req.staff!.id,
+        staffUsername: req.staff!.username,
+        action: `DEPOSIT_${entry.type.toUpperCase()}`,
+        targetType: "rental",
+        targetId: rentalId,
+        details: {
+          customer: rental.customerId,
+          amount: created.amount,
+          reason: created.reason,
+          method: created.method,
+          reference: created.reference,
+          held: summary.held,
+        },
+      });
+
+      res.json({ entry: created, entries, summary });
+    } catch (error) {
+      if (error instanceof DepositLedgerError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Deposit ledger entry error:", error);
+      res.status(400).json({ message: "Failed to record deposit entry", error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/staff/deposits/outstanding", async (req, res) => {
+    try {
+      const deposits = await storage.getOutstandingDeposits();
+      res.json(deposits);
     } catch (error) {
-      console.error("Password reset error:", error);
-      res.status(500).json({ message: "Failed to reset password", error: error.message });
+      console.error("Get outstanding deposits error:", error);
+      res.status(500).json({ message: "Failed to get outstanding deposits", error: (error as Error).message });
     }
   });
 
-  // Delete Rental Agreement (Staff)
-  // Cancel Rental
-  app.patch("/api/staff/rentals/:id/cancel", async (req, res) => {
+  app.get("/api/staff/rentals/:id/status-history", async (req, res) => {
     try {
       const rentalId = parseInt(req.params.id);
-      const rental = await storage.updateRentalStatus(rentalId, "cancelled");
-      
-      // Log staff action for cancelling rental
-      try {
-        const staffId = req.body.staffId || 1; // Should be provided by frontend
-        const staffUsername = req.body.staffUsername || "admin"; // Should be provided by frontend
-        
-        await storage.createStaffLog({
-          staffId,
-          staffUsername,
-          action: "RENTAL_CANCELLED",
-          targetType: "rental",
-          targetId: rentalId,
-          details: {
-            rentalId,
-            vehicle: rental.vehicle,
-            customer: rental.customerId,
-            reason: req.body.reason || "Cancelled by staff",
-            cancelledAt: new Date().toISOString()
-          }
-        });
-      } catch (logError) {
-        console.error("Failed to log rental cancellation:", logError);
-      }
-      
-      res.json({ message: "Rental cancelled successfully", rental });
+      const history = await storage.getRentalStatusHistory(rentalId);
+      res.json(history);
     } catch (error) {
-      console.error("Cancel rental error:", error);
-      res.status(500).json({ message: "Failed to cancel rental", error: error.message });
+      console.error("Get rental status history error:", error);
+      res.status(500).json({ message: "Failed to get rental status history", error: (error as Error).message });
     }
   });
 
-  app.delete("/api/staff/rentals/:id", async (req, res) => {
+  app.delete("/api/staff/rentals/:id", requirePermission(STAFF_PERMISSIONS.DELETE_RENTAL), async (req, res) => {
     try {
       const rentalId = parseInt(req.params.id);
       const rental = await storage.getRentalById(rentalId);
@@ -1612,12 +3116,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Log staff action for deleting rental
       try {
-        const staffId = req.body.staffId || 1; // Should be provided by frontend
-        const staffUsername = req.body.staffUsername || "admin"; // Should be provided by frontend
-        
-        await storage.createStaffLog({
-          staffId,
-          staffUsername,
+        await recordStaffLog(req, {
+          staffId: req.staff!.id,
+          staffUsername: req.staff!.username,
           action: "RENTAL_DELETED",
           targetType: "rental",
           targetId: rentalId,
@@ -1632,7 +3133,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.error("Failed to log rental deletion:", logError);
       }
 
+      // The vehicle link goes with the rental, so look it up first
+      const vehicleId = await storage.getRentalVehicleId(rentalId);
       await storage.deleteRental(rentalId);
+      await offerReleasedDates(vehicleId);
       res.json({ message: "Rental agreement deleted successfully" });
     } catch (error) {
       console.error("Delete rental error:", error);
@@ -1641,10 +3145,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update Customer Status (Staff)
-  app.patch("/api/staff/customers/:id/status", async (req, res) => {
+  app.patch("/api/staff/customers/:id/status", requirePermission(STAFF_PERMISSIONS.MANAGE_CUSTOMERS), async (req, res) => {
     try {
       const customerId = parseInt(req.params.id);
-      const { status, staffId, staffUsername } = req.body;
+      const { status } = req.body;
       
       if (!['active', 'blacklisted'].includes(status)) {
         return res.status(400).json({ message: "Invalid status" });
@@ -1656,9 +3160,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       await storage.updateCustomerStatus(customerId, status);
       
       // Log the action
-      await storage.createStaffLog({
-        staffId: staffId || 1,
-        staffUsername: staffUsername || 'Unknown',
+      await recordStaffLog(req, {
+        staffId: req.staff!.id,
+        staffUsername: req.staff!.username,
         action: 'customer_status_updated',
         targetType: 'customer',
         targetId: customerId,
@@ -1673,11 +3177,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Staff: Update Customer
-  app.patch("/api/staff/customers/:id", async (req, res) => {
+  app.patch("/api/staff/customers/:id", requirePermission(STAFF_PERMISSIONS.MANAGE_CUSTOMERS), async (req, res) => {
     try {
       const customerId = parseInt(req.params.id);
       const updates = req.body;
-      const { staffId, staffUsername, ...customerUpdates } = updates;
+      // staffId/staffUsername are still sent by older clients; never persist them
+      const { staffId: _staffId, staffUsername: _staffUsername, ...customerUpdates } = updates;
       
       // Get current customer data for comparison
       const currentCustomer = await storage.getCustomerById(customerId);
@@ -1702,9 +3207,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
         
         if (Object.keys(changes).length > 0) {
-          await storage.createStaffLog({
-            staffId: staffId || 1,
-            staffUsername: staffUsername || "admin",
+          await recordStaffLog(req, {
+            staffId: req.staff!.id,
+            staffUsername: req.staff!.username,
             action: "CUSTOMER_UPDATED",
             targetType: "customer",
             targetId: customerId,
@@ -1731,22 +3236,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Staff: Delete Customer
-  app.delete("/api/staff/customers/:id", async (req, res) => {
+  app.delete("/api/staff/customers/:id", requirePermission(STAFF_PERMISSIONS.DELETE_CUSTOMER), async (req, res) => {
     try {
       const customerId = parseInt(req.params.id);
-      const { staffId, staffUsername } = req.body;
       
       const customer = await storage.getCustomerById(customerId);
+      // Remove their ID documents and rental files too, so nothing is left orphaned
+      const filesDeleted = customer ? await deleteCustomerFiles(customer) : 0;
       await storage.deleteCustomer(customerId);
       
       // Log the action
-      await storage.createStaffLog({
-        staffId: staffId || 1,
-        staffUsername: staffUsername || 'Unknown',
+      await recordStaffLog(req, {
+        staffId: req.staff!.id,
+        staffUsername: req.staff!.username,
         action: 'customer_deleted',
         targetType: 'customer',
         targetId: customerId,
-        details: { customerName: customer?.fullName, customerEmail: customer?.email }
+        details: { customerName: customer?.fullName, customerEmail: customer?.email, filesDeleted }
       });
       
       res.json({ message: "Customer deleted successfully" });
@@ -1756,10 +3262,177 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Staff: Terms & Conditions acceptances of a customer, newest first
+  app.get("/api/staff/customers/:id/terms-acceptances", requirePermission(STAFF_PERMISSIONS.MANAGE_CUSTOMERS), async (req, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      const [acceptances, termsStatus] = await Promise.all([
+        storage.getTermsAcceptancesByCustomer(customerId),
+        getCustomerTermsStatus(customerId),
+      ]);
+      res.json({ termsStatus, acceptances });
+    } catch (error) {
+      console.error("Get terms acceptances error:", error);
+      res.status(500).json({ message: "Failed to get terms acceptances", error: (error as Error).message });
+    }
+  });
+
+  // Staff: Terms & Conditions versions. Drafts can be edited; publishing makes
+  // a version current and every customer must accept it again.
+  app.get("/api/staff/terms", requirePermission(STAFF_PERMISSIONS.MANAGE_TERMS), async (req, res) => {
+    try {
+      await getCurrentTerms();
+      res.json(await storage.getTermsVersions());
+    } catch (error) {
+      console.error("Get terms versions error:", error);
+      res.status(500).json({ message: "Failed to get terms versions", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/staff/terms", requirePermission(STAFF_PERMISSIONS.MANAGE_TERMS), async (req, res) => {
+    try {
+      const terms = insertTermsVersionSchema.parse(req.body);
+      const created = await storage.createTermsVersion(terms, req.staff!.id);
+      res.json(created);
+    } catch (error) {
+      console.error("Create terms version error:", error);
+      res.status(400).json({ message: "Failed to create terms version", error: (error as Error).message });
+    }
+  });
+
+  app.put("/api/staff/terms/:id", requirePermission(STAFF_PERMISSIONS.MANAGE_TERMS), async (req, res) => {
+    try {
+      const termsId = parseInt(req.params.id);
+      const updates = insertTermsVersionSchema.partial().parse(req.body);
+      const existing = await storage.getTermsVersionById(termsId);
+      if (!existing) {
+        return res.status(404).json({ message: "Terms version not found" });
+      }
+      const updated = await storage.updateTermsVersion(termsId, updates);
+      if (!updated) {
+        return res.status(409).json({ message: "Published terms cannot be changed. Create a new version instead." });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Update terms version error:", error);
+      res.status(400).json({ message: "Failed to update terms version", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/staff/terms/:id/publish", requirePermission(STAFF_PERMISSIONS.MANAGE_TERMS), async (req, res) => {
+    try {
+      const termsId = parseInt(req.params.id);
+      const existing = await storage.getTermsVersionById(termsId);
+      if (!existing) {
+        return res.status(404).json({ message: "Terms version not found" });
+      }
+      const published = await storage.publishTermsVersion(termsId, req.staff!.id);
+      if (!published) {
+        return res.status(409).json({ message: "This version has already been published" });
+      }
+
+      try {
+        await recordStaffLog(req, {
+          staffId: req.staff!.id,
+          staffUsername: req.staff!.username,
+          action: "TERMS_PUBLISHED",
+          targetType: "terms",
+          targetId: termsId,
+          details: { version: published.version, changeSummary: published.changeSummary, ipAddress: req.ip }
+        });
+      } catch (logError) {
+        console.error("Failed to log terms publication:", logError);
+      }
+
+      res.json(published);
+    } catch (error) {
+      console.error("Publish terms version error:", error);
+      res.status(500).json({ message: "Failed to publish terms version", error: (error as Error).message });
+    }
+  });
+
+  // Staff: Export a customer's personal data (PDPA access request)
+  app.get("/api/staff/customers/:id/personal-data", requirePermission(STAFF_PERMISSIONS.MANAGE_CUSTOMER_PRIVACY), async (req, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      const customer = await storage.getCustomerById(customerId);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      try {
+        await recordStaffLog(req, {
+          staffId: req.staff!.id,
+          staffUsername: req.staff!.username,
+          action: "CUSTOMER_PERSONAL_DATA_EXPORTED",
+          targetType: "customer",
+          targetId: customerId,
+          details: { ipAddress: req.ip }
+        });
+      } catch (logError) {
+        console.error("Failed to log personal data export:", logError);
+      }
+
+      await streamPersonalDataExport(customer, res);
+    } catch (error) {
+      console.error("Personal data export error:", error);
+      if (!res.headersSent) {
+        return res.status(500).json({ message: "Failed to export personal data", error: (error as Error).message });
+      }
+      res.destroy(error as Error);
+    }
+  });
+
+  // Staff: Erase a customer's personal data (PDPA erasure request). Rental
+  // amounts, payment proofs and invoices are kept for the accounts.
+  app.post("/api/staff/customers/:id/erase", requirePermission(STAFF_PERMISSIONS.MANAGE_CUSTOMER_PRIVACY), async (req, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      const { reason } = eraseCustomerSchema.parse(req.body);
+
+      const customer = await storage.getCustomerById(customerId);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      if (customer.status === "erased") {
+        return res.status(409).json({ message: "This customer's personal data has already been erased" });
+      }
+
+      const customerRentals = await storage.getRentalsByCustomer(customerId);
+      if (customerRentals.some(rental => !FINAL_RENTAL_STATUSES.includes(resolveRentalStatus(rental)))) {
+        return res.status(409).json({ message: "Close or cancel the customer's open rentals before erasing their data" });
+      }
+
+      const result = await eraseCustomerPersonalData(customer);
+
+      // Only the outcome is logged; the erased values must not survive here
+      try {
+        await recordStaffLog(req, {
+          staffId: req.staff!.id,
+          staffUsername: req.staff!.username,
+          action: "CUSTOMER_PERSONAL_DATA_ERASED",
+          targetType: "customer",
+          targetId: customerId,
+          details: { reason, ...result, ipAddress: req.ip }
+        }, { includeChanges: false });
+      } catch (logError) {
+        console.error("Failed to log personal data erasure:", logError);
+      }
+
+      res.json({ message: "Customer personal data erased", ...result });
+    } catch (error) {
+      console.error("Personal data erasure error:", error);
+      res.status(400).json({ message: "Failed to erase personal data", error: (error as Error).message });
+    }
+  });
+
   // Check if customer files exist on filesystem
-  app.get("/api/customers/:id/check-files", async (req, res) => {
+  app.get("/api/customers/:id/check-files", requireCustomer, async (req, res) => {
     try {
       const customerId = parseInt(req.params.id);
+      if (customerId !== req.customer!.id) {
+        return res.status(403).json({ message: "You can only check your own files" });
+      }
       const customer = await storage.getCustomerById(customerId);
       
       if (!customer) {
@@ -1825,7 +3498,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Document re-upload endpoint for existing customers
-  app.post("/api/staff/customers/:id/reupload-documents", upload.fields([
+  app.post("/api/staff/customers/:id/reupload-documents", requirePermission(STAFF_PERMISSIONS.MANAGE_CUSTOMERS), upload.fields([
     { name: 'icPassport', maxCount: 1 },
     { name: 'driversLicense', maxCount: 1 },
     { name: 'utilityBill', maxCount: 1 }
@@ -1883,9 +3556,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Log the staff action
       try {
-        await storage.createStaffLog({
-          staffId: 1,
-          staffUsername: "admin",
+        await recordStaffLog(req, {
+          staffId: req.staff!.id,
+          staffUsername: req.staff!.username,
           action: "CUSTOMER_DOCUMENTS_REUPLOADED",
           targetType: "customer",
           targetId: customerId,
@@ -1926,11 +3599,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Staff: Vehicle blackouts shown on the booking calendar
+  app.get("/api/staff/calendar/blackouts", async (req, res) => {
+    try {
+      const month = req.query.month ? parseInt(req.query.month as string) : undefined;
+      const year = req.query.year ? parseInt(req.query.year as string) : undefined;
+
+      const blackouts = await storage.getCalendarBlackouts(month, year);
+      res.json(blackouts);
+    } catch (error) {
+      console.error("Calendar blackouts error:", error);
+      res.status(500).json({ message: "Failed to fetch calendar blackouts" });
+    }
+  });
+
+  // Staff: Dates held for booking requests, shown on the booking calendar
+  app.get("/api/staff/calendar/holds", async (req, res) => {
+    try {
+      const month = req.query.month ? parseInt(req.query.month as string) : undefined;
+      const year = req.query.year ? parseInt(req.query.year as string) : undefined;
+
+      const holds = await storage.getCalendarHolds(month, year);
+      res.json(holds);
+    } catch (error) {
+      console.error("Calendar holds error:", error);
+      res.status(500).json({ message: "Failed to fetch calendar holds" });
+    }
+  });
+
   // Get All Rentals (Staff)
   app.get("/api/staff/rentals", async (req, res) => {
     try {
       const rentals = await storage.getAllRentals();
-      res.json(rentals);
+      res.json(rentals.map(rental => withRentalLifecycle(req, rental)));
     } catch (error) {
       console.error("Get rentals error:", error);
       res.status(500).json({ message: "Failed to get rentals", error: error.message });
@@ -1940,26 +3641,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Check Vehicle Availability
   app.post("/api/rentals/check-availability", async (req, res) => {
     try {
-      const { vehicle, startDate, endDate, excludeRentalId } = req.body;
+      // Holds count unless includeHolds is false, e.g. to see whether only a
+      // pending request stands in the way
+      const { vehicleId, startDate, endDate, excludeRentalId, includeHolds = true } = req.body;
       
-      if (!vehicle || !startDate || !endDate) {
+      if (!vehicleId || !startDate || !endDate) {
         return res.status(400).json({ message: "Vehicle and dates are required" });
       }
 
       const start = new Date(startDate);
       const end = new Date(endDate);
       
-      const isAvailable = await storage.checkVehicleAvailability(vehicle, start, end, excludeRentalId);
-      const conflicts = isAvailable ? [] : await storage.getConflictingRentals(vehicle, start, end, excludeRentalId);
+      const conflicts = await storage.getConflictingRentals(parseInt(vehicleId), start, end, excludeRentalId);
+      const blackouts = await storage.getConflictingBlackouts(parseInt(vehicleId), start, end);
+      const holds = includeHolds ? await storage.getConflictingHolds(parseInt(vehicleId), start, end) : [];
       
       res.json({ 
-        available: isAvailable,
-        conflicts: conflicts.map(rental => ({
-          id: rental.id,
-          startDate: rental.startDate,
-          endDate: rental.endDate,
-          customerId: rental.customerId
-        }))
+        available: conflicts.length === 0 && blackouts.length === 0 && holds.length === 0,
+        conflicts: describeRentalConflicts(conflicts),
+        blackouts: describeVehicleBlackouts(blackouts),
+        holds: describeBookingRequestHolds(holds)
       });
     } catch (error) {
       console.error("Availability check error:", error);
@@ -1968,18 +3669,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get Vehicle Schedule
-  app.get("/api/staff/vehicle-schedule/:vehicle", async (req, res) => {
+  app.get("/api/staff/vehicle-schedule/:vehicleId", async (req, res) => {
     try {
-      const { vehicle } = req.params;
+      const vehicleId = parseInt(req.params.vehicleId);
       const { month, year } = req.query;
       
       const schedule = await storage.getVehicleSchedule(
-        vehicle, 
+        vehicleId, 
         month ? parseInt(month as string) : undefined,
         year ? parseInt(year as string) : undefined
       );
       
-      res.json(schedule);
+      res.json(schedule.map(rental => withRentalLifecycle(req, rental)));
     } catch (error) {
       console.error("Get schedule error:", error);
       res.status(500).json({ message: "Failed to get vehicle schedule", error: error.message });
@@ -1987,7 +3688,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delivery endpoints
-  app.post("/api/staff/deliveries", async (req, res) => {
+  app.post("/api/staff/deliveries", requirePermission(STAFF_PERMISSIONS.MANAGE_DELIVERIES), async (req, res) => {
     try {
       // Convert the deliveryTime string to Date object and ensure numeric values are strings
       const deliveryData = {
@@ -2016,7 +3717,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/staff/deliveries/:id", async (req, res) => {
+  app.delete("/api/staff/deliveries/:id", requirePermission(STAFF_PERMISSIONS.MANAGE_DELIVERIES), async (req, res) => {
     try {
       const deliveryId = parseInt(req.params.id);
       await storage.deleteDelivery(deliveryId);
@@ -2028,7 +3729,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Invoice endpoints
-  app.post("/api/staff/invoices", async (req, res) => {
+  app.post("/api/staff/invoices", requirePermission(STAFF_PERMISSIONS.MANAGE_INVOICES), async (req, res) => {
     try {
       // Convert the invoiceDate string to Date object and ensure totalAmount is string
       const invoiceData = {
@@ -2056,7 +3757,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/staff/invoices", async (req, res) => {
+  app.get("/api/staff/invoices", requirePermission(STAFF_PERMISSIONS.MANAGE_INVOICES), async (req, res) => {
     try {
       const invoices = await storage.getAllInvoices();
       res.json(invoices);
@@ -2066,7 +3767,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/staff/invoices/:id", async (req, res) => {
+  app.delete("/api/staff/invoices/:id", requirePermission(STAFF_PERMISSIONS.MANAGE_INVOICES), async (req, res) => {
     try {
       const invoiceId = parseInt(req.params.id);
       await storage.deleteInvoice(invoiceId);
@@ -2078,7 +3779,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Download Invoice PDF endpoint
-  app.get("/api/staff/invoices/:id/download", async (req, res) => {
+  app.get("/api/staff/invoices/:id/download", requirePermission(STAFF_PERMISSIONS.MANAGE_INVOICES), async (req, res) => {
     try {
       const invoiceId = parseInt(req.params.id);
       const invoice = await storage.getInvoiceById(invoiceId);
@@ -2103,6 +3804,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Expiring link to an invoice PDF that can be shared with the customer
+  app.post("/api/staff/invoices/:id/download-link", requirePermission(STAFF_PERMISSIONS.MANAGE_INVOICES), async (req, res) => {
+    try {
+      const invoiceId = parseInt(req.params.id);
+      const invoice = await storage.getInvoiceById(invoiceId);
+
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      const pdfUrl = await pdfGenerator.generateInvoice(invoice);
+      res.json({
+        url: `${getAppBaseUrl(req)}${createSignedDownloadUrl(pdfUrl)}`,
+        expiresAt: new Date(Date.now() + DOWNLOAD_LINK_TTL_MS).toISOString(),
+      });
+    } catch (error) {
+      console.error("Invoice download link error:", error);
+      res.status(500).json({ message: "Failed to create invoice download link", error: (error as Error).message });
+    }
+  });
+
   // Download Rentals PDF endpoint
   app.get("/api/staff/rentals/download", async (req, res) => {
     try {
@@ -2127,41 +3849,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Staff Logging Routes
   
-  // Create Staff Log
-  app.post("/api/staff/logs", async (req, res) => {
+  // The staff log is append-only: entries are written by recordStaffLog and
+  // the audit middleware, never directly by clients.
+
+  // Get Staff Logs, optionally filtered (requires the audit log permission)
+  app.post("/api/staff/logs/view", requirePermission(STAFF_PERMISSIONS.VIEW_AUDIT_LOG), async (req, res) => {
     try {
-      const logData = req.body;
-      const staffLog = await storage.createStaffLog(logData);
-      res.json(staffLog);
+      const filter = staffLogFilterSchema.parse(req.body ?? {});
+      const logs = await storage.getStaffLogs(filter);
+      res.json(logs);
     } catch (error) {
-      console.error("Create staff log error:", error);
-      res.status(500).json({ message: "Failed to create staff log", error: error.message });
+      console.error("Get staff logs error:", error);
+      res.status(400).json({ message: "Failed to get staff logs", error: (error as Error).message });
     }
   });
 
-  // Get All Staff Logs (Protected - requires superstaff authentication)
-  app.post("/api/staff/logs/view", async (req, res) => {
+  // Distinct actions and target types, for the log filters
+  app.get("/api/staff/logs/filters", requirePermission(STAFF_PERMISSIONS.VIEW_AUDIT_LOG), async (req, res) => {
     try {
-      const { username, password, staffId } = req.body;
-      
-      // Verify superstaff credentials
-      if (username?.toLowerCase() !== "superstaff" || password !== "7145") {
-        return res.status(401).json({ message: "Access denied. Superstaff credentials required." });
-      }
-      
-      const logs = staffId ? await storage.getStaffLogsByStaffId(staffId) : await storage.getAllStaffLogs();
-      res.json(logs);
+      res.json(await storage.getStaffLogFilterOptions());
     } catch (error) {
-      console.error("Get staff logs error:", error);
-      res.status(500).json({ message: "Failed to get staff logs", error: error.message });
+      console.error("Get staff log filters error:", error);
+      res.status(500).json({ message: "Failed to get log filters", error: (error as Error).message });
+    }
+  });
+
+  // Export Staff Logs as CSV, with the same filters as the log view
+  app.get("/api/staff/logs/export", requirePermission(STAFF_PERMISSIONS.VIEW_AUDIT_LOG), async (req, res) => {
+    try {
+      const filter = staffLogFilterSchema.parse(req.query);
+      const logs = await storage.getStaffLogs(filter);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="staff-logs-${new Date().toISOString().split('T')[0]}.csv"`);
+      res.send(staffLogsToCsv(logs));
+    } catch (error) {
+      console.error("Export staff logs error:", error);
+      res.status(400).json({ message: "Failed to export staff logs", error: (error as Error).message });
+    }
+  });
+
+  // Check the staff log hash chain for edited or deleted entries
+  app.get("/api/staff/logs/verify", requirePermission(STAFF_PERMISSIONS.VIEW_AUDIT_LOG), async (req, res) => {
+    try {
+      res.json(await storage.verifyStaffLogChain());
+    } catch (error) {
+      console.error("Verify staff logs error:", error);
+      res.status(500).json({ message: "Failed to verify staff logs", error: (error as Error).message });
     }
   });
 
   // Get Staff Members (for activity tracking)
-  app.get("/api/staff/members", async (req, res) => {
+  app.get("/api/staff/members", requirePermission(STAFF_PERMISSIONS.MANAGE_STAFF, STAFF_PERMISSIONS.VIEW_AUDIT_LOG), async (req, res) => {
     try {
       const staffMembers = await storage.getAllStaff();
-      res.json(staffMembers);
+      const membersWithRoles = await Promise.all(
+        staffMembers.map(async ({ hashedPassword, ...member }) => ({
+          ...member,
+          role: await storage.getStaffRole(member.id),
+          twoFactorEnabled: !!(await storage.getStaffTwoFactor(member.id))?.enabledAt
+        }))
+      );
+      res.json(membersWithRoles);
     } catch (error) {
       console.error("Get staff members error:", error);
       res.status(500).json({ message: "Failed to fetch staff members" });
@@ -2169,13 +3918,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create New Staff Member
-  app.post("/api/staff/create", async (req, res) => {
+  app.post("/api/staff/create", requirePermission(STAFF_PERMISSIONS.MANAGE_STAFF), async (req, res) => {
     try {
       const { username, password } = req.body;
+      const role: StaffRole = req.body.role || "counter_staff";
       
       if (!username || !password) {
         return res.status(400).json({ message: "Username and password are required" });
       }
+
+      if (!STAFF_ROLES.includes(role)) {
+        return res.status(400).json({ message: "Invalid staff role" });
+      }
+
+      if (role === "owner" && req.staffRole !== "owner") {
+        return res.status(403).json({ message: "Only an owner can create another owner" });
+      }
       
       if (password.length < 4) {
         return res.status(400).json({ message: "Password must be at least 4 characters" });
@@ -2188,7 +3946,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const newStaff = await storage.createStaff({ username, password });
-      res.json({ message: "Staff member created successfully", staff: { id: newStaff.id, username: newStaff.username } });
+      await storage.setStaffRole(newStaff.id, role, req.staff!.id);
+      res.json({ message: "Staff member created successfully", staff: { id: newStaff.id, username: newStaff.username, role } });
     } catch (error) {
       console.error("Create staff error:", error);
       res.status(500).json({ message: "Failed to create staff member", error: error.message });
@@ -2196,7 +3955,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Reset Staff Password
-  app.patch("/api/staff/:staffId/reset-password", async (req, res) => {
+  app.patch("/api/staff/:staffId/reset-password", requirePermission(STAFF_PERMISSIONS.MANAGE_STAFF), async (req, res) => {
     try {
       const staffId = parseInt(req.params.staffId);
       const { newPassword } = req.body;
@@ -2204,8 +3963,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!newPassword || newPassword.length < 4) {
         return res.status(400).json({ message: "Password must be at least 4 characters" });
       }
+
+      if (await storage.getStaffRole(staffId) === "owner" && req.staffRole !== "owner") {
+        return res.status(403).json({ message: "Only an owner can reset an owner's password" });
+      }
       
       await storage.updateStaffPassword(staffId, newPassword);
+      // A password reset invalidates every session opened with the old password
+      await storage.deleteStaffSessions(staffId, staffId === req.staff!.id ? req.sessionID : undefined);
       res.json({ message: "Staff password reset successfully" });
     } catch (error) {
       console.error("Reset staff password error:", error);
@@ -2213,16 +3978,184 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Roles & Permissions
+  app.get("/api/staff/roles", requirePermission(STAFF_PERMISSIONS.MANAGE_STAFF), async (req, res) => {
+    try {
+      const rolePermissions = await storage.getAllRolePermissions();
+      const twoFactorRequired = await storage.getRoleTwoFactorRequirements();
+      res.json({ roles: STAFF_ROLES, permissions: Object.values(STAFF_PERMISSIONS), rolePermissions, twoFactorRequired });
+    } catch (error) {
+      console.error("Get roles error:", error);
+      res.status(500).json({ message: "Failed to get roles", error: error.message });
+    }
+  });
+
+  app.put("/api/staff/roles/:role/permissions", requirePermission(STAFF_PERMISSIONS.MANAGE_STAFF), async (req, res) => {
+    try {
+      const role = req.params.role as StaffRole;
+      if (!STAFF_ROLES.includes(role)) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      if (role === "owner") {
+        return res.status(400).json({ message: "Owner permissions cannot be changed" });
+      }
+
+      const { permissions } = updateRolePermissionsSchema.parse(req.body);
+      const previousPermissions = await storage.getRolePermissions(role);
+      await storage.setRolePermissions(role, permissions, req.staff!.id);
+
+      try {
+        await recordStaffLog(req, {
+          staffId: req.staff!.id,
+          staffUsername: req.staff!.username,
+          action: "ROLE_PERMISSIONS_UPDATED",
+          targetType: "role",
+          targetId: null,
+          details: { role, from: previousPermissions, to: permissions }
+        });
+      } catch (logError) {
+        console.error("Failed to log role permission update:", logError);
+      }
+
+      res.json({ role, permissions });
+    } catch (error) {
+      console.error("Update role permissions error:", error);
+      res.status(400).json({ message: "Failed to update role permissions", error: (error as Error).message });
+    }
+  });
+
+  app.put("/api/staff/roles/:role/two-factor", requirePermission(STAFF_PERMISSIONS.MANAGE_STAFF), async (req, res) => {
+    try {
+      const role = req.params.role as StaffRole;
+      if (!STAFF_ROLES.includes(role)) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      if (role === "owner" && req.staffRole !== "owner") {
+        return res.status(403).json({ message: "Only an owner can change the owner role's 2FA policy" });
+      }
+
+      const { required } = updateRoleTwoFactorSchema.parse(req.body);
+      await storage.setRoleTwoFactorRequired(role, required, req.staff!.id);
+      await logStaffTwoFactorEvent(req, req.staff!, "STAFF_2FA_POLICY_CHANGED", req.staff!.id, { role, required });
+
+      res.json({ role, required });
+    } catch (error) {
+      console.error("Update role 2FA policy error:", error);
+      res.status(400).json({ message: "Failed to update two-factor policy", error: (error as Error).message });
+    }
+  });
+
+  app.patch("/api/staff/:staffId/role", requirePermission(STAFF_PERMISSIONS.MANAGE_STAFF), async (req, res) => {
+    try {
+      const staffId = parseInt(req.params.staffId);
+      const { role } = insertStaffRoleSchema.pick({ role: true }).parse(req.body);
+
+      const staffMember = await storage.getStaffById(staffId);
+      if (!staffMember) {
+        return res.status(404).json({ message: "Staff member not found" });
+      }
+
+      const previousRole = await storage.getStaffRole(staffId);
+      if ((role === "owner" || previousRole === "owner") && req.staffRole !== "owner") {
+        return res.status(403).json({ message: "Only an owner can grant or revoke the owner role" });
+      }
+      if (previousRole === "owner" && role !== "owner" && await storage.countStaffWithRole("owner") <= 1) {
+        return res.status(400).json({ message: "Cannot demote the last owner account" });
+      }
+
+      await storage.setStaffRole(staffId, role, req.staff!.id);
+
+      try {
+        await recordStaffLog(req, {
+          staffId: req.staff!.id,
+          staffUsername: req.staff!.username,
+          action: "STAFF_ROLE_CHANGED",
+          targetType: "staff",
+          targetId: staffId,
+          details: { staffUsername: staffMember.username, from: previousRole, to: role }
+        });
+      } catch (logError) {
+        console.error("Failed to log staff role change:", logError);
+      }
+
+      res.json({ message: "Staff role updated successfully", staffId, role });
+    } catch (error) {
+      console.error("Update staff role error:", error);
+      res.status(400).json({ message: "Failed to update staff role", error: (error as Error).message });
+    }
+  });
+
+  // End All Sessions of a Staff Member
+  // Reset another staff member's 2FA, e.g. after a lost phone
+  app.delete("/api/staff/:staffId/2fa", requirePermission(STAFF_PERMISSIONS.MANAGE_STAFF), async (req, res) => {
+    try {
+      const staffId = parseInt(req.params.staffId);
+      const staffMember = await storage.getStaffById(staffId);
+      if (!staffMember) {
+        return res.status(404).json({ message: "Staff member not found" });
+      }
+
+      if (await storage.getStaffRole(staffId) === "owner" && req.staffRole !== "owner") {
+        return res.status(403).json({ message: "Only an owner can reset an owner's two-factor authentication" });
+      }
+
+      await storage.disableStaffTwoFactor(staffId);
+      await logStaffTwoFactorEvent(req, req.staff!, "STAFF_2FA_RESET", staffId, { staffUsername: staffMember.username });
+
+      res.json({ message: `Two-factor authentication reset for ${staffMember.username}` });
+    } catch (error) {
+      console.error("Reset staff 2FA error:", error);
+      res.status(500).json({ message: "Failed to reset two-factor authentication", error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/staff/:staffId/sessions", requirePermission(STAFF_PERMISSIONS.MANAGE_STAFF), async (req, res) => {
+    try {
+      const staffId = parseInt(req.params.staffId);
+      const sessionsEnded = await storage.deleteStaffSessions(
+        staffId,
+        staffId === req.staff!.id ? req.sessionID : undefined
+      );
+
+      try {
+        await recordStaffLog(req, {
+          staffId: req.staff!.id,
+          staffUsername: req.staff!.username,
+          action: "STAFF_SESSIONS_REVOKED",
+          targetType: "staff",
+          targetId: staffId,
+          details: { sessionsEnded, ipAddress: req.ip }
+        });
+      } catch (logError) {
+        console.error("Failed to log staff session revocation:", logError);
+      }
+
+      res.json({ message: `Ended ${sessionsEnded} session(s)`, sessionsEnded });
+    } catch (error) {
+      console.error("Revoke staff sessions error:", error);
+      res.status(500).json({ message: "Failed to end staff sessions", error: error.message });
+    }
+  });
+
   // Delete Staff Member
-  app.delete("/api/staff/:staffId", async (req, res) => {
+  app.delete("/api/staff/:staffId", requirePermission(STAFF_PERMISSIONS.MANAGE_STAFF), async (req, res) => {
     try {
       const staffId = parseInt(req.params.staffId);
       
-      // Prevent deletion of superstaff
-      if (staffId === 99) {
-        return res.status(400).json({ message: "Cannot delete superstaff account" });
+      if (staffId === req.staff!.id) {
+        return res.status(400).json({ message: "You cannot delete your own account" });
+      }
+
+      if (await storage.getStaffRole(staffId) === "owner") {
+        if (req.staffRole !== "owner") {
+          return res.status(403).json({ message: "Only an owner can delete another owner" });
+        }
+        if (await storage.countStaffWithRole("owner") <= 1) {
+          return res.status(400).json({ message: "Cannot delete the last owner account" });
+        }
       }
       
+      await storage.deleteStaffSessions(staffId);
       await storage.deleteStaff(staffId);
       res.json({ message: "Staff member deleted successfully" });
     } catch (error) {
@@ -0,0 +1,18 @@
+// Records the deposits of rentals handed over before the deposit ledger, so
+// they show up among outstanding deposits:
+//   npm run deposits:backfill
+import { pool } from "../db";
+import { storage } from "../storage";
+
+async function main() {
+  const result = await storage.backfillDepositLedger();
+  console.log(`Rentals checked:    ${result.rentalsChecked}`);
+  console.log(`Rentals backfilled: ${result.rentalsBackfilled}`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
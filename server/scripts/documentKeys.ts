@@ -0,0 +1,39 @@
+// Maintenance for encrypted KYC documents:
+//   npm run documents:encrypt     encrypt documents stored before encryption at rest
+//   npm run documents:rotate-key  re-wrap every document key with the active master key
+import { pool } from "../db";
+import { encryptExistingKycDocuments, rotateKycDocumentKeys, type KycDocumentRewriteResult } from "../kycDocuments";
+import { getActiveDocumentKeyId } from "../documentEncryption";
+
+const COMMANDS: Record<string, () => Promise<KycDocumentRewriteResult>> = {
+  encrypt: encryptExistingKycDocuments,
+  rotate: rotateKycDocumentKeys,
+};
+
+async function main() {
+  const command = process.argv[2];
+  const run = COMMANDS[command];
+  if (!run) {
+    console.error(`Usage: documentKeys.ts <${Object.keys(COMMANDS).join("|")}>`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`Running "${command}" with active document key "${getActiveDocumentKeyId()}"...`);
+  const result = await run();
+  console.log(`Customers checked: ${result.customersChecked}`);
+  console.log(`Files rewritten:   ${result.filesRewritten}`);
+  console.log(`Files unchanged:   ${result.filesUnchanged}`);
+  result.filesMissing.forEach((url) => console.warn(`Missing: ${url}`));
+  result.failures.forEach(({ url, error }) => console.error(`Failed: ${url} (${error})`));
+  if (result.failures.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,25 @@
+// Links rentals made before they carried a vehicle id to the fleet vehicle
+// whose name matches, so they count towards its availability again:
+//   npm run rentals:link-vehicles
+import { pool } from "../db";
+import { storage } from "../storage";
+
+async function main() {
+  const result = await storage.linkRentalsToVehicles();
+  console.log(`Unlinked rentals checked: ${result.rentalsChecked}`);
+  console.log(`Rentals linked:           ${result.rentalsLinked}`);
+  if (result.unmatched.length > 0) {
+    console.log(`No single vehicle matches these rentals; rename the vehicle to match and run again:`);
+    for (const { rentalId, vehicle } of result.unmatched) {
+      console.log(`  AGR-${rentalId}: "${vehicle}"`);
+    }
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,18 @@
+// Moves rentals created before the rental lifecycle (pending/active/completed)
+// to lifecycle statuses, inferred from their dates:
+//   npm run rentals:migrate-status
+import { pool } from "../db";
+import { storage } from "../storage";
+
+async function main() {
+  const result = await storage.migrateLegacyRentalStatuses();
+  console.log(`Rentals checked:  ${result.rentalsChecked}`);
+  console.log(`Rentals migrated: ${result.rentalsMigrated}`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -54,6 +54,101 @@ export class AdminNotificationService {
     }
   }
 
+  async notifyLoginLockout(lockout: {
+    scope: "staff" | "customer";
+    type: "account" | "ip";
+    identifier: string;
+    ip: string;
+    failures: number;
+    lockedUntil: Date;
+  }) {
+    const target = lockout.type === "account" ? `${lockout.scope} account "${lockout.identifier}"` : `IP address ${lockout.identifier}`;
+    const mailOptions = {
+      from: this.adminEmail,
+      to: this.adminEmail,
+      subject: `🔒 Login Locked - ${target}`,
+      html: this.createLoginLockoutEmailTemplate(lockout, target),
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+      console.log(`Admin notification sent for login lockout: ${target}`);
+    } catch (error) {
+      console.error("Error sending admin notification for login lockout:", error);
+      // Don't throw error to avoid disrupting the login response
+    }
+  }
+
+  private createLoginLockoutEmailTemplate(
+    lockout: { scope: string; type: string; identifier: string; ip: string; failures: number; lockedUntil: Date },
+    target: string
+  ): string {
+    const lockedUntil = lockout.lockedUntil.toLocaleString('en-MY', {
+      timeZone: 'Asia/Kuala_Lumpur',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+
+    return `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background: #f8f9fa;">
+        <!-- Header -->
+        <div style="background: linear-gradient(135deg, #c53030 0%, #2d3748 100%); padding: 30px; text-align: center; color: white;">
+          <h1 style="margin: 0; font-size: 28px;">🔒 Login Lockout</h1>
+          <p style="margin: 10px 0 0 0; font-size: 16px;">Reimagined Rentalz Admin Dashboard</p>
+        </div>
+        
+        <!-- Content -->
+        <div style="padding: 30px; background: white; margin: 0;">
+          <div style="background: #fff5f5; border-left: 4px solid #c53030; padding: 20px; margin-bottom: 25px; border-radius: 0 8px 8px 0;">
+            <h2 style="color: #2d3748; margin: 0 0 10px 0; font-size: 20px;">
+              Repeated failed logins for ${target}
+            </h2>
+            <p style="color: #4a5568; margin: 0; font-size: 14px;">
+              Further attempts are blocked temporarily. If this wasn't expected, someone may be guessing passwords.
+            </p>
+          </div>
+
+          <div style="background: #f7fafc; padding: 25px; border-radius: 8px; margin-bottom: 25px;">
+            <table style="width: 100%; border-collapse: collapse;">
+              <tr>
+                <td style="padding: 8px 0; font-weight: bold; color: #4a5568; width: 140px;">Login Type:</td>
+                <td style="padding: 8px 0; color: #2d3748;">${lockout.scope === "staff" ? "Staff" : "Customer"}</td>
+              </tr>
+              <tr>
+                <td style="padding: 8px 0; font-weight: bold; color: #4a5568;">Locked:</td>
+                <td style="padding: 8px 0; color: #2d3748;">${target}</td>
+              </tr>
+              <tr>
+                <td style="padding: 8px 0; font-weight: bold; color: #4a5568;">Last Attempt From:</td>
+                <td style="padding: 8px 0; color: #2d3748;">${lockout.ip}</td>
+              </tr>
+              <tr>
+                <td style="padding: 8px 0; font-weight: bold; color: #4a5568;">Failed Attempts:</td>
+                <td style="padding: 8px 0; color: #2d3748;">${lockout.failures}</td>
+              </tr>
+              <tr>
+                <td style="padding: 8px 0; font-weight: bold; color: #4a5568;">Locked Until:</td>
+                <td style="padding: 8px 0; color: #2d3748;">${lockedUntil}</td>
+              </tr>
+            </table>
+          </div>
+        </div>
+        
+        <!-- Footer -->
+        <div style="background: #2d3748; color: #a0aec0; text-align: center; padding: 20px;">
+          <p style="margin: 0; font-size: 12px;">
+            Reimagined Rentalz - Admin Notification System<br>
+            This is an automated notification. Please do not reply to this email.
+          </p>
+        </div>
+      </div>
+    `;
+  }
+
   private createNewCustomerEmailTemplate(customer: Customer): string {
     const registrationTime = new Date(customer.createdAt).toLocaleString('en-MY', {
       timeZone: 'Asia/Kuala_Lumpur',
@@ -1,5 +1,5 @@
 import nodemailer from "nodemailer";
-import { Customer } from "@shared/schema";
+import { Customer, BookingRequest } from "@shared/schema";
 import path from "path";
 import fs from "fs";
 
@@ -552,6 +552,391 @@ export class EmailService {
       return false;
     }
   }
+
+  async sendCustomerLoginCode(customer: Customer, code: string, validForMinutes: number) {
+    const mailOptions = {
+      from: process.env.SMTP_FROM || "reimaginedrentalz@gmail.com",
+      to: customer.email,
+      subject: `${code} is your Reimagined Rentalz login code`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: linear-gradient(135deg, #c53030 0%, #2d3748 100%); padding: 30px; text-align: center; color: white;">
+            <h1 style="margin: 0; font-size: 28px;">Reimagined Rentalz</h1>
+            <p style="margin: 10px 0 0 0; font-size: 16px;">Your Login Code</p>
+          </div>
+          
+          <div style="padding: 30px; background: #f8f9fa;">
+            <h2 style="color: #333; margin-top: 0;">Dear ${customer.fullName},</h2>
+            
+            <p style="color: #666; line-height: 1.6;">
+              Use the code below to sign in to the customer portal. It expires in ${validForMinutes} minutes.
+            </p>
+            
+            <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0; text-align: center; border-left: 4px solid #667eea;">
+              <p style="margin: 0; font-size: 32px; letter-spacing: 8px; font-weight: bold; color: #333;">${code}</p>
+            </div>
+            
+            <div style="background: #fff3cd; border-left: 4px solid #ffc107; padding: 15px; border-radius: 0 8px 8px 0; margin: 20px 0;">
+              <p style="margin: 0; color: #856404; font-weight: 500;">
+                <strong>Didn't request this?</strong> You can safely ignore this email. Never share this code with anyone, including our staff.
+              </p>
+            </div>
+          </div>
+          
+          <div style="background: #333; padding: 20px; text-align: center; color: #999; font-size: 14px;">
+            <p style="margin: 0;">Reimagined Rentalz</p>
+            <p style="margin: 5px 0 0 0;">Premium Car Rental Services</p>
+          </div>
+        </div>
+      `,
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+      console.log(`✅ Login code sent to customer: ${customer.email}`);
+      return true;
+    } catch (error) {
+      console.error("❌ Error sending customer login code:", error);
+      return false;
+    }
+  }
+
+  async sendEmailVerification(customer: Customer, verificationLink: string, validForHours: number) {
+    const mailOptions = {
+      from: process.env.SMTP_FROM || "reimaginedrentalz@gmail.com",
+      to: customer.email,
+      subject: "Verify your Reimagined Rentalz email address",
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: linear-gradient(135deg, #c53030 0%, #2d3748 100%); padding: 30px; text-align: center; color: white;">
+            <h1 style="margin: 0; font-size: 28px;">Reimagined Rentalz</h1>
+            <p style="margin: 10px 0 0 0; font-size: 16px;">Verify Your Email</p>
+          </div>
+          
+          <div style="padding: 30px; background: #f8f9fa;">
+            <h2 style="color: #333; margin-top: 0;">Dear ${customer.fullName},</h2>
+            
+            <p style="color: #666; line-height: 1.6;">
+              Please confirm that this is your email address so we can send you rental agreements and booking updates. This link expires in ${validForHours} hours.
+            </p>
+            
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${verificationLink}" style="background: #c53030; color: white; padding: 14px 28px; border-radius: 8px; text-decoration: none; font-weight: bold; display: inline-block;">Verify Email Address</a>
+            </div>
+            
+            <p style="color: #666; line-height: 1.6; font-size: 14px;">
+              If the button doesn't work, copy this link into your browser:<br>
+              <span style="word-break: break-all; color: #333;">${verificationLink}</span>
+            </p>
+            
+            <div style="background: #fff3cd; border-left: 4px solid #ffc107; padding: 15px; border-radius: 0 8px 8px 0; margin: 20px 0;">
+              <p style="margin: 0; color: #856404; font-weight: 500;">
+                <strong>Didn't sign up?</strong> You can safely ignore this email.
+              </p>
+            </div>
+          </div>
+          
+          <div style="background: #333; padding: 20px; text-align: center; color: #999; font-size: 14px;">
+            <p style="margin: 0;">Reimagined Rentalz</p>
+            <p style="margin: 5px 0 0 0;">Premium Car Rental Services</p>
+          </div>
+        </div>
+      `,
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+      console.log(`✅ Verification email sent to customer: ${customer.email}`);
+      return true;
+    } catch (error) {
+      console.error("❌ Error sending verification email:", error);
+      return false;
+    }
+  }
+
+  async sendPasswordReset(customer: Customer, resetLink: string, validForMinutes: number) {
+    const mailOptions = {
+      from: process.env.SMTP_FROM || "reimaginedrentalz@gmail.com",
+      to: customer.email,
+      subject: "Reset your Reimagined Rentalz password",
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: linear-gradient(135deg, #c53030 0%, #2d3748 100%); padding: 30px; text-align: center; color: white;">
+            <h1 style="margin: 0; font-size: 28px;">Reimagined Rentalz</h1>
+            <p style="margin: 10px 0 0 0; font-size: 16px;">Password Reset</p>
+          </div>
+          
+          <div style="padding: 30px; background: #f8f9fa;">
+            <h2 style="color: #333; margin-top: 0;">Dear ${customer.fullName},</h2>
+            
+            <p style="color: #666; line-height: 1.6;">
+              We received a request to reset the password for your customer portal account. This link expires in ${validForMinutes} minutes and can only be used once.
+            </p>
+            
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${resetLink}" style="background: #c53030; color: white; padding: 14px 28px; border-radius: 8px; text-decoration: none; font-weight: bold; display: inline-block;">Reset Password</a>
+            </div>
+            
+            <p style="color: #666; line-height: 1.6; font-size: 14px;">
+              If the button doesn't work, copy this link into your browser:<br>
+              <span style="word-break: break-all; color: #333;">${resetLink}</span>
+            </p>
+            
+            <div style="background: #fff3cd; border-left: 4px solid #ffc107; padding: 15px; border-radius: 0 8px 8px 0; margin: 20px 0;">
+              <p style="margin: 0; color: #856404; font-weight: 500;">
+                <strong>Didn't request this?</strong> You can safely ignore this email &mdash; your password will not change.
+              </p>
+            </div>
+          </div>
+          
+          <div style="background: #333; padding: 20px; text-align: center; color: #999; font-size: 14px;">
+            <p style="margin: 0;">Reimagined Rentalz</p>
+            <p style="margin: 5px 0 0 0;">Premium Car Rental Services</p>
+          </div>
+        </div>
+      `,
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+      console.log(`✅ Password reset email sent to customer: ${customer.email}`);
+      return true;
+    } catch (error) {
+      console.error("❌ Error sending password reset email:", error);
+      return false;
+    }
+  }
+
+  async sendBookingRequestConfirmed(customer: Customer, bookingDetails: BookingRequest) {
+    const mailOptions = {
+      from: process.env.SMTP_FROM || "reimaginedrentalz@gmail.com",
+      to: customer.email,
+      subject: "Booking Confirmed - Reimagined Rentalz",
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: linear-gradient(135deg, #c53030 0%, #2d3748 100%); padding: 30px; text-align: center; color: white;">
+            <h1 style="margin: 0; font-size: 28px;">Your Booking is Confirmed!</h1>
+            <p style="margin: 10px 0 0 0; font-size: 16px;">The vehicle is reserved for you</p>
+          </div>
+          
+          <div style="padding: 30px; background: #f8f9fa;">
+            <h2 style="color: #333; margin-top: 0;">Dear ${customer.fullName},</h2>
+            
+            <p style="color: #666; line-height: 1.6;">
+              Good news! We have confirmed your booking request and reserved the vehicle for your dates.
+            </p>
+            
+            <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #38a169;">
+              <h3 style="color: #333; margin-top: 0;">Your Booking:</h3>
+              <ul style="color: #666; line-height: 1.8;">
+                <li><strong>Vehicle:</strong> ${bookingDetails.vehicleName}</li>
+                <li><strong>Rental Period:</strong> ${new Date(bookingDetails.startDate).toLocaleDateString('en-MY')} - ${new Date(bookingDetails.endDate).toLocaleDateString('en-MY')}</li>
+                <li><strong>Duration:</strong> ${bookingDetails.totalDays} days</li>
+                <li><strong>Request ID:</strong> #${bookingDetails.id}</li>
+              </ul>
+            </div>
+            
+            <div style="background: #e3f2fd; padding: 15px; border-radius: 8px; margin: 20px 0;">
+              <p style="margin: 0; color: #1976d2; font-weight: 500;">
+                <strong>What's Next?</strong> Our team will contact you to arrange payment and the vehicle handover, where you will sign the rental agreement.
+              </p>
+            </div>
+            
+            <p style="color: #666; line-height: 1.6;">
+              Thank you for choosing Reimagined Rentalz!<br>
+              <strong>The Reimagined Rentalz Team</strong>
+            </p>
+          </div>
+          
+          <div style="background: #333; padding: 20px; text-align: center; color: #999; font-size: 14px;">
+            <p style="margin: 0;">Reimagined Rentalz</p>
+            <p style="margin: 5px 0 0 0;">Premium Car Rental Services</p>
+          </div>
+        </div>
+      `,
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+      console.log(`✅ Booking confirmation sent to customer: ${customer.email}`);
+      return true;
+    } catch (error) {
+      console.error("❌ Error sending booking confirmation:", error);
+      return false;
+    }
+  }
+
+  // Also sent when a request expires unanswered; rejectedReason says why.
+  async sendBookingRequestRejected(customer: Customer, bookingDetails: BookingRequest) {
+    const mailOptions = {
+      from: process.env.SMTP_FROM || "reimaginedrentalz@gmail.com",
+      to: customer.email,
+      subject: "Booking Request Update - Reimagined Rentalz",
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: linear-gradient(135deg, #c53030 0%, #2d3748 100%); padding: 30px; text-align: center; color: white;">
+            <h1 style="margin: 0; font-size: 28px;">Booking Request Update</h1>
+            <p style="margin: 10px 0 0 0; font-size: 16px;">We couldn't confirm your request</p>
+          </div>
+          
+          <div style="padding: 30px; background: #f8f9fa;">
+            <h2 style="color: #333; margin-top: 0;">Dear ${customer.fullName},</h2>
+            
+            <p style="color: #666; line-height: 1.6;">
+              We're sorry, but we are unable to confirm your booking request.
+            </p>
+            
+            <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #c53030;">
+              <h3 style="color: #333; margin-top: 0;">Your Booking Request:</h3>
+              <ul style="color: #666; line-height: 1.8;">
+                <li><strong>Vehicle:</strong> ${bookingDetails.vehicleName}</li>
+                <li><strong>Rental Period:</strong> ${new Date(bookingDetails.startDate).toLocaleDateString('en-MY')} - ${new Date(bookingDetails.endDate).toLocaleDateString('en-MY')}</li>
+                <li><strong>Request ID:</strong> #${bookingDetails.id}</li>
+                ${bookingDetails.rejectedReason ? `<li><strong>Reason:</strong> ${bookingDetails.rejectedReason}</li>` : ''}
+              </ul>
+            </div>
+            
+            <div style="background: #f3e5f5; padding: 15px; border-radius: 8px; margin: 20px 0;">
+              <p style="margin: 0; color: #7b1fa2; font-weight: 500;">
+                <strong>Still need a car?</strong> Try other dates or vehicles in the customer portal, or WhatsApp us at +60 111 191 1595 and we'll help you find one.
+              </p>
+            </div>
+            
+            <p style="color: #666; line-height: 1.6;">
+              Thank you for choosing Reimagined Rentalz!<br>
+              <strong>The Reimagined Rentalz Team</strong>
+            </p>
+          </div>
+          
+          <div style="background: #333; padding: 20px; text-align: center; color: #999; font-size: 14px;">
+            <p style="margin: 0;">Reimagined Rentalz</p>
+            <p style="margin: 5px 0 0 0;">Premium Car Rental Services</p>
+          </div>
+        </div>
+      `,
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+      console.log(`✅ Booking rejection sent to customer: ${customer.email}`);
+      return true;
+    } catch (error) {
+      console.error("❌ Error sending booking rejection:", error);
+      return false;
+    }
+  }
+
+  // A customer cancelled their booking request or moved its dates.
+  async sendAdminBookingRequestChange(customer: Customer, bookingDetails: BookingRequest, previous: { startDate: Date; endDate: Date }, reason?: string) {
+    const cancelled = bookingDetails.status === "cancelled";
+    const mailOptions = {
+      from: process.env.SMTP_FROM || "reimaginedrentalz@gmail.com",
+      to: "reimaginedrentalz@gmail.com",
+      subject: `${cancelled ? "❌ Booking Request Cancelled" : "📅 Booking Request Dates Changed"} - ${customer.fullName}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: linear-gradient(135deg, #c53030 0%, #2d3748 100%); padding: 30px; text-align: center; color: white;">
+            <h1 style="margin: 0; font-size: 28px;">${cancelled ? "Booking Request Cancelled" : "Booking Request Dates Changed"}</h1>
+            <p style="margin: 10px 0 0 0; font-size: 16px;">Reimagined Rentalz Admin Notification</p>
+          </div>
+          
+          <div style="padding: 30px; background: #f8f9fa;">
+            <h2 style="color: #333; margin-top: 0;">${customer.fullName} ${cancelled ? "cancelled their booking request" : "changed the dates of their booking request"}</h2>
+            
+            <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #667eea;">
+              <ul style="color: #666; line-height: 1.8;">
+                <li><strong>Request ID:</strong> #${bookingDetails.id}</li>
+                <li><strong>Vehicle:</strong> ${bookingDetails.vehicleName}</li>
+                <li><strong>${cancelled ? "Rental Period" : "Previous Dates"}:</strong> ${new Date(previous.startDate).toLocaleDateString('en-MY')} - ${new Date(previous.endDate).toLocaleDateString('en-MY')}</li>
+                ${cancelled ? '' : `<li><strong>New Dates:</strong> ${new Date(bookingDetails.startDate).toLocaleDateString('en-MY')} - ${new Date(bookingDetails.endDate).toLocaleDateString('en-MY')}</li>`}
+                <li><strong>Customer Phone:</strong> ${customer.phone}</li>
+                ${reason ? `<li><strong>Reason:</strong> ${reason}</li>` : ''}
+              </ul>
+            </div>
+            
+            ${cancelled ? '' : `
+            <div style="background: #fff3cd; padding: 15px; border-radius: 8px; margin: 20px 0;">
+              <p style="margin: 0; color: #856404; font-weight: 500;">
+                The request is pending again. Please confirm or reject the new dates in the staff dashboard.
+              </p>
+            </div>
+            `}
+          </div>
+        </div>
+      `,
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+      console.log(`✅ Admin notified of booking request change: ${bookingDetails.id}`);
+      return true;
+    } catch (error) {
+      console.error("❌ Error sending booking request change notification:", error);
+      return false;
+    }
+  }
+
+  // The vehicle a waitlisted customer was waiting for has freed up and a
+  // request has been sent for them.
+  async sendWaitlistOffer(customer: Customer, bookingDetails: BookingRequest, heldUntil: Date) {
+    const mailOptions = {
+      from: process.env.SMTP_FROM || "reimaginedrentalz@gmail.com",
+      to: customer.email,
+      subject: "Your Waitlisted Vehicle is Available - Reimagined Rentalz",
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: linear-gradient(135deg, #c53030 0%, #2d3748 100%); padding: 30px; text-align: center; color: white;">
+            <h1 style="margin: 0; font-size: 28px;">Good News!</h1>
+            <p style="margin: 10px 0 0 0; font-size: 16px;">The vehicle you were waiting for is available</p>
+          </div>
+          
+          <div style="padding: 30px; background: #f8f9fa;">
+            <h2 style="color: #333; margin-top: 0;">Dear ${customer.fullName},</h2>
+            
+            <p style="color: #666; line-height: 1.6;">
+              The vehicle you joined the waitlist for has become available. We have sent a booking request for you and are holding the vehicle while our team confirms it.
+            </p>
+            
+            <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #38a169;">
+              <h3 style="color: #333; margin-top: 0;">Your Booking Request:</h3>
+              <ul style="color: #666; line-height: 1.8;">
+                <li><strong>Vehicle:</strong> ${bookingDetails.vehicleName}</li>
+                <li><strong>Rental Period:</strong> ${new Date(bookingDetails.startDate).toLocaleDateString('en-MY')} - ${new Date(bookingDetails.endDate).toLocaleDateString('en-MY')}</li>
+                <li><strong>Duration:</strong> ${bookingDetails.totalDays} days</li>
+                <li><strong>Request ID:</strong> #${bookingDetails.id}</li>
+                <li><strong>Held Until:</strong> ${heldUntil.toLocaleString('en-MY')}</li>
+              </ul>
+            </div>
+            
+            <div style="background: #e3f2fd; padding: 15px; border-radius: 8px; margin: 20px 0;">
+              <p style="margin: 0; color: #1976d2; font-weight: 500;">
+                <strong>No longer need it?</strong> WhatsApp us at +60 111 191 1595 so we can offer the vehicle to the next customer.
+              </p>
+            </div>
+            
+            <p style="color: #666; line-height: 1.6;">
+              Thank you for choosing Reimagined Rentalz!<br>
+              <strong>The Reimagined Rentalz Team</strong>
+            </p>
+          </div>
+          
+          <div style="background: #333; padding: 20px; text-align: center; color: #999; font-size: 14px;">
+            <p style="margin: 0;">Reimagined Rentalz</p>
+            <p style="margin: 5px 0 0 0;">Premium Car Rental Services</p>
+          </div>
+        </div>
+      `,
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+      console.log(`✅ Waitlist offer sent to customer: ${customer.email}`);
+      return true;
+    } catch (error) {
+      console.error("❌ Error sending waitlist offer:", error);
+      return false;
+    }
+  }
 }
 
 export const emailService = new EmailService();
@@ -2,6 +2,7 @@ import sharp from "sharp";
 import path from "path";
 import fs from "fs/promises";
 import { ObjectStorageService } from "../objectStorage";
+import { ENCRYPTED_DOCUMENT_METADATA, encryptDocument } from "../documentEncryption";
 
 export class ImageProcessor {
   private uploadsDir = path.join(process.cwd(), "app", "uploads");
@@ -21,6 +22,8 @@ export class ImageProcessor {
     }
   }
 
+  // KYC documents (IC/passport, licence, utility bill). The stored copies are
+  // encrypted; they are decrypted when served to an authorised session.
   async processAndWatermarkImage(buffer: Buffer, filename: string): Promise<string> {
     console.log('Processing image:', filename);
     console.log('Buffer size:', buffer.length);
@@ -71,6 +74,8 @@ export class ImageProcessor {
         finalBuffer = processedImage;
       }
 
+      const encryptedBuffer = encryptDocument(finalBuffer);
+
       // Save to object storage FIRST (permanent), then local (temporary backup)
       console.log('Saving to permanent storage...');
       const timestamp = Date.now();
@@ -79,16 +84,17 @@ export class ImageProcessor {
       // PRIMARY: Save to object storage (permanent)
       try {
         const objectStorageUrl = await this.objectStorageService.uploadFile(
-          finalBuffer,
+          encryptedBuffer,
           processedFilename,
-          'image/jpeg'
+          'image/jpeg',
+          ENCRYPTED_DOCUMENT_METADATA
         );
         console.log('✅ File saved to PERMANENT object storage:', objectStorageUrl);
         
         // SECONDARY: Also save locally as backup
         try {
           const localFilePath = path.join(this.uploadsDir, processedFilename);
-          await fs.writeFile(localFilePath, finalBuffer);
+          await fs.writeFile(localFilePath, encryptedBuffer);
           console.log('✅ Backup saved to local storage:', localFilePath);
         } catch (localError) {
           console.warn('⚠️ Local backup failed (object storage succeeded):', localError.message);
@@ -99,7 +105,7 @@ export class ImageProcessor {
         console.error('❌ Object storage failed, falling back to local only:', objectError.message);
         // Fallback to local storage if object storage fails
         const localFilePath = path.join(this.uploadsDir, processedFilename);
-        await fs.writeFile(localFilePath, finalBuffer);
+        await fs.writeFile(localFilePath, encryptedBuffer);
         console.log('⚠️ Saved to local storage only (temporary):', localFilePath);
         return `/uploads/${processedFilename}`;
       }
@@ -116,7 +122,8 @@ export class ImageProcessor {
             withoutEnlargement: true 
           })
           .jpeg({ quality: 92 })
-          .toBuffer();
+          .toBuffer()
+          .then(encryptDocument);
         
         const timestamp = Date.now();
         const fallbackFilename = `fallback_${timestamp}_${filename.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
@@ -124,7 +131,7 @@ export class ImageProcessor {
         
         // Save fallback to object storage FIRST
         try {
-          await this.objectStorageService.uploadFile(fallbackBuffer, fallbackFilename, 'image/jpeg');
+          await this.objectStorageService.uploadFile(fallbackBuffer, fallbackFilename, 'image/jpeg', ENCRYPTED_DOCUMENT_METADATA);
           console.log('✅ Fallback saved to PERMANENT object storage');
         } catch (objectError) {
           console.error('❌ Failed to save fallback to object storage:', objectError.message);
@@ -4,6 +4,10 @@ import path from "path";
 import { Rental, Customer } from "@shared/schema";
 import { ObjectStorageService } from "../objectStorage";
 import { ImageProcessor } from "./imageProcessor";
+import { decryptDocument } from "../documentEncryption";
+import { getAgreementTerms, type AgreementTerms } from "../terms";
+import { VEHICLE_PHOTO_SLOTS, VEHICLE_PHOTO_SLOT_LABELS, RENTAL_AMENDMENT_LABELS, getPhotosBySlot, type RentalReturn, type VehiclePhotosBySlot, type RentalAmendment, type RentalAmendmentType } from "@shared/rentalSchema";
+import { VEHICLE_DIAGRAMS, VEHICLE_DIAGRAM_WIDTH, VEHICLE_DIAGRAM_HEIGHT, type DamageInspection, type DamagePoint } from "@shared/inspectionSchema";
 import sharp from "sharp";
 
 export class PDFGenerator {
@@ -101,6 +105,7 @@ export class PDFGenerator {
         console.log('☁️ Loading from object storage');
         let buffer = await this.objectStorageService.getFileFromStorage(src);
         if (buffer) {
+          buffer = decryptDocument(buffer);
           // Check if it's WebP and convert if needed
           const metadata = await sharp(buffer).metadata();
           if (metadata.format === 'webp') {
@@ -118,6 +123,7 @@ export class PDFGenerator {
         try {
           let buffer = await this.objectStorageService.getFileFromStorage(src);
           if (buffer) {
+            buffer = decryptDocument(buffer);
             console.log('✅ Found in object storage');
             // Check if it's WebP and convert if needed
             const metadata = await sharp(buffer).metadata();
@@ -135,7 +141,7 @@ export class PDFGenerator {
         const localPath = this.validateAndResolvePath(src.replace('/uploads/', ''));
         if (localPath && fs.existsSync(localPath)) {
           console.log('✅ Found locally');
-          let buffer = await fs.promises.readFile(localPath);
+          let buffer = decryptDocument(await fs.promises.readFile(localPath));
           
           // Check if it's WebP and convert if needed
           const metadata = await sharp(buffer).metadata();
@@ -180,6 +186,9 @@ export class PDFGenerator {
     // Ensure the backups directory exists
     await this.ensureBackupsDirectory();
 
+    // The terms version this rental was agreed under
+    const agreementTerms = await getAgreementTerms(rental);
+
     return new Promise(async (resolve, reject) => {
       const doc = new PDFDocument({ margin: 50, size: 'A4' });
       const stream = fs.createWriteStream(filePath);
@@ -218,7 +227,7 @@ export class PDFGenerator {
         doc.pipe(stream);
 
         // Add professional header with logo and styling
-        this.addModernHeader(doc);
+        this.addModernHeader(doc, 'VEHICLE RENTAL AGREEMENT');
         
         // Add customer information section
         await this.addCustomerSection(doc, customer);
@@ -235,7 +244,7 @@ export class PDFGenerator {
         // Terms and Conditions - Start on new page to avoid overlapping
         doc.addPage();
         doc.y = 50;
-        this.addModernTermsSection(doc);
+        this.addModernTermsSection(doc, agreementTerms);
 
         // Vehicle Photos - Start on new page to avoid overlapping
         doc.addPage();
@@ -260,7 +269,7 @@ export class PDFGenerator {
     return levels[level] || 'Unknown';
   }
 
-  private addModernHeader(doc: PDFKit.PDFDocument) {
+  private addModernHeader(doc: PDFKit.PDFDocument, title: string) {
     // Add Reimagined Rentalz logo with professional positioning
     const logoPath = path.join(process.cwd(), 'server/assets/reimagined-rentalz-logo.png');
     if (fs.existsSync(logoPath)) {
@@ -279,7 +288,7 @@ export class PDFGenerator {
     // Professional subtitle with accent color
     doc.fontSize(18).font('Helvetica-Bold')
        .fillColor('#c53030')
-       .text('VEHICLE RENTAL AGREEMENT', 50, 90, { align: 'center' });
+       .text(title, 50, 90, { align: 'center' });
     
     // Reset color for body text
     doc.fillColor('#000000');
@@ -530,7 +539,7 @@ export class PDFGenerator {
     doc.y = totalY + 40;
   }
 
-  private addModernTermsSection(doc: PDFKit.PDFDocument) {
+  private addModernTermsSection(doc: PDFKit.PDFDocument, { termsVersion, acceptance }: AgreementTerms) {
     const headerY = doc.y;
     // Modern terms header
     doc.rect(50, headerY, 500, 30)
@@ -540,73 +549,47 @@ export class PDFGenerator {
        .fillColor('#ffffff')
        .text('TERMS & CONDITIONS', 60, headerY + 8);
     
+    doc.fontSize(9).font('Helvetica')
+       .text(`Version ${termsVersion.version}`, 60, headerY + 11, { width: 480, align: 'right' });
+    
     doc.fillColor('#000000');
     doc.y = headerY + 40;
     
     // Introduction
     doc.fontSize(9).font('Helvetica')
        .fillColor('#4a5568')
-       .text('This Agreement outlines the terms for vehicle rental from Reimagined Rentalz. By signing, the Renter agrees to these clauses.', 50, doc.y, {
+       .text(termsVersion.content.introduction, 50, doc.y, {
          width: 500,
          align: 'justify'
        });
     
-    doc.y += 25;
-    
-    const terms = [
-      {
-        title: '1. RENTAL PERIOD AND VEHICLE USAGE',
-        items: [
-          'Genting Highland Usage: Additional RM150-350 surcharge applies.',
-          'Early Termination: No refunds for early returns.',
-          'Late Return: RM25-300/hour penalty for late returns.',
-          'Mileage: Overage charge RM1.50-5.00/km for exceeded limits.',
-          'Fuel: Return with same fuel level or pay RM50-200 refueling charge.'
-        ]
-      },
-      {
-        title: '2. DRIVER AUTHORIZATION & RESPONSIBILITIES',
-        items: [
-          'Only authorized drivers listed may operate the vehicle.',
-          'Renter responsible for all fines, summons, and tolls.',
-          'Violations void agreement and forfeit deposit.'
-        ]
-      },
-      {
-        title: '3. VEHICLE CARE AND PROHIBITED ACTIONS',
-        items: [
-          'No unauthorized workshop visits or modifications.',
-          'No abuse (drifting, burnouts, off-road use).',
-          'No smoking, pets, or illegal activities in vehicle.',
-          'Report accidents immediately to authorities and company.'
-        ]
-      },
-      {
-        title: '4. FINANCIAL OBLIGATIONS',
-        items: [
-          'Full payment required upon booking confirmation.',
-          'Security deposit held until vehicle return.',
-          'Additional charges deducted from deposit.',
-          'Outstanding amounts payable immediately.'
-        ]
-      }
-    ];
+    doc.y += 10;
+
+    // Which terms the customer accepted online, and when
+    const acceptanceText = acceptance
+      ? `Accepted online on ${acceptance.acceptedAt.toLocaleString('en-GB')}${acceptance.ipAddress ? ` from IP ${acceptance.ipAddress}` : ''} (acceptance record #${acceptance.id}).`
+      : 'Not accepted online; agreed by signing this agreement.';
+    doc.fontSize(8).font('Helvetica-Oblique')
+       .fillColor('#718096')
+       .text(acceptanceText, 50, doc.y, { width: 500 });
+    
+    doc.y += 15;
 
-    terms.forEach(section => {
+    termsVersion.content.sections.forEach(section => {
       this.checkPageBreak(doc, 60);
       
       doc.fontSize(10).font('Helvetica-Bold')
          .fillColor('#2b6cb0')
-         .text(section.title, 50, doc.y);
+         .text(section.title.toUpperCase(), 50, doc.y);
       
       doc.y += 15;
       
-      section.items.forEach(item => {
+      section.clauses.forEach(clause => {
         this.checkPageBreak(doc, 15);
         doc.fontSize(8).font('Helvetica')
            .fillColor('#4a5568')
-           .text(`• ${item}`, 60, doc.y, { width: 480 });
-        doc.y += 12;
+           .text(`• ${clause.title ? `${clause.title}: ` : ''}${clause.text}`, 60, doc.y, { width: 480 });
+        doc.y += 4;
       });
       
       doc.y += 10;
@@ -885,6 +868,252 @@ export class PDFGenerator {
     return labels[photoType] || photoType.charAt(0).toUpperCase() + photoType.slice(1);
   }
 
+  // Damage inspection report: per photo slot, the handover and return photos
+  // side by side with the marked diagram and repair estimates, then the
+  // deposit settlement.
+  async generateDamageReport(
+    rental: Rental,
+    customer: Customer,
+    inspection: DamageInspection,
+    points: DamagePoint[],
+    rentalReturn: RentalReturn
+  ): Promise<string> {
+    const filename = `damage-report-rental-${rental.id}-${new Date().toISOString().split('T')[0]}.pdf`;
+    const filePath = path.join(this.backupsDir, filename);
+    await this.ensureBackupsDirectory();
+
+    const checkoutPhotos = getPhotosBySlot(rental.vehiclePhotos);
+    const returnPhotos = rentalReturn.returnPhotos as VehiclePhotosBySlot;
+
+    return new Promise(async (resolve, reject) => {
+      const doc = new PDFDocument({ margin: 50, size: 'A4' });
+      const stream = fs.createWriteStream(filePath);
+
+      stream.on('error', reject);
+      stream.on('finish', async () => {
+        if (!fs.existsSync(filePath) || fs.statSync(filePath).size === 0) {
+          return reject(new Error('Damage report PDF generation failed'));
+        }
+        try {
+          await this.objectStorageService.uploadPDF(await fs.promises.readFile(filePath), filename);
+        } catch (uploadError) {
+          console.error('❌ Failed to upload damage report to object storage:', uploadError);
+          // Continue - local file still exists
+        }
+        resolve(`/backups/${filename}`);
+      });
+
+      try {
+        doc.pipe(stream);
+        this.addModernHeader(doc, 'DAMAGE INSPECTION REPORT');
+
+        doc.fontSize(10).font('Helvetica').fillColor('#1a202c');
+        doc.text(`Rental: AGR-${rental.id}    Vehicle: ${rental.vehicle}    Customer: ${customer.fullName}`, 60, doc.y);
+        doc.text(`Handed over: ${new Date(rental.startDate).toLocaleDateString('en-GB')}    Returned: ${new Date(rentalReturn.returnedAt).toLocaleString('en-GB')}`, 60, doc.y + 4);
+        if (inspection.finalizedAt) {
+          doc.text(`Inspection finalised: ${new Date(inspection.finalizedAt).toLocaleString('en-GB')}`, 60, doc.y + 4);
+        }
+        doc.y += 20;
+
+        let pointNumber = 0;
+        for (const slot of VEHICLE_PHOTO_SLOTS) {
+          const slotPoints = points.filter(point => point.slot === slot);
+          if (slotPoints.length === 0 && !checkoutPhotos[slot] && !returnPhotos[slot]) {
+            continue;
+          }
+
+          this.checkPageBreak(doc, 330);
+          const headerY = doc.y;
+          doc.rect(50, headerY, 500, 25).fillAndStroke('#f7fafc', '#e2e8f0');
+          doc.fontSize(12).font('Helvetica-Bold').fillColor('#2d3748')
+             .text(VEHICLE_PHOTO_SLOT_LABELS[slot].toUpperCase(), 60, headerY + 6);
+
+          const photoY = headerY + 35;
+          await this.addComparisonPhoto(doc, 'At handover', checkoutPhotos[slot], 60, photoY);
+          await this.addComparisonPhoto(doc, 'At return', returnPhotos[slot], 320, photoY);
+
+          // Diagram with numbered damage marks
+          const diagramY = photoY + 160;
+          const scale = 1.2;
+          doc.save();
+          doc.translate(60, diagramY).scale(scale);
+          doc.path(VEHICLE_DIAGRAMS[slot]).lineWidth(1).strokeColor('#4a5568').stroke();
+          doc.restore();
+          const firstNumber = pointNumber + 1;
+          slotPoints.forEach((point, index) => {
+            const x = 60 + (point.x / 100) * VEHICLE_DIAGRAM_WIDTH * scale;
+            const y = diagramY + (point.y / 100) * VEHICLE_DIAGRAM_HEIGHT * scale;
+            doc.circle(x, y, 7).fill('#c53030');
+            doc.fontSize(8).font('Helvetica-Bold').fillColor('#ffffff')
+               .text(String(firstNumber + index), x - 7, y - 3.5, { width: 14, align: 'center' });
+          });
+
+          // Damage list beside the diagram
+          let listY = diagramY;
+          doc.fillColor('#1a202c');
+          if (slotPoints.length === 0) {
+            doc.fontSize(9).font('Helvetica').fillColor('#718096').text('No new damage marked.', 320, listY);
+          }
+          for (const point of slotPoints) {
+            pointNumber++;
+            doc.fontSize(9).font('Helvetica-Bold').fillColor('#1a202c')
+               .text(`${pointNumber}. ${point.description} (${point.severity})`, 320, listY, { width: 230 });
+            listY = doc.y;
+            const reference = point.estimateReference ? ` - ref ${point.estimateReference}` : '';
+            doc.font('Helvetica').fillColor('#4a5568')
+               .text(`Repair estimate: RM ${parseFloat(point.repairEstimate).toFixed(2)}${reference}`, 320, listY, { width: 230 });
+            listY = doc.y + 4;
+          }
+          doc.y = Math.max(diagramY + VEHICLE_DIAGRAM_HEIGHT * scale, listY) + 20;
+        }
+
+        // Settlement against the deposit
+        this.checkPageBreak(doc, 200);
+        const settlementY = doc.y;
+        doc.rect(50, settlementY, 500, 25).fillAndStroke('#f0fff4', '#9ae6b4');
+        doc.fontSize(12).font('Helvetica-Bold').fillColor('#2d3748').text('DEPOSIT SETTLEMENT', 60, settlementY + 6);
+        doc.y = settlementY + 35;
+
+        const rows: [string, string][] = [
+          [`Excess mileage (${rentalReturn.excessKm} km)`, rentalReturn.mileageCharge],
+          [`Fuel shortfall (${rentalReturn.fuelShortfall}/8 tank)`, rentalReturn.fuelCharge],
+          [`Late return (${rentalReturn.lateHours} hours)`, rentalReturn.lateFee],
+          ['Damage repairs', rentalReturn.damageCharge],
+          ['Total charges', rentalReturn.totalCharges],
+          ['Deposit held', rentalReturn.depositHeld],
+          ['Deducted from deposit', rentalReturn.depositDeducted],
+          ['Deposit refund', rentalReturn.depositRefund],
+          ['Balance due from customer', rentalReturn.balanceDue],
+        ];
+        for (const [label, amount] of rows) {
+          const rowY = doc.y;
+          doc.fontSize(10).font('Helvetica').fillColor('#1a202c').text(label, 60, rowY);
+          doc.text(`RM ${parseFloat(amount).toFixed(2)}`, 400, rowY, { width: 140, align: 'right' });
+          doc.y = rowY + 16;
+        }
+
+        doc.end();
+      } catch (error) {
+        console.error('Error generating damage report content:', error);
+        reject(error);
+      }
+    });
+  }
+
+  private async addComparisonPhoto(doc: PDFKit.PDFDocument, label: string, photoUrl: string | undefined, x: number, y: number) {
+    const width = 220;
+    const height = 130;
+    doc.fontSize(9).font('Helvetica-Bold').fillColor('#2b6cb0').text(label, x, y);
+    doc.rect(x, y + 15, width, height).lineWidth(1).strokeColor('#e2e8f0').stroke();
+
+    const imageBuffer = photoUrl ? await this.loadImageBuffer(photoUrl) : null;
+    if (imageBuffer) {
+      try {
+        doc.image(imageBuffer, x + 5, y + 20, { fit: [width - 10, height - 10] });
+        return;
+      } catch (error) {
+        console.error('Error adding comparison photo:', error);
+      }
+    }
+    doc.fontSize(9).font('Helvetica').fillColor('#718096')
+       .text('No photo', x, y + 15 + height / 2 - 5, { width, align: 'center' });
+  }
+
+  // Numbered addendum to a rental's agreement for a change of return date.
+  // The original agreement PDF is never regenerated for an amendment.
+  async generateRentalAddendum(rental: Rental, customer: Customer, amendment: RentalAmendment): Promise<string> {
+    const filename = `rental-${rental.id}-addendum-${amendment.amendmentNumber}-${new Date().toISOString().split('T')[0]}.pdf`;
+    const filePath = path.join(this.backupsDir, filename);
+    await this.ensureBackupsDirectory();
+
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ margin: 50, size: 'A4' });
+      const stream = fs.createWriteStream(filePath);
+
+      stream.on('error', reject);
+      stream.on('finish', async () => {
+        if (!fs.existsSync(filePath) || fs.statSync(filePath).size === 0) {
+          return reject(new Error('Addendum PDF generation failed'));
+        }
+        try {
+          await this.objectStorageService.uploadPDF(await fs.promises.readFile(filePath), filename);
+        } catch (uploadError) {
+          console.error('❌ Failed to upload addendum to object storage:', uploadError);
+          // Continue - local file still exists
+        }
+        resolve(`/backups/${filename}`);
+      });
+
+      try {
+        doc.pipe(stream);
+        this.addModernHeader(doc, `RENTAL AGREEMENT ADDENDUM No. ${amendment.amendmentNumber}`);
+
+        const formatDate = (date: Date | string) => new Date(date).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+        const type = RENTAL_AMENDMENT_LABELS[amendment.type as RentalAmendmentType] ?? amendment.type;
+
+        doc.fontSize(10).font('Helvetica').fillColor('#1a202c');
+        doc.text(
+          `This addendum amends rental agreement AGR-${rental.id} between Reimagined Rentalz and ${customer.fullName} ` +
+          `for the ${rental.vehicle}. Apart from the changes below, all terms of the original agreement, ` +
+          `including the daily rate, deposit and discount, continue to apply.`,
+          60, doc.y, { width: 480 }
+        );
+        doc.y += 10;
+        doc.text(`Type of change: ${type}    Issued: ${formatDate(amendment.createdAt)}`, 60, doc.y);
+        if (amendment.reason) {
+          doc.text(`Reason: ${amendment.reason}`, 60, doc.y + 4, { width: 480 });
+        }
+        doc.y += 20;
+
+        // Before and after
+        const tableY = doc.y;
+        doc.rect(60, tableY, 480, 20).fillAndStroke('#2b6cb0', '#2b6cb0');
+        doc.fontSize(10).font('Helvetica-Bold').fillColor('#ffffff')
+           .text('Term', 80, tableY + 6)
+           .text('Previously', 240, tableY + 6)
+           .text('Now', 400, tableY + 6);
+
+        const rows: [string, string, string][] = [
+          ['Start date', formatDate(rental.startDate), formatDate(rental.startDate)],
+          ['Return date', formatDate(amendment.previousEndDate), formatDate(amendment.newEndDate)],
+          ['Total days', `${amendment.previousTotalDays} days`, `${amendment.newTotalDays} days`],
+          ['Rental per day', `RM ${parseFloat(rental.rentalPerDay).toFixed(2)}`, `RM ${parseFloat(rental.rentalPerDay).toFixed(2)}`],
+          ['Grand total', `RM ${parseFloat(amendment.previousGrandTotal).toFixed(2)}`, `RM ${parseFloat(amendment.newGrandTotal).toFixed(2)}`],
+        ];
+        rows.forEach((row, index) => {
+          const rowY = tableY + 20 + (index * 18);
+          doc.rect(60, rowY, 480, 18).fillAndStroke(index % 2 === 0 ? '#f8fafc' : '#ffffff', '#e2e8f0');
+          doc.fontSize(9).font('Helvetica').fillColor('#4a5568')
+             .text(row[0], 80, rowY + 5)
+             .text(row[1], 240, rowY + 5)
+             .text(row[2], 400, rowY + 5);
+        });
+
+        const difference = parseFloat(amendment.priceDifference);
+        const totalY = tableY + 20 + (rows.length * 18);
+        doc.rect(60, totalY, 480, 25).fillAndStroke('#2d5a27', '#2d5a27');
+        doc.fontSize(12).font('Helvetica-Bold').fillColor('#ffffff')
+           .text(difference >= 0 ? 'ADDITIONAL AMOUNT PAYABLE' : 'AMOUNT TO BE REFUNDED', 80, totalY + 8)
+           .text(`RM ${Math.abs(difference).toFixed(2)}`, 420, totalY + 8);
+        doc.y = totalY + 60;
+
+        // Signatures
+        const signatureY = doc.y;
+        doc.fillColor('#000000').strokeColor('#4a5568').lineWidth(1);
+        doc.moveTo(60, signatureY + 40).lineTo(260, signatureY + 40).stroke();
+        doc.moveTo(340, signatureY + 40).lineTo(540, signatureY + 40).stroke();
+        doc.fontSize(9).font('Helvetica')
+           .text(customer.fullName, 60, signatureY + 46)
+           .text('For Reimagined Rentalz', 340, signatureY + 46);
+
+        doc.end();
+      } catch (error) {
+        console.error('Error generating addendum content:', error);
+        reject(error);
+      }
+    });
+  }
+
   async generateInvoice(invoice: any): Promise<string> {
     const filename = `invoice-${invoice.id}-${new Date().toISOString().split('T')[0]}.pdf`;
     const filePath = path.join(this.backupsDir, filename);
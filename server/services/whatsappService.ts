@@ -1,6 +1,7 @@
 import fetch from 'node-fetch';
 import fs from 'fs';
 import FormData from 'form-data';
+import type { BookingRequest } from '@shared/schema';
 
 export class WhatsAppService {
   private baseUrl: string;
@@ -12,10 +13,12 @@ export class WhatsAppService {
   }
 
   // Method to send document via WhatsApp Business API
-  async sendDocument(phoneNumber: string, documentPath: string, customerName: string, rentalDetails: any, pdfUrl?: string) {
+  // pdfUrl should be a signed, expiring download link (see downloadLinks.ts);
+  // linkExpiresAt tells the customer how long it works
+  async sendDocument(phoneNumber: string, documentPath: string, customerName: string, rentalDetails: any, pdfUrl?: string, linkExpiresAt?: Date) {
     try {
       // For now, we'll use the web WhatsApp approach with pre-filled message
-      const message = this.createWhatsAppMessage(customerName, rentalDetails, pdfUrl);
+      const message = this.createWhatsAppMessage(customerName, rentalDetails, pdfUrl, linkExpiresAt);
       const whatsappUrl = this.generateWhatsAppUrl(phoneNumber, message);
       
       return {
@@ -29,7 +32,7 @@ export class WhatsAppService {
     }
   }
 
-  private createWhatsAppMessage(customerName: string, rentalDetails: any, pdfUrl?: string): string {
+  private createWhatsAppMessage(customerName: string, rentalDetails: any, pdfUrl?: string, linkExpiresAt?: Date): string {
     // Robust base URL resolution with proper fallbacks
     const baseUrl = process.env.APP_BASE_URL || 
                    process.env.REPLIT_APP_URL || 
@@ -69,7 +72,8 @@ Period: ${new Date(rentalDetails.startDate).toLocaleDateString()} - ${new Date(r
 Total: RM ${rentalDetails.grandTotal}
 
 *Download your agreement here:*
-${fullPdfUrl}
+${fullPdfUrl}${linkExpiresAt ? `
+(This link expires on ${linkExpiresAt.toLocaleDateString()}.)` : ''}
 
 Please save this document for your records. If you have any questions, feel free to contact us.
 
@@ -79,6 +83,25 @@ Thank you for choosing Reimagined Rentalz!
 Reimagined Rentalz Team`;
   }
 
+  // Link for staff to tell a customer the outcome of their booking request
+  createBookingRequestLink(phoneNumber: string, customerName: string, bookingRequest: BookingRequest): string {
+    const period = `${new Date(bookingRequest.startDate).toLocaleDateString()} - ${new Date(bookingRequest.endDate).toLocaleDateString()}`;
+    const outcome = bookingRequest.status === 'confirmed'
+      ? `Good news! Your booking request #${bookingRequest.id} for the ${bookingRequest.vehicleName} (${period}) is *confirmed*. We'll be in touch to arrange payment and handover.`
+      : `We're sorry, we couldn't confirm your booking request #${bookingRequest.id} for the ${bookingRequest.vehicleName} (${period}).${bookingRequest.rejectedReason ? `
+
+Reason: ${bookingRequest.rejectedReason}` : ''}`;
+
+    return this.generateWhatsAppUrl(phoneNumber, `Hello ${customerName}!
+
+${outcome}
+
+Thank you for choosing Reimagined Rentalz!
+
+--
+Reimagined Rentalz Team`);
+  }
+
   private generateWhatsAppUrl(phoneNumber: string, message: string): string {
     // Clean phone number (remove spaces, dashes, etc.)
     const cleanNumber = phoneNumber.replace(/[^\d+]/g, '');
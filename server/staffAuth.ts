@@ -0,0 +1,171 @@
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import type { Express, Request, RequestHandler } from "express";
+import type { Staff } from "@shared/schema";
+import type { StaffPermission, StaffRole } from "@shared/authSchema";
+import { storage } from "./storage";
+
+// Absolute lifetime of a staff session cookie.
+const STAFF_SESSION_TTL_MS =
+  parseInt(process.env.STAFF_SESSION_TTL_HOURS || "12") * 60 * 60 * 1000;
+
+// Staff sessions that see no requests for this long are treated as expired.
+const STAFF_SESSION_IDLE_MS =
+  parseInt(process.env.STAFF_SESSION_IDLE_MINUTES || "60") * 60 * 1000;
+
+// Routes under /api/staff that must stay reachable without a session. The
+// 2FA login steps check the pending challenge in the session themselves.
+const PUBLIC_STAFF_PATHS = ["/login", "/login/2fa", "/login/2fa/setup", "/login/2fa/enable"];
+
+export interface StaffSessionData {
+  id: number;
+  username: string;
+  loginAt: string;
+  lastSeenAt: string;
+}
+
+declare module "express-session" {
+  interface SessionData {
+    staff?: StaffSessionData;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The authenticated staff member, populated by requireStaff.
+      staff?: Staff;
+      staffRole?: StaffRole;
+      staffPermissions?: StaffPermission[];
+    }
+  }
+}
+
+export function getSession() {
+  const pgStore = connectPg(session);
+  const sessionStore = new pgStore({
+    conString: process.env.DATABASE_URL,
+    createTableIfMissing: true,
+    ttl: STAFF_SESSION_TTL_MS / 1000,
+    tableName: "sessions",
+  });
+
+  return session({
+    secret: process.env.SESSION_SECRET!,
+    store: sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      maxAge: STAFF_SESSION_TTL_MS,
+    },
+  });
+}
+
+export function setupStaffAuth(app: Express) {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set to enable staff sessions.");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(getSession());
+  app.use("/api/staff", (req, res, next) => {
+    if (PUBLIC_STAFF_PATHS.includes(req.path)) {
+      return next();
+    }
+    return requireStaff(req, res, next);
+  });
+}
+
+// Rejects the request unless it carries a live staff session, and attaches
+// the staff member to req.staff.
+export const requireStaff: RequestHandler = async (req, res, next) => {
+  const staffSession = req.session.staff;
+  if (!staffSession) {
+    return res.status(401).json({ message: "Staff login required" });
+  }
+
+  const now = Date.now();
+  if (isStaffSessionIdle(staffSession, now)) {
+    await destroyStaffSession(req);
+    return res.status(401).json({ message: "Session expired. Please log in again." });
+  }
+
+  try {
+    const staffMember = await storage.getStaffById(staffSession.id);
+    if (!staffMember) {
+      await destroyStaffSession(req);
+      return res.status(401).json({ message: "Staff account no longer exists" });
+    }
+
+    staffSession.lastSeenAt = new Date(now).toISOString();
+    req.staff = staffMember;
+    req.staffRole = await storage.getStaffRole(staffMember.id);
+    req.staffPermissions = await storage.getRolePermissions(req.staffRole);
+    next();
+  } catch (error) {
+    console.error("Staff session check error:", error);
+    res.status(500).json({ message: "Failed to verify staff session" });
+  }
+};
+
+export function isStaffSessionIdle(staffSession: StaffSessionData, now = Date.now()): boolean {
+  return now - new Date(staffSession.lastSeenAt).getTime() > STAFF_SESSION_IDLE_MS;
+}
+
+// Starts a fresh session for the staff member, discarding any previous
+// session id so a pre-login cookie cannot be fixated.
+export function establishStaffSession(req: Request, staffMember: Staff): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((regenerateError) => {
+      if (regenerateError) return reject(regenerateError);
+
+      const now = new Date().toISOString();
+      req.session.staff = {
+        id: staffMember.id,
+        username: staffMember.username,
+        loginAt: now,
+        lastSeenAt: now,
+      };
+      req.session.save((saveError) => (saveError ? reject(saveError) : resolve()));
+    });
+  });
+}
+
+export function destroyStaffSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.destroy((error) => (error ? reject(error) : resolve()));
+  });
+}
+
+// Allows the request through when the staff member holds any of the given
+// permissions. Must run after requireStaff.
+export function requirePermission(...permissions: StaffPermission[]): RequestHandler {
+  return (req, res, next) => {
+    const granted = req.staffPermissions || [];
+    if (!permissions.some(permission => granted.includes(permission))) {
+      return res.status(403).json({
+        message: "You do not have permission to perform this action",
+        requiredPermissions: permissions,
+      });
+    }
+    next();
+  };
+}
+
+// Grants the owner role to the account named in STAFF_OWNER_USERNAME while no
+// owner exists yet, so a fresh install can be administered without a
+// hardcoded account.
+export async function ensureBootstrapOwner(staffMember: Staff): Promise<void> {
+  const ownerUsername = process.env.STAFF_OWNER_USERNAME;
+  if (!ownerUsername || ownerUsername.toLowerCase() !== staffMember.username.toLowerCase()) {
+    return;
+  }
+
+  if ((await storage.countStaffWithRole("owner")) === 0) {
+    await storage.setStaffRole(staffMember.id, "owner");
+    console.log(`✅ Bootstrapped staff owner: ${staffMember.username}`);
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("./storage", () => ({
+  storage: {
+    getStaffTwoFactor: vi.fn(),
+    recordStaffTwoFactorStep: vi.fn(),
+    consumeStaffRecoveryCode: vi.fn(),
+  },
+}));
+
+import { storage } from "./storage";
+import {
+  verifyTotp,
+  generateTotpSecret,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  verifyStaffSecondFactor,
+  getStaffTwoFactorChallenge,
+  STAFF_2FA_MAX_ATTEMPTS,
+} from "./staffTwoFactor";
+
+// RFC 6238 appendix B secret ("12345678901234567890") in base32
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("verifyTotp", () => {
+  it("accepts the RFC 6238 test vectors", () => {
+    expect(verifyTotp(RFC_SECRET, "287082", 59 * 1000)).toBe(1);
+    expect(verifyTotp(RFC_SECRET, "081804", 1111111109 * 1000)).toBe(37037036);
+    expect(verifyTotp(RFC_SECRET, "005924", 1234567890 * 1000)).toBe(41152263);
+  });
+
+  it("allows one step of clock drift either way", () => {
+    expect(verifyTotp(RFC_SECRET, "287082", 89 * 1000)).toBe(1);
+    expect(verifyTotp(RFC_SECRET, "287082", 120 * 1000)).toBeNull();
+  });
+
+  it("rejects malformed and wrong codes", () => {
+    expect(verifyTotp(RFC_SECRET, "28708", 59 * 1000)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "abcdef", 59 * 1000)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "000000", 59 * 1000)).toBeNull();
+  });
+
+  it("generates 160-bit base32 secrets", () => {
+    expect(generateTotpSecret()).toMatch(/^[A-Z2-7]{32}$/);
+  });
+});
+
+describe("recovery codes", () => {
+  it("stores only hashes, matching codes however they are typed", () => {
+    const { codes, hashes } = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    expect(codes[0]).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/);
+    expect(hashes[0]).toBe(hashRecoveryCode(codes[0]));
+    expect(hashRecoveryCode(` ${codes[0].toUpperCase().replace("-", "")} `)).toBe(hashes[0]);
+  });
+});
+
+describe("verifyStaffSecondFactor", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(59 * 1000);
+    vi.mocked(storage.getStaffTwoFactor).mockResolvedValue({ staffId: 1, secret: RFC_SECRET, enabledAt: new Date() } as any);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("accepts a current code once", async () => {
+    vi.mocked(storage.recordStaffTwoFactorStep).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    expect(await verifyStaffSecondFactor(1, "287082")).toEqual({ valid: true, method: "totp" });
+    expect(storage.recordStaffTwoFactorStep).toHaveBeenCalledWith(1, 1);
+    // The step was already used
+    expect(await verifyStaffSecondFactor(1, "287082")).toEqual({ valid: false });
+  });
+
+  it("falls back to recovery codes", async () => {
+    vi.mocked(storage.consumeStaffRecoveryCode).mockResolvedValue(true);
+
+    expect(await verifyStaffSecondFactor(1, "abcde-fghij")).toEqual({ valid: true, method: "recovery_code" });
+    expect(storage.consumeStaffRecoveryCode).toHaveBeenCalledWith(1, hashRecoveryCode("abcde-fghij"));
+  });
+
+  it("rejects staff who have not finished enrolling", async () => {
+    vi.mocked(storage.getStaffTwoFactor).mockResolvedValue({ staffId: 1, secret: RFC_SECRET, enabledAt: null } as any);
+
+    expect(await verifyStaffSecondFactor(1, "287082")).toEqual({ valid: false });
+    expect(storage.recordStaffTwoFactorStep).not.toHaveBeenCalled();
+  });
+});
+
+describe("getStaffTwoFactorChallenge", () => {
+  const requestWith = (challenge: object) => ({ session: { staffTwoFactor: challenge } }) as any;
+
+  it("returns a fresh challenge", () => {
+    const challenge = { id: 1, username: "ops", mode: "verify", startedAt: new Date().toISOString(), attempts: 0 };
+    expect(getStaffTwoFactorChallenge(requestWith(challenge))).toEqual(challenge);
+  });
+
+  it("clears expired and exhausted challenges", () => {
+    const expired = requestWith({ id: 1, username: "ops", mode: "verify", startedAt: new Date(Date.now() - 6 * 60 * 1000).toISOString(), attempts: 0 });
+    expect(getStaffTwoFactorChallenge(expired)).toBeUndefined();
+    expect(expired.session.staffTwoFactor).toBeUndefined();
+
+    const exhausted = requestWith({ id: 1, username: "ops", mode: "verify", startedAt: new Date().toISOString(), attempts: STAFF_2FA_MAX_ATTEMPTS });
+    expect(getStaffTwoFactorChallenge(exhausted)).toBeUndefined();
+  });
+});
@@ -0,0 +1,200 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import QRCode from "qrcode";
+import type { Request } from "express";
+import type { Staff } from "@shared/schema";
+import { storage } from "./storage";
+
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+
+// Accept codes from one period either side to tolerate clock drift.
+const TOTP_ALLOWED_DRIFT_STEPS = 1;
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Time allowed between a correct password and the second factor.
+const STAFF_2FA_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+// Wrong codes allowed against one challenge before the password is needed again.
+export const STAFF_2FA_MAX_ATTEMPTS = 5;
+
+const TOTP_ISSUER = process.env.STAFF_2FA_ISSUER || "Reimagined Rentalz";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export interface StaffTwoFactorChallenge {
+  id: number;
+  username: string;
+  // "verify" for enrolled staff, "enroll" when the role requires 2FA but the
+  // staff member has not set it up yet
+  mode: "verify" | "enroll";
+  startedAt: string;
+  attempts: number;
+}
+
+declare module "express-session" {
+  interface SessionData {
+    staffTwoFactor?: StaffTwoFactorChallenge;
+  }
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(encoded: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of encoded.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 secret");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// RFC 4226 HOTP value for a counter; TOTP uses the current time step as the counter.
+function generateHotp(key: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = createHmac("sha1", key).update(message).digest();
+  const offset = digest[digest.length - 1] & 0xf;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+// Returns the time step the code matched, or null if it matches none in the
+// allowed window.
+export function verifyTotp(secret: string, code: string, now = Date.now()): number | null {
+  if (!/^\d{6}$/.test(code)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+  for (let drift = -TOTP_ALLOWED_DRIFT_STEPS; drift <= TOTP_ALLOWED_DRIFT_STEPS; drift++) {
+    const step = currentStep + drift;
+    if (timingSafeEqual(Buffer.from(generateHotp(key, step)), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// Secret, otpauth:// URL and QR code shown to a staff member while enrolling.
+export async function buildTwoFactorEnrollment(username: string, secret: string) {
+  const label = `${encodeURIComponent(TOTP_ISSUER)}:${encodeURIComponent(username)}`;
+  const otpauthUrl =
+    `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(TOTP_ISSUER)}` +
+    `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+  return { secret, otpauthUrl, qrCodeDataUrl };
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+// Plain codes are shown to the staff member once; only their hashes are stored.
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+export type SecondFactorResult =
+  | { valid: true; method: "totp" | "recovery_code" }
+  | { valid: false };
+
+// Checks a code against an enrolled staff member's authenticator secret, or
+// consumes it as a recovery code.
+export async function verifyStaffSecondFactor(staffId: number, code: string): Promise<SecondFactorResult> {
+  const twoFactor = await storage.getStaffTwoFactor(staffId);
+  if (!twoFactor?.enabledAt || !twoFactor.secret) {
+    return { valid: false };
+  }
+
+  const trimmed = code.trim();
+  if (/^\d{6}$/.test(trimmed)) {
+    const step = verifyTotp(twoFactor.secret, trimmed);
+    if (step === null || !(await storage.recordStaffTwoFactorStep(staffId, step))) {
+      return { valid: false };
+    }
+    return { valid: true, method: "totp" };
+  }
+
+  if (await storage.consumeStaffRecoveryCode(staffId, hashRecoveryCode(trimmed))) {
+    return { valid: true, method: "recovery_code" };
+  }
+  return { valid: false };
+}
+
+// Replaces the session with a pre-authenticated one that only allows the
+// second-factor endpoints. requireStaff ignores it until the login completes.
+export function startStaffTwoFactorChallenge(
+  req: Request,
+  staffMember: Staff,
+  mode: StaffTwoFactorChallenge["mode"]
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((regenerateError) => {
+      if (regenerateError) return reject(regenerateError);
+
+      req.session.staffTwoFactor = {
+        id: staffMember.id,
+        username: staffMember.username,
+        mode,
+        startedAt: new Date().toISOString(),
+        attempts: 0,
+      };
+      req.session.save((saveError) => (saveError ? reject(saveError) : resolve()));
+    });
+  });
+}
+
+// Returns the pending challenge if it is still usable, clearing it otherwise.
+export function getStaffTwoFactorChallenge(req: Request): StaffTwoFactorChallenge | undefined {
+  const challenge = req.session.staffTwoFactor;
+  if (!challenge) {
+    return undefined;
+  }
+
+  const expired = Date.now() - new Date(challenge.startedAt).getTime() > STAFF_2FA_CHALLENGE_TTL_MS;
+  if (expired || challenge.attempts >= STAFF_2FA_MAX_ATTEMPTS) {
+    delete req.session.staffTwoFactor;
+    return undefined;
+  }
+  return challenge;
+}
@@ -1,8 +1,242 @@
 import { customers, rentals, staff, vehicles, deliveries, invoices, staffLogs, bookingRequests, customerBadges, customerActivity, customerReviews, loyaltyTiers, type Customer, type InsertCustomer, type Rental, type InsertRental, type Staff, type Vehicle, type InsertVehicle, type Delivery, type InsertDelivery, type Invoice, type InsertInvoice, type StaffLog, type InsertStaffLog, type BookingRequest, type InsertBookingRequest, type CustomerBadge, type InsertCustomerBadge, type CustomerActivity, type InsertCustomerActivity, type CustomerReview, type InsertCustomerReview, type LoyaltyTier, type InsertLoyaltyTier } from "@shared/schema";
+import { staffRoles, rolePermissions, staffTwoFactor, type StaffTwoFactor, loginAttempts, type LoginAttempt, customerLoginCodes, customerTokens, downloadLinkRevocations, type CustomerLoginCode, type CustomerToken, type CustomerTokenPurpose, STAFF_ROLES, DEFAULT_STAFF_ROLE, DEFAULT_ROLE_PERMISSIONS, ALL_STAFF_PERMISSIONS, type StaffRole, type StaffPermission } from "@shared/authSchema";
+import { staffLogChain, staffLogChainHead, STAFF_LOG_CHAIN_GENESIS, STAFF_LOG_CHAIN_HEAD_ID, type StaffLogFilter } from "@shared/auditSchema";
+import { termsVersions, termsAcceptances, rentalTermsAcceptances, type TermsVersion, type InsertTermsVersion, type TermsAcceptance, type InsertTermsAcceptance, type TermsContent } from "@shared/termsSchema";
+import { rentalStatusTransitions, rentalReturns, rentalAmendments, rentalVehicles, applyDepositToCharges, repriceRental, RENTAL_ACTION_DEFINITIONS, RENTAL_STATUS_LABELS, RELEASED_RENTAL_STATUSES, AMENDABLE_RENTAL_STATUSES, resolveRentalStatus, type RentalAction, type RentalActor, type RentalStatus, type RentalStatusTransition, type RentalReturn, type InsertRentalReturn, type RentalDamageCharge, type RentalAmendment, type RentalAmendmentType } from "@shared/rentalSchema";
+import { damageInspections, damagePoints, type DamageInspection, type DamagePoint, type InsertDamagePoint } from "@shared/inspectionSchema";
+import { depositLedgerEntries, summarizeDepositLedger, DEPOSIT_REFUND_DUE_STATUSES, type DepositLedgerEntry, type DepositEntryInput, type DepositEntrySource, type OutstandingDeposit } from "@shared/depositSchema";
+import { vehicleSchedulingSettings, vehicleBlackouts, DEFAULT_TURNAROUND_HOURS, type VehicleBlackout, type VehicleBlackoutInput } from "@shared/fleetSchema";
+import { bookingRequestHolds, bookingRequestChanges, canTransitionBookingRequest, BOOKING_REQUEST_STATUS_LABELS, type BookingRequestStatus, type BookingRequestHold, type VehicleHold, type BookingRequestChange, type BookingRequestDateChange } from "@shared/bookingRequestSchema";
+import { waitlistEntries, type WaitlistEntry, type WaitlistEntryInput, type CustomerWaitlistEntry } from "@shared/waitlistSchema";
 import { db } from "./db";
-import { eq, desc, and, or, ne, lte, gte, asc } from "drizzle-orm";
+import { createHash } from "crypto";
+import { eq, desc, and, or, ne, lte, gte, gt, asc, isNull, isNotNull, inArray, notInArray, sql, type SQL } from "drizzle-orm";
 import bcrypt from "bcrypt";
 
+export type DocumentOwner =
+  | { type: "customer"; customerId: number }
+  | { type: "rental"; rentalId: number; customerId: number }
+  | { type: "vehicle"; vehicleId: number };
+
+export type StaffLogChainCheck =
+  | { valid: true; entriesChecked: number; legacyEntries: number }
+  | { valid: false; entriesChecked: number; legacyEntries: number; staffLogId: number; reason: string };
+
+// Arbitrary key for the advisory lock that serialises appends to the staff
+// log hash chain.
+const STAFF_LOG_CHAIN_LOCK = 824163;
+
+// Namespace for the per-vehicle advisory locks that serialise bookings of
+// one vehicle; the second key is the vehicle id.
+const VEHICLE_SCHEDULE_LOCK = 824164;
+
+// Ids of the rentals booked on a vehicle, for use as a subquery.
+function rentalIdsForVehicle(vehicleId: number) {
+  return db.select({ id: rentalVehicles.rentalId }).from(rentalVehicles).where(eq(rentalVehicles.vehicleId, vehicleId));
+}
+
+// Rentals holding the vehicle at any time between the two dates.
+function vehicleConflictConditions(vehicleId: number, startDate: Date, endDate: Date, excludeRentalId?: number) {
+  let conditions = and(
+    inArray(rentals.id, rentalIdsForVehicle(vehicleId)),
+    notInArray(rentals.status, RELEASED_RENTAL_STATUSES),
+    or(
+      // New rental starts during existing rental
+      and(
+        lte(rentals.startDate, startDate),
+        gte(rentals.endDate, startDate)
+      ),
+      // New rental ends during existing rental
+      and(
+        lte(rentals.startDate, endDate),
+        gte(rentals.endDate, endDate)
+      ),
+      // New rental completely overlaps existing rental
+      and(
+        gte(rentals.startDate, startDate),
+        lte(rentals.endDate, endDate)
+      )
+    )
+  );
+
+  if (excludeRentalId) {
+    conditions = and(conditions, ne(rentals.id, excludeRentalId));
+  }
+  return conditions;
+}
+
+// Blackouts of the vehicle overlapping the two dates.
+function blackoutConflictConditions(vehicleId: number, startDate: Date, endDate: Date) {
+  return and(
+    eq(vehicleBlackouts.vehicleId, vehicleId),
+    lte(vehicleBlackouts.startDate, endDate),
+    gte(vehicleBlackouts.endDate, startDate)
+  );
+}
+
+// Holds that still block their dates: a pending request's until it lapses,
+// a confirmed request's until it is converted or rejected.
+function activeHoldConditions(now: Date) {
+  return or(
+    eq(bookingRequests.status, "confirmed"),
+    and(eq(bookingRequests.status, "pending"), gt(bookingRequestHolds.expiresAt, now))
+  );
+}
+
+// Active holds on the vehicle overlapping the two dates. Used with
+// bookingRequestHolds joined to bookingRequests.
+function holdConflictConditions(vehicleId: number, startDate: Date, endDate: Date, now: Date, excludeBookingRequestId?: number) {
+  let conditions = and(
+    eq(bookingRequestHolds.vehicleId, vehicleId),
+    lte(bookingRequestHolds.startDate, endDate),
+    gte(bookingRequestHolds.endDate, startDate),
+    activeHoldConditions(now)
+  );
+
+  if (excludeBookingRequestId) {
+    conditions = and(conditions, ne(bookingRequestHolds.bookingRequestId, excludeBookingRequestId));
+  }
+  return conditions;
+}
+
+// Widens the dates by the vehicle's turnaround on each side, so a rental
+// can't start until the turnaround after the previous one has passed, nor
+// end within the turnaround before the next.
+function withTurnaround(startDate: Date, endDate: Date, turnaroundHours: number): { startDate: Date; endDate: Date } {
+  const padding = turnaroundHours * 60 * 60 * 1000;
+  return {
+    startDate: new Date(startDate.getTime() - padding),
+    endDate: new Date(endDate.getTime() + padding),
+  };
+}
+
+// JSON with object keys sorted, so a row hashes the same after a round trip
+// through jsonb (which does not keep key order).
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function hashStaffLog(log: StaffLog, previousHash: string): string {
+  const { id, staffId, staffUsername, action, targetType, targetId, details, timestamp } = log;
+  return createHash("sha256")
+    .update(canonicalJson({ id, staffId, staffUsername, action, targetType, targetId, details, timestamp, previousHash }))
+    .digest("hex");
+}
+
+export interface CustomerErasureCounts {
+  rentalsScrubbed: number;
+  bookingRequestsScrubbed: number;
+  reviewsDeleted: number;
+  activitiesDeleted: number;
+  badgesDeleted: number;
+}
+
+export type TermsAcceptanceRecord = TermsAcceptance & { version: string };
+
+// Thrown when a rental lifecycle action is not allowed from the rental's
+// current status.
+export class RentalTransitionError extends Error {
+  constructor(public readonly action: RentalAction, public readonly status: RentalStatus) {
+    super(`"${RENTAL_ACTION_DEFINITIONS[action].label}" is not allowed while the rental is ${RENTAL_STATUS_LABELS[status].toLowerCase()}`);
+    this.name = "RentalTransitionError";
+    Object.setPrototypeOf(this, RentalTransitionError.prototype);
+  }
+}
+
+// Thrown when a rental's end date cannot be moved as asked, e.g. an
+// "extension" that ends earlier or a rental already checked in.
+export class RentalAmendmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RentalAmendmentError";
+    Object.setPrototypeOf(this, RentalAmendmentError.prototype);
+  }
+}
+
+// Thrown when a booking's dates overlap another rental of the same vehicle
+// (allowing for its turnaround), a blackout or another request's hold, or
+// when a blackout is put over a rental.
+export class VehicleUnavailableError extends Error {
+  constructor(
+    public readonly conflicts: Rental[],
+    public readonly blackouts: VehicleBlackout[] = [],
+    public readonly holds: BookingRequestHold[] = []
+  ) {
+    super(conflicts.length > 0
+      ? "The vehicle is already booked for some of these dates"
+      : blackouts.length > 0
+        ? "The vehicle is off the road for some of these dates"
+        : "The vehicle is on hold for another booking request for some of these dates");
+    this.name = "VehicleUnavailableError";
+    Object.setPrototypeOf(this, VehicleUnavailableError.prototype);
+  }
+}
+
+// Thrown when a booking request cannot move to the asked status from its
+// current one.
+export class BookingRequestTransitionError extends Error {
+  constructor(public readonly from: string, public readonly to: BookingRequestStatus) {
+    const fromLabel = BOOKING_REQUEST_STATUS_LABELS[from as BookingRequestStatus] ?? from;
+    super(`A ${fromLabel.toLowerCase()} booking request cannot be ${BOOKING_REQUEST_STATUS_LABELS[to].toLowerCase()}`);
+    this.name = "BookingRequestTransitionError";
+    Object.setPrototypeOf(this, BookingRequestTransitionError.prototype);
+  }
+}
+
+// Thrown when a customer's change to their booking request isn't allowed,
+// e.g. it has been decided or the cut-off has passed.
+export class BookingRequestChangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BookingRequestChangeError";
+    Object.setPrototypeOf(this, BookingRequestChangeError.prototype);
+  }
+}
+
+// Thrown when a deposit deduction or refund is more than is still held.
+export class DepositLedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DepositLedgerError";
+    Object.setPrototypeOf(this, DepositLedgerError.prototype);
+  }
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface RentalVehicleBackfill {
+  rentalsChecked: number;
+  rentalsLinked: number;
+  // Rentals whose vehicle name matches no vehicle, or more than one
+  unmatched: { rentalId: number; vehicle: string }[];
+}
+
+export interface VehicleAvailabilityOptions {
+  excludeRentalId?: number;
+  // The request being confirmed or converted, whose own hold doesn't count
+  excludeBookingRequestId?: number;
+  // Whether booking request holds block the dates; they do unless false
+  includeHolds?: boolean;
+}
+
+export interface LegacyRentalStatusMigration {
+  rentalsChecked: number;
+  rentalsMigrated: number;
+}
+
 export interface IStorage {
   // Customer methods
   createCustomer(customer: InsertCustomer): Promise<Customer>;
@@ -12,36 +246,145 @@ export interface IStorage {
   updateCustomer(id: number, updates: Partial<InsertCustomer>): Promise<Customer>;
   deleteCustomer(id: number): Promise<void>;
   getAllCustomers(): Promise<Customer[]>;
+  updateCustomerPassword(id: number, hashedPassword: string): Promise<void>;
+  deleteCustomerSessions(customerId: number): Promise<number>;
+  eraseCustomerPersonalData(customerId: number, unusablePasswordHash: string): Promise<CustomerErasureCounts>;
+
+  // Customer login code methods
+  createCustomerLoginCode(customerId: number, codeHash: string, expiresAt: Date): Promise<CustomerLoginCode>;
+  getActiveCustomerLoginCode(customerId: number): Promise<CustomerLoginCode | undefined>;
+  recordCustomerLoginCodeAttempt(id: number): Promise<void>;
+  consumeCustomerLoginCode(id: number): Promise<void>;
+
+  // Finds the record a stored file belongs to, for document access checks
+  findDocumentOwner(fileUrls: string[]): Promise<DocumentOwner | undefined>;
+
+  // Signed download link revocation
+  revokeRentalDownloadLinks(rentalId: number): Promise<void>;
+  getRentalDownloadLinksRevokedAt(rentalId: number): Promise<Date | undefined>;
+
+  // Terms & Conditions methods
+  getTermsVersions(): Promise<TermsVersion[]>;
+  getTermsVersionById(id: number): Promise<TermsVersion | undefined>;
+  getCurrentTermsVersion(): Promise<TermsVersion | undefined>;
+  createInitialTermsVersion(version: string, content: TermsContent): Promise<void>;
+  createTermsVersion(terms: InsertTermsVersion, createdByStaffId: number): Promise<TermsVersion>;
+  updateTermsVersion(id: number, updates: Partial<InsertTermsVersion>): Promise<TermsVersion | undefined>;
+  publishTermsVersion(id: number, publishedByStaffId: number): Promise<TermsVersion | undefined>;
+  createTermsAcceptance(acceptance: InsertTermsAcceptance): Promise<TermsAcceptance>;
+  getLatestTermsAcceptance(customerId: number): Promise<TermsAcceptanceRecord | undefined>;
+  getTermsAcceptancesByCustomer(customerId: number): Promise<TermsAcceptanceRecord[]>;
+  linkRentalTermsAcceptance(rentalId: number, termsAcceptanceId: number): Promise<void>;
+  getRentalTermsAcceptance(rentalId: number): Promise<{ acceptance: TermsAcceptance; termsVersion: TermsVersion } | undefined>;
+
+  // Login throttle methods
+  getLoginAttempt(key: string): Promise<LoginAttempt | undefined>;
+  incrementLoginAttempt(key: string, resetIfIdleSince: Date): Promise<LoginAttempt>;
+  lockLoginAttempt(key: string, lockedUntil: Date): Promise<void>;
+  clearLoginAttempt(key: string): Promise<void>;
+  pruneLoginAttempts(idleSince: Date): Promise<void>;
+
+  // Customer token methods (email verification, password reset)
+  createCustomerToken(token: { customerId: number; purpose: CustomerTokenPurpose; email: string; nonceHash: string; expiresAt: Date }): Promise<CustomerToken>;
+  getCustomerTokenById(id: number): Promise<CustomerToken | undefined>;
+  consumeCustomerToken(id: number): Promise<boolean>;
+  revokeCustomerTokens(customerId: number, purpose: CustomerTokenPurpose): Promise<void>;
+  isCustomerEmailVerified(customerId: number, email: string): Promise<boolean>;
 
   // Rental methods
-  createRental(rental: InsertRental): Promise<Rental>;
+  createRental(rental: Omit<InsertRental, "vehicle"> & { status: RentalStatus }, vehicleId: number, actor: RentalActor, bookingRequestId?: number): Promise<Rental>;
   getRentalById(id: number): Promise<Rental | undefined>;
-  updateRental(id: number, updates: Partial<InsertRental>): Promise<Rental>;
+  updateRental(id: number, updates: Omit<Partial<InsertRental>, "status" | "vehicle">): Promise<Rental>;
+  amendRentalEndDate(id: number, amendment: { type: RentalAmendmentType; endDate: Date; reason?: string }, staffId: number): Promise<{ rental: Rental; amendment: RentalAmendment }>;
+  getRentalAmendments(rentalId: number): Promise<RentalAmendment[]>;
+  getRentalAmendmentsByCustomer(customerId: number): Promise<RentalAmendment[]>;
+  setRentalAmendmentPdf(id: number, addendumPdfUrl: string): Promise<void>;
   updateRentalPdf(id: number, pdfUrl: string): Promise<void>;
+  transitionRental(id: number, action: RentalAction, actor: RentalActor, note?: string): Promise<Rental>;
+  getRentalStatusHistory(rentalId: number): Promise<RentalStatusTransition[]>;
+  recordRentalReturn(checkIn: InsertRentalReturn, actor: RentalActor): Promise<{ rental: Rental; rentalReturn: RentalReturn }>;
+  getRentalReturn(rentalId: number): Promise<RentalReturn | undefined>;
+  getRentalReturnsByCustomer(customerId: number): Promise<RentalReturn[]>;
+
+  // Damage inspection methods
+  getDamageInspection(rentalId: number): Promise<{ inspection: DamageInspection; points: DamagePoint[] } | undefined>;
+  getOrCreateDamageInspection(rentalId: number, staffId: number): Promise<DamageInspection>;
+  getDamagePointById(id: number): Promise<DamagePoint | undefined>;
+  createDamagePoint(point: InsertDamagePoint): Promise<DamagePoint>;
+  updateDamagePoint(id: number, updates: Partial<InsertDamagePoint>): Promise<DamagePoint>;
+  deleteDamagePoint(id: number): Promise<void>;
+  finalizeDamageInspection(inspectionId: number, staffId: number): Promise<{ inspection: DamageInspection; rentalReturn: RentalReturn }>;
+  setDamageReportPdf(inspectionId: number, reportPdfUrl: string): Promise<void>;
+
+  // Deposit ledger methods
+  addDepositEntry(rentalId: number, entry: DepositEntryInput, staffId: number | null, source?: DepositEntrySource): Promise<DepositLedgerEntry>;
+  getDepositLedger(rentalId: number): Promise<DepositLedgerEntry[]>;
+  getDepositLedgerByCustomer(customerId: number): Promise<DepositLedgerEntry[]>;
+  getOutstandingDeposits(now?: Date): Promise<OutstandingDeposit[]>;
+  backfillDepositLedger(): Promise<{ rentalsChecked: number; rentalsBackfilled: number }>;
+  migrateLegacyRentalStatuses(): Promise<LegacyRentalStatusMigration>;
+  getRentalVehicleId(rentalId: number): Promise<number | undefined>;
+  linkRentalsToVehicles(): Promise<RentalVehicleBackfill>;
   getRentalsByCustomer(customerId: number): Promise<Rental[]>;
   getAllRentals(): Promise<Rental[]>;
   deleteRental(id: number): Promise<void>;
   getRentalsPDF(filter?: string): Promise<{ rentals: Rental[], buffer?: Buffer }>;
   
   // Vehicle scheduling methods
-  checkVehicleAvailability(vehicle: string, startDate: Date, endDate: Date, excludeRentalId?: number): Promise<boolean>;
-  getVehicleSchedule(vehicle: string, month?: number, year?: number): Promise<Rental[]>;
-  getConflictingRentals(vehicle: string, startDate: Date, endDate: Date, excludeRentalId?: number): Promise<Rental[]>;
+  checkVehicleAvailability(vehicleId: number, startDate: Date, endDate: Date, options?: VehicleAvailabilityOptions): Promise<boolean>;
+  getVehicleSchedule(vehicleId: number, month?: number, year?: number): Promise<Rental[]>;
+  getConflictingRentals(vehicleId: number, startDate: Date, endDate: Date, excludeRentalId?: number): Promise<Rental[]>;
   getCalendarBookings(month?: number, year?: number): Promise<any[]>;
+  getConflictingBlackouts(vehicleId: number, startDate: Date, endDate: Date): Promise<VehicleBlackout[]>;
+  getConflictingHolds(vehicleId: number, startDate: Date, endDate: Date, excludeBookingRequestId?: number): Promise<BookingRequestHold[]>;
+  getVehicleHolds(vehicleId: number): Promise<VehicleHold[]>;
+  getCalendarHolds(month?: number, year?: number): Promise<VehicleHold[]>;
+  getVehicleTurnaroundHours(vehicleId: number): Promise<number>;
+  setVehicleTurnaroundHours(vehicleId: number, turnaroundHours: number, staffId: number): Promise<void>;
+  getVehicleBlackouts(vehicleId: number): Promise<VehicleBlackout[]>;
+  getCalendarBlackouts(month?: number, year?: number): Promise<(VehicleBlackout & { vehicleName: string })[]>;
+  createVehicleBlackout(vehicleId: number, blackout: VehicleBlackoutInput, staffId: number): Promise<VehicleBlackout>;
+  deleteVehicleBlackout(id: number): Promise<VehicleBlackout | undefined>;
 
   // Staff methods
   getStaffByUsername(username: string): Promise<Staff | undefined>;
+  getStaffById(id: number): Promise<Staff | undefined>;
+  deleteStaffSessions(staffId: number, exceptSessionId?: string): Promise<number>;
+
+  // Staff role & permission methods
+  getStaffRole(staffId: number): Promise<StaffRole>;
+  setStaffRole(staffId: number, role: StaffRole, assignedByStaffId?: number): Promise<void>;
+  countStaffWithRole(role: StaffRole): Promise<number>;
+  getRolePermissions(role: StaffRole): Promise<StaffPermission[]>;
+  getAllRolePermissions(): Promise<Record<StaffRole, StaffPermission[]>>;
+  setRolePermissions(role: StaffRole, permissions: StaffPermission[], updatedByStaffId?: number): Promise<void>;
+  isTwoFactorRequiredForRole(role: StaffRole): Promise<boolean>;
+  getRoleTwoFactorRequirements(): Promise<Record<StaffRole, boolean>>;
+  setRoleTwoFactorRequired(role: StaffRole, required: boolean, updatedByStaffId?: number): Promise<void>;
+
+  // Staff two-factor methods
+  getStaffTwoFactor(staffId: number): Promise<StaffTwoFactor | undefined>;
+  setStaffTwoFactorPendingSecret(staffId: number, pendingSecret: string): Promise<void>;
+  enableStaffTwoFactor(staffId: number, secret: string, recoveryCodeHashes: string[], usedStep: number): Promise<void>;
+  recordStaffTwoFactorStep(staffId: number, step: number): Promise<boolean>;
+  consumeStaffRecoveryCode(staffId: number, codeHash: string): Promise<boolean>;
+  replaceStaffRecoveryCodes(staffId: number, recoveryCodeHashes: string[]): Promise<void>;
+  disableStaffTwoFactor(staffId: number): Promise<void>;
 
   // Vehicle methods
   createVehicle(vehicle: InsertVehicle): Promise<Vehicle>;
   getAllVehicles(): Promise<Vehicle[]>;
   getVehicleById(id: number): Promise<Vehicle | undefined>;
+  getVehicleByName(name: string): Promise<Vehicle | undefined>;
+  countVehicleRentals(vehicleId: number): Promise<number>;
+  getVehicleDailyRates(vehicleIds: number[]): Promise<Map<number, number>>;
   updateVehicle(id: number, updates: Partial<InsertVehicle>): Promise<Vehicle>;
   deleteVehicle(id: number): Promise<void>;
 
   // Delivery methods
   createDelivery(delivery: InsertDelivery): Promise<Delivery>;
   getAllDeliveries(): Promise<Delivery[]>;
+  getDeliveryById(id: number): Promise<Delivery | undefined>;
   getDeliveriesByStaff(staffId: number): Promise<Delivery[]>;
   deleteDelivery(id: number): Promise<void>;
 
@@ -53,24 +396,37 @@ export interface IStorage {
   // Staff logging methods
   createStaffLog(log: InsertStaffLog): Promise<StaffLog>;
   getAllStaffLogs(): Promise<StaffLog[]>;
+  getStaffLogs(filter: StaffLogFilter): Promise<StaffLog[]>;
+  getStaffLogFilterOptions(): Promise<{ actions: string[]; targetTypes: string[] }>;
+  verifyStaffLogChain(): Promise<StaffLogChainCheck>;
 
   // Booking request methods  
-  createBookingRequest(request: InsertBookingRequest): Promise<BookingRequest>;
+  createBookingRequest(request: InsertBookingRequest, holdExpiresAt: Date): Promise<BookingRequest>;
+  createWaitlistEntry(customerId: number, entry: WaitlistEntryInput): Promise<WaitlistEntry>;
+  getCustomerWaitlistEntries(customerId: number): Promise<CustomerWaitlistEntry[]>;
+  getWaitingWaitlistEntries(vehicleId?: number): Promise<WaitlistEntry[]>;
+  offerWaitlistEntry(id: number, holdExpiresAt: Date): Promise<{ entry: WaitlistEntry; bookingRequest: BookingRequest } | undefined>;
+  leaveWaitlist(id: number, customerId: number): Promise<WaitlistEntry | undefined>;
+  lapseWaitlistEntries(now: Date): Promise<number>;
   getAllBookingRequests(): Promise<any[]>;
   getBookingRequestById(id: number): Promise<BookingRequest | undefined>;
   getBookingRequestsByCustomer(customerId: number): Promise<BookingRequest[]>;
   getBookingRequestsByStatus(status: string): Promise<any[]>;
-  updateBookingRequestStatus(id: number, status: string, staffId?: number, reason?: string): Promise<void>;
+  transitionBookingRequest(id: number, status: BookingRequestStatus, decision: { staffId?: number; reason?: string }): Promise<BookingRequest>;
+  expireBookingRequests(createdBefore: Date, reason: string): Promise<BookingRequest[]>;
   updateBookingRequestNotifications(id: number, emailSent?: boolean, whatsappSent?: boolean): Promise<void>;
   updateBookingRequestConversion(id: number, rentalId: number): Promise<void>;
   deleteBookingRequest(id: number): Promise<void>;
+  cancelBookingRequestByCustomer(id: number, customerId: number, reason?: string): Promise<BookingRequest>;
+  changeBookingRequestDates(id: number, customerId: number, change: BookingRequestDateChange, holdExpiresAt: Date): Promise<BookingRequest>;
+  getBookingRequestChanges(bookingRequestId: number): Promise<BookingRequestChange[]>;
   
   // Gamification methods
   updateCustomerPoints(customerId: number, points: number): Promise<void>;
   addCustomerActivity(activity: InsertCustomerActivity): Promise<CustomerActivity>;
   addCustomerBadge(badge: InsertCustomerBadge): Promise<CustomerBadge>;
   getCustomerBadges(customerId: number): Promise<CustomerBadge[]>;
-  getCustomerActivities(customerId: number): Promise<CustomerActivity[]>;
+  getCustomerActivities(customerId: number, limit?: number | null): Promise<CustomerActivity[]>;
   createCustomerReview(review: InsertCustomerReview): Promise<CustomerReview>;
   getCustomerReviews(customerId: number): Promise<CustomerReview[]>;
   getPublicReviews(): Promise<CustomerReview[]>;
@@ -132,12 +488,468 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(customers).orderBy(customers.fullName);
   }
 
-  async createRental(insertRental: InsertRental): Promise<Rental> {
+  async updateCustomerPassword(id: number, hashedPassword: string): Promise<void> {
+    await db
+      .update(customers)
+      .set({ hashedPassword })
+      .where(eq(customers.id, id));
+  }
+
+  // Anonymises the customer in place. Rentals keep their dates, vehicle and
+  // amounts for the accounts but lose the signature, agreement and addendum
+  // links; terms acceptances keep the version and date but not the IP
+  // address; reviews, activity and badges are removed outright. Stored files
+  // are deleted separately by the caller.
+  async eraseCustomerPersonalData(customerId: number, unusablePasswordHash: string): Promise<CustomerErasureCounts> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(customers)
+        .set({
+          fullName: "Erased Customer",
+          email: `erased-${customerId}@erased.invalid`,
+          phone: "",
+          icPassportNumber: "",
+          address: "",
+          socialMediaHandle: "",
+          icPassportUrl: "",
+          driversLicenseUrl: "",
+          utilityBillUrl: "",
+          hashedPassword: unusablePasswordHash,
+          status: "erased",
+        })
+        .where(eq(customers.id, customerId));
+
+      const scrubbedRentals = await tx
+        .update(rentals)
+        .set({ signatureUrl: "", agreementPdfUrl: "" })
+        .where(eq(rentals.customerId, customerId))
+        .returning({ id: rentals.id });
+      if (scrubbedRentals.length > 0) {
+        await tx
+          .update(rentalAmendments)
+          .set({ addendumPdfUrl: null })
+          .where(inArray(rentalAmendments.rentalId, scrubbedRentals.map(rental => rental.id)));
+      }
+      const scrubbedBookingRequests = await tx
+        .update(bookingRequests)
+        .set({ customerMessage: null })
+        .where(eq(bookingRequests.customerId, customerId))
+        .returning({ id: bookingRequests.id });
+
+      const deletedReviews = await tx.delete(customerReviews).where(eq(customerReviews.customerId, customerId)).returning({ id: customerReviews.id });
+      const deletedActivities = await tx.delete(customerActivity).where(eq(customerActivity.customerId, customerId)).returning({ id: customerActivity.id });
+      const deletedBadges = await tx.delete(customerBadges).where(eq(customerBadges.customerId, customerId)).returning({ id: customerBadges.id });
+      // Acceptance records stay as evidence of the agreed terms, without the
+      // network details
+      await tx
+        .update(termsAcceptances)
+        .set({ ipAddress: null, userAgent: null })
+        .where(eq(termsAcceptances.customerId, customerId));
+      await tx.delete(customerTokens).where(eq(customerTokens.customerId, customerId));
+      await tx.delete(customerLoginCodes).where(eq(customerLoginCodes.customerId, customerId));
+
+      return {
+        rentalsScrubbed: scrubbedRentals.length,
+        bookingRequestsScrubbed: scrubbedBookingRequests.length,
+        reviewsDeleted: deletedReviews.length,
+        activitiesDeleted: deletedActivities.length,
+        badgesDeleted: deletedBadges.length,
+      };
+    });
+  }
+
+  async deleteCustomerSessions(customerId: number): Promise<number> {
+    const result = await db.execute(sql`
+      DELETE FROM sessions
+      WHERE (sess -> 'customer' ->> 'id')::int = ${customerId}
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  async createCustomerLoginCode(customerId: number, codeHash: string, expiresAt: Date): Promise<CustomerLoginCode> {
+    // Requesting a new code retires any code that is still outstanding
+    await db
+      .update(customerLoginCodes)
+      .set({ consumedAt: new Date() })
+      .where(and(eq(customerLoginCodes.customerId, customerId), isNull(customerLoginCodes.consumedAt)));
+
+    const [loginCode] = await db
+      .insert(customerLoginCodes)
+      .values({ customerId, codeHash, expiresAt })
+      .returning();
+    return loginCode;
+  }
+
+  async getActiveCustomerLoginCode(customerId: number): Promise<CustomerLoginCode | undefined> {
+    const [loginCode] = await db
+      .select()
+      .from(customerLoginCodes)
+      .where(and(
+        eq(customerLoginCodes.customerId, customerId),
+        isNull(customerLoginCodes.consumedAt),
+        gt(customerLoginCodes.expiresAt, new Date())
+      ))
+      .orderBy(desc(customerLoginCodes.createdAt))
+      .limit(1);
+    return loginCode || undefined;
+  }
+
+  async recordCustomerLoginCodeAttempt(id: number): Promise<void> {
+    await db
+      .update(customerLoginCodes)
+      .set({ attempts: sql`${customerLoginCodes.attempts} + 1` })
+      .where(eq(customerLoginCodes.id, id));
+  }
+
+  async consumeCustomerLoginCode(id: number): Promise<void> {
+    await db
+      .update(customerLoginCodes)
+      .set({ consumedAt: new Date() })
+      .where(eq(customerLoginCodes.id, id));
+  }
+
+  // fileUrls lists the forms a file may be stored under, e.g.
+  // "/uploads/x.jpg" and "/objects/uploads/x.jpg".
+  async findDocumentOwner(fileUrls: string[]): Promise<DocumentOwner | undefined> {
+    if (fileUrls.length === 0) {
+      return undefined;
+    }
+    const urlList = sql.join(fileUrls.map(url => sql`${url}`), sql`, `);
+
+    const [customer] = await db
+      .select({ id: customers.id })
+      .from(customers)
+      .where(or(
+        sql`${customers.icPassportUrl} IN (${urlList})`,
+        sql`${customers.driversLicenseUrl} IN (${urlList})`,
+        sql`${customers.utilityBillUrl} IN (${urlList})`
+      ))
+      .limit(1);
+    if (customer) {
+      return { type: "customer", customerId: customer.id };
+    }
+
+    // Rental photos are stored in a JSON blob whose shape varies, so match the
+    // quoted URL anywhere in its text
+    const photoPatterns = fileUrls.map(url => `%"${url.replace(/[\\%_]/g, "\\$&")}"%`);
     const [rental] = await db
-      .insert(rentals)
-      .values(insertRental)
+      .select({ id: rentals.id, customerId: rentals.customerId })
+      .from(rentals)
+      .where(or(
+        sql`${rentals.agreementPdfUrl} IN (${urlList})`,
+        sql`${rentals.paymentProofUrl} IN (${urlList})`,
+        sql`${rentals.signatureUrl} IN (${urlList})`,
+        ...photoPatterns.map(pattern => sql`${rentals.vehiclePhotos}::text LIKE ${pattern}`)
+      ))
+      .limit(1);
+    if (rental) {
+      return { type: "rental", rentalId: rental.id, customerId: rental.customerId };
+    }
+
+    const [amended] = await db
+      .select({ id: rentals.id, customerId: rentals.customerId })
+      .from(rentalAmendments)
+      .innerJoin(rentals, eq(rentalAmendments.rentalId, rentals.id))
+      .where(sql`${rentalAmendments.addendumPdfUrl} IN (${urlList})`)
+      .limit(1);
+    if (amended) {
+      return { type: "rental", rentalId: amended.id, customerId: amended.customerId };
+    }
+
+    const [returned] = await db
+      .select({ id: rentals.id, customerId: rentals.customerId })
+      .from(rentalReturns)
+      .innerJoin(rentals, eq(rentalReturns.rentalId, rentals.id))
+      .where(or(...photoPatterns.map(pattern => sql`${rentalReturns.returnPhotos}::text LIKE ${pattern}`)))
+      .limit(1);
+    if (returned) {
+      return { type: "rental", rentalId: returned.id, customerId: returned.customerId };
+    }
+
+    const [inspected] = await db
+      .select({ id: rentals.id, customerId: rentals.customerId })
+      .from(damageInspections)
+      .innerJoin(rentals, eq(damageInspections.rentalId, rentals.id))
+      .leftJoin(damagePoints, eq(damagePoints.inspectionId, damageInspections.id))
+      .where(or(
+        sql`${damageInspections.reportPdfUrl} IN (${urlList})`,
+        sql`${damagePoints.estimateDocumentUrl} IN (${urlList})`
+      ))
+      .limit(1);
+    if (inspected) {
+      return { type: "rental", rentalId: inspected.id, customerId: inspected.customerId };
+    }
+
+    const [vehicle] = await db
+      .select({ id: vehicles.id })
+      .from(vehicles)
+      .where(sql`${vehicles.photoUrl} IN (${urlList})`)
+      .limit(1);
+    if (vehicle) {
+      return { type: "vehicle", vehicleId: vehicle.id };
+    }
+
+    return undefined;
+  }
+
+  async revokeRentalDownloadLinks(rentalId: number): Promise<void> {
+    const now = new Date();
+    await db
+      .insert(downloadLinkRevocations)
+      .values({ rentalId, revokedAt: now })
+      .onConflictDoUpdate({
+        target: downloadLinkRevocations.rentalId,
+        set: { revokedAt: now },
+      });
+  }
+
+  async getRentalDownloadLinksRevokedAt(rentalId: number): Promise<Date | undefined> {
+    const [revocation] = await db
+      .select()
+      .from(downloadLinkRevocations)
+      .where(eq(downloadLinkRevocations.rentalId, rentalId));
+    return revocation?.revokedAt;
+  }
+
+  async getTermsVersions(): Promise<TermsVersion[]> {
+    return await db.select().from(termsVersions).orderBy(desc(termsVersions.createdAt));
+  }
+
+  async getTermsVersionById(id: number): Promise<TermsVersion | undefined> {
+    const [terms] = await db.select().from(termsVersions).where(eq(termsVersions.id, id));
+    return terms || undefined;
+  }
+
+  async getCurrentTermsVersion(): Promise<TermsVersion | undefined> {
+    const [terms] = await db
+      .select()
+      .from(termsVersions)
+      .where(isNotNull(termsVersions.publishedAt))
+      .orderBy(desc(termsVersions.publishedAt))
+      .limit(1);
+    return terms || undefined;
+  }
+
+  // Publishes the first version on a fresh install. Safe to call from
+  // concurrent requests; only one insert wins.
+  async createInitialTermsVersion(version: string, content: TermsContent): Promise<void> {
+    await db
+      .insert(termsVersions)
+      .values({ version, content, changeSummary: "Initial version", publishedAt: new Date() })
+      .onConflictDoNothing({ target: termsVersions.version });
+  }
+
+  async createTermsVersion(terms: InsertTermsVersion, createdByStaffId: number): Promise<TermsVersion> {
+    const [created] = await db
+      .insert(termsVersions)
+      .values({ ...terms, createdByStaffId })
       .returning();
-    return rental;
+    return created;
+  }
+
+  // Only drafts can be edited; returns undefined for published versions.
+  async updateTermsVersion(id: number, updates: Partial<InsertTermsVersion>): Promise<TermsVersion | undefined> {
+    const [updated] = await db
+      .update(termsVersions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(termsVersions.id, id), isNull(termsVersions.publishedAt)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async publishTermsVersion(id: number, publishedByStaffId: number): Promise<TermsVersion | undefined> {
+    const [published] = await db
+      .update(termsVersions)
+      .set({ publishedAt: new Date(), publishedByStaffId, updatedAt: new Date() })
+      .where(and(eq(termsVersions.id, id), isNull(termsVersions.publishedAt)))
+      .returning();
+    return published || undefined;
+  }
+
+  async createTermsAcceptance(acceptance: InsertTermsAcceptance): Promise<TermsAcceptance> {
+    const [created] = await db.insert(termsAcceptances).values(acceptance).returning();
+    return created;
+  }
+
+  async getLatestTermsAcceptance(customerId: number): Promise<TermsAcceptanceRecord | undefined> {
+    const [latest] = await this.getTermsAcceptancesByCustomer(customerId, 1);
+    return latest;
+  }
+
+  async getTermsAcceptancesByCustomer(customerId: number, limit?: number): Promise<TermsAcceptanceRecord[]> {
+    const query = db
+      .select({ acceptance: termsAcceptances, version: termsVersions.version })
+      .from(termsAcceptances)
+      .innerJoin(termsVersions, eq(termsAcceptances.termsVersionId, termsVersions.id))
+      .where(eq(termsAcceptances.customerId, customerId))
+      .orderBy(desc(termsAcceptances.acceptedAt), desc(termsAcceptances.id))
+      .$dynamic();
+    const rows = limit === undefined ? await query : await query.limit(limit);
+    return rows.map(({ acceptance, version }) => ({ ...acceptance, version }));
+  }
+
+  // The first link wins: a rental stays tied to the terms it was issued under.
+  async linkRentalTermsAcceptance(rentalId: number, termsAcceptanceId: number): Promise<void> {
+    await db
+      .insert(rentalTermsAcceptances)
+      .values({ rentalId, termsAcceptanceId })
+      .onConflictDoNothing({ target: rentalTermsAcceptances.rentalId });
+  }
+
+  async getRentalTermsAcceptance(rentalId: number): Promise<{ acceptance: TermsAcceptance; termsVersion: TermsVersion } | undefined> {
+    const [row] = await db
+      .select({ acceptance: termsAcceptances, termsVersion: termsVersions })
+      .from(rentalTermsAcceptances)
+      .innerJoin(termsAcceptances, eq(rentalTermsAcceptances.termsAcceptanceId, termsAcceptances.id))
+      .innerJoin(termsVersions, eq(termsAcceptances.termsVersionId, termsVersions.id))
+      .where(eq(rentalTermsAcceptances.rentalId, rentalId));
+    return row || undefined;
+  }
+
+  async getLoginAttempt(key: string): Promise<LoginAttempt | undefined> {
+    const [attempt] = await db.select().from(loginAttempts).where(eq(loginAttempts.key, key));
+    return attempt || undefined;
+  }
+
+  // Counts a failure in one statement so concurrent attempts cannot lose
+  // increments. A counter idle since resetIfIdleSince starts over at 1.
+  async incrementLoginAttempt(key: string, resetIfIdleSince: Date): Promise<LoginAttempt> {
+    const now = new Date();
+    const [attempt] = await db
+      .insert(loginAttempts)
+      .values({ key, failures: 1, firstFailureAt: now, lastFailureAt: now })
+      .onConflictDoUpdate({
+        target: loginAttempts.key,
+        set: {
+          failures: sql`CASE WHEN ${loginAttempts.lastFailureAt} < ${resetIfIdleSince} THEN 1 ELSE ${loginAttempts.failures} + 1 END`,
+          firstFailureAt: sql`CASE WHEN ${loginAttempts.lastFailureAt} < ${resetIfIdleSince} THEN ${now} ELSE ${loginAttempts.firstFailureAt} END`,
+          lastFailureAt: now,
+        },
+      })
+      .returning();
+    return attempt;
+  }
+
+  async lockLoginAttempt(key: string, lockedUntil: Date): Promise<void> {
+    await db
+      .update(loginAttempts)
+      .set({ lockedUntil })
+      .where(eq(loginAttempts.key, key));
+  }
+
+  async clearLoginAttempt(key: string): Promise<void> {
+    await db.delete(loginAttempts).where(eq(loginAttempts.key, key));
+  }
+
+  async pruneLoginAttempts(idleSince: Date): Promise<void> {
+    await db
+      .delete(loginAttempts)
+      .where(and(
+        lte(loginAttempts.lastFailureAt, idleSince),
+        or(isNull(loginAttempts.lockedUntil), lte(loginAttempts.lockedUntil, new Date()))
+      ));
+  }
+
+  async createCustomerToken(token: { customerId: number; purpose: CustomerTokenPurpose; email: string; nonceHash: string; expiresAt: Date }): Promise<CustomerToken> {
+    const [customerToken] = await db
+      .insert(customerTokens)
+      .values(token)
+      .returning();
+    return customerToken;
+  }
+
+  async getCustomerTokenById(id: number): Promise<CustomerToken | undefined> {
+    const [customerToken] = await db.select().from(customerTokens).where(eq(customerTokens.id, id));
+    return customerToken || undefined;
+  }
+
+  // Marks the token used; returns false if it had already been consumed so
+  // two concurrent requests cannot both redeem it.
+  async consumeCustomerToken(id: number): Promise<boolean> {
+    const consumed = await db
+      .update(customerTokens)
+      .set({ consumedAt: new Date() })
+      .where(and(eq(customerTokens.id, id), isNull(customerTokens.consumedAt)))
+      .returning({ id: customerTokens.id });
+    return consumed.length > 0;
+  }
+
+  async revokeCustomerTokens(customerId: number, purpose: CustomerTokenPurpose): Promise<void> {
+    await db
+      .update(customerTokens)
+      .set({ consumedAt: new Date() })
+      .where(and(
+        eq(customerTokens.customerId, customerId),
+        eq(customerTokens.purpose, purpose),
+        isNull(customerTokens.consumedAt)
+      ));
+  }
+
+  async isCustomerEmailVerified(customerId: number, email: string): Promise<boolean> {
+    const [verification] = await db
+      .select({ id: customerTokens.id })
+      .from(customerTokens)
+      .where(and(
+        eq(customerTokens.customerId, customerId),
+        eq(customerTokens.purpose, "verify_email"),
+        eq(customerTokens.email, email),
+        sql`${customerTokens.consumedAt} IS NOT NULL`,
+        sql`${customerTokens.consumedAt} <= ${customerTokens.expiresAt}`
+      ))
+      .limit(1);
+    return !!verification;
+  }
+
+  // Rentals start as reserved (converted booking requests) or checked_out
+  // (counter rentals signed on the spot); the initial status is recorded as
+  // the first transition.
+  // The rental is linked to the vehicle and keeps a copy of its current
+  // name. Fails with VehicleUnavailableError if the vehicle is already
+  // booked or held for any of the dates; a rental converted from a booking
+  // request takes over that request's hold. The request is completed in the
+  // same transaction, locked so it can only ever become one rental.
+  async createRental(
+    insertRental: Omit<InsertRental, "vehicle"> & { status: RentalStatus },
+    vehicleId: number,
+    actor: RentalActor,
+    bookingRequestId?: number
+  ): Promise<Rental> {
+    return await db.transaction(async (tx) => {
+      if (bookingRequestId !== undefined) {
+        const [bookingRequest] = await tx.select().from(bookingRequests).where(eq(bookingRequests.id, bookingRequestId)).for("update");
+        if (!bookingRequest) {
+          throw new Error("Booking request not found");
+        }
+        if (!canTransitionBookingRequest(bookingRequest.status, "completed")) {
+          throw new BookingRequestTransitionError(bookingRequest.status, "completed");
+        }
+        await tx
+          .update(bookingRequests)
+          .set({ status: "completed", emailSent: false, whatsappSent: false })
+          .where(eq(bookingRequests.id, bookingRequestId));
+      }
+
+      const [vehicle] = await tx.select().from(vehicles).where(eq(vehicles.id, vehicleId));
+      if (!vehicle) {
+        throw new Error("Vehicle not found");
+      }
+      await this.claimVehicleDates(tx, vehicleId, insertRental.startDate, insertRental.endDate, { excludeBookingRequestId: bookingRequestId });
+      const [rental] = await tx
+        .insert(rentals)
+        .values({ ...insertRental, vehicle: vehicle.name })
+        .returning();
+      await tx.insert(rentalVehicles).values({ rentalId: rental.id, vehicleId });
+      await tx.insert(rentalStatusTransitions).values({
+        rentalId: rental.id,
+        fromStatus: null,
+        toStatus: insertRental.status,
+        action: "create",
+        actorType: actor.type,
+        actorId: actor.id,
+        actorName: actor.name,
+      });
+      return rental;
+    });
   }
 
   async getRentalById(id: number): Promise<Rental | undefined> {
@@ -148,7 +960,7 @@ export class DatabaseStorage implements IStorage {
   async updateRentalPdf(id: number, pdfUrl: string): Promise<void> {
     await db
       .update(rentals)
-      .set({ agreementPdfUrl: pdfUrl, status: "completed" })
+      .set({ agreementPdfUrl: pdfUrl })
       .where(eq(rentals.id, id));
   }
 
@@ -160,16 +972,531 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(rentals).orderBy(desc(rentals.createdAt));
   }
 
-  async updateRentalStatus(id: number, status: string): Promise<Rental> {
-    const [rental] = await db
+  // The only way a rental's status changes. The row is locked so two staff
+  // acting on the same rental cannot both move it from the same status.
+  async transitionRental(id: number, action: RentalAction, actor: RentalActor, note?: string): Promise<Rental> {
+    return await db.transaction((tx) => this.applyRentalTransition(tx, id, action, actor, note));
+  }
+
+  private async applyRentalTransition(tx: Transaction, id: number, action: RentalAction, actor: RentalActor, note?: string): Promise<Rental> {
+    const [current] = await tx.select().from(rentals).where(eq(rentals.id, id)).for("update");
+    if (!current) {
+      throw new Error("Rental not found");
+    }
+
+    const fromStatus = resolveRentalStatus(current);
+    const definition = RENTAL_ACTION_DEFINITIONS[action];
+    if (!definition.from.includes(fromStatus)) {
+      throw new RentalTransitionError(action, fromStatus);
+    }
+
+    const [rental] = await tx
       .update(rentals)
-      .set({ status })
+      .set({ status: definition.to })
       .where(eq(rentals.id, id))
       .returning();
+    await tx.insert(rentalStatusTransitions).values({
+      rentalId: id,
+      fromStatus,
+      toStatus: definition.to,
+      action,
+      actorType: actor.type,
+      actorId: actor.id,
+      actorName: actor.name,
+      note: note || null,
+    });
     return rental;
   }
 
-  async updateRental(id: number, updates: Partial<InsertRental>): Promise<Rental> {
+  // Marks the rental returned and stores its check-in and settlement
+  // together, so a rental is never returned without a settlement.
+  async recordRentalReturn(checkIn: InsertRentalReturn, actor: RentalActor): Promise<{ rental: Rental; rentalReturn: RentalReturn }> {
+    return await db.transaction(async (tx) => {
+      const rental = await this.applyRentalTransition(tx, checkIn.rentalId, "return", actor, checkIn.notes ?? undefined);
+      const [inserted] = await tx.insert(rentalReturns).values(checkIn).returning();
+      const shortfall = await this.postSettlementDeduction(tx, rental.id, 0, parseFloat(inserted.depositDeducted), "check_in", checkIn.checkedInByStaffId ?? null);
+      const rentalReturn = await this.chargeDeductionShortfall(tx, inserted, shortfall);
+      return { rental, rentalReturn };
+    });
+  }
+
+  // Moves the end date and re-prices the rental at its agreed rate,
+  // recording the change as the rental's next numbered amendment. An
+  // extension fails with VehicleUnavailableError if it runs into another
+  // booking.
+  async amendRentalEndDate(
+    id: number,
+    { type, endDate, reason }: { type: RentalAmendmentType; endDate: Date; reason?: string },
+    staffId: number
+  ): Promise<{ rental: Rental; amendment: RentalAmendment }> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(rentals).where(eq(rentals.id, id)).for("update");
+      if (!current) {
+        throw new Error("Rental not found");
+      }
+
+      const status = resolveRentalStatus(current);
+      if (!AMENDABLE_RENTAL_STATUSES.includes(status)) {
+        throw new RentalAmendmentError(`The return date cannot be changed while the rental is ${RENTAL_STATUS_LABELS[status].toLowerCase()}`);
+      }
+      if (type === "extension" && endDate <= current.endDate) {
+        throw new RentalAmendmentError("An extension must end after the current return date");
+      }
+      if (type === "early_return" && endDate >= current.endDate) {
+        throw new RentalAmendmentError("An early return must end before the current return date");
+      }
+      if (endDate <= current.startDate) {
+        throw new RentalAmendmentError("The return date must be after the start date");
+      }
+      if (type === "extension") {
+        const [link] = await tx.select().from(rentalVehicles).where(eq(rentalVehicles.rentalId, id));
+        if (!link) {
+          throw new RentalAmendmentError("This rental is not linked to a fleet vehicle, so the extension can't be checked against its bookings");
+        }
+        await this.claimVehicleDates(tx, link.vehicleId, current.startDate, endDate, { excludeRentalId: id });
+      }
+
+      const { totalDays, grandTotal } = repriceRental(current, endDate);
+      const [rental] = await tx
+        .update(rentals)
+        .set({ endDate, totalDays, grandTotal: grandTotal.toFixed(2) })
+        .where(eq(rentals.id, id))
+        .returning();
+
+      const [{ count }] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(rentalAmendments)
+        .where(eq(rentalAmendments.rentalId, id));
+      const previousGrandTotal = parseFloat(current.grandTotal);
+      const [amendment] = await tx
+        .insert(rentalAmendments)
+        .values({
+          rentalId: id,
+          amendmentNumber: count + 1,
+          type,
+          previousEndDate: current.endDate,
+          newEndDate: endDate,
+          previousTotalDays: current.totalDays,
+          newTotalDays: totalDays,
+          previousGrandTotal: previousGrandTotal.toFixed(2),
+          newGrandTotal: grandTotal.toFixed(2),
+          priceDifference: (grandTotal - previousGrandTotal).toFixed(2),
+          reason: reason || null,
+          amendedByStaffId: staffId,
+        })
+        .returning();
+      return { rental, amendment };
+    });
+  }
+
+  async getRentalAmendments(rentalId: number): Promise<RentalAmendment[]> {
+    return await db
+      .select()
+      .from(rentalAmendments)
+      .where(eq(rentalAmendments.rentalId, rentalId))
+      .orderBy(asc(rentalAmendments.amendmentNumber));
+  }
+
+  async getRentalAmendmentsByCustomer(customerId: number): Promise<RentalAmendment[]> {
+    const rows = await db
+      .select({ amendment: rentalAmendments })
+      .from(rentalAmendments)
+      .innerJoin(rentals, eq(rentalAmendments.rentalId, rentals.id))
+      .where(eq(rentals.customerId, customerId))
+      .orderBy(asc(rentalAmendments.rentalId), asc(rentalAmendments.amendmentNumber));
+    return rows.map(row => row.amendment);
+  }
+
+  async setRentalAmendmentPdf(id: number, addendumPdfUrl: string): Promise<void> {
+    await db
+      .update(rentalAmendments)
+      .set({ addendumPdfUrl })
+      .where(eq(rentalAmendments.id, id));
+  }
+
+  async getRentalReturn(rentalId: number): Promise<RentalReturn | undefined> {
+    const [rentalReturn] = await db.select().from(rentalReturns).where(eq(rentalReturns.rentalId, rentalId));
+    return rentalReturn || undefined;
+  }
+
+  async getRentalReturnsByCustomer(customerId: number): Promise<RentalReturn[]> {
+    const rows = await db
+      .select({ rentalReturn: rentalReturns })
+      .from(rentalReturns)
+      .innerJoin(rentals, eq(rentalReturns.rentalId, rentals.id))
+      .where(eq(rentals.customerId, customerId))
+      .orderBy(desc(rentalReturns.returnedAt));
+    return rows.map(row => row.rentalReturn);
+  }
+
+  async getDamageInspection(rentalId: number): Promise<{ inspection: DamageInspection; points: DamagePoint[] } | undefined> {
+    const [inspection] = await db.select().from(damageInspections).where(eq(damageInspections.rentalId, rentalId));
+    if (!inspection) {
+      return undefined;
+    }
+    const points = await db
+      .select()
+      .from(damagePoints)
+      .where(eq(damagePoints.inspectionId, inspection.id))
+      .orderBy(asc(damagePoints.id));
+    return { inspection, points };
+  }
+
+  async getOrCreateDamageInspection(rentalId: number, staffId: number): Promise<DamageInspection> {
+    await db
+      .insert(damageInspections)
+      .values({ rentalId, createdByStaffId: staffId })
+      .onConflictDoNothing({ target: damageInspections.rentalId });
+    const [inspection] = await db.select().from(damageInspections).where(eq(damageInspections.rentalId, rentalId));
+    return inspection;
+  }
+
+  async getDamagePointById(id: number): Promise<DamagePoint | undefined> {
+    const [point] = await db.select().from(damagePoints).where(eq(damagePoints.id, id));
+    return point || undefined;
+  }
+
+  async createDamagePoint(point: InsertDamagePoint): Promise<DamagePoint> {
+    const [created] = await db.insert(damagePoints).values(point).returning();
+    return created;
+  }
+
+  async updateDamagePoint(id: number, updates: Partial<InsertDamagePoint>): Promise<DamagePoint> {
+    const [point] = await db
+      .update(damagePoints)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(damagePoints.id, id))
+      .returning();
+    return point;
+  }
+
+  async deleteDamagePoint(id: number): Promise<void> {
+    await db.delete(damagePoints).where(eq(damagePoints.id, id));
+  }
+
+  // Locks the inspection and adds its repair estimates to the damage lines
+  // recorded at check-in, recalculating the deposit split. Runs once per
+  // inspection, so the settlement's damages are still the check-in ones.
+  async finalizeDamageInspection(inspectionId: number, staffId: number): Promise<{ inspection: DamageInspection; rentalReturn: RentalReturn }> {
+    return await db.transaction(async (tx) => {
+      const [inspection] = await tx
+        .update(damageInspections)
+        .set({ finalizedAt: new Date(), finalizedByStaffId: staffId, updatedAt: new Date() })
+        .where(and(eq(damageInspections.id, inspectionId), isNull(damageInspections.finalizedAt)))
+        .returning();
+      if (!inspection) {
+        throw new Error("Damage inspection is already finalized");
+      }
+
+      const [current] = await tx.select().from(rentalReturns).where(eq(rentalReturns.rentalId, inspection.rentalId)).for("update");
+      if (!current) {
+        throw new Error("Rental has not been checked in");
+      }
+      const points = await tx.select().from(damagePoints).where(eq(damagePoints.inspectionId, inspectionId)).orderBy(asc(damagePoints.id));
+
+      const damages: RentalDamageCharge[] = [
+        ...current.damages,
+        ...points.map(point => ({ description: point.description, amount: parseFloat(point.repairEstimate) })),
+      ];
+      const damageCharge = damages.reduce((sum, damage) => sum + damage.amount, 0);
+      const totalCharges = parseFloat(current.mileageCharge) + parseFloat(current.fuelCharge) + parseFloat(current.lateFee) + damageCharge;
+      const deposit = applyDepositToCharges(parseFloat(current.depositHeld), Math.round(totalCharges * 100) / 100);
+
+      const [settled] = await tx
+        .update(rentalReturns)
+        .set({
+          damages,
+          damageCharge: damageCharge.toFixed(2),
+          totalCharges: totalCharges.toFixed(2),
+          depositDeducted: deposit.depositDeducted.toFixed(2),
+          depositRefund: deposit.depositRefund.toFixed(2),
+          balanceDue: deposit.balanceDue.toFixed(2),
+        })
+        .where(eq(rentalReturns.id, current.id))
+        .returning();
+      const shortfall = await this.postSettlementDeduction(tx, inspection.rentalId, parseFloat(current.depositDeducted), deposit.depositDeducted, "damage_inspection", staffId);
+      const rentalReturn = await this.chargeDeductionShortfall(tx, settled, shortfall);
+      return { inspection, rentalReturn };
+    });
+  }
+
+  async setDamageReportPdf(inspectionId: number, reportPdfUrl: string): Promise<void> {
+    await db
+      .update(damageInspections)
+      .set({ reportPdfUrl, updatedAt: new Date() })
+      .where(eq(damageInspections.id, inspectionId));
+  }
+
+  // Records a deposit movement. The rental row is locked so two deductions
+  // or refunds can't both spend the same held amount.
+  async addDepositEntry(rentalId: number, entry: DepositEntryInput, staffId: number | null, source: DepositEntrySource = "manual"): Promise<DepositLedgerEntry> {
+    return await db.transaction(async (tx) => {
+      const [rental] = await tx.select({ id: rentals.id }).from(rentals).where(eq(rentals.id, rentalId)).for("update");
+      if (!rental) {
+        throw new Error("Rental not found");
+      }
+
+      if (entry.type !== "collected") {
+        const existing = await tx.select().from(depositLedgerEntries).where(eq(depositLedgerEntries.rentalId, rentalId));
+        const { held } = summarizeDepositLedger(existing);
+        if (entry.amount > held) {
+          throw new DepositLedgerError(`Only RM ${held.toFixed(2)} of the deposit is still held`);
+        }
+      }
+
+      const [created] = await tx
+        .insert(depositLedgerEntries)
+        .values({
+          rentalId,
+          type: entry.type,
+          amount: entry.amount.toFixed(2),
+          reason: "reason" in entry ? entry.reason : null,
+          method: "method" in entry ? entry.method ?? null : null,
+          reference: "reference" in entry ? entry.reference || null : null,
+          occurredAt: entry.occurredAt ?? new Date(),
+          source,
+          recordedByStaffId: staffId,
+        })
+        .returning();
+      return created;
+    });
+  }
+
+  // Posts the change in a settlement's deposit deduction, so the ledger
+  // follows the check-in and any later damage inspection. The settlement's
+  // depositHeld dates from check-in and part of the deposit may have been
+  // refunded or released since, so an increase is capped at what the ledger
+  // still holds. Returns the part it couldn't cover. Rentals from before the
+  // ledger have no entries yet and are posted in full; backfillDepositLedger
+  // adds their deposit.
+  private async postSettlementDeduction(
+    tx: Transaction,
+    rentalId: number,
+    previousDeducted: number,
+    newDeducted: number,
+    source: DepositEntrySource,
+    staffId: number | null
+  ): Promise<number> {
+    const requested = Math.round((newDeducted - previousDeducted) * 100) / 100;
+    let change = requested;
+    if (requested > 0) {
+      await tx.select({ id: rentals.id }).from(rentals).where(eq(rentals.id, rentalId)).for("update");
+      const existing = await tx.select().from(depositLedgerEntries).where(eq(depositLedgerEntries.rentalId, rentalId));
+      if (existing.length > 0) {
+        change = Math.min(requested, Math.max(summarizeDepositLedger(existing).held, 0));
+      }
+    }
+    const shortfall = Math.round((requested - change) * 100) / 100;
+    if (change === 0) {
+      return shortfall;
+    }
+    await tx.insert(depositLedgerEntries).values({
+      rentalId,
+      type: change > 0 ? "deducted" : "deduction_reversed",
+      amount: Math.abs(change).toFixed(2),
+      reason: source === "check_in" ? "Return charges" : "Damage inspection charges",
+      source,
+      recordedByStaffId: staffId,
+    });
+    return shortfall;
+  }
+
+  // Moves the part of a deduction the deposit couldn't cover onto the
+  // balance due. The deposit is then used up, so nothing is left to refund.
+  private async chargeDeductionShortfall(tx: Transaction, rentalReturn: RentalReturn, shortfall: number): Promise<RentalReturn> {
+    if (shortfall <= 0) {
+      return rentalReturn;
+    }
+    const [updated] = await tx
+      .update(rentalReturns)
+      .set({
+        depositDeducted: (parseFloat(rentalReturn.depositDeducted) - shortfall).toFixed(2),
+        depositRefund: "0.00",
+        balanceDue: (parseFloat(rentalReturn.balanceDue) + shortfall).toFixed(2),
+      })
+      .where(eq(rentalReturns.id, rentalReturn.id))
+      .returning();
+    return updated;
+  }
+
+  async getDepositLedger(rentalId: number): Promise<DepositLedgerEntry[]> {
+    return await db
+      .select()
+      .from(depositLedgerEntries)
+      .where(eq(depositLedgerEntries.rentalId, rentalId))
+      .orderBy(asc(depositLedgerEntries.occurredAt), asc(depositLedgerEntries.id));
+  }
+
+  async getDepositLedgerByCustomer(customerId: number): Promise<DepositLedgerEntry[]> {
+    const rows = await db
+      .select({ entry: depositLedgerEntries })
+      .from(depositLedgerEntries)
+      .innerJoin(rentals, eq(depositLedgerEntries.rentalId, rentals.id))
+      .where(eq(rentals.customerId, customerId))
+      .orderBy(asc(depositLedgerEntries.rentalId), asc(depositLedgerEntries.occurredAt), asc(depositLedgerEntries.id));
+    return rows.map(row => row.entry);
+  }
+
+  // Rentals whose deposit is still partly or fully held, oldest first.
+  async getOutstandingDeposits(now = new Date()): Promise<OutstandingDeposit[]> {
+    const held = sql<string>`sum(case when ${depositLedgerEntries.type} in ('collected', 'deduction_reversed') then ${depositLedgerEntries.amount} else -${depositLedgerEntries.amount} end)`;
+    const collectedAt = sql<string>`min(case when ${depositLedgerEntries.type} = 'collected' then ${depositLedgerEntries.occurredAt} end)`;
+    const rows = await db
+      .select({
+        rentalId: rentals.id,
+        customerId: customers.id,
+        customerName: customers.fullName,
+        vehicle: rentals.vehicle,
+        status: rentals.status,
+        startDate: rentals.startDate,
+        endDate: rentals.endDate,
+        held,
+        collectedAt,
+      })
+      .from(depositLedgerEntries)
+      .innerJoin(rentals, eq(depositLedgerEntries.rentalId, rentals.id))
+      .innerJoin(customers, eq(rentals.customerId, customers.id))
+      .groupBy(rentals.id, customers.id)
+      .having(sql`${held} > 0`);
+
+    return rows
+      .map(row => {
+        const status = resolveRentalStatus(row, now);
+        const since = new Date(row.collectedAt ?? row.startDate);
+        return {
+          rentalId: row.rentalId,
+          customerId: row.customerId,
+          customerName: row.customerName,
+          vehicle: row.vehicle,
+          status,
+          endDate: row.endDate,
+          held: parseFloat(row.held),
+          collectedAt: since,
+          ageDays: Math.floor((now.getTime() - since.getTime()) / (24 * 60 * 60 * 1000)),
+          refundDue: DEPOSIT_REFUND_DUE_STATUSES.includes(status),
+        };
+      })
+      .sort((a, b) => b.ageDays - a.ageDays);
+  }
+
+  // Gives rentals handed over before the ledger an opening entry for the
+  // deposit taken at handover, plus their check-in deduction if they were
+  // returned before it too.
+  async backfillDepositLedger(): Promise<{ rentalsChecked: number; rentalsBackfilled: number }> {
+    const allRentals = await db.select().from(rentals);
+    let rentalsBackfilled = 0;
+
+    for (const rental of allRentals) {
+      const deposit = parseFloat(rental.deposit) || 0;
+      const status = resolveRentalStatus(rental);
+      if (deposit <= 0 || status === "reserved" || RELEASED_RENTAL_STATUSES.includes(status)) {
+        continue;
+      }
+
+      const backfilled = await db.transaction(async (tx) => {
+        await tx.select({ id: rentals.id }).from(rentals).where(eq(rentals.id, rental.id)).for("update");
+        const existing = await tx.select().from(depositLedgerEntries).where(eq(depositLedgerEntries.rentalId, rental.id));
+        if (existing.some(entry => entry.type === "collected")) {
+          return false;
+        }
+        await tx.insert(depositLedgerEntries).values({
+          rentalId: rental.id,
+          type: "collected",
+          amount: deposit.toFixed(2),
+          reason: "Opening balance",
+          occurredAt: rental.startDate,
+          source: "backfill",
+        });
+        const [rentalReturn] = await tx.select().from(rentalReturns).where(eq(rentalReturns.rentalId, rental.id));
+        if (rentalReturn && !existing.some(entry => entry.source === "check_in")) {
+          const shortfall = await this.postSettlementDeduction(tx, rental.id, 0, parseFloat(rentalReturn.depositDeducted), "check_in", null);
+          await this.chargeDeductionShortfall(tx, rentalReturn, shortfall);
+        }
+        return true;
+      });
+      if (backfilled) {
+        rentalsBackfilled++;
+      }
+    }
+    return { rentalsChecked: allRentals.length, rentalsBackfilled };
+  }
+
+  async getRentalVehicleId(rentalId: number): Promise<number | undefined> {
+    const [link] = await db.select().from(rentalVehicles).where(eq(rentalVehicles.rentalId, rentalId));
+    return link?.vehicleId;
+  }
+
+  // Links rentals made before they carried a vehicle id to the vehicle whose
+  // name matches their snapshot. Names matching no vehicle, or several, are
+  // reported for staff to sort out by hand.
+  async linkRentalsToVehicles(): Promise<RentalVehicleBackfill> {
+    const unlinked = await db
+      .select({ id: rentals.id, vehicle: rentals.vehicle })
+      .from(rentals)
+      .leftJoin(rentalVehicles, eq(rentalVehicles.rentalId, rentals.id))
+      .where(isNull(rentalVehicles.rentalId))
+      .orderBy(asc(rentals.id));
+
+    const vehiclesByName = new Map<string, Vehicle[]>();
+    for (const vehicle of await db.select().from(vehicles)) {
+      const key = vehicle.name.trim().toLowerCase();
+      vehiclesByName.set(key, [...(vehiclesByName.get(key) ?? []), vehicle]);
+    }
+
+    const unmatched: RentalVehicleBackfill["unmatched"] = [];
+    let rentalsLinked = 0;
+    for (const rental of unlinked) {
+      const matches = vehiclesByName.get(rental.vehicle.trim().toLowerCase()) ?? [];
+      if (matches.length !== 1) {
+        unmatched.push({ rentalId: rental.id, vehicle: rental.vehicle });
+        continue;
+      }
+      const linked = await db
+        .insert(rentalVehicles)
+        .values({ rentalId: rental.id, vehicleId: matches[0].id })
+        .onConflictDoNothing()
+        .returning();
+      rentalsLinked += linked.length;
+    }
+    return { rentalsChecked: unlinked.length, rentalsLinked, unmatched };
+  }
+
+  async getRentalStatusHistory(rentalId: number): Promise<RentalStatusTransition[]> {
+    return await db
+      .select()
+      .from(rentalStatusTransitions)
+      .where(eq(rentalStatusTransitions.rentalId, rentalId))
+      .orderBy(asc(rentalStatusTransitions.createdAt), asc(rentalStatusTransitions.id));
+  }
+
+  // Rewrites statuses from before the lifecycle (pending/active/completed)
+  // to the status their dates imply, recording a system transition for each.
+  async migrateLegacyRentalStatuses(): Promise<LegacyRentalStatusMigration> {
+    const allRentals = await db.select().from(rentals);
+    let rentalsMigrated = 0;
+
+    for (const rental of allRentals) {
+      const status = resolveRentalStatus(rental);
+      if (status === rental.status) {
+        continue;
+      }
+      await db.transaction(async (tx) => {
+        await tx.update(rentals).set({ status }).where(eq(rentals.id, rental.id));
+        await tx.insert(rentalStatusTransitions).values({
+          rentalId: rental.id,
+          fromStatus: rental.status,
+          toStatus: status,
+          action: "migrate",
+          actorType: "system",
+          actorName: "Status migration",
+        });
+      });
+      rentalsMigrated++;
+    }
+    return { rentalsChecked: allRentals.length, rentalsMigrated };
+  }
+
+  async updateRental(id: number, updates: Omit<Partial<InsertRental>, "status" | "vehicle">): Promise<Rental> {
     const [rental] = await db
       .update(rentals)
       .set(updates)
@@ -187,6 +1514,173 @@ export class DatabaseStorage implements IStorage {
     return staffMember || undefined;
   }
 
+  async getStaffById(id: number): Promise<Staff | undefined> {
+    const [staffMember] = await db.select().from(staff).where(eq(staff.id, id));
+    return staffMember || undefined;
+  }
+
+  // Removes the staff member's persisted sessions from the connect-pg-simple
+  // store, optionally keeping the session that issued the request.
+  async deleteStaffSessions(staffId: number, exceptSessionId?: string): Promise<number> {
+    const result = await db.execute(sql`
+      DELETE FROM sessions
+      WHERE (sess -> 'staff' ->> 'id')::int = ${staffId}
+      ${exceptSessionId ? sql`AND sid <> ${exceptSessionId}` : sql``}
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  async getStaffRole(staffId: number): Promise<StaffRole> {
+    const [assignment] = await db.select().from(staffRoles).where(eq(staffRoles.staffId, staffId));
+    return (assignment?.role as StaffRole) || DEFAULT_STAFF_ROLE;
+  }
+
+  async setStaffRole(staffId: number, role: StaffRole, assignedByStaffId?: number): Promise<void> {
+    await db
+      .insert(staffRoles)
+      .values({ staffId, role, assignedByStaffId })
+      .onConflictDoUpdate({
+        target: staffRoles.staffId,
+        set: { role, assignedByStaffId, updatedAt: new Date() },
+      });
+  }
+
+  async countStaffWithRole(role: StaffRole): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(staffRoles)
+      .where(eq(staffRoles.role, role));
+    return result?.count ?? 0;
+  }
+
+  async getRolePermissions(role: StaffRole): Promise<StaffPermission[]> {
+    if (role === "owner") {
+      return ALL_STAFF_PERMISSIONS;
+    }
+
+    const [row] = await db.select().from(rolePermissions).where(eq(rolePermissions.role, role));
+    // Roles that have never been edited keep their built-in defaults
+    return row?.permissions ?? DEFAULT_ROLE_PERMISSIONS[role];
+  }
+
+  async getAllRolePermissions(): Promise<Record<StaffRole, StaffPermission[]>> {
+    const entries = await Promise.all(
+      STAFF_ROLES.map(async role => [role, await this.getRolePermissions(role)] as const)
+    );
+    return Object.fromEntries(entries) as Record<StaffRole, StaffPermission[]>;
+  }
+
+  async setRolePermissions(role: StaffRole, permissions: StaffPermission[], updatedByStaffId?: number): Promise<void> {
+    if (role === "owner") {
+      throw new Error("Owner permissions cannot be changed");
+    }
+
+    await db
+      .insert(rolePermissions)
+      .values({ role, permissions, updatedByStaffId })
+      .onConflictDoUpdate({
+        target: rolePermissions.role,
+        set: { permissions, updatedByStaffId, updatedAt: new Date() },
+      });
+  }
+
+  async isTwoFactorRequiredForRole(role: StaffRole): Promise<boolean> {
+    const [row] = await db
+      .select({ requireTwoFactor: rolePermissions.requireTwoFactor })
+      .from(rolePermissions)
+      .where(eq(rolePermissions.role, role));
+    return row?.requireTwoFactor ?? false;
+  }
+
+  async getRoleTwoFactorRequirements(): Promise<Record<StaffRole, boolean>> {
+    const entries = await Promise.all(
+      STAFF_ROLES.map(async role => [role, await this.isTwoFactorRequiredForRole(role)] as const)
+    );
+    return Object.fromEntries(entries) as Record<StaffRole, boolean>;
+  }
+
+  async setRoleTwoFactorRequired(role: StaffRole, required: boolean, updatedByStaffId?: number): Promise<void> {
+    // Seed the row with the role's current permissions so toggling 2FA never
+    // changes what the role can do
+    const permissions = await this.getRolePermissions(role);
+    await db
+      .insert(rolePermissions)
+      .values({ role, permissions, requireTwoFactor: required, updatedByStaffId })
+      .onConflictDoUpdate({
+        target: rolePermissions.role,
+        set: { requireTwoFactor: required, updatedByStaffId, updatedAt: new Date() },
+      });
+  }
+
+  async getStaffTwoFactor(staffId: number): Promise<StaffTwoFactor | undefined> {
+    const [row] = await db.select().from(staffTwoFactor).where(eq(staffTwoFactor.staffId, staffId));
+    return row || undefined;
+  }
+
+  async setStaffTwoFactorPendingSecret(staffId: number, pendingSecret: string): Promise<void> {
+    await db
+      .insert(staffTwoFactor)
+      .values({ staffId, pendingSecret })
+      .onConflictDoUpdate({
+        target: staffTwoFactor.staffId,
+        set: { pendingSecret, updatedAt: new Date() },
+      });
+  }
+
+  async enableStaffTwoFactor(staffId: number, secret: string, recoveryCodeHashes: string[], usedStep: number): Promise<void> {
+    await db
+      .update(staffTwoFactor)
+      .set({
+        secret,
+        pendingSecret: null,
+        recoveryCodeHashes,
+        lastUsedStep: usedStep,
+        enabledAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(staffTwoFactor.staffId, staffId));
+  }
+
+  // Accepts a TOTP time step only if it is newer than the last one used, so a
+  // code cannot be replayed within its validity window.
+  async recordStaffTwoFactorStep(staffId: number, step: number): Promise<boolean> {
+    const updated = await db
+      .update(staffTwoFactor)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(staffTwoFactor.staffId, staffId),
+        or(isNull(staffTwoFactor.lastUsedStep), sql`${staffTwoFactor.lastUsedStep} < ${step}`)
+      ))
+      .returning({ id: staffTwoFactor.id });
+    return updated.length > 0;
+  }
+
+  async consumeStaffRecoveryCode(staffId: number, codeHash: string): Promise<boolean> {
+    const updated = await db
+      .update(staffTwoFactor)
+      .set({
+        recoveryCodeHashes: sql`${staffTwoFactor.recoveryCodeHashes} - ${codeHash}::text`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(staffTwoFactor.staffId, staffId),
+        sql`${staffTwoFactor.recoveryCodeHashes} @> ${JSON.stringify([codeHash])}::jsonb`
+      ))
+      .returning({ id: staffTwoFactor.id });
+    return updated.length > 0;
+  }
+
+  async replaceStaffRecoveryCodes(staffId: number, recoveryCodeHashes: string[]): Promise<void> {
+    await db
+      .update(staffTwoFactor)
+      .set({ recoveryCodeHashes, updatedAt: new Date() })
+      .where(eq(staffTwoFactor.staffId, staffId));
+  }
+
+  async disableStaffTwoFactor(staffId: number): Promise<void> {
+    await db.delete(staffTwoFactor).where(eq(staffTwoFactor.staffId, staffId));
+  }
+
   async createStaff(staffData: { username: string; password: string }): Promise<Staff> {
     const hashedPassword = await this.hashPassword(staffData.password);
     const [newStaff] = await db
@@ -218,41 +1712,19 @@ export class DatabaseStorage implements IStorage {
 
 
 
-  async checkVehicleAvailability(vehicle: string, startDate: Date, endDate: Date, excludeRentalId?: number): Promise<boolean> {
-    let conditions = and(
-      eq(rentals.vehicle, vehicle),
-      ne(rentals.status, 'cancelled'),
-      or(
-        // New rental starts during existing rental
-        and(
-          lte(rentals.startDate, startDate),
-          gte(rentals.endDate, startDate)
-        ),
-        // New rental ends during existing rental
-        and(
-          lte(rentals.startDate, endDate),
-          gte(rentals.endDate, endDate)
-        ),
-        // New rental completely overlaps existing rental
-        and(
-          gte(rentals.startDate, startDate),
-          lte(rentals.endDate, endDate)
-        )
-      )
-    );
-
-    if (excludeRentalId) {
-      conditions = and(conditions, ne(rentals.id, excludeRentalId));
-    }
-
-    const conflicts = await db.select().from(rentals).where(conditions);
-    return conflicts.length === 0;
+  async checkVehicleAvailability(vehicleId: number, startDate: Date, endDate: Date, options: VehicleAvailabilityOptions = {}): Promise<boolean> {
+    const conflicts = await this.getConflictingRentals(vehicleId, startDate, endDate, options.excludeRentalId);
+    const blackouts = await this.getConflictingBlackouts(vehicleId, startDate, endDate);
+    const holds = options.includeHolds === false
+      ? []
+      : await this.getConflictingHolds(vehicleId, startDate, endDate, options.excludeBookingRequestId);
+    return conflicts.length === 0 && blackouts.length === 0 && holds.length === 0;
   }
 
-  async getVehicleSchedule(vehicle: string, month?: number, year?: number): Promise<Rental[]> {
+  async getVehicleSchedule(vehicleId: number, month?: number, year?: number): Promise<Rental[]> {
     let conditions = and(
-      eq(rentals.vehicle, vehicle),
-      ne(rentals.status, 'cancelled')
+      inArray(rentals.id, rentalIdsForVehicle(vehicleId)),
+      notInArray(rentals.status, RELEASED_RENTAL_STATUSES)
     );
 
     if (month && year) {
@@ -281,39 +1753,173 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(rentals).where(conditions).orderBy(rentals.startDate);
   }
 
-  async getConflictingRentals(vehicle: string, startDate: Date, endDate: Date, excludeRentalId?: number): Promise<Rental[]> {
-    let conditions = and(
-      eq(rentals.vehicle, vehicle),
-      ne(rentals.status, 'cancelled'),
-      or(
-        // New rental starts during existing rental
-        and(
-          lte(rentals.startDate, startDate),
-          gte(rentals.endDate, startDate)
-        ),
-        // New rental ends during existing rental
-        and(
-          lte(rentals.startDate, endDate),
-          gte(rentals.endDate, endDate)
-        ),
-        // New rental completely overlaps existing rental
-        and(
-          gte(rentals.startDate, startDate),
-          lte(rentals.endDate, endDate)
+  // Rentals within the vehicle's turnaround of the dates.
+  async getConflictingRentals(vehicleId: number, startDate: Date, endDate: Date, excludeRentalId?: number): Promise<Rental[]> {
+    const padded = withTurnaround(startDate, endDate, await this.getVehicleTurnaroundHours(vehicleId));
+    return await db.select().from(rentals).where(vehicleConflictConditions(vehicleId, padded.startDate, padded.endDate, excludeRentalId));
+  }
+
+  async getConflictingBlackouts(vehicleId: number, startDate: Date, endDate: Date): Promise<VehicleBlackout[]> {
+    return await db
+      .select()
+      .from(vehicleBlackouts)
+      .where(blackoutConflictConditions(vehicleId, startDate, endDate))
+      .orderBy(asc(vehicleBlackouts.startDate));
+  }
+
+  // Booking request holds within the vehicle's turnaround of the dates.
+  async getConflictingHolds(vehicleId: number, startDate: Date, endDate: Date, excludeBookingRequestId?: number): Promise<BookingRequestHold[]> {
+    const padded = withTurnaround(startDate, endDate, await this.getVehicleTurnaroundHours(vehicleId));
+    const rows = await db
+      .select({ hold: bookingRequestHolds })
+      .from(bookingRequestHolds)
+      .innerJoin(bookingRequests, eq(bookingRequestHolds.bookingRequestId, bookingRequests.id))
+      .where(holdConflictConditions(vehicleId, padded.startDate, padded.endDate, new Date(), excludeBookingRequestId));
+    return rows.map(({ hold }) => hold);
+  }
+
+  async getVehicleHolds(vehicleId: number): Promise<VehicleHold[]> {
+    return await this.selectActiveHolds(eq(bookingRequestHolds.vehicleId, vehicleId));
+  }
+
+  // Active holds of every vehicle touching the month, for the booking calendar.
+  async getCalendarHolds(month?: number, year?: number): Promise<VehicleHold[]> {
+    return await this.selectActiveHolds(month && year
+      ? and(
+          lte(bookingRequestHolds.startDate, new Date(year, month, 0, 23, 59, 59)),
+          gte(bookingRequestHolds.endDate, new Date(year, month - 1, 1))
         )
-      )
-    );
+      : undefined);
+  }
 
-    if (excludeRentalId) {
-      conditions = and(conditions, ne(rentals.id, excludeRentalId));
+  private async selectActiveHolds(conditions: ReturnType<typeof and>): Promise<VehicleHold[]> {
+    const rows = await db
+      .select({
+        hold: bookingRequestHolds,
+        status: bookingRequests.status,
+        vehicleName: bookingRequests.vehicleName,
+        customerName: customers.fullName,
+      })
+      .from(bookingRequestHolds)
+      .innerJoin(bookingRequests, eq(bookingRequestHolds.bookingRequestId, bookingRequests.id))
+      .leftJoin(customers, eq(bookingRequests.customerId, customers.id))
+      .where(and(activeHoldConditions(new Date()), conditions))
+      .orderBy(asc(bookingRequestHolds.startDate));
+    return rows.map(({ hold, status, vehicleName, customerName }) => ({
+      ...hold,
+      status: status as BookingRequestStatus,
+      vehicleName,
+      customerName,
+    }));
+  }
+
+  // Locks the vehicle's schedule until the transaction ends and fails if the
+  // dates overlap a blackout or come within the turnaround of another rental
+  // or held request. Every write that takes a vehicle's dates goes through
+  // here, so two bookings can't both pass the check.
+  private async claimVehicleDates(tx: Transaction, vehicleId: number, startDate: Date, endDate: Date, options: VehicleAvailabilityOptions = {}): Promise<void> {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(${VEHICLE_SCHEDULE_LOCK}, ${vehicleId})`);
+    const { conflicts, blackouts, holds } = await this.findVehicleConflicts(tx, vehicleId, startDate, endDate, options);
+    if (conflicts.length > 0 || blackouts.length > 0 || holds.length > 0) {
+      throw new VehicleUnavailableError(conflicts, blackouts, holds);
     }
+  }
 
-    return await db.select().from(rentals).where(conditions);
+  // Rentals and holds within the vehicle's turnaround of the dates, and
+  // blackouts overlapping them, as seen by the transaction.
+  private async findVehicleConflicts(
+    tx: Transaction,
+    vehicleId: number,
+    startDate: Date,
+    endDate: Date,
+    { excludeRentalId, excludeBookingRequestId, includeHolds = true }: VehicleAvailabilityOptions = {}
+  ): Promise<{ conflicts: Rental[]; blackouts: VehicleBlackout[]; holds: BookingRequestHold[] }> {
+    const [settings] = await tx.select().from(vehicleSchedulingSettings).where(eq(vehicleSchedulingSettings.vehicleId, vehicleId));
+    const padded = withTurnaround(startDate, endDate, settings?.turnaroundHours ?? DEFAULT_TURNAROUND_HOURS);
+    const conflicts = await tx.select().from(rentals).where(vehicleConflictConditions(vehicleId, padded.startDate, padded.endDate, excludeRentalId));
+    const blackouts = await tx.select().from(vehicleBlackouts).where(blackoutConflictConditions(vehicleId, startDate, endDate));
+    const holds = includeHolds
+      ? (await tx
+          .select({ hold: bookingRequestHolds })
+          .from(bookingRequestHolds)
+          .innerJoin(bookingRequests, eq(bookingRequestHolds.bookingRequestId, bookingRequests.id))
+          .where(holdConflictConditions(vehicleId, padded.startDate, padded.endDate, new Date(), excludeBookingRequestId))
+        ).map(({ hold }) => hold)
+      : [];
+    return { conflicts, blackouts, holds };
+  }
+
+  async getVehicleTurnaroundHours(vehicleId: number): Promise<number> {
+    const [settings] = await db.select().from(vehicleSchedulingSettings).where(eq(vehicleSchedulingSettings.vehicleId, vehicleId));
+    return settings?.turnaroundHours ?? DEFAULT_TURNAROUND_HOURS;
+  }
+
+  async setVehicleTurnaroundHours(vehicleId: number, turnaroundHours: number, staffId: number): Promise<void> {
+    await db
+      .insert(vehicleSchedulingSettings)
+      .values({ vehicleId, turnaroundHours, updatedByStaffId: staffId })
+      .onConflictDoUpdate({
+        target: vehicleSchedulingSettings.vehicleId,
+        set: { turnaroundHours, updatedByStaffId: staffId, updatedAt: new Date() },
+      });
+  }
+
+  async getVehicleBlackouts(vehicleId: number): Promise<VehicleBlackout[]> {
+    return await db
+      .select()
+      .from(vehicleBlackouts)
+      .where(eq(vehicleBlackouts.vehicleId, vehicleId))
+      .orderBy(asc(vehicleBlackouts.startDate));
+  }
+
+  // Blackouts of every vehicle touching the month, for the booking calendar.
+  async getCalendarBlackouts(month?: number, year?: number): Promise<(VehicleBlackout & { vehicleName: string })[]> {
+    const rows = await db
+      .select({ blackout: vehicleBlackouts, vehicleName: vehicles.name })
+      .from(vehicleBlackouts)
+      .innerJoin(vehicles, eq(vehicleBlackouts.vehicleId, vehicles.id))
+      .where(month && year
+        ? and(
+            lte(vehicleBlackouts.startDate, new Date(year, month, 0, 23, 59, 59)),
+            gte(vehicleBlackouts.endDate, new Date(year, month - 1, 1))
+          )
+        : undefined)
+      .orderBy(asc(vehicleBlackouts.startDate));
+    return rows.map(({ blackout, vehicleName }) => ({ ...blackout, vehicleName }));
+  }
+
+  // Fails with VehicleUnavailableError if the vehicle is booked for any of
+  // the dates; those rentals have to be moved or cancelled first.
+  async createVehicleBlackout(vehicleId: number, blackout: VehicleBlackoutInput, staffId: number): Promise<VehicleBlackout> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${VEHICLE_SCHEDULE_LOCK}, ${vehicleId})`);
+      const conflicts = await tx.select().from(rentals).where(vehicleConflictConditions(vehicleId, blackout.startDate, blackout.endDate));
+      if (conflicts.length > 0) {
+        throw new VehicleUnavailableError(conflicts);
+      }
+      const [created] = await tx
+        .insert(vehicleBlackouts)
+        .values({
+          vehicleId,
+          reason: blackout.reason,
+          note: blackout.note || null,
+          startDate: blackout.startDate,
+          endDate: blackout.endDate,
+          createdByStaffId: staffId,
+        })
+        .returning();
+      return created;
+    });
+  }
+
+  async deleteVehicleBlackout(id: number): Promise<VehicleBlackout | undefined> {
+    const [deleted] = await db.delete(vehicleBlackouts).where(eq(vehicleBlackouts.id, id)).returning();
+    return deleted || undefined;
   }
 
   async getCalendarBookings(month?: number, year?: number): Promise<any[]> {
     // Include all non-cancelled rentals (pending, completed)
-    let conditions = ne(rentals.status, 'cancelled');
+    let conditions = notInArray(rentals.status, RELEASED_RENTAL_STATUSES);
 
     if (month && year) {
       const startOfMonth = new Date(year, month - 1, 1);
@@ -340,6 +1946,7 @@ export class DatabaseStorage implements IStorage {
 
     const rentalBookings = await db.select({
       id: rentals.id,
+      vehicleId: rentalVehicles.vehicleId,
       vehicle: rentals.vehicle,
       startDate: rentals.startDate,
       endDate: rentals.endDate,
@@ -348,6 +1955,7 @@ export class DatabaseStorage implements IStorage {
       customerName: customers.fullName
     }).from(rentals)
       .leftJoin(customers, eq(rentals.customerId, customers.id))
+      .leftJoin(rentalVehicles, eq(rentalVehicles.rentalId, rentals.id))
       .where(conditions)
       .orderBy(rentals.startDate);
 
@@ -369,6 +1977,44 @@ export class DatabaseStorage implements IStorage {
     return vehicle || undefined;
   }
 
+  // Case-insensitive, for matching names typed before rentals were linked
+  // to vehicles.
+  async getVehicleByName(name: string): Promise<Vehicle | undefined> {
+    const [vehicle] = await db
+      .select()
+      .from(vehicles)
+      .where(sql`lower(trim(${vehicles.name})) = lower(trim(${name}))`)
+      .orderBy(asc(vehicles.id))
+      .limit(1);
+    return vehicle || undefined;
+  }
+
+  async countVehicleRentals(vehicleId: number): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(rentalVehicles)
+      .where(eq(rentalVehicles.vehicleId, vehicleId));
+    return count;
+  }
+
+  // What each vehicle has actually been rented for per day, on average.
+  // Vehicles never rented out are left out of the map.
+  async getVehicleDailyRates(vehicleIds: number[]): Promise<Map<number, number>> {
+    if (vehicleIds.length === 0) {
+      return new Map();
+    }
+    const rows = await db
+      .select({
+        vehicleId: rentalVehicles.vehicleId,
+        dailyRate: sql<number>`avg(${rentals.rentalPerDay})::float`,
+      })
+      .from(rentalVehicles)
+      .innerJoin(rentals, eq(rentalVehicles.rentalId, rentals.id))
+      .where(inArray(rentalVehicles.vehicleId, vehicleIds))
+      .groupBy(rentalVehicles.vehicleId);
+    return new Map(rows.map(row => [row.vehicleId, row.dailyRate]));
+  }
+
   async updateVehicle(id: number, updates: Partial<InsertVehicle>): Promise<Vehicle> {
     const [vehicle] = await db.update(vehicles)
       .set({ ...updates, updatedAt: new Date() })
@@ -391,6 +2037,11 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(deliveries).orderBy(desc(deliveries.createdAt));
   }
 
+  async getDeliveryById(id: number): Promise<Delivery | undefined> {
+    const [delivery] = await db.select().from(deliveries).where(eq(deliveries.id, id));
+    return delivery || undefined;
+  }
+
   async getDeliveriesByStaff(staffId: number): Promise<Delivery[]> {
     return await db.select().from(deliveries)
       .where(eq(deliveries.staffId, staffId))
@@ -431,7 +2082,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getRentalsPDF(filter?: string): Promise<{ rentals: Rental[], buffer?: Buffer }> {
-    let conditions: any = ne(rentals.status, 'cancelled');
+    let conditions: SQL | undefined = notInArray(rentals.status, RELEASED_RENTAL_STATUSES);
     
     if (filter && filter !== 'ALL') {
       const now = new Date();
@@ -459,18 +2110,118 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Staff logging methods
+  // Appends the log row and its hash chain entry in one transaction. The
+  // advisory lock keeps concurrent appends from forking the chain.
   async createStaffLog(log: InsertStaffLog): Promise<StaffLog> {
-    const [staffLog] = await db
-      .insert(staffLogs)
-      .values(log)
-      .returning();
-    return staffLog;
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${STAFF_LOG_CHAIN_LOCK})`);
+
+      const [lastEntry] = await tx
+        .select({ hash: staffLogChain.hash })
+        .from(staffLogChain)
+        .orderBy(desc(staffLogChain.id))
+        .limit(1);
+      const previousHash = lastEntry?.hash ?? STAFF_LOG_CHAIN_GENESIS;
+
+      const [staffLog] = await tx
+        .insert(staffLogs)
+        .values(log)
+        .returning();
+      const hash = hashStaffLog(staffLog, previousHash);
+      await tx.insert(staffLogChain).values({ staffLogId: staffLog.id, previousHash, hash });
+
+      // Chains begun before the head was kept are counted once
+      const [head] = await tx.select().from(staffLogChainHead).where(eq(staffLogChainHead.id, STAFF_LOG_CHAIN_HEAD_ID));
+      const entries = head
+        ? head.entries + 1
+        : (await tx.select({ count: sql<number>`count(*)::int` }).from(staffLogChain))[0].count;
+      await tx
+        .insert(staffLogChainHead)
+        .values({ id: STAFF_LOG_CHAIN_HEAD_ID, entries, staffLogId: staffLog.id, hash })
+        .onConflictDoUpdate({
+          target: staffLogChainHead.id,
+          set: { entries, staffLogId: staffLog.id, hash, updatedAt: new Date() },
+        });
+      return staffLog;
+    });
   }
 
   async getAllStaffLogs(): Promise<StaffLog[]> {
     return await db.select().from(staffLogs).orderBy(desc(staffLogs.timestamp));
   }
 
+  async getStaffLogs(filter: StaffLogFilter): Promise<StaffLog[]> {
+    const conditions = [];
+    if (filter.action) conditions.push(eq(staffLogs.action, filter.action));
+    if (filter.targetType) conditions.push(eq(staffLogs.targetType, filter.targetType));
+    if (filter.staffId) conditions.push(eq(staffLogs.staffId, filter.staffId));
+    if (filter.from) conditions.push(gte(staffLogs.timestamp, filter.from));
+    if (filter.to) conditions.push(lte(staffLogs.timestamp, filter.to));
+
+    return await db.select().from(staffLogs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(staffLogs.timestamp));
+  }
+
+  async getStaffLogFilterOptions(): Promise<{ actions: string[]; targetTypes: string[] }> {
+    const actions = await db.selectDistinct({ action: staffLogs.action }).from(staffLogs).orderBy(staffLogs.action);
+    const targetTypes = await db.selectDistinct({ targetType: staffLogs.targetType }).from(staffLogs).orderBy(staffLogs.targetType);
+    return {
+      actions: actions.map((row) => row.action),
+      targetTypes: targetTypes.map((row) => row.targetType).filter((targetType): targetType is string => !!targetType),
+    };
+  }
+
+  // Recomputes the whole chain. Rows logged before the chain existed are
+  // counted as legacy; any unchained row after the first chained one, or any
+  // hash that does not match, means the log was altered.
+  async verifyStaffLogChain(): Promise<StaffLogChainCheck> {
+    // One snapshot, so an entry logged meanwhile can't leave the head ahead
+    // of the rows read
+    const { rows, head } = await db.transaction(async (tx) => {
+      const rows = await tx
+        .select({ log: staffLogs, chain: staffLogChain })
+        .from(staffLogs)
+        .leftJoin(staffLogChain, eq(staffLogChain.staffLogId, staffLogs.id))
+        .orderBy(asc(staffLogs.id));
+      const [head] = await tx.select().from(staffLogChainHead).where(eq(staffLogChainHead.id, STAFF_LOG_CHAIN_HEAD_ID));
+      return { rows, head };
+    }, { isolationLevel: "repeatable read" });
+
+    let legacyEntries = 0;
+    let entriesChecked = 0;
+    let expectedPreviousHash: string | null = null;
+    let lastStaffLogId: number | null = null;
+    for (const { log, chain } of rows) {
+      if (!chain) {
+        if (expectedPreviousHash === null) {
+          legacyEntries++;
+          continue;
+        }
+        return { valid: false, entriesChecked, legacyEntries, staffLogId: log.id, reason: "Entry is missing from the hash chain" };
+      }
+
+      if (chain.previousHash !== (expectedPreviousHash ?? STAFF_LOG_CHAIN_GENESIS)) {
+        return { valid: false, entriesChecked, legacyEntries, staffLogId: log.id, reason: "Chain is broken before this entry (an earlier entry was removed)" };
+      }
+      if (chain.hash !== hashStaffLog(log, chain.previousHash)) {
+        return { valid: false, entriesChecked, legacyEntries, staffLogId: log.id, reason: "Entry was modified after it was logged" };
+      }
+      expectedPreviousHash = chain.hash;
+      lastStaffLogId = log.id;
+      entriesChecked++;
+    }
+
+    if (lastStaffLogId !== null && !head) {
+      return { valid: false, entriesChecked, legacyEntries, staffLogId: lastStaffLogId, reason: "The chain's head record is missing" };
+    }
+    if (head && (head.entries !== entriesChecked || head.hash !== expectedPreviousHash)) {
+      return { valid: false, entriesChecked, legacyEntries, staffLogId: head.staffLogId, reason: "Chain does not end at its recorded newest entry (recent entries were removed)" };
+    }
+
+    return { valid: true, entriesChecked, legacyEntries };
+  }
+
   async getStaffLogsByStaffId(staffId: number): Promise<StaffLog[]> {
     return await db.select().from(staffLogs)
       .where(eq(staffLogs.staffId, staffId))
@@ -482,14 +2233,125 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Booking request methods
-  async createBookingRequest(request: InsertBookingRequest): Promise<BookingRequest> {
-    const [bookingRequest] = await db
+
+  // Holds the dates for the request until holdExpiresAt, or until staff
+  // decide it. Fails with VehicleUnavailableError if the vehicle is already
+  // booked, blocked or held for any of them.
+  async createBookingRequest(request: InsertBookingRequest, holdExpiresAt: Date): Promise<BookingRequest> {
+    return await db.transaction(async (tx) => {
+      return await this.insertHeldBookingRequest(tx, request, holdExpiresAt);
+    });
+  }
+
+  private async insertHeldBookingRequest(tx: Transaction, request: InsertBookingRequest, holdExpiresAt: Date): Promise<BookingRequest> {
+    await this.claimVehicleDates(tx, request.vehicleId, request.startDate, request.endDate);
+    const [bookingRequest] = await tx
       .insert(bookingRequests)
       .values(request)
       .returning();
+    await tx.insert(bookingRequestHolds).values({
+      bookingRequestId: bookingRequest.id,
+      vehicleId: bookingRequest.vehicleId,
+      startDate: bookingRequest.startDate,
+      endDate: bookingRequest.endDate,
+      expiresAt: holdExpiresAt,
+    });
     return bookingRequest;
   }
 
+  // Waitlist methods
+  async createWaitlistEntry(customerId: number, entry: WaitlistEntryInput): Promise<WaitlistEntry> {
+    const [created] = await db
+      .insert(waitlistEntries)
+      .values({ customerId, ...entry, status: "waiting" })
+      .returning();
+    return created;
+  }
+
+  async getCustomerWaitlistEntries(customerId: number): Promise<CustomerWaitlistEntry[]> {
+    const rows = await db
+      .select({ entry: waitlistEntries, vehicleName: vehicles.name })
+      .from(waitlistEntries)
+      .innerJoin(vehicles, eq(waitlistEntries.vehicleId, vehicles.id))
+      .where(eq(waitlistEntries.customerId, customerId))
+      .orderBy(desc(waitlistEntries.createdAt));
+    return rows.map(({ entry, vehicleName }) => ({ ...entry, vehicleName }));
+  }
+
+  // Longest-waiting first, the order the dates are offered in.
+  async getWaitingWaitlistEntries(vehicleId?: number): Promise<WaitlistEntry[]> {
+    return await db
+      .select()
+      .from(waitlistEntries)
+      .where(and(
+        eq(waitlistEntries.status, "waiting"),
+        vehicleId ? eq(waitlistEntries.vehicleId, vehicleId) : undefined
+      ))
+      .orderBy(asc(waitlistEntries.createdAt), asc(waitlistEntries.id));
+  }
+
+  // Sends a booking request for the entry's dates on the customer's behalf,
+  // holding them until holdExpiresAt. Fails with VehicleUnavailableError if
+  // the vehicle is still taken, leaving the customer on the waitlist, and
+  // returns undefined if the customer has left it since.
+  async offerWaitlistEntry(id: number, holdExpiresAt: Date): Promise<{ entry: WaitlistEntry; bookingRequest: BookingRequest } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(waitlistEntries).where(eq(waitlistEntries.id, id)).for("update");
+      if (!current || current.status !== "waiting") {
+        return undefined;
+      }
+      const [vehicle] = await tx.select().from(vehicles).where(eq(vehicles.id, current.vehicleId));
+      if (!vehicle) {
+        throw new Error("Vehicle not found");
+      }
+
+      const bookingRequest = await this.insertHeldBookingRequest(tx, {
+        customerId: current.customerId,
+        vehicleId: vehicle.id,
+        vehicleName: vehicle.name,
+        startDate: current.startDate,
+        endDate: current.endDate,
+        totalDays: Math.ceil((current.endDate.getTime() - current.startDate.getTime()) / (1000 * 60 * 60 * 24)),
+        customerMessage: "Offered from the waitlist",
+        status: "pending",
+      }, holdExpiresAt);
+
+      const [entry] = await tx
+        .update(waitlistEntries)
+        .set({ status: "offered", bookingRequestId: bookingRequest.id, offeredAt: new Date() })
+        .where(eq(waitlistEntries.id, id))
+        .returning();
+      return { entry, bookingRequest };
+    });
+  }
+
+  // Only an entry still waiting can be left; undefined if there is none.
+  async leaveWaitlist(id: number, customerId: number): Promise<WaitlistEntry | undefined> {
+    const [entry] = await db
+      .update(waitlistEntries)
+      .set({ status: "cancelled" })
+      .where(and(
+        eq(waitlistEntries.id, id),
+        eq(waitlistEntries.customerId, customerId),
+        eq(waitlistEntries.status, "waiting")
+      ))
+      .returning();
+    return entry || undefined;
+  }
+
+  // Entries whose dates started before anything freed up.
+  async lapseWaitlistEntries(now: Date): Promise<number> {
+    const lapsed = await db
+      .update(waitlistEntries)
+      .set({ status: "lapsed" })
+      .where(and(
+        eq(waitlistEntries.status, "waiting"),
+        lte(waitlistEntries.startDate, now)
+      ))
+      .returning({ id: waitlistEntries.id });
+    return lapsed.length;
+  }
+
   async getAllBookingRequests(): Promise<any[]> {
     const results = await db.select({
       id: bookingRequests.id,
@@ -556,22 +2418,164 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(bookingRequests.createdAt));
   }
 
-  async updateBookingRequestStatus(id: number, status: string, staffId?: number, reason?: string): Promise<void> {
-    const updates: any = { status };
-    
-    if (status === 'confirmed' && staffId) {
-      updates.confirmedByStaffId = staffId;
-      updates.confirmedAt = new Date();
-    }
-    
-    if (status === 'rejected' && reason) {
-      updates.rejectedReason = reason;
-    }
+  // The only way a booking request's status changes. Confirming re-checks
+  // the vehicle is still free, apart from the request's own hold, and fails
+  // with VehicleUnavailableError if it isn't. The notification flags are cleared, as the customer has not been
+  // told about the new status yet.
+  async transitionBookingRequest(
+    id: number,
+    status: BookingRequestStatus,
+    { staffId, reason }: { staffId?: number; reason?: string }
+  ): Promise<BookingRequest> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(bookingRequests).where(eq(bookingRequests.id, id)).for("update");
+      if (!current) {
+        throw new Error("Booking request not found");
+      }
+      if (!canTransitionBookingRequest(current.status, status)) {
+        throw new BookingRequestTransitionError(current.status, status);
+      }
 
-    await db
+      const updates: Partial<typeof bookingRequests.$inferInsert> = { status, emailSent: false, whatsappSent: false };
+      if (status === "confirmed") {
+        await this.claimVehicleDates(tx, current.vehicleId, current.startDate, current.endDate, { excludeBookingRequestId: id });
+        updates.confirmedByStaffId = staffId ?? null;
+        updates.confirmedAt = new Date();
+        updates.rejectedReason = null;
+      }
+      if (status === "rejected" || status === "expired") {
+        updates.rejectedReason = reason || null;
+      }
+
+      const [bookingRequest] = await tx
+        .update(bookingRequests)
+        .set(updates)
+        .where(eq(bookingRequests.id, id))
+        .returning();
+      return bookingRequest;
+    });
+  }
+
+  // The customer pulls out of their own pending or confirmed request. Its
+  // hold ends with it.
+  async cancelBookingRequestByCustomer(id: number, customerId: number, reason?: string): Promise<BookingRequest> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(bookingRequests).where(eq(bookingRequests.id, id)).for("update");
+      if (!current || current.customerId !== customerId) {
+        throw new Error("Booking request not found");
+      }
+      if (!canTransitionBookingRequest(current.status, "cancelled")) {
+        throw new BookingRequestTransitionError(current.status, "cancelled");
+      }
+
+      const [bookingRequest] = await tx
+        .update(bookingRequests)
+        .set({ status: "cancelled" })
+        .where(eq(bookingRequests.id, id))
+        .returning();
+      await tx.insert(bookingRequestChanges).values({
+        bookingRequestId: id,
+        type: "cancelled",
+        fromStatus: current.status,
+        toStatus: "cancelled",
+        previousStartDate: current.startDate,
+        previousEndDate: current.endDate,
+        customerId,
+        reason: reason || null,
+      });
+      return bookingRequest;
+    });
+  }
+
+  // Moves the request and its hold to new dates, which must be free apart
+  // from the request's own hold. A confirmed request goes back to pending
+  // for staff to confirm the new dates.
+  async changeBookingRequestDates(id: number, customerId: number, change: BookingRequestDateChange, holdExpiresAt: Date): Promise<BookingRequest> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(bookingRequests).where(eq(bookingRequests.id, id)).for("update");
+      if (!current || current.customerId !== customerId) {
+        throw new Error("Booking request not found");
+      }
+      if (current.status !== "pending" && current.status !== "confirmed") {
+        throw new BookingRequestChangeError("Only pending or confirmed booking requests can be changed");
+      }
+
+      await this.claimVehicleDates(tx, current.vehicleId, change.startDate, change.endDate, { excludeBookingRequestId: id });
+      const [bookingRequest] = await tx
+        .update(bookingRequests)
+        .set({
+          startDate: change.startDate,
+          endDate: change.endDate,
+          totalDays: Math.ceil((change.endDate.getTime() - change.startDate.getTime()) / (1000 * 60 * 60 * 24)),
+          status: "pending",
+          confirmedByStaffId: null,
+          confirmedAt: null,
+          emailSent: false,
+          whatsappSent: false,
+        })
+        .where(eq(bookingRequests.id, id))
+        .returning();
+      await tx
+        .insert(bookingRequestHolds)
+        .values({
+          bookingRequestId: id,
+          vehicleId: current.vehicleId,
+          startDate: change.startDate,
+          endDate: change.endDate,
+          expiresAt: holdExpiresAt,
+        })
+        .onConflictDoUpdate({
+          target: bookingRequestHolds.bookingRequestId,
+          set: { startDate: change.startDate, endDate: change.endDate, expiresAt: holdExpiresAt, pendingSince: new Date() },
+        });
+      await tx.insert(bookingRequestChanges).values({
+        bookingRequestId: id,
+        type: "dates_changed",
+        fromStatus: current.status,
+        toStatus: "pending",
+        previousStartDate: current.startDate,
+        previousEndDate: current.endDate,
+        newStartDate: change.startDate,
+        newEndDate: change.endDate,
+        customerId,
+        reason: change.reason || null,
+      });
+      return bookingRequest;
+    });
+  }
+
+  async getBookingRequestChanges(bookingRequestId: number): Promise<BookingRequestChange[]> {
+    return await db
+      .select()
+      .from(bookingRequestChanges)
+      .where(eq(bookingRequestChanges.bookingRequestId, bookingRequestId))
+      .orderBy(asc(bookingRequestChanges.createdAt));
+  }
+
+  // Expires requests left pending since before the cutoff and returns them,
+  // so the customers can be told. The clock is the hold's pendingSince, which
+  // restarts when a date change sends the request back to pending; requests
+  // made before holds were kept go by when they were made.
+  async expireBookingRequests(pendingBefore: Date, reason: string): Promise<BookingRequest[]> {
+    return await db
       .update(bookingRequests)
-      .set(updates)
-      .where(eq(bookingRequests.id, id));
+      .set({ status: "expired", rejectedReason: reason, emailSent: false, whatsappSent: false })
+      .where(and(
+        eq(bookingRequests.status, "pending"),
+        or(
+          inArray(
+            bookingRequests.id,
+            db.select({ id: bookingRequestHolds.bookingRequestId })
+              .from(bookingRequestHolds)
+              .where(lte(bookingRequestHolds.pendingSince, pendingBefore))
+          ),
+          and(
+            notInArray(bookingRequests.id, db.select({ id: bookingRequestHolds.bookingRequestId }).from(bookingRequestHolds)),
+            lte(bookingRequests.createdAt, pendingBefore)
+          )
+        )
+      ))
+      .returning();
   }
 
   async updateBookingRequestNotifications(id: number, emailSent?: boolean, whatsappSent?: boolean): Promise<void> {
@@ -634,12 +2638,14 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(customerBadges.earnedAt));
   }
 
-  async getCustomerActivities(customerId: number): Promise<CustomerActivity[]> {
-    return db.select()
+  // Pass a null limit for the full history (e.g. personal data exports)
+  async getCustomerActivities(customerId: number, limit: number | null = 20): Promise<CustomerActivity[]> {
+    const query = db.select()
       .from(customerActivity)
       .where(eq(customerActivity.customerId, customerId))
       .orderBy(desc(customerActivity.createdAt))
-      .limit(20);
+      .$dynamic();
+    return limit === null ? query : query.limit(limit);
   }
 
   async createCustomerReview(review: InsertCustomerReview): Promise<CustomerReview> {
@@ -0,0 +1,114 @@
+import fs from "fs";
+import path from "path";
+import { ObjectStorageService } from "./objectStorage";
+import { ENCRYPTED_DOCUMENT_METADATA, isEncryptedDocument } from "./documentEncryption";
+
+const objectStorageService = new ObjectStorageService();
+
+export const STORED_FILE_PATTERN = /^\/(?:objects\/)?(uploads|backups)\/([^/]+)$/;
+
+// Every URL form a stored file lives under: local disk and object storage.
+export function resolveStoredFile(fileUrl: string) {
+  const match = STORED_FILE_PATTERN.exec(fileUrl);
+  if (!match) {
+    return null;
+  }
+  const [, folder, filename] = match;
+  return {
+    folder,
+    filename,
+    localPath: path.join(process.cwd(), "app", folder, filename),
+    objectPath: `/objects/${folder}/${filename}`,
+  };
+}
+
+// Reads a stored file as stored (still encrypted, if it is) from object
+// storage, falling back to local disk.
+export async function readStoredFile(fileUrl: string): Promise<Buffer | null> {
+  const storedFile = resolveStoredFile(fileUrl);
+  if (!storedFile) {
+    return null;
+  }
+  const buffer = await objectStorageService.getFileFromStorage(storedFile.objectPath);
+  if (buffer) {
+    return buffer;
+  }
+  return fs.existsSync(storedFile.localPath) ? fs.promises.readFile(storedFile.localPath) : null;
+}
+
+// Stores an uploaded file as-is in object storage, with a local copy as
+// backup, and returns its /uploads URL.
+export async function saveUploadedFile(buffer: Buffer, filename: string, contentType: string): Promise<string> {
+  const storedFilename = `${Date.now()}_${filename.replace(/[^a-zA-Z0-9.-]/g, "_")}`;
+  try {
+    await objectStorageService.uploadFile(buffer, storedFilename, contentType);
+  } catch (error) {
+    console.error(`Failed to save ${storedFilename} to object storage:`, error);
+  }
+  const localPath = path.join(process.cwd(), "app", "uploads", storedFilename);
+  await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
+  await fs.promises.writeFile(localPath, buffer);
+  return `/uploads/${storedFilename}`;
+}
+
+// Removes a stored file from object storage and local disk. Returns whether
+// any copy was found.
+export async function deleteStoredFile(fileUrl: string): Promise<boolean> {
+  const storedFile = resolveStoredFile(fileUrl);
+  if (!storedFile) {
+    return false;
+  }
+
+  let deleted = false;
+  try {
+    deleted = await objectStorageService.deleteFileFromStorage(storedFile.objectPath);
+  } catch (error) {
+    console.error(`Failed to delete ${storedFile.objectPath} from object storage:`, error);
+  }
+  if (fs.existsSync(storedFile.localPath)) {
+    await fs.promises.unlink(storedFile.localPath);
+    deleted = true;
+  }
+  return deleted;
+}
+
+export interface StoredFileCopies {
+  found: number;
+  rewritten: number;
+}
+
+// Rewrites every copy of an uploaded file (object storage and local disk)
+// with the result of transform. transform returns null to leave a copy as-is.
+export async function rewriteStoredFile(
+  fileUrl: string,
+  transform: (buffer: Buffer) => Buffer | null,
+  contentType: string = "application/octet-stream"
+): Promise<StoredFileCopies> {
+  const storedFile = resolveStoredFile(fileUrl);
+  if (!storedFile || storedFile.folder !== "uploads") {
+    throw new Error(`Not an uploaded file: ${fileUrl}`);
+  }
+
+  const result: StoredFileCopies = { found: 0, rewritten: 0 };
+
+  const objectBuffer = await objectStorageService.getFileFromStorage(storedFile.objectPath);
+  if (objectBuffer) {
+    result.found++;
+    const rewritten = transform(objectBuffer);
+    if (rewritten) {
+      const metadata = isEncryptedDocument(rewritten) ? ENCRYPTED_DOCUMENT_METADATA : undefined;
+      await objectStorageService.uploadFile(rewritten, storedFile.filename, contentType, metadata);
+      result.rewritten++;
+    }
+  }
+
+  if (fs.existsSync(storedFile.localPath)) {
+    result.found++;
+    const rewritten = transform(await fs.promises.readFile(storedFile.localPath));
+    if (rewritten) {
+      await fs.promises.writeFile(storedFile.localPath, rewritten);
+      result.rewritten++;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,133 @@
+import type { RequestHandler } from "express";
+import type { Rental } from "@shared/schema";
+import type { TermsAcceptance, TermsContent, TermsVersion } from "@shared/termsSchema";
+import { storage } from "./storage";
+
+// Published automatically on a fresh install, so there are always terms to
+// accept. This is the text the portal and the agreement PDF used to hardcode.
+const INITIAL_TERMS_VERSION = "1.0";
+const INITIAL_TERMS_CONTENT: TermsContent = {
+  introduction:
+    "This Agreement outlines the terms for vehicle rental from Reimagined Rentalz. By signing, the Renter agrees to these clauses. " +
+    "Breaches may lead to penalties, deposit forfeiture, agreement termination, and legal action.",
+  sections: [
+    {
+      title: "1. Rental Period and Vehicle Usage",
+      clauses: [
+        { title: "1.1. Genting Highland Usage Fee", text: "An additional surcharge (RM150-RM350, vehicle-dependent) applies for Genting Highlands travel. Declare and settle this fee with Reimagined Rentalz before departure." },
+        { title: "1.2. Early Termination of Rental", text: "No refunds or partial refunds are provided for early returns. The Renter must honor the original booking duration." },
+        { title: "1.3. Late Return Penalty", text: "Vehicles returned late incur a RM 25-300 per hour penalty, unless Reimagined Rentalz provides prior written agreement." },
+        { title: "1.4. Mileage Limits & Charges", text: "Exceeding any daily mileage cap results in an overage charge (RM1.50–RM5.00/km), payable to Reimagined Rentalz." },
+        { title: "1.5. Fuel Level Requirement", text: "Return vehicles with the same fuel level as received. Reimagined Rentalz will impose a RM50–RM200 refueling charge if not met." },
+      ],
+    },
+    {
+      title: "2. Driver Authorization & Responsibilities",
+      clauses: [
+        { title: "2.1. Unregistered Drivers Prohibited", text: "Only authorized individuals listed in this Agreement may drive the vehicle. Any unregistered driver voids this Agreement and forfeits the full deposit to Reimagined Rentalz." },
+        { title: "2.2. Traffic Violations & Summons", text: "The Renter is solely responsible for all traffic fines, parking summons, and toll charges incurred during the rental period. Outstanding penalties will be deducted from the deposit by Reimagined Rentalz." },
+      ],
+    },
+    {
+      title: "3. Vehicle Care and Prohibited Actions",
+      clauses: [
+        { title: "3.1. Unauthorized Workshop Visits", text: "Renters are strictly prohibited from sending the vehicle to any external workshop. Violations result in immediate agreement termination by Reimagined Rentalz and full deposit forfeiture. All repairs must be coordinated with Reimagined Rentalz." },
+        { title: "3.2. Vehicle Misuse & Reckless Behavior", text: "Vehicle abuse (e.g., drifting, burnouts, unauthorized decals/stickers, aggressive revving, off-road use, redlining while idle) is strictly forbidden. This results in full deposit forfeiture to Reimagined Rentalz and potential legal action." },
+        { title: "3.3. Speed Limit Violations", text: "Speeding is monitored via GPS/dash cam. A first offense results in a written warning from Reimagined Rentalz. A second offense leads to immediate rental termination and full deposit forfeiture, with no exceptions." },
+        { title: "3.4. Smoking & Vaping Strictly Prohibited", text: "A RM300 cleaning fee will be charged by Reimagined Rentalz if the interior smells of smoke, vape, or strong odors." },
+        { title: "3.5. Pets, Illegal Activities & Accidents", text: "No pets or illegal activities in the vehicle. Report accidents immediately to the authorities and to Reimagined Rentalz." },
+      ],
+    },
+    {
+      title: "4. Financial Obligations",
+      clauses: [
+        { text: "Full payment is required upon booking confirmation." },
+        { text: "The security deposit is held until the vehicle is returned." },
+        { text: "Additional charges are deducted from the deposit." },
+        { text: "Outstanding amounts are payable immediately." },
+      ],
+    },
+  ],
+};
+
+// The latest published terms, publishing the initial version if none exist.
+export async function getCurrentTerms(): Promise<TermsVersion> {
+  const current = await storage.getCurrentTermsVersion();
+  if (current) {
+    return current;
+  }
+  await storage.createInitialTermsVersion(INITIAL_TERMS_VERSION, INITIAL_TERMS_CONTENT);
+  const initial = await storage.getCurrentTermsVersion();
+  if (!initial) {
+    throw new Error("No published Terms & Conditions");
+  }
+  return initial;
+}
+
+export interface CustomerTermsStatus {
+  currentVersionId: number;
+  currentVersion: string;
+  acceptedVersion: string | null;
+  acceptedAt: Date | null;
+  // True until the customer accepts the latest published version
+  acceptanceRequired: boolean;
+}
+
+export async function getCustomerTermsStatus(customerId: number): Promise<CustomerTermsStatus> {
+  const [current, latestAcceptance] = await Promise.all([
+    getCurrentTerms(),
+    storage.getLatestTermsAcceptance(customerId),
+  ]);
+  return {
+    currentVersionId: current.id,
+    currentVersion: current.version,
+    acceptedVersion: latestAcceptance?.version ?? null,
+    acceptedAt: latestAcceptance?.acceptedAt ?? null,
+    acceptanceRequired: latestAcceptance?.termsVersionId !== current.id,
+  };
+}
+
+// Use after requireCustomer on routes that commit the customer to the terms,
+// e.g. booking requests. Responds 428 until the latest version is accepted.
+export const requireCurrentTermsAcceptance: RequestHandler = async (req, res, next) => {
+  try {
+    const status = await getCustomerTermsStatus(req.customer!.id);
+    if (status.acceptanceRequired) {
+      return res.status(428).json({
+        message: "Please review and accept the latest Terms & Conditions to continue",
+        code: "TERMS_ACCEPTANCE_REQUIRED",
+        termsVersion: status.currentVersion,
+      });
+    }
+    next();
+  } catch (error) {
+    console.error("Terms acceptance check error:", error);
+    res.status(500).json({ message: "Failed to check Terms & Conditions acceptance" });
+  }
+};
+
+export interface AgreementTerms {
+  termsVersion: TermsVersion;
+  // Missing when the customer never accepted terms online
+  acceptance: TermsAcceptance | null;
+}
+
+// The terms printed on a rental's agreement. The first time, the rental is
+// tied to the customer's latest acceptance; regenerated agreements then keep
+// printing that version.
+export async function getAgreementTerms(rental: Rental): Promise<AgreementTerms> {
+  const linked = await storage.getRentalTermsAcceptance(rental.id);
+  if (linked) {
+    return linked;
+  }
+
+  const latestAcceptance = await storage.getLatestTermsAcceptance(rental.customerId);
+  if (latestAcceptance) {
+    await storage.linkRentalTermsAcceptance(rental.id, latestAcceptance.id);
+    const newlyLinked = await storage.getRentalTermsAcceptance(rental.id);
+    if (newlyLinked) {
+      return newlyLinked;
+    }
+  }
+  return { termsVersion: await getCurrentTerms(), acceptance: null };
+}
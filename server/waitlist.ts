@@ -0,0 +1,87 @@
+import type { BookingRequest } from "@shared/schema";
+import { storage, VehicleUnavailableError } from "./storage";
+import { emailService } from "./services/emailService";
+import { bookingRequestHoldExpiry } from "./bookingRequests";
+
+const WAITLIST_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+// Offers freed-up dates to waitlisted customers, longest-waiting first.
+// Each offer sends a booking request on the customer's behalf and holds the
+// dates, so a later entry for overlapping dates stays waiting. Pass the
+// vehicle whose dates were just released to only look at its waitlist.
+export async function offerWaitlistedDates(vehicleId?: number): Promise<BookingRequest[]> {
+  await storage.lapseWaitlistEntries(new Date());
+
+  const offered: BookingRequest[] = [];
+  for (const entry of await storage.getWaitingWaitlistEntries(vehicleId)) {
+    const heldUntil = bookingRequestHoldExpiry();
+    // Still taken: the customer keeps their place for the next release
+    const offer = await storage.offerWaitlistEntry(entry.id, heldUntil).catch((error) => {
+      if (error instanceof VehicleUnavailableError) {
+        return undefined;
+      }
+      throw error;
+    });
+    if (!offer) {
+      continue;
+    }
+    const { bookingRequest } = offer;
+    offered.push(bookingRequest);
+
+    try {
+      const customer = await storage.getCustomerById(bookingRequest.customerId);
+      if (customer) {
+        const emailSent = await emailService.sendWaitlistOffer(customer, bookingRequest, heldUntil);
+        await storage.updateBookingRequestNotifications(bookingRequest.id, emailSent);
+        await emailService.sendAdminBookingRequestNotification(customer, bookingRequest);
+      }
+    } catch (error) {
+      console.error(`Failed to notify customer of waitlist offer ${bookingRequest.id}:`, error);
+    }
+  }
+  return offered;
+}
+
+// Offers dates released by a cancellation, rejection, shortened rental or
+// deletion straight away. A failure here mustn't fail the action that
+// released them; the periodic run retries.
+export async function offerReleasedDates(vehicleId: number | undefined): Promise<void> {
+  if (!vehicleId) {
+    return;
+  }
+  try {
+    const offered = await offerWaitlistedDates(vehicleId);
+    if (offered.length > 0) {
+      console.log(`📋 Offered vehicle ${vehicleId} to ${offered.length} waitlisted customer(s)`);
+    }
+  } catch (error) {
+    console.error(`Failed to offer vehicle ${vehicleId} to the waitlist:`, error);
+  }
+}
+
+// Offers the dates of requests that just expired, once per vehicle.
+export async function offerExpiredRequestDates(expired: BookingRequest[]): Promise<void> {
+  const vehicleIds = Array.from(new Set(expired.map((bookingRequest) => bookingRequest.vehicleId)));
+  for (const vehicleId of vehicleIds) {
+    await offerReleasedDates(vehicleId);
+  }
+}
+
+// Dates also free up when holds lapse and requests expire, so the whole
+// waitlist is checked now and then every few minutes for as long as the
+// server is up.
+export function scheduleWaitlistOffers() {
+  const run = () => {
+    offerWaitlistedDates()
+      .then((offered) => {
+        if (offered.length > 0) {
+          console.log(`📋 Offered ${offered.length} waitlisted booking(s)`);
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to offer waitlisted dates:", error);
+      });
+  };
+  run();
+  setInterval(run, WAITLIST_CHECK_INTERVAL_MS).unref();
+}
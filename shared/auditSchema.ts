@@ -0,0 +1,46 @@
+import { pgTable, text, serial, integer, timestamp } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { staffLogs } from "./schema";
+
+// Hash chain over staffLogs. Each entry hashes its log row together with the
+// previous entry's hash, so editing or deleting a logged row breaks the chain
+// from that point on.
+export const staffLogChain = pgTable("staff_log_chain", {
+  id: serial("id").primaryKey(),
+  staffLogId: integer("staff_log_id").references(() => staffLogs.id).notNull().unique(),
+  previousHash: text("previous_hash").notNull(),
+  hash: text("hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// previousHash of the first entry in the chain.
+export const STAFF_LOG_CHAIN_GENESIS = "0".repeat(64);
+
+// The chain's newest entry and length, kept apart from the chain. Deleting
+// the newest entries leaves a chain that still links up, so verification
+// also checks the chain ends where this row says it does. Has one row.
+export const staffLogChainHead = pgTable("staff_log_chain_head", {
+  id: integer("id").primaryKey(),
+  entries: integer("entries").notNull(),
+  staffLogId: integer("staff_log_id").notNull(),
+  hash: text("hash").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const STAFF_LOG_CHAIN_HEAD_ID = 1;
+
+// Empty form fields arrive as "" or null; treat them as "no filter".
+const optionalFilter = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => (value === "" || value === null ? undefined : value), schema.optional());
+
+export const staffLogFilterSchema = z.object({
+  action: optionalFilter(z.string().trim()),
+  targetType: optionalFilter(z.string().trim()),
+  staffId: optionalFilter(z.coerce.number().int().positive()),
+  from: optionalFilter(z.coerce.date()),
+  to: optionalFilter(z.coerce.date()),
+});
+
+export type StaffLogChainEntry = typeof staffLogChain.$inferSelect;
+export type StaffLogChainHead = typeof staffLogChainHead.$inferSelect;
+export type StaffLogFilter = z.infer<typeof staffLogFilterSchema>;
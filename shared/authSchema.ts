@@ -0,0 +1,221 @@
+import { pgTable, text, serial, integer, timestamp, jsonb, boolean } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { staff, customers, rentals } from "./schema";
+
+export const STAFF_ROLES = ["owner", "manager", "counter_staff", "driver"] as const;
+export type StaffRole = (typeof STAFF_ROLES)[number];
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  owner: "Owner",
+  manager: "Manager",
+  counter_staff: "Counter Staff",
+  driver: "Driver",
+};
+
+// Staff without an explicit role assignment fall back to this role.
+export const DEFAULT_STAFF_ROLE: StaffRole = "counter_staff";
+
+export const STAFF_PERMISSIONS = {
+  MANAGE_RENTALS: "rental:manage",
+  CANCEL_RENTAL: "rental:cancel",
+  DELETE_RENTAL: "rental:delete",
+  MANAGE_CUSTOMERS: "customer:manage",
+  VIEW_CUSTOMER_DOCUMENTS: "customer:view_documents",
+  RESET_CUSTOMER_PASSWORD: "customer:reset_password",
+  DELETE_CUSTOMER: "customer:delete",
+  MANAGE_CUSTOMER_PRIVACY: "customer:privacy",
+  MANAGE_BOOKINGS: "booking:manage",
+  MANAGE_VEHICLES: "vehicle:manage",
+  MANAGE_DELIVERIES: "delivery:manage",
+  MANAGE_INVOICES: "invoice:manage",
+  MANAGE_TERMS: "terms:manage",
+  VIEW_AUDIT_LOG: "audit:view",
+  MANAGE_STAFF: "staff:manage",
+} as const;
+export type StaffPermission = (typeof STAFF_PERMISSIONS)[keyof typeof STAFF_PERMISSIONS];
+
+export const ALL_STAFF_PERMISSIONS = Object.values(STAFF_PERMISSIONS) as StaffPermission[];
+
+export const STAFF_PERMISSION_LABELS: Record<StaffPermission, string> = {
+  "rental:manage": "Create & complete rentals",
+  "rental:cancel": "Cancel rentals",
+  "rental:delete": "Delete rentals",
+  "customer:manage": "Edit customers",
+  "customer:view_documents": "View customer ID documents",
+  "customer:reset_password": "Reset customer passwords",
+  "customer:delete": "Delete customers",
+  "customer:privacy": "Export & erase customer personal data",
+  "booking:manage": "Manage booking requests",
+  "vehicle:manage": "Manage vehicles",
+  "delivery:manage": "Manage deliveries",
+  "invoice:manage": "Manage invoices",
+  "terms:manage": "Edit & publish Terms & Conditions",
+  "audit:view": "View audit log",
+  "staff:manage": "Manage staff & roles",
+};
+
+// Used for a role until its permissions are edited from the admin panel.
+// The owner role always holds every permission and cannot be edited.
+export const DEFAULT_ROLE_PERMISSIONS: Record<StaffRole, StaffPermission[]> = {
+  owner: ALL_STAFF_PERMISSIONS,
+  manager: [
+    "rental:manage",
+    "rental:cancel",
+    "rental:delete",
+    "customer:manage",
+    "customer:view_documents",
+    "customer:reset_password",
+    "booking:manage",
+    "vehicle:manage",
+    "delivery:manage",
+    "invoice:manage",
+    "audit:view",
+  ],
+  counter_staff: [
+    "rental:manage",
+    "rental:cancel",
+    "customer:manage",
+    "customer:view_documents",
+    "booking:manage",
+    "delivery:manage",
+  ],
+  driver: ["delivery:manage"],
+};
+
+export const staffRoles = pgTable("staff_roles", {
+  id: serial("id").primaryKey(),
+  staffId: integer("staff_id").references(() => staff.id, { onDelete: "cascade" }).notNull().unique(),
+  role: text("role").notNull(), // owner, manager, counter_staff, driver
+  assignedByStaffId: integer("assigned_by_staff_id"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const rolePermissions = pgTable("role_permissions", {
+  id: serial("id").primaryKey(),
+  role: text("role").notNull().unique(),
+  permissions: jsonb("permissions").$type<StaffPermission[]>().notNull(),
+  requireTwoFactor: boolean("require_two_factor").notNull().default(false),
+  updatedByStaffId: integer("updated_by_staff_id"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// TOTP enrollment per staff member. A row with enabledAt set means 2FA is on;
+// pendingSecret holds a secret that has been shown as a QR code but not yet
+// confirmed with a valid code.
+export const staffTwoFactor = pgTable("staff_two_factor", {
+  id: serial("id").primaryKey(),
+  staffId: integer("staff_id").references(() => staff.id, { onDelete: "cascade" }).notNull().unique(),
+  secret: text("secret"), // base32
+  pendingSecret: text("pending_secret"), // base32
+  recoveryCodeHashes: jsonb("recovery_code_hashes").$type<string[]>().notNull().default([]),
+  lastUsedStep: integer("last_used_step"), // last accepted TOTP time step, blocks code replay
+  enabledAt: timestamp("enabled_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// One-time passcodes emailed to customers for passwordless login.
+export const customerLoginCodes = pgTable("customer_login_codes", {
+  id: serial("id").primaryKey(),
+  customerId: integer("customer_id").references(() => customers.id, { onDelete: "cascade" }).notNull(),
+  codeHash: text("code_hash").notNull(), // sha256 of the 6-digit code
+  attempts: integer("attempts").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  consumedAt: timestamp("consumed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Failed login counters for the Postgres-backed login throttle. Keys look
+// like "staff:account:alice" or "customer:ip:203.0.113.7".
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(),
+  failures: integer("failures").notNull().default(0),
+  firstFailureAt: timestamp("first_failure_at").defaultNow().notNull(),
+  lastFailureAt: timestamp("last_failure_at").defaultNow().notNull(),
+  lockedUntil: timestamp("locked_until"),
+});
+
+export const CUSTOMER_TOKEN_PURPOSES = ["verify_email", "reset_password"] as const;
+export type CustomerTokenPurpose = (typeof CUSTOMER_TOKEN_PURPOSES)[number];
+
+// Single-use tokens behind the signed links in verification and password
+// reset emails. Only a hash of the token nonce is stored.
+export const customerTokens = pgTable("customer_tokens", {
+  id: serial("id").primaryKey(),
+  customerId: integer("customer_id").references(() => customers.id, { onDelete: "cascade" }).notNull(),
+  purpose: text("purpose").notNull(), // verify_email, reset_password
+  email: text("email").notNull(), // address the link was sent to
+  nonceHash: text("nonce_hash").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  consumedAt: timestamp("consumed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Signed download links for a rental's files issued before revokedAt no
+// longer work, e.g. once the rental is cancelled.
+export const downloadLinkRevocations = pgTable("download_link_revocations", {
+  id: serial("id").primaryKey(),
+  rentalId: integer("rental_id").references(() => rentals.id, { onDelete: "cascade" }).notNull().unique(),
+  revokedAt: timestamp("revoked_at").defaultNow().notNull(),
+});
+
+export const insertStaffRoleSchema = createInsertSchema(staffRoles).omit({
+  id: true,
+  updatedAt: true,
+}).extend({
+  role: z.enum(STAFF_ROLES),
+});
+
+export const updateRolePermissionsSchema = z.object({
+  permissions: z.array(z.enum(ALL_STAFF_PERMISSIONS as [StaffPermission, ...StaffPermission[]])),
+});
+
+export const updateRoleTwoFactorSchema = z.object({
+  required: z.boolean(),
+});
+
+// Accepts either a 6-digit authenticator code or a recovery code.
+export const staffTwoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Enter the code from your authenticator app or a recovery code"),
+});
+
+export const customerCodeRequestSchema = z.object({
+  email: z.string().email(),
+});
+
+export const customerCodeLoginSchema = z.object({
+  email: z.string().email(),
+  code: z.string().regex(/^\d{6}$/, "Enter the 6-digit code from your email"),
+});
+
+export const customerPasswordLoginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  newPassword: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+// Erasure cannot be undone, so staff must say why it was requested.
+export const eraseCustomerSchema = z.object({
+  reason: z.string().trim().min(3, "Please give the reason for erasure"),
+});
+
+export type StaffRoleAssignment = typeof staffRoles.$inferSelect;
+export type InsertStaffRole = z.infer<typeof insertStaffRoleSchema>;
+export type RolePermission = typeof rolePermissions.$inferSelect;
+export type StaffTwoFactor = typeof staffTwoFactor.$inferSelect;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type CustomerLoginCode = typeof customerLoginCodes.$inferSelect;
+export type CustomerToken = typeof customerTokens.$inferSelect;
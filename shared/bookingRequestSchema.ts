@@ -0,0 +1,114 @@
+import { pgTable, text, serial, integer, timestamp } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { bookingRequests, vehicles } from "./schema";
+
+// Booking request workflow:
+//   pending -> confirmed -> completed (converted to a rental)
+// with rejected, expired and cancelled as the other outcomes. Pending
+// requests nobody answers expire on their own; a confirmed request can
+// still be rejected, e.g. when the customer pulls out before the rental is
+// drawn up. Customers cancel their own requests, and changing the dates of
+// a confirmed one sends it back to pending for staff to confirm again.
+export const BOOKING_REQUEST_STATUSES = ["pending", "confirmed", "rejected", "expired", "completed", "cancelled"] as const;
+export type BookingRequestStatus = (typeof BOOKING_REQUEST_STATUSES)[number];
+
+export const BOOKING_REQUEST_STATUS_LABELS: Record<BookingRequestStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  rejected: "Rejected",
+  expired: "Expired",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+export const BOOKING_REQUEST_TRANSITIONS: Record<BookingRequestStatus, BookingRequestStatus[]> = {
+  pending: ["confirmed", "rejected", "expired", "cancelled"],
+  confirmed: ["rejected", "completed", "cancelled"],
+  rejected: [],
+  expired: [],
+  completed: [],
+  cancelled: [],
+};
+
+export function canTransitionBookingRequest(from: string, to: BookingRequestStatus): boolean {
+  return (BOOKING_REQUEST_TRANSITIONS[from as BookingRequestStatus] ?? []).includes(to);
+}
+
+// The decisions staff make by hand. Completion happens when the request is
+// converted to a rental, and expiry on its own.
+export const bookingRequestDecisionSchema = z.discriminatedUnion("status", [
+  z.object({ status: z.literal("confirmed") }),
+  z.object({
+    status: z.literal("rejected"),
+    reason: z.string().trim().min(1, "Tell the customer why the request was rejected").max(500),
+  }),
+]);
+
+export type BookingRequestDecision = z.infer<typeof bookingRequestDecisionSchema>;
+
+// Dates a booking request keeps from being booked by anyone else while staff
+// review it. A pending request's hold lapses at expiresAt; once confirmed it
+// holds until the request is converted to a rental or rejected.
+export const bookingRequestHolds = pgTable("booking_request_holds", {
+  bookingRequestId: integer("booking_request_id").primaryKey().references(() => bookingRequests.id, { onDelete: "cascade" }),
+  vehicleId: integer("vehicle_id").references(() => vehicles.id, { onDelete: "cascade" }).notNull(),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  // When the request last became pending: when it was made, and again each
+  // time the customer changes its dates. Unanswered requests expire from here.
+  pendingSince: timestamp("pending_since").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type BookingRequestHold = typeof bookingRequestHolds.$inferSelect;
+
+// A hold as shown on the staff calendars
+export interface VehicleHold extends BookingRequestHold {
+  status: BookingRequestStatus;
+  vehicleName: string;
+  customerName: string | null;
+}
+
+// What customers may do to their own requests, subject to the cancellation
+// policy worked out on the server.
+export const CUSTOMER_BOOKING_REQUEST_ACTIONS = ["cancel", "change_dates"] as const;
+export type CustomerBookingRequestAction = (typeof CUSTOMER_BOOKING_REQUEST_ACTIONS)[number];
+
+// Changes customers make to their requests, kept as the request's history.
+export const BOOKING_REQUEST_CHANGE_TYPES = ["cancelled", "dates_changed"] as const;
+export type BookingRequestChangeType = (typeof BOOKING_REQUEST_CHANGE_TYPES)[number];
+
+export const bookingRequestChanges = pgTable("booking_request_changes", {
+  id: serial("id").primaryKey(),
+  bookingRequestId: integer("booking_request_id").references(() => bookingRequests.id, { onDelete: "cascade" }).notNull(),
+  type: text("type").notNull(),
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  previousStartDate: timestamp("previous_start_date").notNull(),
+  previousEndDate: timestamp("previous_end_date").notNull(),
+  // Only set when the dates changed
+  newStartDate: timestamp("new_start_date"),
+  newEndDate: timestamp("new_end_date"),
+  customerId: integer("customer_id").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const bookingRequestCancellationSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+export const bookingRequestDateChangeSchema = z
+  .object({
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+    reason: z.string().trim().max(500).optional(),
+  })
+  .refine((change) => change.endDate > change.startDate, {
+    message: "End date must be after start date",
+    path: ["endDate"],
+  });
+
+export type BookingRequestDateChange = z.infer<typeof bookingRequestDateChangeSchema>;
+export type BookingRequestChange = typeof bookingRequestChanges.$inferSelect;
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { summarizeDepositLedger, depositEntrySchema } from "./depositSchema";
+import { applyDepositToCharges } from "./rentalSchema";
+
+describe("summarizeDepositLedger", () => {
+  it("holds what was collected less deductions and refunds", () => {
+    expect(summarizeDepositLedger([
+      { type: "collected", amount: "300.00" },
+      { type: "collected", amount: "200.10" },
+      { type: "deducted", amount: "120.20" },
+      { type: "refunded", amount: "100.00" },
+    ])).toEqual({ collected: 500.1, deducted: 120.2, refunded: 100, held: 279.9 });
+  });
+
+  it("puts reversed deductions back into the deposit", () => {
+    expect(summarizeDepositLedger([
+      { type: "collected", amount: "500.00" },
+      { type: "deducted", amount: "150.00" },
+      { type: "deduction_reversed", amount: "150.00" },
+      { type: "deducted", amount: "80.00" },
+    ])).toEqual({ collected: 500, deducted: 80, refunded: 0, held: 420 });
+  });
+
+  it("is empty without entries", () => {
+    expect(summarizeDepositLedger([])).toEqual({ collected: 0, deducted: 0, refunded: 0, held: 0 });
+  });
+});
+
+describe("applyDepositToCharges", () => {
+  it("refunds what the charges leave of the deposit", () => {
+    expect(applyDepositToCharges(500, 120.5)).toEqual({ depositDeducted: 120.5, depositRefund: 379.5, balanceDue: 0 });
+  });
+
+  it("bills what the deposit doesn't cover", () => {
+    expect(applyDepositToCharges(200, 350.25)).toEqual({ depositDeducted: 200, depositRefund: 0, balanceDue: 150.25 });
+  });
+});
+
+describe("depositEntrySchema", () => {
+  it("requires a reason for deductions and a method for refunds", () => {
+    expect(depositEntrySchema.safeParse({ type: "deducted", amount: "50", reason: " " }).success).toBe(false);
+    expect(depositEntrySchema.safeParse({ type: "refunded", amount: "50" }).success).toBe(false);
+    expect(depositEntrySchema.parse({ type: "refunded", amount: "50", method: "cash" })).toEqual({ type: "refunded", amount: 50, method: "cash" });
+  });
+
+  it("doesn't take reversals or empty amounts from staff", () => {
+    expect(depositEntrySchema.safeParse({ type: "deduction_reversed", amount: "50" }).success).toBe(false);
+    expect(depositEntrySchema.safeParse({ type: "collected", amount: "0" }).success).toBe(false);
+  });
+});
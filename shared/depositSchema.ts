@@ -0,0 +1,124 @@
+import { pgTable, text, serial, integer, timestamp, decimal } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { rentals } from "./schema";
+import type { RentalStatus } from "./rentalSchema";
+
+// Movements of a rental's security deposit. What is still held is worked
+// out from the entries, never stored:
+//   held = collected - deducted + deduction_reversed - refunded
+export const DEPOSIT_ENTRY_TYPES = ["collected", "deducted", "deduction_reversed", "refunded"] as const;
+export type DepositEntryType = (typeof DEPOSIT_ENTRY_TYPES)[number];
+
+export const DEPOSIT_ENTRY_LABELS: Record<DepositEntryType, string> = {
+  collected: "Collected",
+  deducted: "Deducted",
+  deduction_reversed: "Deduction Reversed",
+  refunded: "Refunded",
+};
+
+export const DEPOSIT_PAYMENT_METHODS = ["cash", "bank_transfer", "card", "ewallet"] as const;
+export type DepositPaymentMethod = (typeof DEPOSIT_PAYMENT_METHODS)[number];
+
+export const DEPOSIT_PAYMENT_METHOD_LABELS: Record<DepositPaymentMethod, string> = {
+  cash: "Cash",
+  bank_transfer: "Bank Transfer",
+  card: "Card",
+  ewallet: "E-wallet",
+};
+
+// Where an entry came from: recorded by staff, or posted by the check-in and
+// damage inspection settlements.
+export const DEPOSIT_ENTRY_SOURCES = ["manual", "handover", "check_in", "damage_inspection", "backfill"] as const;
+export type DepositEntrySource = (typeof DEPOSIT_ENTRY_SOURCES)[number];
+
+export const depositLedgerEntries = pgTable("deposit_ledger_entries", {
+  id: serial("id").primaryKey(),
+  rentalId: integer("rental_id").references(() => rentals.id, { onDelete: "cascade" }).notNull(),
+  type: text("type").notNull(),
+  // Always positive; the type gives the direction
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  reason: text("reason"),
+  // For collections and refunds: how the money moved and its transaction
+  // or receipt number
+  method: text("method"),
+  reference: text("reference"),
+  occurredAt: timestamp("occurred_at").defaultNow().notNull(),
+  source: text("source").notNull().default("manual"),
+  recordedByStaffId: integer("recorded_by_staff_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+const amount = z.coerce.number().positive("Amount must be greater than 0");
+
+// Entries staff record by hand. Reversals only come from settlements.
+export const depositEntrySchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("collected"),
+    amount,
+    // Not known for deposits taken with the handover payment proof
+    method: z.enum(DEPOSIT_PAYMENT_METHODS).optional(),
+    reference: z.string().trim().max(200).optional(),
+    occurredAt: z.coerce.date().optional(),
+  }),
+  z.object({
+    type: z.literal("deducted"),
+    amount,
+    reason: z.string().trim().min(1, "Give a reason for the deduction").max(500),
+    occurredAt: z.coerce.date().optional(),
+  }),
+  z.object({
+    type: z.literal("refunded"),
+    amount,
+    method: z.enum(DEPOSIT_PAYMENT_METHODS),
+    reference: z.string().trim().max(200).optional(),
+    occurredAt: z.coerce.date().optional(),
+  }),
+]);
+
+export type DepositEntryInput = z.infer<typeof depositEntrySchema>;
+
+export interface DepositSummary {
+  collected: number;
+  deducted: number;
+  refunded: number;
+  held: number;
+}
+
+export function summarizeDepositLedger(entries: Pick<DepositLedgerEntry, "type" | "amount">[]): DepositSummary {
+  const totals = { collected: 0, deducted: 0, refunded: 0 };
+  for (const entry of entries) {
+    const value = parseFloat(entry.amount);
+    if (entry.type === "collected") totals.collected += value;
+    else if (entry.type === "deducted") totals.deducted += value;
+    else if (entry.type === "deduction_reversed") totals.deducted -= value;
+    else if (entry.type === "refunded") totals.refunded += value;
+  }
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return {
+    collected: round(totals.collected),
+    deducted: round(totals.deducted),
+    refunded: round(totals.refunded),
+    held: round(totals.collected - totals.deducted - totals.refunded),
+  };
+}
+
+// Once the vehicle is back (or the booking is off) whatever is still held is
+// owed to the customer.
+export const DEPOSIT_REFUND_DUE_STATUSES: RentalStatus[] = ["returned", "closed", "cancelled", "no_show"];
+
+export interface OutstandingDeposit {
+  rentalId: number;
+  customerId: number;
+  customerName: string;
+  vehicle: string;
+  status: RentalStatus;
+  endDate: Date;
+  held: number;
+  // When the deposit was first collected
+  collectedAt: Date;
+  ageDays: number;
+  refundDue: boolean;
+}
+
+export type DepositLedgerEntry = typeof depositLedgerEntries.$inferSelect;
+export type InsertDepositLedgerEntry = typeof depositLedgerEntries.$inferInsert;
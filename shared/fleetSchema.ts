@@ -0,0 +1,79 @@
+import { pgTable, text, serial, integer, timestamp } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { vehicles, type Vehicle } from "./schema";
+
+// Hours a vehicle is kept free after each rental to clean, refuel and
+// deliver it before the next one starts, unless set for the vehicle.
+export const DEFAULT_TURNAROUND_HOURS = 2;
+export const MAX_TURNAROUND_HOURS = 72;
+
+export const vehicleSchedulingSettings = pgTable("vehicle_scheduling_settings", {
+  vehicleId: integer("vehicle_id").primaryKey().references(() => vehicles.id, { onDelete: "cascade" }),
+  turnaroundHours: integer("turnaround_hours").notNull(),
+  updatedByStaffId: integer("updated_by_staff_id"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Periods staff take a vehicle off the road. No rental can be booked over
+// one, and one can't be put over an existing rental.
+export const VEHICLE_BLACKOUT_REASONS = ["maintenance", "accident", "personal_use"] as const;
+export type VehicleBlackoutReason = (typeof VEHICLE_BLACKOUT_REASONS)[number];
+
+export const VEHICLE_BLACKOUT_REASON_LABELS: Record<VehicleBlackoutReason, string> = {
+  maintenance: "Maintenance",
+  accident: "Accident",
+  personal_use: "Personal Use",
+};
+
+export const vehicleBlackouts = pgTable("vehicle_blackouts", {
+  id: serial("id").primaryKey(),
+  vehicleId: integer("vehicle_id").references(() => vehicles.id, { onDelete: "cascade" }).notNull(),
+  reason: text("reason").notNull(),
+  note: text("note"),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  createdByStaffId: integer("created_by_staff_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const vehicleBlackoutSchema = z
+  .object({
+    reason: z.enum(VEHICLE_BLACKOUT_REASONS),
+    note: z.string().trim().max(500).optional(),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+  })
+  .refine((blackout) => blackout.endDate > blackout.startDate, {
+    message: "The block must end after it starts",
+    path: ["endDate"],
+  });
+
+export const vehicleTurnaroundSchema = z.object({
+  turnaroundHours: z.coerce.number().int().min(0).max(MAX_TURNAROUND_HOURS),
+});
+
+export type VehicleBlackoutInput = z.infer<typeof vehicleBlackoutSchema>;
+export type VehicleBlackout = typeof vehicleBlackouts.$inferSelect;
+export type VehicleSchedulingSettings = typeof vehicleSchedulingSettings.$inferSelect;
+
+// Offered to customers when the vehicle they asked for isn't free: the same
+// vehicle on the nearest free dates, or a similar vehicle on theirs.
+export interface AlternativeDates {
+  startDate: Date;
+  endDate: Date;
+  // Days earlier (negative) or later than the dates asked for
+  shiftDays: number;
+  estimatedTotal: number | null;
+}
+
+export interface AlternativeVehicle {
+  vehicle: Pick<Vehicle, "id" | "name" | "category" | "photoUrl" | "mileageLimit">;
+  // Average of what the vehicle has been rented for, when it has been
+  dailyRate: number | null;
+  estimatedTotal: number | null;
+}
+
+export interface BookingAlternatives {
+  dates: AlternativeDates[];
+  vehicles: AlternativeVehicle[];
+}
@@ -0,0 +1,83 @@
+import { pgTable, text, serial, integer, timestamp, decimal, real } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { rentals } from "./schema";
+import { VEHICLE_PHOTO_SLOTS, type VehiclePhotoSlot } from "./rentalSchema";
+
+// Outline drawings damage is marked on, as SVG paths in a 200x100 box. The
+// staff UI and the damage report PDF draw the same paths.
+export const VEHICLE_DIAGRAM_WIDTH = 200;
+export const VEHICLE_DIAGRAM_HEIGHT = 100;
+
+const SIDE_VIEW =
+  "M 10 70 L 10 55 Q 12 48 30 46 L 60 44 L 80 28 Q 85 24 95 24 L 135 24 Q 145 24 152 30 L 168 44 L 185 47 Q 192 50 192 58 L 192 70 Z " +
+  "M 40 70 a 12 12 0 1 0 24 0 a 12 12 0 1 0 -24 0 M 140 70 a 12 12 0 1 0 24 0 a 12 12 0 1 0 -24 0";
+const END_VIEW =
+  "M 40 80 L 40 50 Q 42 40 55 38 L 70 20 Q 72 16 80 16 L 120 16 Q 128 16 130 20 L 145 38 Q 158 40 160 50 L 160 80 Z " +
+  "M 50 80 L 50 92 L 70 92 L 70 80 M 130 80 L 130 92 L 150 92 L 150 80 " +
+  "M 72 36 L 128 36 L 120 22 L 80 22 Z M 48 52 L 68 52 L 68 60 L 48 60 Z M 132 52 L 152 52 L 152 60 L 132 60 Z";
+const TOP_VIEW =
+  "M 60 10 Q 40 10 35 30 L 35 70 Q 40 90 60 90 L 150 90 Q 175 90 180 70 L 180 30 Q 175 10 150 10 Z M 70 20 L 140 20 L 140 80 L 70 80 Z";
+const INTERIOR_VIEW =
+  "M 10 30 Q 100 5 190 30 L 190 60 L 10 60 Z M 40 60 a 25 25 0 0 1 50 0 M 120 35 L 170 35 L 170 55 L 120 55 Z";
+
+export const VEHICLE_DIAGRAMS: Record<VehiclePhotoSlot, string> = {
+  frontWithCustomer: END_VIEW,
+  front: END_VIEW,
+  back: END_VIEW,
+  left: SIDE_VIEW,
+  right: SIDE_VIEW,
+  interiorMileage: INTERIOR_VIEW,
+  knownDamage: TOP_VIEW,
+};
+
+export const DAMAGE_SEVERITIES = ["minor", "moderate", "severe"] as const;
+export type DamageSeverity = (typeof DAMAGE_SEVERITIES)[number];
+
+// Damage found when a vehicle comes back, compared against its handover
+// photos. Editable while the rental is returned; finalising it charges the
+// repair estimates against the deposit.
+export const damageInspections = pgTable("damage_inspections", {
+  id: serial("id").primaryKey(),
+  rentalId: integer("rental_id").references(() => rentals.id, { onDelete: "cascade" }).notNull().unique(),
+  reportPdfUrl: text("report_pdf_url"),
+  createdByStaffId: integer("created_by_staff_id"),
+  finalizedAt: timestamp("finalized_at"),
+  finalizedByStaffId: integer("finalized_by_staff_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// A damage mark on the vehicle diagram for one photo slot. x and y are
+// percentages of the diagram's width and height.
+export const damagePoints = pgTable("damage_points", {
+  id: serial("id").primaryKey(),
+  inspectionId: integer("inspection_id").references(() => damageInspections.id, { onDelete: "cascade" }).notNull(),
+  slot: text("slot").notNull(),
+  x: real("x").notNull(),
+  y: real("y").notNull(),
+  description: text("description").notNull(),
+  severity: text("severity").notNull().default("minor"),
+  repairEstimate: decimal("repair_estimate", { precision: 10, scale: 2 }).notNull(),
+  // Workshop quote number or similar, plus the quote itself if attached
+  estimateReference: text("estimate_reference"),
+  estimateDocumentUrl: text("estimate_document_url"),
+  createdByStaffId: integer("created_by_staff_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const damagePointSchema = z.object({
+  slot: z.enum(VEHICLE_PHOTO_SLOTS),
+  x: z.coerce.number().min(0).max(100),
+  y: z.coerce.number().min(0).max(100),
+  description: z.string().trim().min(1, "Describe the damage").max(500),
+  severity: z.enum(DAMAGE_SEVERITIES).default("minor"),
+  repairEstimate: z.coerce.number().min(0, "Repair estimate must be 0 or greater"),
+  estimateReference: z.string().trim().max(200).optional(),
+});
+
+export const updateDamagePointSchema = damagePointSchema.omit({ slot: true }).partial();
+
+export type DamageInspection = typeof damageInspections.$inferSelect;
+export type DamagePoint = typeof damagePoints.$inferSelect;
+export type InsertDamagePoint = typeof damagePoints.$inferInsert;
@@ -0,0 +1,360 @@
+import { pgTable, text, serial, integer, timestamp, decimal, jsonb, index } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { rentals, vehicles, type Rental } from "./schema";
+import { STAFF_PERMISSIONS, type StaffPermission } from "./authSchema";
+
+// Rental lifecycle:
+//   reserved -> checked_out -> on_rent -> returned -> closed
+// with cancelled and no_show as early exits. Status only changes through the
+// actions below; storage rejects anything else.
+export const RENTAL_STATUSES = ["reserved", "checked_out", "on_rent", "returned", "closed", "cancelled", "no_show"] as const;
+export type RentalStatus = (typeof RENTAL_STATUSES)[number];
+
+export const RENTAL_STATUS_LABELS: Record<RentalStatus, string> = {
+  reserved: "Reserved",
+  checked_out: "Checked Out",
+  on_rent: "On Rent",
+  returned: "Returned",
+  closed: "Closed",
+  cancelled: "Cancelled",
+  no_show: "No-show",
+};
+
+// Rentals in these statuses no longer hold their vehicle's dates.
+export const RELEASED_RENTAL_STATUSES: RentalStatus[] = ["cancelled", "no_show"];
+
+// Nothing further can happen to rentals in these statuses.
+export const FINAL_RENTAL_STATUSES: RentalStatus[] = ["closed", "cancelled", "no_show"];
+
+export const RENTAL_ACTIONS = ["check_out", "start", "return", "close", "cancel", "no_show"] as const;
+export type RentalAction = (typeof RENTAL_ACTIONS)[number];
+
+export interface RentalActionDefinition {
+  label: string;
+  from: RentalStatus[];
+  to: RentalStatus;
+  permission: StaffPermission;
+}
+
+export const RENTAL_ACTION_DEFINITIONS: Record<RentalAction, RentalActionDefinition> = {
+  // Handover paperwork done: photos, signature and payment recorded
+  check_out: { label: "Check Out", from: ["reserved"], to: "checked_out", permission: STAFF_PERMISSIONS.MANAGE_RENTALS },
+  // Keys handed over; the vehicle has left
+  start: { label: "Hand Over Keys", from: ["checked_out"], to: "on_rent", permission: STAFF_PERMISSIONS.MANAGE_RENTALS },
+  // Only through the vehicle check-in, which settles the deposit
+  return: { label: "Check In Return", from: ["on_rent"], to: "returned", permission: STAFF_PERMISSIONS.MANAGE_RENTALS },
+  close: { label: "Close Rental", from: ["returned"], to: "closed", permission: STAFF_PERMISSIONS.MANAGE_RENTALS },
+  cancel: { label: "Cancel", from: ["reserved", "checked_out"], to: "cancelled", permission: STAFF_PERMISSIONS.CANCEL_RENTAL },
+  no_show: { label: "No-show", from: ["reserved"], to: "no_show", permission: STAFF_PERMISSIONS.CANCEL_RENTAL },
+};
+
+// Rentals created before the lifecycle used "pending" for booking requests
+// converted to rentals, and "active"/"completed" once the agreement was done.
+// Those are read by dates until migrated.
+export function resolveRentalStatus(rental: { status: string; startDate: Date | string; endDate: Date | string }, now = new Date()): RentalStatus {
+  if ((RENTAL_STATUSES as readonly string[]).includes(rental.status)) {
+    return rental.status as RentalStatus;
+  }
+  if (rental.status === "pending") {
+    return "reserved";
+  }
+  if (new Date(rental.endDate) < now) {
+    return "closed";
+  }
+  return new Date(rental.startDate) <= now ? "on_rent" : "checked_out";
+}
+
+export function getAllowedRentalActions(status: RentalStatus, permissions?: StaffPermission[]): RentalAction[] {
+  return RENTAL_ACTIONS.filter((action) => {
+    const definition = RENTAL_ACTION_DEFINITIONS[action];
+    return definition.from.includes(status) && (!permissions || permissions.includes(definition.permission));
+  });
+}
+
+export const RENTAL_ACTOR_TYPES = ["staff", "customer", "system"] as const;
+export type RentalActorType = (typeof RENTAL_ACTOR_TYPES)[number];
+
+// Every status change of a rental, including its initial status.
+export const rentalStatusTransitions = pgTable("rental_status_transitions", {
+  id: serial("id").primaryKey(),
+  rentalId: integer("rental_id").references(() => rentals.id, { onDelete: "cascade" }).notNull(),
+  fromStatus: text("from_status"), // null for the initial status
+  toStatus: text("to_status").notNull(),
+  action: text("action").notNull(), // a RentalAction, "create" or "migrate"
+  actorType: text("actor_type").notNull(), // staff, customer, system
+  actorId: integer("actor_id"),
+  actorName: text("actor_name"),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const rentalTransitionSchema = z.object({
+  action: z.enum(RENTAL_ACTIONS),
+  note: z.string().trim().max(500).optional(),
+});
+
+export const rentalCancellationSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+export interface RentalActor {
+  type: RentalActorType;
+  id?: number;
+  name?: string;
+}
+
+// Slots the handover and return photos are taken in, in display order.
+// Photo objects are keyed by slot so the two can be compared.
+export const VEHICLE_PHOTO_SLOTS = ["frontWithCustomer", "front", "back", "left", "right", "interiorMileage", "knownDamage"] as const;
+export type VehiclePhotoSlot = (typeof VEHICLE_PHOTO_SLOTS)[number];
+export type VehiclePhotosBySlot = Partial<Record<VehiclePhotoSlot, string>>;
+
+export const VEHICLE_PHOTO_SLOT_LABELS: Record<VehiclePhotoSlot, string> = {
+  frontWithCustomer: "Front With Customer",
+  front: "Front",
+  back: "Back",
+  left: "Left Side",
+  right: "Right Side",
+  interiorMileage: "Interior/Mileage",
+  knownDamage: "Known Damage",
+};
+
+// Handover photos saved before they were keyed by slot (e.g. a plain
+// { photos: [...] } list) have no slots and are left out.
+export function getPhotosBySlot(photos: unknown): VehiclePhotosBySlot {
+  const bySlot: VehiclePhotosBySlot = {};
+  if (photos && typeof photos === "object" && !Array.isArray(photos)) {
+    for (const slot of VEHICLE_PHOTO_SLOTS) {
+      const url = (photos as Record<string, unknown>)[slot];
+      if (typeof url === "string" && url) {
+        bySlot[slot] = url;
+      }
+    }
+  }
+  return bySlot;
+}
+
+// Fuel is recorded in eighths of a tank: 0 is empty, 8 is full.
+export const FULL_TANK_FUEL_LEVEL = 8;
+
+export interface SettlementRates {
+  fuelChargePerEighth: number;
+  lateFeePerHour: number;
+  // Minutes after the agreed return time before late fees start
+  lateGraceMinutes: number;
+}
+
+// Within the ranges in the Terms & Conditions; staff can override them per
+// return.
+export const DEFAULT_SETTLEMENT_RATES: SettlementRates = {
+  fuelChargePerEighth: 25,
+  lateFeePerHour: 25,
+  lateGraceMinutes: 30,
+};
+
+export interface RentalDamageCharge {
+  description: string;
+  amount: number;
+}
+
+// Check-in record for a returned vehicle with its deposit settlement.
+// Amounts are fixed at check-in so later rate changes don't alter them.
+export const rentalReturns = pgTable("rental_returns", {
+  id: serial("id").primaryKey(),
+  rentalId: integer("rental_id").references(() => rentals.id, { onDelete: "cascade" }).notNull().unique(),
+  returnedAt: timestamp("returned_at").notNull(),
+  returnMileage: integer("return_mileage").notNull(),
+  returnFuelLevel: integer("return_fuel_level").notNull(),
+  returnPhotos: jsonb("return_photos").$type<VehiclePhotosBySlot>().default({}).notNull(),
+  distanceDriven: integer("distance_driven").notNull(),
+  mileageAllowance: integer("mileage_allowance").notNull(),
+  excessKm: integer("excess_km").notNull(),
+  mileageCharge: decimal("mileage_charge", { precision: 10, scale: 2 }).notNull(),
+  fuelShortfall: integer("fuel_shortfall").notNull(), // eighths of a tank
+  fuelCharge: decimal("fuel_charge", { precision: 10, scale: 2 }).notNull(),
+  lateHours: integer("late_hours").notNull(),
+  lateFee: decimal("late_fee", { precision: 10, scale: 2 }).notNull(),
+  damages: jsonb("damages").$type<RentalDamageCharge[]>().default([]).notNull(),
+  damageCharge: decimal("damage_charge", { precision: 10, scale: 2 }).notNull(),
+  totalCharges: decimal("total_charges", { precision: 10, scale: 2 }).notNull(),
+  depositHeld: decimal("deposit_held", { precision: 10, scale: 2 }).notNull(),
+  depositDeducted: decimal("deposit_deducted", { precision: 10, scale: 2 }).notNull(),
+  depositRefund: decimal("deposit_refund", { precision: 10, scale: 2 }).notNull(),
+  // Charges the deposit did not cover, still owed by the customer
+  balanceDue: decimal("balance_due", { precision: 10, scale: 2 }).notNull(),
+  rates: jsonb("rates").$type<SettlementRates>().notNull(),
+  notes: text("notes"),
+  checkedInByStaffId: integer("checked_in_by_staff_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Multipart form fields arrive as strings, so damages are sent as JSON.
+export const rentalReturnSchema = z.object({
+  returnMileage: z.coerce.number().int().min(0, "Return mileage must be 0 or greater"),
+  returnFuelLevel: z.coerce.number().int().min(0).max(FULL_TANK_FUEL_LEVEL),
+  returnedAt: z.coerce.date().optional(),
+  damages: z.preprocess(
+    (value) => (typeof value === "string" ? JSON.parse(value) : value),
+    z.array(z.object({
+      description: z.string().trim().min(1, "Describe the damage"),
+      amount: z.coerce.number().min(0, "Damage amount must be 0 or greater"),
+    }))
+  ).default([]),
+  fuelChargePerEighth: z.coerce.number().min(0).default(DEFAULT_SETTLEMENT_RATES.fuelChargePerEighth),
+  lateFeePerHour: z.coerce.number().min(0).default(DEFAULT_SETTLEMENT_RATES.lateFeePerHour),
+  notes: z.string().trim().max(1000).optional(),
+});
+
+export interface RentalSettlement {
+  distanceDriven: number;
+  mileageAllowance: number;
+  excessKm: number;
+  mileageCharge: number;
+  fuelShortfall: number;
+  fuelCharge: number;
+  lateHours: number;
+  lateFee: number;
+  damageCharge: number;
+  totalCharges: number;
+  depositHeld: number;
+  depositDeducted: number;
+  depositRefund: number;
+  balanceDue: number;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// Takes charges from the deposit first; whatever it doesn't cover is owed.
+export function applyDepositToCharges(depositHeld: number, totalCharges: number) {
+  const depositDeducted = Math.min(depositHeld, totalCharges);
+  return {
+    depositDeducted,
+    depositRefund: roundMoney(depositHeld - depositDeducted),
+    balanceDue: roundMoney(totalCharges - depositDeducted),
+  };
+}
+
+// Charges for a returned vehicle, taken from the deposit first. The mileage
+// limit is per day of the rental. Late returns are charged per started hour
+// once the grace period has passed.
+export function computeRentalSettlement(
+  rental: Pick<Rental, "currentMileage" | "fuelLevel" | "mileageLimit" | "extraMileageCharge" | "totalDays" | "endDate" | "deposit">,
+  returned: { returnMileage: number; returnFuelLevel: number; returnedAt: Date; damages: RentalDamageCharge[] },
+  rates: SettlementRates = DEFAULT_SETTLEMENT_RATES
+): RentalSettlement {
+  const distanceDriven = Math.max(0, returned.returnMileage - rental.currentMileage);
+  const mileageAllowance = rental.mileageLimit * rental.totalDays;
+  const excessKm = Math.max(0, distanceDriven - mileageAllowance);
+  const mileageCharge = roundMoney(excessKm * parseFloat(String(rental.extraMileageCharge)));
+
+  const fuelShortfall = Math.max(0, rental.fuelLevel - returned.returnFuelLevel);
+  const fuelCharge = roundMoney(fuelShortfall * rates.fuelChargePerEighth);
+
+  const minutesLate = (returned.returnedAt.getTime() - new Date(rental.endDate).getTime()) / 60000;
+  const lateHours = minutesLate > rates.lateGraceMinutes ? Math.ceil(minutesLate / 60) : 0;
+  const lateFee = roundMoney(lateHours * rates.lateFeePerHour);
+
+  const damageCharge = roundMoney(returned.damages.reduce((sum, damage) => sum + damage.amount, 0));
+  const totalCharges = roundMoney(mileageCharge + fuelCharge + lateFee + damageCharge);
+
+  const depositHeld = roundMoney(parseFloat(String(rental.deposit)) || 0);
+  return {
+    distanceDriven,
+    mileageAllowance,
+    excessKm,
+    mileageCharge,
+    fuelShortfall,
+    fuelCharge,
+    lateHours,
+    lateFee,
+    damageCharge,
+    totalCharges,
+    depositHeld,
+    ...applyDepositToCharges(depositHeld, totalCharges),
+  };
+}
+
+// The fleet vehicle a rental books. Scheduling matches on this id;
+// rentals.vehicle keeps the name as it was when the rental was made, so
+// renaming a vehicle doesn't rewrite (or lose) its history. Vehicles with
+// rentals can't be deleted.
+//
+// This stands in for a vehicle_id column on rentals. Like the other rental
+// side tables here it extends the core table from shared/schema.ts rather
+// than altering it. Keyed by rental id, it is one-to-one, so it reads as a
+// column would: join on rental_id, and the row goes when the rental does.
+// Rentals from before the fleet existed have no row until
+// linkRentalsToVehicles matches them by name; linkedAt records when.
+// It is the only record of the vehicle that scheduling reads, looking
+// rentals up by vehicle id through the index below; the name snapshot is
+// never matched on.
+export const rentalVehicles = pgTable("rental_vehicles", {
+  rentalId: integer("rental_id").primaryKey().references(() => rentals.id, { onDelete: "cascade" }),
+  vehicleId: integer("vehicle_id").references(() => vehicles.id).notNull(),
+  linkedAt: timestamp("linked_at").defaultNow().notNull(),
+}, (table) => [
+  index("rental_vehicles_vehicle_id_idx").on(table.vehicleId),
+]);
+
+// Extending or returning early moves the end date; the agreement itself is
+// left as signed and each change is issued as a numbered addendum.
+export const RENTAL_AMENDMENT_TYPES = ["extension", "early_return"] as const;
+export type RentalAmendmentType = (typeof RENTAL_AMENDMENT_TYPES)[number];
+
+export const RENTAL_AMENDMENT_LABELS: Record<RentalAmendmentType, string> = {
+  extension: "Extension",
+  early_return: "Early Return",
+};
+
+// The end date can change until the vehicle has been checked in.
+export const AMENDABLE_RENTAL_STATUSES: RentalStatus[] = ["reserved", "checked_out", "on_rent"];
+
+export const rentalAmendments = pgTable("rental_amendments", {
+  id: serial("id").primaryKey(),
+  rentalId: integer("rental_id").references(() => rentals.id, { onDelete: "cascade" }).notNull(),
+  // 1 for the rental's first addendum, 2 for the next, ...
+  amendmentNumber: integer("amendment_number").notNull(),
+  type: text("type").notNull(),
+  previousEndDate: timestamp("previous_end_date").notNull(),
+  newEndDate: timestamp("new_end_date").notNull(),
+  previousTotalDays: integer("previous_total_days").notNull(),
+  newTotalDays: integer("new_total_days").notNull(),
+  previousGrandTotal: decimal("previous_grand_total", { precision: 10, scale: 2 }).notNull(),
+  newGrandTotal: decimal("new_grand_total", { precision: 10, scale: 2 }).notNull(),
+  // Positive when the customer owes more, negative when they are refunded
+  priceDifference: decimal("price_difference", { precision: 10, scale: 2 }).notNull(),
+  reason: text("reason"),
+  addendumPdfUrl: text("addendum_pdf_url"),
+  amendedByStaffId: integer("amended_by_staff_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const rentalAmendmentSchema = z.object({
+  endDate: z.coerce.date(),
+  reason: z.string().trim().max(500).optional(),
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Started days between the two dates, as the rental form counts them.
+export function countRentalDays(startDate: Date | string, endDate: Date | string): number {
+  return Math.ceil((new Date(endDate).getTime() - new Date(startDate).getTime()) / DAY_MS);
+}
+
+// Prices the rental for a new end date at its agreed daily rate, deposit and
+// discount.
+export function repriceRental(
+  rental: Pick<Rental, "startDate" | "rentalPerDay" | "deposit" | "discount">,
+  endDate: Date
+): { totalDays: number; grandTotal: number } {
+  const totalDays = countRentalDays(rental.startDate, endDate);
+  const subtotal = parseFloat(String(rental.rentalPerDay)) * totalDays;
+  const grandTotal = subtotal + (parseFloat(String(rental.deposit)) || 0) - (parseFloat(String(rental.discount)) || 0);
+  return { totalDays, grandTotal: roundMoney(Math.max(0, grandTotal)) };
+}
+
+export type RentalStatusTransition = typeof rentalStatusTransitions.$inferSelect;
+export type RentalReturn = typeof rentalReturns.$inferSelect;
+export type InsertRentalReturn = typeof rentalReturns.$inferInsert;
+export type RentalAmendment = typeof rentalAmendments.$inferSelect;
+export type RentalVehicle = typeof rentalVehicles.$inferSelect;
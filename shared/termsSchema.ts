@@ -0,0 +1,71 @@
+import { pgTable, text, serial, integer, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { customers, rentals } from "./schema";
+
+// Terms & Conditions text, shared by the customer portal and the rental
+// agreement PDF. Clause titles are optional, e.g. for a closing paragraph.
+export const termsContentSchema = z.object({
+  introduction: z.string().trim().min(1, "Introduction is required"),
+  sections: z.array(z.object({
+    title: z.string().trim().min(1, "Section title is required"),
+    clauses: z.array(z.object({
+      title: z.string().trim().optional(),
+      text: z.string().trim().min(1, "Clause text is required"),
+    })).min(1, "Each section needs at least one clause"),
+  })).min(1, "At least one section is required"),
+});
+export type TermsContent = z.infer<typeof termsContentSchema>;
+
+// A version is editable while a draft; once published it is never changed,
+// so acceptances keep pointing at the exact text the customer saw. The
+// latest published version is the one customers must accept.
+export const termsVersions = pgTable("terms_versions", {
+  id: serial("id").primaryKey(),
+  version: text("version").notNull().unique(), // e.g. "2025.1"
+  content: jsonb("content").$type<TermsContent>().notNull(),
+  changeSummary: text("change_summary"),
+  createdByStaffId: integer("created_by_staff_id"),
+  publishedAt: timestamp("published_at"),
+  publishedByStaffId: integer("published_by_staff_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const termsAcceptances = pgTable("terms_acceptances", {
+  id: serial("id").primaryKey(),
+  customerId: integer("customer_id").references(() => customers.id, { onDelete: "cascade" }).notNull(),
+  termsVersionId: integer("terms_version_id").references(() => termsVersions.id).notNull(),
+  acceptedAt: timestamp("accepted_at").defaultNow().notNull(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+});
+
+// The acceptance a rental agreement was issued under. Regenerated agreements
+// keep printing these terms even after a newer version is published.
+export const rentalTermsAcceptances = pgTable("rental_terms_acceptances", {
+  id: serial("id").primaryKey(),
+  rentalId: integer("rental_id").references(() => rentals.id, { onDelete: "cascade" }).notNull().unique(),
+  termsAcceptanceId: integer("terms_acceptance_id").references(() => termsAcceptances.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertTermsVersionSchema = createInsertSchema(termsVersions, {
+  version: z.string().trim().min(1, "Version is required").max(50),
+  content: termsContentSchema,
+  changeSummary: z.string().trim().max(500).optional().nullable(),
+}).pick({
+  version: true,
+  content: true,
+  changeSummary: true,
+});
+
+export const acceptTermsSchema = z.object({
+  termsVersionId: z.coerce.number().int().positive(),
+});
+
+export type TermsVersion = typeof termsVersions.$inferSelect;
+export type InsertTermsVersion = z.infer<typeof insertTermsVersionSchema>;
+export type TermsAcceptance = typeof termsAcceptances.$inferSelect;
+export type InsertTermsAcceptance = typeof termsAcceptances.$inferInsert;
+export type RentalTermsAcceptance = typeof rentalTermsAcceptances.$inferSelect;
@@ -0,0 +1,55 @@
+import { pgTable, text, serial, integer, timestamp } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { customers, vehicles, bookingRequests } from "./schema";
+
+// Customers waiting for a fully booked vehicle. When the dates free up the
+// longest-waiting customer is offered them: a booking request is sent on
+// their behalf, holding the dates while staff confirm it.
+//   waiting -> offered
+// with cancelled (the customer left) and lapsed (the dates went by) as the
+// other outcomes.
+export const WAITLIST_STATUSES = ["waiting", "offered", "cancelled", "lapsed"] as const;
+export type WaitlistStatus = (typeof WAITLIST_STATUSES)[number];
+
+export const WAITLIST_STATUS_LABELS: Record<WaitlistStatus, string> = {
+  waiting: "Waiting",
+  offered: "Offered",
+  cancelled: "Left Waitlist",
+  lapsed: "Lapsed",
+};
+
+export const waitlistEntries = pgTable("waitlist_entries", {
+  id: serial("id").primaryKey(),
+  customerId: integer("customer_id").references(() => customers.id, { onDelete: "cascade" }).notNull(),
+  vehicleId: integer("vehicle_id").references(() => vehicles.id, { onDelete: "cascade" }).notNull(),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  status: text("status").notNull().default("waiting"),
+  // The request made for the customer when the dates were offered
+  bookingRequestId: integer("booking_request_id").references(() => bookingRequests.id, { onDelete: "set null" }),
+  offeredAt: timestamp("offered_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const waitlistEntrySchema = z
+  .object({
+    vehicleId: z.coerce.number().int().positive(),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+  })
+  .refine((entry) => entry.endDate > entry.startDate, {
+    message: "End date must be after start date",
+    path: ["endDate"],
+  })
+  .refine((entry) => entry.startDate > new Date(), {
+    message: "The dates have already started",
+    path: ["startDate"],
+  });
+
+export type WaitlistEntryInput = z.infer<typeof waitlistEntrySchema>;
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+
+// A waitlist entry as shown to the customer
+export interface CustomerWaitlistEntry extends WaitlistEntry {
+  vehicleName: string;
+}